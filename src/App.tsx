@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { Toaster } from './components/ui/toaster'
 import { useToast } from './hooks/use-toast'
 import { AIChatPanel } from './components/AIChatPanel'
@@ -7,6 +7,16 @@ import { SpreadsheetGrid } from './components/SpreadsheetGrid'
 import { Button } from './components/ui/button'
 import { Badge } from './components/ui/badge'
 import { Separator } from './components/ui/separator'
+import { NamedFunctionsDialog } from './components/NamedFunctionsDialog'
+import { NameManagerDialog } from './components/NameManagerDialog'
+import { SheetTabs } from './components/SheetTabs'
+import { WorkbooksDialog } from './components/WorkbooksDialog'
+import { SaveStatusIndicator } from './components/SaveStatusIndicator'
+import { SyncStatusIndicator } from './components/SyncStatusIndicator'
+import { SyncConflictsDialog } from './components/SyncConflictsDialog'
+import { CURRENT_VERSION, VersionHistoryPanel } from './components/VersionHistoryPanel'
+import { PasteSpecialDialog } from './components/PasteSpecialDialog'
+import { SettingsDialog } from './components/SettingsDialog'
 import { 
   Save, 
   Download, 
@@ -15,19 +25,317 @@ import {
   Sparkles,
   User,
   Settings,
-  Menu
+  Menu,
+  SquareFunction,
+  Tag,
+  FolderOpen,
+  Undo2,
+  Redo2,
+  History
 } from 'lucide-react'
-import { Cell, FormulaResult } from './types/spreadsheet'
-import { getCellId, detectCellType, evaluateFormula } from './utils/spreadsheet'
+import { Cell, DefinedName, FormulaResult, LineAxis, LineChange, NamedFunction, Workbook } from './types/spreadsheet'
+import { CellConflict, MergedWorkbook, WorkbookSummary, WorkbookVersion } from './types/storage'
+import { Command, EditHistory } from './types/history'
+import { Selection } from './types/selection'
+import { ClipboardData, ClipboardPayload, PasteOptions } from './types/clipboard'
+import { formatCellValue, getCellId, parseCellId } from './utils/spreadsheet'
+import {
+  columnRange,
+  fillSteps,
+  formatRange,
+  lastRange,
+  normalizeRange,
+  rangeCells,
+  rowRange,
+  selectCell,
+  selectRange
+} from './utils/selection'
+import { getCell } from './utils/cellStore'
+import { DEFAULT_PASTE, copyCells, pasteEdits, pastedSize, readClipboard, toPayload } from './utils/clipboard'
+import {
+  addSheet,
+  cellsReach,
+  changeLines,
+  createSheet,
+  createWorkbook,
+  deleteSheet,
+  duplicateSheet,
+  findSheetByName,
+  getSheet,
+  grownSize,
+  moveSheet,
+  nextSheetName,
+  renameSheet,
+  updateSheet,
+  validateSheetName
+} from './utils/workbook'
+import {
+  applyCellEdit,
+  applyCellEdits,
+  buildDependencyGraph,
+  buildWorkbookGraphs,
+  environmentFor,
+  fillCells,
+  moveCells,
+  propagateSheetChanges,
+  recalculateWorkbook,
+  registerDefinedNames
+} from './formula/engine'
+import { DependencyGraph, createDependencyGraph, getNameDependents, getSheetDependents } from './formula/dependencyGraph'
+import { fitToSheet, namesForSheet, resolveNavigationTarget } from './formula/names'
+import { MAX_COLS, MAX_ROWS } from './formula/parser'
 import { blink } from './blink/client'
+import { blinkStorage, blinkVersionStorage } from './storage/blinkStorage'
+import { createOfflineStorage } from './storage/offlineStorage'
+import { mergeWorkbooks } from './storage/merge'
+import { applyCommand, cellsCommand, commandSheetId, diffCells, groupCommands, workbookCommand } from './history/commands'
+import { EMPTY_HISTORY, recordCommand, takeRedo, takeUndo } from './history/history'
+import {
+  AUTO_VERSION_INTERVAL,
+  WorkbookDiff,
+  countDiff,
+  createVersion,
+  diffWorkbooks,
+  findVersionSheet,
+  pruneAutoVersions,
+  restoreRangeCommand,
+  restoreVersionCommand,
+  versionLabel
+} from './history/versions'
+import { useAutosave } from './hooks/use-autosave'
+import { useSync } from './hooks/use-sync'
+import { useSettings } from './hooks/use-settings'
+import { useCellStore } from './hooks/use-cell-store'
+
+// Workbooks are saved on this device first and synced to the Blink database when online
+const storage = createOfflineStorage(blinkStorage)
+// Versions need the connection; they are snapshots to go back to, not the working copy
+const versionStorage = blinkVersionStorage
+
+// Two versions shown side by side: the grid shows `to`, marked with what changed since `from`
+interface Comparison {
+  from: Workbook
+  to: Workbook
+  fromLabel: string
+  toLabel: string
+  diff: WorkbookDiff
+}
+
+// Sample data for demonstration
+const SAMPLE_CELLS: Record<string, Cell> = {
+  'A1': {
+    id: 'A1',
+    row: 0,
+    col: 0,
+    value: 'Product',
+    type: 'text'
+  },
+  'B1': {
+    id: 'B1',
+    row: 0,
+    col: 1,
+    value: 'Sales Q1',
+    type: 'text'
+  },
+  'C1': {
+    id: 'C1',
+    row: 0,
+    col: 2,
+    value: 'Sales Q2',
+    type: 'text'
+  },
+  'A2': {
+    id: 'A2',
+    row: 1,
+    col: 0,
+    value: 'Laptops',
+    type: 'text'
+  },
+  'B2': {
+    id: 'B2',
+    row: 1,
+    col: 1,
+    value: '15000',
+    type: 'number'
+  },
+  'C2': {
+    id: 'C2',
+    row: 1,
+    col: 2,
+    value: '18000',
+    type: 'number'
+  },
+  'A3': {
+    id: 'A3',
+    row: 2,
+    col: 0,
+    value: 'Phones',
+    type: 'text'
+  },
+  'B3': {
+    id: 'B3',
+    row: 2,
+    col: 1,
+    value: '25000',
+    type: 'number'
+  },
+  'C3': {
+    id: 'C3',
+    row: 2,
+    col: 2,
+    value: '28000',
+    type: 'number'
+  },
+  'A4': {
+    id: 'A4',
+    row: 3,
+    col: 0,
+    value: 'Tablets',
+    type: 'text'
+  },
+  'B4': {
+    id: 'B4',
+    row: 3,
+    col: 1,
+    value: '8000',
+    type: 'number'
+  },
+  'C4': {
+    id: 'C4',
+    row: 3,
+    col: 2,
+    value: '9500',
+    type: 'number'
+  }
+}
+
+const createSampleWorkbook = () => createWorkbook('Sales overview', [createSheet('Sheet1', SAMPLE_CELLS)])
 
 function App() {
-  const [cells, setCells] = useState<Record<string, Cell>>({})
-  const [selectedCell, setSelectedCell] = useState<{ row: number; col: number } | null>({ row: 0, col: 0 })
+  const [workbook, setWorkbook] = useState<Workbook>(() => createWorkbook('Untitled workbook'))
+  const [activeSheetId, setActiveSheetId] = useState(() => workbook.sheets[0].id)
+  const [selection, setSelection] = useState<Selection>(() => selectCell({ row: 0, col: 0 }))
   const [isEditing, setIsEditing] = useState(false)
+  const [showNamedFunctions, setShowNamedFunctions] = useState(false)
+  const [showNameManager, setShowNameManager] = useState(false)
+  const [showWorkbooks, setShowWorkbooks] = useState(false)
+  const [workbookList, setWorkbookList] = useState<WorkbookSummary[] | null>(null)
   const [user, setUser] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
+  const [isOpeningWorkbook, setIsOpeningWorkbook] = useState(true)
+  const [conflicts, setConflicts] = useState<CellConflict[]>([])
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [versions, setVersions] = useState<WorkbookVersion[] | null>(null)
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  // Copied cells waiting for Paste Special to say how to paste them
+  const [pendingPaste, setPendingPaste] = useState<ClipboardData | null>(null)
+  // The last block copied here, with the text it put on the clipboard to recognise it by
+  const copied = useRef<{ data: ClipboardData; text: string } | null>(null)
+  // When each workbook last had a periodic version taken in this session
+  const lastAutoVersionAt = useRef<Record<string, number>>({})
+  // One graph per sheet, keyed by sheet id; references to other sheets are tracked by name
+  const dependencyGraphs = useRef<Record<string, DependencyGraph>>({})
   const { toast } = useToast()
+  const { settings, updateSettings } = useSettings()
+  // Nothing is saved until the user's own workbook has replaced the placeholder
+  const {
+    status: saveStatus,
+    lastSavedAt,
+    save,
+    markSaved
+  } = useAutosave(storage, isOpeningWorkbook ? null : user?.id ?? null, workbook)
+
+  // For sync results, which arrive after the workbook may have moved on
+  const currentWorkbook = useRef(workbook)
+  useEffect(() => {
+    currentWorkbook.current = workbook
+  }, [workbook])
+
+  const activeSheet = getSheet(workbook, activeSheetId) ?? workbook.sheets[0]
+  const cells = activeSheet.cells
+  const { definedNames, namedFunctions } = workbook
+
+  const environment = useMemo(() => environmentFor(workbook, activeSheet.id), [workbook, activeSheet.id])
+
+  // While comparing, the grid shows the compared version's copy of the active sheet
+  const shownSheet = comparison
+    ? findVersionSheet(comparison.to, activeSheet) ?? comparison.to.sheets[0]
+    : activeSheet
+  const store = useCellStore(shownSheet.cells)
+
+  const graphFor = (sheetId: string) => {
+    if (!dependencyGraphs.current[sheetId]) dependencyGraphs.current[sheetId] = createDependencyGraph()
+    return dependencyGraphs.current[sheetId]
+  }
+
+  // Formulas rewritten outside the graph's knowledge (renamed sheets) need fresh graphs
+  const rebuildGraphs = (next: Workbook) => {
+    dependencyGraphs.current = buildWorkbookGraphs(next)
+  }
+
+  // Shows another workbook; one just loaded from storage starts out saved
+  const openWorkbook = useCallback((next: Workbook, fromStorage: boolean) => {
+    rebuildGraphs(next)
+    if (fromStorage) markSaved(next)
+    setWorkbook(next)
+    setActiveSheetId(next.sheets[0].id)
+    setSelection(selectCell({ row: 0, col: 0 }))
+    setIsEditing(false)
+    setIsOpeningWorkbook(false)
+    setConflicts([])
+    setHistory(EMPTY_HISTORY)
+    setComparison(null)
+  }, [markSaved])
+
+  // Every change the user makes goes through here, so that it can be undone
+  const commitWorkbook = useCallback((next: Workbook, command: Command | null) => {
+    setWorkbook(next)
+    setHistory(previous => recordCommand(previous, command))
+  }, [])
+
+  // A sync merged changes made elsewhere into a workbook. The open one takes them in,
+  // keeping whatever was edited here while the sync ran.
+  const handleMerged = useCallback(({ local, workbook: merged, conflicts: found }: MergedWorkbook) => {
+    const current = currentWorkbook.current
+    if (current.id !== merged.id) return
+
+    // Cells came from both sides, so every formula is recalculated
+    const next = mergeWorkbooks(local, current, merged).workbook
+    dependencyGraphs.current = buildWorkbookGraphs(next)
+    setWorkbook(recalculateWorkbook(next, dependencyGraphs.current, (_, sheet) => Object.keys(sheet.cells)))
+    const isNew = (conflict: CellConflict) =>
+      !found.some(other => other.sheetId === conflict.sheetId && other.cellId === conflict.cellId)
+    setConflicts(previous => [...previous.filter(isNew), ...found])
+  }, [])
+
+  const { status: syncStatus, pendingCount, sync } = useSync(storage, user?.id ?? null, handleMerged)
+
+  const resolveConflicts = (resolved: CellConflict[]) =>
+    setConflicts(previous => previous.filter(conflict => !resolved.includes(conflict)))
+
+  // Puts the other side's input back into each cell, as if typed here
+  const handleUseRemote = useCallback((resolved: CellConflict[]) => {
+    let next = workbook
+    const commands: (Command | null)[] = []
+    for (const sheet of workbook.sheets) {
+      const edits = resolved
+        .filter(conflict => conflict.sheetId === sheet.id)
+        .map(conflict => ({
+          ...parseCellId(conflict.cellId),
+          input: conflict.remote?.formula ?? conflict.remote?.value ?? '',
+          style: conflict.remote?.style
+        }))
+      if (edits.length === 0) continue
+
+      const cells = applyCellEdits(sheet.cells, graphFor(sheet.id), edits, environmentFor(next, sheet.id))
+      commands.push(cellsCommand('Use Synced Values', sheet.id, sheet.cells, cells))
+      next = propagateSheetChanges(updateSheet(next, sheet.id, { cells }), dependencyGraphs.current, sheet.id)
+    }
+    commitWorkbook(next, groupCommands('Use Synced Values', commands))
+    resolveConflicts(resolved)
+  }, [workbook, commitWorkbook])
 
   // Initialize auth
   useEffect(() => {
@@ -38,150 +346,532 @@ function App() {
     return unsubscribe
   }, [])
 
-  // Sample data for demonstration
+  // Opens the signed-in user's most recent workbook, or a sample one on first sign-in
   useEffect(() => {
-    if (user && Object.keys(cells).length === 0) {
-      const sampleCells: Record<string, Cell> = {
-        'A1': {
-          id: 'A1',
-          row: 0,
-          col: 0,
-          value: 'Product',
-          type: 'text'
-        },
-        'B1': {
-          id: 'B1',
-          row: 0,
-          col: 1,
-          value: 'Sales Q1',
-          type: 'text'
-        },
-        'C1': {
-          id: 'C1',
-          row: 0,
-          col: 2,
-          value: 'Sales Q2',
-          type: 'text'
-        },
-        'A2': {
-          id: 'A2',
-          row: 1,
-          col: 0,
-          value: 'Laptops',
-          type: 'text'
-        },
-        'B2': {
-          id: 'B2',
-          row: 1,
-          col: 1,
-          value: '15000',
-          type: 'number'
-        },
-        'C2': {
-          id: 'C2',
-          row: 1,
-          col: 2,
-          value: '18000',
-          type: 'number'
-        },
-        'A3': {
-          id: 'A3',
-          row: 2,
-          col: 0,
-          value: 'Phones',
-          type: 'text'
-        },
-        'B3': {
-          id: 'B3',
-          row: 2,
-          col: 1,
-          value: '25000',
-          type: 'number'
-        },
-        'C3': {
-          id: 'C3',
-          row: 2,
-          col: 2,
-          value: '28000',
-          type: 'number'
-        },
-        'A4': {
-          id: 'A4',
-          row: 3,
-          col: 0,
-          value: 'Tablets',
-          type: 'text'
-        },
-        'B4': {
-          id: 'B4',
-          row: 3,
-          col: 1,
-          value: '8000',
-          type: 'number'
-        },
-        'C4': {
-          id: 'C4',
-          row: 3,
-          col: 2,
-          value: '9500',
-          type: 'number'
-        }
+    if (!user) return
+    let cancelled = false
+
+    const openLatest = async () => {
+      try {
+        const [latest] = await storage.listWorkbooks(user.id)
+        const loaded = latest ? await storage.loadWorkbook(user.id, latest.id) : null
+        if (cancelled) return
+        if (loaded) openWorkbook(loaded, true)
+        else openWorkbook(createSampleWorkbook(), false)
+      } catch (error) {
+        console.error('Failed to load workbooks:', error)
+        if (cancelled) return
+        openWorkbook(createSampleWorkbook(), false)
+        toast({
+          title: "Could not load your workbooks",
+          description: "Changes will be saved once the connection is back.",
+          variant: "destructive"
+        })
       }
-      setCells(sampleCells)
     }
-  }, [user, cells])
 
-  const handleCellValueChange = useCallback((row: number, col: number, value: string) => {
-    const cellId = getCellId(row, col)
-    const type = detectCellType(value)
-    
-    let processedValue = value
-    if (type === 'formula') {
-      processedValue = evaluateFormula(value, cells)
+    openLatest()
+    return () => {
+      cancelled = true
     }
+  }, [user, openWorkbook, toast])
 
-    const newCell: Cell = {
-      id: cellId,
-      row,
-      col,
-      value: processedValue,
-      formula: type === 'formula' ? value : undefined,
-      type
+  // Ctrl/Cmd+S saves straight away instead of opening the browser's save dialog
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+        e.preventDefault()
+        save()
+      }
     }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [save])
+
+  const showStorageError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error)
+    toast({ title, description: "Please try again in a moment.", variant: "destructive" })
+  }, [toast])
+
+  const handleShowWorkbooks = useCallback(async () => {
+    if (!user) return
+    setShowWorkbooks(true)
+    setWorkbookList(null)
+    try {
+      setWorkbookList(await storage.listWorkbooks(user.id))
+    } catch (error) {
+      setWorkbookList([])
+      showStorageError('Could not load your workbooks', error)
+    }
+  }, [user, showStorageError])
+
+  const handleOpenWorkbook = useCallback(async (workbookId: string) => {
+    if (!user) return
+    try {
+      // The workbook being left keeps its latest changes
+      await save()
+      const loaded = await storage.loadWorkbook(user.id, workbookId)
+      if (!loaded) {
+        toast({ title: "Workbook not found", description: "It may have been deleted.", variant: "destructive" })
+        return
+      }
+      openWorkbook(loaded, true)
+      setShowWorkbooks(false)
+    } catch (error) {
+      showStorageError('Could not open the workbook', error)
+    }
+  }, [user, save, openWorkbook, toast, showStorageError])
+
+  const handleCreateWorkbook = useCallback(async () => {
+    await save()
+    openWorkbook(createWorkbook('Untitled workbook'), false)
+    setShowWorkbooks(false)
+  }, [save, openWorkbook])
+
+  const handleRenameWorkbook = useCallback(async (workbookId: string, name: string) => {
+    if (!user) return
+    setWorkbookList(list => list?.map(summary => (summary.id === workbookId ? { ...summary, name } : summary)) ?? null)
+    if (workbookId === workbook.id) {
+      // Saved along with the rest of the workbook
+      setWorkbook({ ...workbook, name, updatedAt: new Date() })
+      return
+    }
+    try {
+      await storage.renameWorkbook(user.id, workbookId, name)
+    } catch (error) {
+      showStorageError('Could not rename the workbook', error)
+    }
+  }, [user, workbook, showStorageError])
+
+  const handleDeleteWorkbook = useCallback(async (workbookId: string) => {
+    if (!user) return
+    try {
+      await storage.deleteWorkbook(user.id, workbookId)
+      const remaining = (workbookList ?? []).filter(summary => summary.id !== workbookId)
+      setWorkbookList(remaining)
+      if (workbookId !== workbook.id) return
+
+      const next = remaining.length > 0 ? await storage.loadWorkbook(user.id, remaining[0].id) : null
+      if (next) openWorkbook(next, true)
+      else openWorkbook(createWorkbook('Untitled workbook'), false)
+    } catch (error) {
+      showStorageError('Could not delete the workbook', error)
+    }
+  }, [user, workbook.id, workbookList, openWorkbook, showStorageError])
+
+  const loadVersions = useCallback(async () => {
+    if (!user) return
+    setVersions(null)
+    try {
+      setVersions(await versionStorage.listVersions(user.id, workbook.id))
+    } catch (error) {
+      setVersions([])
+      showStorageError('Could not load version history', error)
+    }
+  }, [user, workbook.id, showStorageError])
+
+  useEffect(() => {
+    if (showHistory) loadVersions()
+  }, [showHistory, loadVersions])
+
+  // Snapshots the workbook as it is now. Periodic versions fail quietly; a later save tries again.
+  const takeVersion = useCallback(async (kind: WorkbookVersion['kind'], name?: string) => {
+    if (!user) return
+    const snapshot = currentWorkbook.current
+    try {
+      await versionStorage.saveVersion(user.id, createVersion(snapshot, kind, name, user.email), snapshot)
+      if (kind === 'auto') await pruneAutoVersions(versionStorage, user.id, snapshot.id)
+      if (showHistory) loadVersions()
+    } catch (error) {
+      if (kind === 'named') showStorageError('Could not save the version', error)
+      else console.error('Failed to take a version:', error)
+    }
+  }, [user, showHistory, loadVersions, showStorageError])
+
+  // A save takes a periodic version when the last one is old enough
+  useEffect(() => {
+    if (!lastSavedAt) return
+    const workbookId = currentWorkbook.current.id
+    const previous = lastAutoVersionAt.current[workbookId]
+    if (previous !== undefined && lastSavedAt.getTime() - previous < AUTO_VERSION_INTERVAL) return
+    lastAutoVersionAt.current[workbookId] = lastSavedAt.getTime()
+    takeVersion('auto')
+  }, [lastSavedAt, takeVersion])
+
+  const handleCreateVersion = useCallback(async (name: string) => {
+    // The version holds the latest changes
+    await save()
+    await takeVersion('named', name)
+  }, [save, takeVersion])
+
+  const loadVersion = useCallback(async (versionId: string) => {
+    if (!user) return null
+    const loaded = await versionStorage.loadVersion(user.id, versionId)
+    if (!loaded) toast({ title: "Version not found", description: "It may have been deleted.", variant: "destructive" })
+    return loaded
+  }, [user, toast])
+
+  const labelFor = useCallback((versionId: string) => {
+    const version = versions?.find(candidate => candidate.id === versionId)
+    return version ? versionLabel(version) : 'Version'
+  }, [versions])
+
+  const handleCompare = useCallback(async (fromId: string, toId: string) => {
+    try {
+      const from = await loadVersion(fromId)
+      const to = toId === CURRENT_VERSION ? workbook : await loadVersion(toId)
+      if (!from || !to) return
+      setIsEditing(false)
+      setComparison({
+        from,
+        to,
+        fromLabel: labelFor(fromId),
+        toLabel: toId === CURRENT_VERSION ? 'Current' : labelFor(toId),
+        diff: diffWorkbooks(from, to)
+      })
+    } catch (error) {
+      showStorageError('Could not load the version', error)
+    }
+  }, [workbook, loadVersion, labelFor, showStorageError])
+
+  // Restoring is an edit like any other, so it can be undone
+  const applyRestore = useCallback((command: Command, sheetId?: string) => {
+    commitWorkbook(applyCommand(workbook, dependencyGraphs.current, command, 'after'), command)
+    setComparison(null)
+    setIsEditing(false)
+    if (sheetId) setActiveSheetId(sheetId)
+  }, [workbook, commitWorkbook])
+
+  const handleRestoreVersion = useCallback(async (versionId: string) => {
+    try {
+      const version = await loadVersion(versionId)
+      if (!version) return
+      const command = restoreVersionCommand(workbook, version)
+      if (command) applyRestore(command)
+      toast({ title: "Version restored", description: labelFor(versionId), duration: 2000 })
+    } catch (error) {
+      showStorageError('Could not restore the version', error)
+    }
+  }, [workbook, loadVersion, labelFor, applyRestore, toast, showStorageError])
+
+  const handleRestoreRange = useCallback(async (versionId: string, text: string) => {
+    const resolved = resolveNavigationTarget(text, namesForSheet(definedNames, activeSheet.id))
+    if (!resolved) return 'Enter a cell or range, like A1:C10'
+    const sheet = resolved.sheet ? findSheetByName(workbook, resolved.sheet) : activeSheet
+    if (!sheet) return `There is no sheet named ${resolved.sheet}`
+    const target = fitToSheet(resolved, sheet.rows, sheet.cols)
+    if (!target) return `${text.trim().toUpperCase()} is outside ${sheet.name}`
+
+    try {
+      const version = await loadVersion(versionId)
+      if (!version) return null
+      const versionSheet = findVersionSheet(version, sheet)
+      if (!versionSheet) return `${sheet.name} is not in this version`
+      const command = restoreRangeCommand(sheet, versionSheet, target.start, target.end)
+      if (!command) return 'The range already matches this version'
+      applyRestore(command, sheet.id)
+      toast({ title: "Range restored", description: `${text.trim().toUpperCase()} from ${labelFor(versionId)}`, duration: 2000 })
+      return null
+    } catch (error) {
+      showStorageError('Could not restore the range', error)
+      return null
+    }
+  }, [workbook, activeSheet, definedNames, loadVersion, labelFor, applyRestore, toast, showStorageError])
+
+  // Stores the active sheet's new cells as one undo step, then updates formulas on other
+  // sheets that read them. The sheet grows in the same step when cells land near its edge,
+  // or to reach as far as asked.
+  const commitCells = useCallback((nextCells: Record<string, Cell>, label: string, reach = { rows: 0, cols: 0 }) => {
+    const command = cellsCommand(label, activeSheet.id, activeSheet.cells, nextCells)
+    const changed = command?.type === 'cells' ? command.changes.flatMap(change => nextCells[change.cellId] ?? []) : []
+    const filled = cellsReach(changed)
+    const size = grownSize(activeSheet, Math.max(reach.rows, filled.rows), Math.max(reach.cols, filled.cols))
+    const grows = size.rows !== activeSheet.rows || size.cols !== activeSheet.cols
+    const next = updateSheet(workbook, activeSheet.id, grows ? { cells: nextCells, ...size } : { cells: nextCells })
+    commitWorkbook(
+      propagateSheetChanges(next, dependencyGraphs.current, activeSheet.id),
+      grows ? workbookCommand(label, workbook, next) : command
+    )
+  }, [workbook, activeSheet, commitWorkbook])
+
+  // Undo puts the workbook back to before the last step; redo replays it
+  const stepHistory = useCallback((direction: 'undo' | 'redo') => {
+    const step = direction === 'undo' ? takeUndo(history) : takeRedo(history)
+    if (!step) return
+
+    const [command, nextHistory] = step
+    setWorkbook(applyCommand(workbook, dependencyGraphs.current, command, direction === 'undo' ? 'before' : 'after'))
+    setHistory(nextHistory)
+    setIsEditing(false)
+    const sheetId = commandSheetId(command)
+    if (sheetId) setActiveSheetId(sheetId)
+  }, [workbook, history])
 
-    setCells(prev => ({
-      ...prev,
-      [cellId]: newCell
-    }))
+  const handleUndo = useCallback(() => stepHistory('undo'), [stepHistory])
+  const handleRedo = useCallback(() => stepHistory('redo'), [stepHistory])
+
+  const handleCellValueChange = useCallback((row: number, col: number, value: string) => {
+    const cellId = getCellId(row, col)
+    const nextCells = applyCellEdit(cells, graphFor(activeSheet.id), row, col, value, environment)
+    commitCells(nextCells, `Edit ${cellId}`)
 
     toast({
       title: "Cell Updated",
-      description: `${cellId} = ${processedValue}`,
+      description: `${cellId} = ${formatCellValue(nextCells[cellId])}`,
       duration: 2000
     })
-  }, [cells, toast])
+  }, [cells, activeSheet.id, environment, commitCells, toast])
 
-  const handleFormulaGenerated = useCallback((result: FormulaResult) => {
-    if (!selectedCell) return
+  // Names can refer to each other, so every formula using any of them recalculates, on every sheet
+  const updateNames = useCallback((nextDefinedNames: DefinedName[], nextFunctions: NamedFunction[]) => {
+    const changed = new Set(
+      [...definedNames, ...nextDefinedNames, ...namedFunctions, ...nextFunctions].map(definition => definition.name)
+    )
+    // Collected before the new definitions replace the ones that led here
+    const affected = Object.fromEntries(workbook.sheets.map(sheet => [
+      sheet.id,
+      [...changed].flatMap(name => getNameDependents(graphFor(sheet.id), name))
+    ]))
+
+    for (const sheet of workbook.sheets) {
+      registerDefinedNames(graphFor(sheet.id), namesForSheet(nextDefinedNames, sheet.id))
+    }
+    const next = { ...workbook, definedNames: nextDefinedNames, namedFunctions: nextFunctions, updatedAt: new Date() }
+    const result = recalculateWorkbook(next, dependencyGraphs.current, (_, sheet) => affected[sheet.id])
+    commitWorkbook(result, workbookCommand('Edit Names', workbook, result))
+  }, [workbook, definedNames, namedFunctions, commitWorkbook])
+
+  const handleNavigate = useCallback((text: string) => {
+    const resolved = resolveNavigationTarget(text, namesForSheet(definedNames, activeSheet.id))
+    if (!resolved) return false
+    const sheet = resolved.sheet ? findSheetByName(workbook, resolved.sheet) : activeSheet
+    if (!sheet) return false
+    const target = fitToSheet(resolved, sheet.rows, sheet.cols)
+    if (!target) return false
+    setActiveSheetId(sheet.id)
+    setSelection(selectRange(target.start, target.end))
+    return true
+  }, [workbook, definedNames, activeSheet])
+
+  // Formulas that named a sheet before it existed, or after it is gone, read it again
+  const recalculateSheetReaders = (next: Workbook, ...sheetNames: string[]) =>
+    recalculateWorkbook(next, dependencyGraphs.current, graph =>
+      sheetNames.flatMap(name => getSheetDependents(graph, name)))
+
+  const handleAddSheet = useCallback(() => {
+    const sheet = createSheet(nextSheetName(workbook))
+    dependencyGraphs.current[sheet.id] = buildDependencyGraph(sheet.cells, namesForSheet(definedNames, sheet.id))
+    const next = recalculateSheetReaders(addSheet(workbook, sheet), sheet.name)
+    commitWorkbook(next, workbookCommand('Add Sheet', workbook, next))
+    setActiveSheetId(sheet.id)
+  }, [workbook, definedNames, commitWorkbook])
+
+  const handleRenameSheet = useCallback((sheetId: string, name: string) => {
+    const problem = validateSheetName(workbook, name, sheetId)
+    if (problem) return problem
+
+    const renamed = renameSheet(workbook, sheetId, name.trim())
+    rebuildGraphs(renamed)
+    const next = recalculateSheetReaders(renamed, name.trim())
+    commitWorkbook(next, workbookCommand('Rename Sheet', workbook, next))
+    return null
+  }, [workbook, commitWorkbook])
+
+  const handleDuplicateSheet = useCallback((sheetId: string) => {
+    const duplicated = duplicateSheet(workbook, sheetId)
+    if (!duplicated) return
+
+    const { workbook: withCopy, sheet } = duplicated
+    dependencyGraphs.current[sheet.id] = buildDependencyGraph(sheet.cells, namesForSheet(withCopy.definedNames, sheet.id))
+    const next = recalculateSheetReaders(withCopy, sheet.name)
+    commitWorkbook(next, workbookCommand('Duplicate Sheet', workbook, next))
+    setActiveSheetId(sheet.id)
+  }, [workbook, commitWorkbook])
+
+  const handleDeleteSheet = useCallback((sheetId: string) => {
+    const index = workbook.sheets.findIndex(sheet => sheet.id === sheetId)
+    if (index === -1 || workbook.sheets.length <= 1) return
+
+    const deleted = workbook.sheets[index]
+    const remaining = deleteSheet(workbook, sheetId)
+    delete dependencyGraphs.current[sheetId]
+    const next = recalculateSheetReaders(remaining, deleted.name)
+    commitWorkbook(next, workbookCommand('Delete Sheet', workbook, next))
+    if (sheetId === activeSheet.id) {
+      setActiveSheetId(next.sheets[Math.min(index, next.sheets.length - 1)].id)
+    }
+  }, [workbook, activeSheet.id, commitWorkbook])
+
+  const handleMoveSheet = useCallback((sheetId: string, toIndex: number) => {
+    const next = moveSheet(workbook, sheetId, toIndex)
+    commitWorkbook(next, workbookCommand('Move Sheet', workbook, next))
+  }, [workbook, commitWorkbook])
+
+  // Cells shift and formulas are rewritten on every sheet, so the graphs start over. Only cells
+  // whose input changed are recalculated, with whatever reads them: rewritten formulas, and
+  // on the changed sheet every position that now holds something else. Its spilled arrays
+  // were dropped, so their formulas spill again. The lines that were inserted or moved end
+  // up selected.
+  const handleLinesChange = useCallback((change: LineChange) => {
+    const changed = changeLines(workbook, activeSheet.id, change)
+    rebuildGraphs(changed)
+    const rewrittenNames = changed.definedNames
+      .filter((definedName, i) => definedName.formula !== workbook.definedNames[i].formula)
+      .map(definedName => definedName.name)
+    const next = recalculateWorkbook(changed, dependencyGraphs.current, (graph, sheet) => {
+      const previous = getSheet(workbook, sheet.id)
+      const spills = sheet.id === activeSheet.id ? Object.values(sheet.cells).filter(cell => cell.spill) : []
+      return [
+        ...(previous ? diffCells(previous.cells, sheet.cells).map(cellChange => cellChange.cellId) : []),
+        ...spills.map(cell => cell.id),
+        ...rewrittenNames.flatMap(name => getNameDependents(graph, name))
+      ]
+    })
+    const noun = change.axis === 'rows' ? 'Rows' : 'Columns'
+    const verb = change.kind === 'insert' ? 'Insert' : change.kind === 'delete' ? 'Delete' : 'Move'
+    commitWorkbook(next, workbookCommand(`${verb} ${noun}`, workbook, next))
+
+    const sheet = getSheet(next, activeSheet.id) ?? activeSheet
+    const size = change.axis === 'rows' ? sheet.rows : sheet.cols
+    const first = change.kind === 'move' ? change.to : Math.min(change.at, size - 1)
+    const last = change.kind === 'delete' ? first : first + change.count - 1
+    const range = change.axis === 'rows' ? rowRange(first, last, sheet.cols) : columnRange(first, last, sheet.rows)
+    setSelection({ active: range.start, ranges: [range] })
+  }, [workbook, activeSheet, commitWorkbook])
+
+  // Sizes are per sheet and only the resized lines are kept, so a line back at its
+  // default size is dropped
+  const handleResize = useCallback((axis: LineAxis, sizes: Record<number, number | null>) => {
+    const key = axis === 'rows' ? 'rowHeights' : 'columnWidths'
+    const resized = { ...activeSheet[key] }
+    for (const [index, size] of Object.entries(sizes)) {
+      if (size === null) delete resized[Number(index)]
+      else resized[Number(index)] = size
+    }
+    const next = updateSheet(workbook, activeSheet.id, { [key]: resized })
+    commitWorkbook(next, workbookCommand(axis === 'rows' ? 'Row Height' : 'Column Width', workbook, next))
+  }, [workbook, activeSheet, commitWorkbook])
+
+  const handleSheetColorChange = useCallback((sheetId: string, color: string | undefined) => {
+    const next = updateSheet(workbook, sheetId, { color })
+    commitWorkbook(next, workbookCommand('Tab Color', workbook, next))
+  }, [workbook, commitWorkbook])
+
+  // Every selected range is filled, as one undo step
+  const handleFill = useCallback((direction: 'down' | 'right') => {
+    const steps = selection.ranges.flatMap(range => fillSteps(range, direction))
+    if (steps.length === 0) return
+
+    const graph = graphFor(activeSheet.id)
+    const nextCells = steps.reduce(
+      (current, { source, targets }) => fillCells(current, graph, source, targets, environment),
+      cells
+    )
+    commitCells(nextCells, direction === 'down' ? 'Fill Down' : 'Fill Right')
+  }, [cells, selection, activeSheet.id, environment, commitCells])
+
+  // Copies the last selected range, as shown; Excel does not copy several ranges at once either
+  const handleCopy = useCallback((cut: boolean): ClipboardPayload => {
+    const data = copyCells(store, lastRange(selection), activeSheet.id, cut)
+    const payload = toPayload(data)
+    copied.current = { data, text: payload.text }
+    return payload
+  }, [store, selection, activeSheet.id])
+
+  // Cut cells move: formulas that read them follow them, and their old place is cleared
+  const pasteCut = useCallback((
+    data: ClipboardData,
+    source: NonNullable<ClipboardData['source']>,
+    target: { row: number; col: number }
+  ) => {
+    const { start } = source.range
+    const size = pastedSize(data, false)
+    if (target.row + size.rows > activeSheet.rows || target.col + size.cols > activeSheet.cols) {
+      toast({ title: "The cut cells don't fit here", description: "Pick a cell further from the edge of the sheet.", variant: "destructive" })
+      return false
+    }
+
+    if (source.sheetId === activeSheet.id) {
+      commitCells(
+        moveCells(cells, graphFor(activeSheet.id), source.range, target.row - start.row, target.col - start.col, environment),
+        'Move'
+      )
+      return true
+    }
+
+    // From another sheet: the formulas keep their references as they were
+    const sourceSheet = getSheet(workbook, source.sheetId)
+    if (!sourceSheet) return false
+    const cleared = applyCellEdits(
+      sourceSheet.cells,
+      graphFor(sourceSheet.id),
+      rangeCells(source.range).map(({ row, col }) => ({ row, col, input: '' })),
+      environmentFor(workbook, sourceSheet.id)
+    )
+    let next = propagateSheetChanges(updateSheet(workbook, sourceSheet.id, { cells: cleared }), dependencyGraphs.current, sourceSheet.id)
+    const pasted = applyCellEdits(
+      cells,
+      graphFor(activeSheet.id),
+      pasteEdits({ ...data, source: undefined }, cells, target, DEFAULT_PASTE, activeSheet),
+      environmentFor(next, activeSheet.id)
+    )
+    next = propagateSheetChanges(updateSheet(next, activeSheet.id, { cells: pasted }), dependencyGraphs.current, activeSheet.id)
+    commitWorkbook(next, groupCommands('Move', [
+      cellsCommand('Move', sourceSheet.id, sourceSheet.cells, cleared),
+      cellsCommand('Move', activeSheet.id, cells, pasted)
+    ]))
+    return true
+  }, [workbook, cells, activeSheet, environment, commitCells, commitWorkbook, toast])
 
-    handleCellValueChange(selectedCell.row, selectedCell.col, result.formula)
+  // Pastes at the top-left of the last selected range and selects what was pasted
+  const pasteData = useCallback((data: ClipboardData, options: PasteOptions) => {
+    const target = normalizeRange(lastRange(selection)).start
+    if (data.cut && data.source && options.mode === 'all' && !options.transpose) {
+      if (!pasteCut(data, data.source, target)) return
+      // A cut block moves once
+      copied.current = null
+    } else {
+      // The sheet grows to take a block pasted past its edge
+      const size = pastedSize(data, options.transpose)
+      const reach = { rows: target.row + size.rows, cols: target.col + size.cols }
+      if (reach.rows > MAX_ROWS || reach.cols > MAX_COLS) {
+        toast({ title: "The copied cells don't fit here", description: "Pick a cell further from the edge of the sheet.", variant: "destructive" })
+        return
+      }
+      const edits = pasteEdits(data, cells, target, options, reach)
+      if (edits.length === 0) return
+      commitCells(
+        applyCellEdits(cells, graphFor(activeSheet.id), edits, environment),
+        options === DEFAULT_PASTE ? 'Paste' : 'Paste Special',
+        reach
+      )
+    }
+
+    const size = pastedSize(data, options.transpose)
+    setSelection(selectRange(target, { row: target.row + size.rows - 1, col: target.col + size.cols - 1 }))
+  }, [cells, selection, activeSheet, environment, commitCells, pasteCut, toast])
+
+  const handlePaste = useCallback((payload: ClipboardPayload, special: boolean) => {
+    const data = readClipboard(payload, copied.current)
+    if (!data) return
+    if (special) setPendingPaste(data)
+    else pasteData(data, DEFAULT_PASTE)
+  }, [pasteData])
+
+  const handleFormulaGenerated = useCallback((result: FormulaResult) => {
+    const { row, col } = selection.active
+    commitCells(applyCellEdit(cells, graphFor(activeSheet.id), row, col, result.formula, environment), 'AI Formula')
     
     toast({
       title: "AI Formula Applied",
       description: result.explanation,
       duration: 4000
     })
-  }, [selectedCell, handleCellValueChange, toast])
-
-  const getCurrentCell = () => {
-    if (!selectedCell) return null
-    const cellId = getCellId(selectedCell.row, selectedCell.col)
-    return cells[cellId] || null
-  }
+  }, [cells, selection, activeSheet.id, environment, commitCells, toast])
 
-  const currentCell = getCurrentCell()
+  const currentCell = getCell(store, selection.active.row, selection.active.col) || null
 
-  if (isLoading) {
+  if (isLoading || (user && isOpeningWorkbook)) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
@@ -225,9 +915,51 @@ function App() {
                 AI Powered
               </Badge>
             </div>
+            <Separator orientation="vertical" className="h-6" />
+            <div className="flex items-center gap-3">
+              <span className="text-sm font-medium">{workbook.name}</span>
+              <SaveStatusIndicator status={saveStatus} lastSavedAt={lastSavedAt} />
+              <SyncStatusIndicator status={syncStatus} pendingCount={pendingCount} onRetry={sync} />
+            </div>
           </div>
 
           <div className="flex items-center gap-3">
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleUndo}
+                disabled={history.undo.length === 0}
+                title={history.undo.length > 0 ? `Undo ${history.undo[history.undo.length - 1].label}` : 'Undo'}
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRedo}
+                disabled={history.redo.length === 0}
+                title={history.redo.length > 0 ? `Redo ${history.redo[history.redo.length - 1].label}` : 'Redo'}
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleShowWorkbooks}>
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Workbooks
+            </Button>
+            <Button variant={showHistory ? 'secondary' : 'outline'} size="sm" onClick={() => setShowHistory(!showHistory)}>
+              <History className="h-4 w-4 mr-2" />
+              History
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowNameManager(true)}>
+              <Tag className="h-4 w-4 mr-2" />
+              Names
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowNamedFunctions(true)}>
+              <SquareFunction className="h-4 w-4 mr-2" />
+              Functions
+            </Button>
             <Button variant="outline" size="sm">
               <Upload className="h-4 w-4 mr-2" />
               Import
@@ -236,10 +968,13 @@ function App() {
               <Download className="h-4 w-4 mr-2" />
               Export
             </Button>
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" onClick={() => save()} disabled={saveStatus === 'saving'}>
               <Save className="h-4 w-4 mr-2" />
               Save
             </Button>
+            <Button variant="ghost" size="sm" onClick={() => setShowSettings(true)} title="Settings">
+              <Settings className="h-4 w-4" />
+            </Button>
             <Separator orientation="vertical" className="h-6" />
             <Button
               variant="ghost"
@@ -256,44 +991,150 @@ function App() {
 
       {/* Formula Bar */}
       <FormulaBar
-        selectedCell={selectedCell}
+        selection={selection}
         cellValue={currentCell?.value || ''}
         cellFormula={currentCell?.formula}
         cellType={currentCell?.type || 'text'}
         onValueChange={(value) => {
-          if (selectedCell) {
-            handleCellValueChange(selectedCell.row, selectedCell.col, value)
-          }
+          handleCellValueChange(selection.active.row, selection.active.col, value)
         }}
         onConfirm={() => setIsEditing(false)}
         onCancel={() => setIsEditing(false)}
         isEditing={isEditing}
         onStartEdit={() => setIsEditing(true)}
+        onNavigate={handleNavigate}
       />
 
       {/* Main Content */}
       <div className="flex-1 flex">
         {/* Spreadsheet */}
-        <div className="flex-1">
+        <div className="flex-1 flex flex-col min-w-0">
+          {comparison && (
+            <div className="flex items-center justify-between px-4 py-2 bg-amber-50 border-b border-amber-200 text-sm">
+              <span>
+                Showing <span className="font-medium">{comparison.toLabel}</span>, with changes since{' '}
+                <span className="font-medium">{comparison.fromLabel}</span> highlighted
+              </span>
+              <Button size="sm" variant="outline" className="h-7" onClick={() => setComparison(null)}>
+                Stop Comparing
+              </Button>
+            </div>
+          )}
           <SpreadsheetGrid
-            cells={cells}
-            selectedCell={selectedCell}
-            onCellSelect={setSelectedCell}
+            store={store}
+            rows={shownSheet.rows}
+            cols={shownSheet.cols}
+            columnWidths={shownSheet.columnWidths}
+            rowHeights={shownSheet.rowHeights}
+            diff={comparison?.diff[shownSheet.id]}
+            readOnly={!!comparison}
+            renderer={settings.gridRenderer}
+            selection={selection}
+            onSelectionChange={setSelection}
             onCellValueChange={handleCellValueChange}
+            onFill={handleFill}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onCopy={handleCopy}
+            onPaste={handlePaste}
+            onLinesChange={handleLinesChange}
+            onResize={handleResize}
             isEditing={isEditing}
             onStartEdit={() => setIsEditing(true)}
             onStopEdit={() => setIsEditing(false)}
           />
+          <SheetTabs
+            sheets={workbook.sheets}
+            activeSheetId={activeSheet.id}
+            onSelect={(sheetId) => {
+              setActiveSheetId(sheetId)
+              setIsEditing(false)
+            }}
+            onAdd={handleAddSheet}
+            onRename={handleRenameSheet}
+            onDuplicate={handleDuplicateSheet}
+            onDelete={handleDeleteSheet}
+            onMove={handleMoveSheet}
+            onColorChange={handleSheetColorChange}
+          />
         </div>
 
+        {showHistory && (
+          <VersionHistoryPanel
+            versions={versions}
+            comparison={comparison && { ...comparison, counts: countDiff(comparison.diff) }}
+            defaultRange={formatRange(lastRange(selection))}
+            onCreate={handleCreateVersion}
+            onCompare={handleCompare}
+            onStopComparing={() => setComparison(null)}
+            onRestore={handleRestoreVersion}
+            onRestoreRange={handleRestoreRange}
+            onClose={() => {
+              setShowHistory(false)
+              setComparison(null)
+            }}
+          />
+        )}
+
         {/* AI Chat Panel */}
         <AIChatPanel
-          cells={cells}
-          selectedCell={selectedCell}
+          store={store}
+          selection={selection}
           onFormulaGenerated={handleFormulaGenerated}
         />
       </div>
 
+      <NamedFunctionsDialog
+        open={showNamedFunctions}
+        onOpenChange={setShowNamedFunctions}
+        namedFunctions={namedFunctions}
+        reservedNames={definedNames.filter(definedName => !definedName.scope).map(definedName => definedName.name)}
+        onChange={(nextFunctions) => updateNames(definedNames, nextFunctions)}
+      />
+
+      <NameManagerDialog
+        open={showNameManager}
+        onOpenChange={setShowNameManager}
+        definedNames={definedNames}
+        sheets={workbook.sheets}
+        reservedNames={namedFunctions.map(fn => fn.name)}
+        defaultFormula={`=${formatRange(lastRange(selection), true)}`}
+        onChange={(nextDefinedNames) => updateNames(nextDefinedNames, namedFunctions)}
+      />
+
+      <WorkbooksDialog
+        open={showWorkbooks}
+        onOpenChange={setShowWorkbooks}
+        workbooks={workbookList}
+        currentWorkbookId={workbook.id}
+        onOpen={handleOpenWorkbook}
+        onCreate={handleCreateWorkbook}
+        onRename={handleRenameWorkbook}
+        onDelete={handleDeleteWorkbook}
+      />
+
+      <PasteSpecialDialog
+        open={pendingPaste !== null}
+        onOpenChange={(open) => !open && setPendingPaste(null)}
+        onPaste={(options) => {
+          if (pendingPaste) pasteData(pendingPaste, options)
+          setPendingPaste(null)
+        }}
+      />
+
+      <SettingsDialog
+        open={showSettings}
+        onOpenChange={setShowSettings}
+        settings={settings}
+        onChange={updateSettings}
+      />
+
+      <SyncConflictsDialog
+        conflicts={conflicts}
+        onKeepLocal={resolveConflicts}
+        onUseRemote={handleUseRemote}
+      />
+
       <Toaster />
     </div>
   )
@@ -6,7 +6,14 @@ import { Card } from './ui/card'
 import { ScrollArea } from './ui/scroll-area'
 import { Badge } from './ui/badge'
 import { blink } from '../blink/client'
-import { FormulaResult } from '../types/spreadsheet'
+import { Cell, CellStore, FormulaResult } from '../types/spreadsheet'
+import { Selection } from '../types/selection'
+import { getCellId } from '../utils/spreadsheet'
+import { formatSelection, isSingleCell } from '../utils/selection'
+import { cellsInRange } from '../utils/cellStore'
+
+// Selected cells sent along with a question, so the answer can be about them
+const MAX_SELECTED_CELLS = 50
 
 interface Message {
   id: string
@@ -18,15 +25,15 @@ interface Message {
 }
 
 interface AIChatPanelProps {
-  cells: Record<string, any>
-  selectedCell: { row: number; col: number } | null
+  store: CellStore
+  selection: Selection
   onFormulaGenerated: (result: FormulaResult) => void
   className?: string
 }
 
 export const AIChatPanel: React.FC<AIChatPanelProps> = ({
-  cells,
-  selectedCell,
+  store,
+  selection,
   onFormulaGenerated,
   className = ''
 }) => {
@@ -62,9 +69,8 @@ export const AIChatPanel: React.FC<AIChatPanelProps> = ({
     }
   }
 
-  const getCellId = (row: number, col: number) => {
-    return String.fromCharCode(65 + col) + (row + 1)
-  }
+  // Formulas go into the active cell
+  const activeId = getCellId(selection.active.row, selection.active.col)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -95,15 +101,28 @@ export const AIChatPanel: React.FC<AIChatPanelProps> = ({
 
     try {
       // Prepare context about the spreadsheet
-      const cellData = Object.values(cells).slice(0, 20).map(cell => ({
+      const cellData = (store.usedRange ? cellsInRange(store, store.usedRange) : []).slice(0, 20).map(cell => ({
         id: cell.id,
         value: cell.value,
         type: cell.type
       }))
 
+      // Read from the cells that hold something, since a selection can span whole rows and
+      // columns; ranges picked with Ctrl/Cmd+click may overlap
+      const selectedCells = new Map<string, Cell>()
+      for (const range of selection.ranges) {
+        for (const cell of cellsInRange(store, range)) {
+          if (selectedCells.size < MAX_SELECTED_CELLS) selectedCells.set(cell.id, cell)
+        }
+      }
+      const selectedData = Array.from(selectedCells.values())
+        .map(cell => ({ id: cell.id, value: cell.value, type: cell.type }))
+
       const context = `
 Current spreadsheet context:
-- Selected cell: ${selectedCell ? getCellId(selectedCell.row, selectedCell.col) : 'None'}
+- Selected cell: ${activeId}${isSingleCell(selection) ? '' : `
+- Selected range: ${formatSelection(selection)}
+- Selected data: ${JSON.stringify(selectedData)}`}
 - Sample data: ${JSON.stringify(cellData)}
 
 User request: ${input.trim()}
@@ -145,7 +164,7 @@ Please provide helpful assistance for this spreadsheet task. If the user is aski
           const applyMessage: Message = {
             id: (Date.now() + 2).toString(),
             role: 'assistant',
-            content: `Would you like me to apply this formula to ${selectedCell ? getCellId(selectedCell.row, selectedCell.col) : 'the selected cell'}?`,
+            content: `Would you like me to apply this formula to ${activeId}?`,
             timestamp: new Date(),
             formula
           }
@@ -177,21 +196,19 @@ Please provide helpful assistance for this spreadsheet task. If the user is aski
   }
 
   const handleApplyFormula = (formula: string) => {
-    if (selectedCell) {
-      onFormulaGenerated({
-        formula,
-        explanation: 'Applied from AI chat',
-        confidence: 90
-      })
-      
-      const confirmMessage: Message = {
-        id: Date.now().toString(),
-        role: 'assistant',
-        content: `✅ Formula applied to ${getCellId(selectedCell.row, selectedCell.col)}!`,
-        timestamp: new Date()
-      }
-      setMessages(prev => [...prev, confirmMessage])
+    onFormulaGenerated({
+      formula,
+      explanation: 'Applied from AI chat',
+      confidence: 90
+    })
+
+    const confirmMessage: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: `✅ Formula applied to ${activeId}!`,
+      timestamp: new Date()
     }
+    setMessages(prev => [...prev, confirmMessage])
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -268,16 +285,14 @@ Please provide helpful assistance for this spreadsheet task. If the user is aski
                       <code className="text-green-400 font-mono text-xs">
                         {message.formula}
                       </code>
-                      {selectedCell && (
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => handleApplyFormula(message.formula!)}
-                          className="mt-2 h-7 text-xs bg-green-600/20 border-green-600 text-green-400 hover:bg-green-600/30"
-                        >
-                          Apply to {getCellId(selectedCell.row, selectedCell.col)}
-                        </Button>
-                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleApplyFormula(message.formula!)}
+                        className="mt-2 h-7 text-xs bg-green-600/20 border-green-600 text-green-400 hover:bg-green-600/30"
+                      >
+                        Apply to {activeId}
+                      </Button>
                     </div>
                   )}
                 </div>
@@ -335,11 +350,9 @@ Please provide helpful assistance for this spreadsheet task. If the user is aski
             </Button>
           </div>
           
-          {selectedCell && (
-            <div className="text-xs text-gray-400">
-              Selected: {getCellId(selectedCell.row, selectedCell.col)}
-            </div>
-          )}
+          <div className="text-xs text-gray-400 truncate">
+            Selected: {formatSelection(selection)}
+          </div>
         </form>
       </div>
     </div>
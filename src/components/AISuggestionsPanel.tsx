@@ -14,18 +14,19 @@ import {
   ChevronRight,
   Loader2
 } from 'lucide-react'
-import { Cell, AIAnalysis, ChartRecommendation } from '../types/spreadsheet'
+import { CellStore, AIAnalysis, ChartRecommendation } from '../types/spreadsheet'
 import { blink } from '../blink/client'
+import { cellsInRange } from '../utils/cellStore'
 
 interface AISuggestionsPanelProps {
-  cells: Record<string, Cell>
+  store: CellStore
   selectedCell: { row: number; col: number } | null
   onApplySuggestion: (suggestion: string) => void
   className?: string
 }
 
 export const AISuggestionsPanel: React.FC<AISuggestionsPanelProps> = ({
-  cells,
+  store,
   selectedCell,
   onApplySuggestion,
   className = ''
@@ -35,7 +36,9 @@ export const AISuggestionsPanel: React.FC<AISuggestionsPanelProps> = ({
   const [lastAnalyzedData, setLastAnalyzedData] = useState<string>('')
 
   const analyzeData = useCallback(async () => {
-    const cellValues = Object.values(cells).filter(cell => cell.value).map(cell => cell.value)
+    // Row by row from the top-left, so the sample reads like the sheet does
+    const used = store.usedRange ? cellsInRange(store, store.usedRange) : []
+    const cellValues = used.filter(cell => cell.value).map(cell => cell.value)
     if (cellValues.length === 0) return
 
     const dataString = JSON.stringify(cellValues)
@@ -101,17 +104,17 @@ export const AISuggestionsPanel: React.FC<AISuggestionsPanelProps> = ({
     } finally {
       setIsLoading(false)
     }
-  }, [cells, lastAnalyzedData])
+  }, [store, lastAnalyzedData])
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      if (Object.keys(cells).length > 0) {
+      if (store.size > 0) {
         analyzeData()
       }
     }, 1000)
 
     return () => clearTimeout(timer)
-  }, [cells, analyzeData])
+  }, [store, analyzeData])
 
   const getChartIcon = (type: ChartRecommendation['type']) => {
     switch (type) {
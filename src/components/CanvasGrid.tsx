@@ -0,0 +1,375 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Cell, CellStore, LineAxis } from '../types/spreadsheet'
+import { CellAddress } from '../types/formula'
+import { Selection } from '../types/selection'
+import { CellDiff, CellDiffKind } from '../history/versions'
+import { ERROR_DESCRIPTIONS } from '../formula/errors'
+import { columnToLetter, formatCellValue, getCellId } from '../utils/spreadsheet'
+import { cellsInRange } from '../utils/cellStore'
+import {
+  CELL_FONT_SIZE,
+  CELL_PADDING,
+  FONT_FAMILY,
+  GridLayout,
+  GridTarget,
+  HEADER_HEIGHT,
+  HEADER_WIDTH,
+  ScrollPosition,
+  ViewportSize,
+  hitTest,
+  lineSize,
+  lineStart,
+  resizeEdgeAt,
+  spanSize,
+  visibleWindow
+} from '../utils/gridLayout'
+import {
+  isCellSelected,
+  isColumnSelected,
+  isRowSelected,
+  isSingleCell,
+  normalizeRange,
+  selectionTouchesColumn,
+  selectionTouchesRow
+} from '../utils/selection'
+
+interface CanvasGridProps {
+  store: CellStore
+  selection: Selection
+  diff?: Record<string, CellDiff>
+  // Left unpainted; the grid puts its input there
+  editingCell: CellAddress | null
+  layout: GridLayout
+  scroll: ScrollPosition
+  viewport: ViewportSize
+  onCellMouseDown: (e: React.MouseEvent, row: number, col: number) => void
+  onCellMouseEnter: (row: number, col: number) => void
+  onCellDoubleClick: (row: number, col: number) => void
+  onRowHeaderMouseDown: (e: React.MouseEvent, row: number) => void
+  onRowHeaderMouseEnter: (row: number) => void
+  onColumnHeaderMouseDown: (e: React.MouseEvent, col: number) => void
+  onColumnHeaderMouseEnter: (col: number) => void
+  onSelectAll: () => void
+  onRowHeaderContextMenu: (row: number) => void
+  onColumnHeaderContextMenu: (col: number) => void
+  // Dragging a header border resizes, double-clicking it fits; borders are inert without these
+  onResizeStart?: (e: React.MouseEvent, axis: LineAxis, index: number) => void
+  onAutoFit?: (axis: LineAxis, index: number) => void
+}
+
+// The same colours the DOM grid gets from its Tailwind classes
+const COLORS = {
+  background: '#ffffff',
+  gridline: '#e5e7eb',
+  text: '#111827',
+  header: '#f3f4f6',
+  headerTouched: '#dbeafe',
+  headerSelected: '#bfdbfe',
+  headerText: '#374151',
+  selection: 'rgba(59, 130, 246, 0.15)',
+  spill: '#3b82f6',
+  removedText: '#b91c1c'
+}
+
+const DIFF_FILLS: Record<CellDiffKind, string> = {
+  added: '#dcfce7',
+  removed: '#fee2e2',
+  changed: '#fef3c7'
+}
+
+interface ThemeColors {
+  primary: string
+  error: string
+  errorFill: string
+  formulaFill: string
+}
+
+// Theme colours are CSS variables holding "H S% L%". They are read once for each paint,
+// so a change of theme shows on the next one.
+const readThemeColors = (): ThemeColors => {
+  const style = getComputedStyle(document.documentElement)
+  const color = (name: string, alpha = 1) => {
+    const value = style.getPropertyValue(name).trim()
+    return value ? `hsla(${value.split(/\s+/).join(', ')}, ${alpha})` : `rgba(0, 0, 0, ${alpha})`
+  }
+  return {
+    primary: color('--primary'),
+    error: color('--destructive'),
+    errorFill: color('--destructive', 0.05),
+    formulaFill: color('--accent', 0.05)
+  }
+}
+
+const sameTarget = (a: GridTarget | null, b: GridTarget | null) => JSON.stringify(a) === JSON.stringify(b)
+
+// Text shown when the pointer rests on a cell with an error or a change, like the DOM grid's tooltips
+const describeCell = (cell: Cell | undefined, change: CellDiff | undefined): string => {
+  if (change) {
+    const was = change.before ? `Was: ${change.before.formula ?? formatCellValue(change.before)}` : ''
+    const now = change.after ? `Now: ${change.after.formula ?? formatCellValue(change.after)}` : ''
+    return [change.kind, was, now].filter(Boolean).join('\n')
+  }
+  if (cell?.error) return `${cell.error.code}\n${ERROR_DESCRIPTIONS[cell.error.code]}`
+  return ''
+}
+
+interface PaintOptions {
+  store: CellStore
+  selection: Selection
+  diff?: Record<string, CellDiff>
+  editingCell: CellAddress | null
+  layout: GridLayout
+  scroll: ScrollPosition
+  viewport: ViewportSize
+  theme: ThemeColors
+}
+
+const paintGrid = (ctx: CanvasRenderingContext2D, options: PaintOptions) => {
+  const { store, selection, diff, editingCell, layout, scroll, viewport, theme } = options
+  const rows = layout.rows.count
+  const cols = layout.cols.count
+  const { firstRow, lastRow, firstCol, lastCol } = visibleWindow(scroll, viewport, layout, false)
+  const x = (col: number) => HEADER_WIDTH + lineStart(layout.cols, col) - scroll.left
+  const y = (row: number) => HEADER_HEIGHT + lineStart(layout.rows, row) - scroll.top
+  const width = (first: number, last = first) => spanSize(layout.cols, first, last)
+  const height = (first: number, last = first) => spanSize(layout.rows, first, last)
+
+  ctx.fillStyle = COLORS.background
+  ctx.fillRect(0, 0, viewport.width, viewport.height)
+  ctx.textBaseline = 'middle'
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    const rowHeight = lineSize(layout.rows, row)
+    for (let col = firstCol; col <= lastCol; col++) {
+      const columnWidth = lineSize(layout.cols, col)
+      const cellId = getCellId(row, col)
+      const cell = store.cells[cellId]
+      const change = diff?.[cellId]
+      const left = x(col)
+      const top = y(row)
+
+      const fill = change
+        ? DIFF_FILLS[change.kind]
+        : cell?.style?.backgroundColor ??
+          (cell?.error ? theme.errorFill : cell?.type === 'formula' ? theme.formulaFill : null)
+      if (fill) {
+        ctx.fillStyle = fill
+        ctx.fillRect(left, top, columnWidth, rowHeight)
+      }
+      if (isCellSelected(selection, row, col)) {
+        ctx.fillStyle = COLORS.selection
+        ctx.fillRect(left, top, columnWidth, rowHeight)
+      }
+
+      const isEditing = editingCell?.row === row && editingCell?.col === col
+      const shown = change?.kind === 'removed' ? change.before : cell
+      if (!shown || isEditing) continue
+      const text = formatCellValue(shown)
+      if (!text) continue
+
+      const bold = !!cell?.error || shown.style?.fontWeight === 'bold'
+      ctx.font = `${bold ? 'bold ' : ''}${shown.style?.fontSize ?? CELL_FONT_SIZE}px ${FONT_FAMILY}`
+      ctx.fillStyle = change?.kind === 'removed'
+        ? COLORS.removedText
+        : shown.style?.textColor ?? (cell?.error ? theme.error : COLORS.text)
+      const align = shown.style?.textAlign ??
+        (cell?.error ? 'center' : shown.type === 'number' || shown.type === 'date' ? 'right' : 'left')
+      const textX = align === 'center' ? left + columnWidth / 2 : align === 'right' ? left + columnWidth - CELL_PADDING : left + CELL_PADDING
+      ctx.textAlign = align
+
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(left, top, columnWidth, rowHeight)
+      ctx.clip()
+      ctx.fillText(text, textX, top + rowHeight / 2)
+      if (change?.kind === 'removed') {
+        const textWidth = ctx.measureText(text).width
+        const start = align === 'center' ? textX - textWidth / 2 : align === 'right' ? textX - textWidth : textX
+        ctx.fillRect(start, top + rowHeight / 2, textWidth, 1)
+      }
+      ctx.restore()
+    }
+  }
+
+  // Gridlines
+  ctx.strokeStyle = COLORS.gridline
+  ctx.lineWidth = 1
+  ctx.beginPath()
+  for (let row = firstRow; row <= lastRow + 1; row++) {
+    ctx.moveTo(HEADER_WIDTH, y(row) + 0.5)
+    ctx.lineTo(viewport.width, y(row) + 0.5)
+  }
+  for (let col = firstCol; col <= lastCol + 1; col++) {
+    ctx.moveTo(x(col) + 0.5, HEADER_HEIGHT)
+    ctx.lineTo(x(col) + 0.5, viewport.height)
+  }
+  ctx.stroke()
+
+  // Outlines around spilled arrays with any part in view, found from the cells they fill
+  ctx.strokeStyle = COLORS.spill
+  const anchors = new Set<Cell>()
+  for (const cell of cellsInRange(store, { start: { row: firstRow, col: firstCol }, end: { row: lastRow, col: lastCol } })) {
+    const anchor = cell.spillAnchor ? store.cells[cell.spillAnchor] : cell
+    if (anchor?.spill && !anchor.error) anchors.add(anchor)
+  }
+  for (const cell of anchors) {
+    if (!cell.spill) continue
+    ctx.strokeRect(x(cell.col) + 0.5, y(cell.row) + 0.5, width(cell.col, cell.col + cell.spill.cols - 1) - 1, height(cell.row, cell.row + cell.spill.rows - 1) - 1)
+  }
+
+  // Selection: each range outlined, the active cell in a heavier border
+  ctx.strokeStyle = theme.primary
+  if (!isSingleCell(selection)) {
+    ctx.lineWidth = 1
+    for (const range of selection.ranges) {
+      const { start, end } = normalizeRange(range)
+      ctx.strokeRect(x(start.col) + 0.5, y(start.row) + 0.5, width(start.col, end.col) - 1, height(start.row, end.row) - 1)
+    }
+  }
+  ctx.lineWidth = 2
+  ctx.strokeRect(x(selection.active.col) + 1, y(selection.active.row) + 1, width(selection.active.col) - 2, height(selection.active.row) - 2)
+
+  // Headers last, so cells scrolled under them are hidden
+  ctx.font = `500 12px ${FONT_FAMILY}`
+  ctx.textAlign = 'center'
+  ctx.lineWidth = 1
+  ctx.strokeStyle = COLORS.gridline
+  const paintHeader = (left: number, top: number, width: number, height: number, label: string, touched: boolean, whole: boolean) => {
+    ctx.fillStyle = whole ? COLORS.headerSelected : touched ? COLORS.headerTouched : COLORS.header
+    ctx.fillRect(left, top, width, height)
+    ctx.strokeRect(left + 0.5, top + 0.5, width - 1, height - 1)
+    ctx.fillStyle = whole ? theme.primary : COLORS.headerText
+    ctx.fillText(label, left + width / 2, top + height / 2)
+  }
+  for (let col = firstCol; col <= lastCol; col++) {
+    paintHeader(x(col), 0, width(col), HEADER_HEIGHT, columnToLetter(col),
+      selectionTouchesColumn(selection, col), isColumnSelected(selection, col, rows))
+  }
+  for (let row = firstRow; row <= lastRow; row++) {
+    paintHeader(0, y(row), HEADER_WIDTH, height(row), String(row + 1),
+      selectionTouchesRow(selection, row), isRowSelected(selection, row, cols))
+  }
+  paintHeader(0, 0, HEADER_WIDTH, HEADER_HEIGHT, '', false, false)
+}
+
+// Paints the cells in view onto one canvas that stays put while the content scrolls under it.
+// Pointer events are mapped back to cells and headers for the grid to handle.
+export const CanvasGrid: React.FC<CanvasGridProps> = ({
+  store,
+  selection,
+  diff,
+  editingCell,
+  layout,
+  scroll,
+  viewport,
+  onCellMouseDown,
+  onCellMouseEnter,
+  onCellDoubleClick,
+  onRowHeaderMouseDown,
+  onRowHeaderMouseEnter,
+  onColumnHeaderMouseDown,
+  onColumnHeaderMouseEnter,
+  onSelectAll,
+  onRowHeaderContextMenu,
+  onColumnHeaderContextMenu,
+  onResizeStart,
+  onAutoFit
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const hovered = useRef<GridTarget | null>(null)
+  const [title, setTitle] = useState('')
+  // The border under the pointer, which changes the cursor
+  const [edge, setEdge] = useState<LineAxis | null>(null)
+  const resizable = !!onResizeStart
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || viewport.width === 0) return
+
+    // Sharp text on high-density screens
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = Math.round(viewport.width * ratio)
+    canvas.height = Math.round(viewport.height * ratio)
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+    paintGrid(ctx, { store, selection, diff, editingCell, layout, scroll, viewport, theme: readThemeColors() })
+  }, [store, selection, diff, editingCell, layout, scroll, viewport])
+
+  const targetAt = (e: React.MouseEvent) => {
+    const bounds = e.currentTarget.getBoundingClientRect()
+    return hitTest(e.clientX - bounds.left, e.clientY - bounds.top, scroll, layout)
+  }
+
+  const edgeAt = (e: React.MouseEvent) => {
+    if (!resizable) return null
+    const bounds = e.currentTarget.getBoundingClientRect()
+    return resizeEdgeAt(e.clientX - bounds.left, e.clientY - bounds.top, scroll, layout)
+  }
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const border = edgeAt(e)
+    if (border) {
+      onResizeStart?.(e, border.axis, border.index)
+      return
+    }
+    const target = targetAt(e)
+    hovered.current = target
+    if (target?.kind === 'cell') onCellMouseDown(e, target.row, target.col)
+    else if (target?.kind === 'row') onRowHeaderMouseDown(e, target.row)
+    else if (target?.kind === 'column') onColumnHeaderMouseDown(e, target.col)
+    else if (target?.kind === 'corner') onSelectAll()
+  }
+
+  // Enter events fire only when the pointer crosses into another cell or header
+  const handleMouseMove = (e: React.MouseEvent) => {
+    setEdge(edgeAt(e)?.axis ?? null)
+    const target = targetAt(e)
+    if (sameTarget(target, hovered.current)) return
+    hovered.current = target
+    if (target?.kind === 'cell') {
+      onCellMouseEnter(target.row, target.col)
+      const cellId = getCellId(target.row, target.col)
+      setTitle(describeCell(store.cells[cellId], diff?.[cellId]))
+    } else {
+      setTitle('')
+      if (target?.kind === 'row') onRowHeaderMouseEnter(target.row)
+      else if (target?.kind === 'column') onColumnHeaderMouseEnter(target.col)
+    }
+  }
+
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const border = edgeAt(e)
+    if (border) {
+      onAutoFit?.(border.axis, border.index)
+      return
+    }
+    const target = targetAt(e)
+    if (target?.kind === 'cell') onCellDoubleClick(target.row, target.col)
+  }
+
+  const handleContextMenu = (e: React.MouseEvent) => {
+    const target = targetAt(e)
+    if (target?.kind === 'row') onRowHeaderContextMenu(target.row)
+    else if (target?.kind === 'column') onColumnHeaderContextMenu(target.col)
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="sticky top-0 left-0 block cursor-cell"
+      style={{
+        width: viewport.width,
+        height: viewport.height,
+        cursor: edge === 'columns' ? 'col-resize' : edge === 'rows' ? 'row-resize' : undefined
+      }}
+      title={title}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => {
+        hovered.current = null
+      }}
+      onDoubleClick={handleDoubleClick}
+      onContextMenu={handleContextMenu}
+    />
+  )
+}
@@ -4,10 +4,11 @@ import { Button } from './ui/button'
 import { Badge } from './ui/badge'
 import { Check, X, Calculator, Sparkles } from 'lucide-react'
 import { Cell } from '../types/spreadsheet'
-import { getCellId } from '../utils/spreadsheet'
+import { Selection } from '../types/selection'
+import { formatRange, lastRange } from '../utils/selection'
 
 interface FormulaBarProps {
-  selectedCell: { row: number; col: number } | null
+  selection: Selection
   cellValue: string
   cellFormula?: string
   cellType: Cell['type']
@@ -16,10 +17,12 @@ interface FormulaBarProps {
   onCancel: () => void
   isEditing: boolean
   onStartEdit: () => void
+  // Jumps to a reference or name typed into the address box; false when it leads nowhere
+  onNavigate: (target: string) => boolean
 }
 
 export const FormulaBar: React.FC<FormulaBarProps> = ({
-  selectedCell,
+  selection,
   cellValue,
   cellFormula,
   cellType,
@@ -27,9 +30,15 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
   onConfirm,
   onCancel,
   isEditing,
-  onStartEdit
+  onStartEdit,
+  onNavigate
 }) => {
   const [localValue, setLocalValue] = useState('')
+  const [address, setAddress] = useState('')
+  const [isAddressFocused, setIsAddressFocused] = useState(false)
+  const [addressError, setAddressError] = useState(false)
+  // The range being worked on, like A1:C5; the value shown is the active cell's
+  const selectedId = formatRange(lastRange(selection))
 
   useEffect(() => {
     if (isEditing) {
@@ -48,6 +57,19 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
     }
   }
 
+  const handleAddressKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      if (onNavigate(address)) {
+        setAddressError(false)
+        e.currentTarget.blur()
+      } else {
+        setAddressError(true)
+      }
+    } else if (e.key === 'Escape') {
+      e.currentTarget.blur()
+    }
+  }
+
   const getTypeColor = (type: Cell['type']) => {
     switch (type) {
       case 'formula': return 'bg-accent text-accent-foreground'
@@ -69,16 +91,31 @@ export const FormulaBar: React.FC<FormulaBarProps> = ({
     <div className="flex items-center gap-3 p-3 bg-white border-b border-border">
       {/* Cell Reference */}
       <div className="flex items-center gap-2 min-w-0">
-        <div className="font-mono text-sm font-medium text-muted-foreground min-w-[60px]">
-          {selectedCell ? getCellId(selectedCell.row, selectedCell.col) : ''}
-        </div>
+        <Input
+          value={isAddressFocused ? address : selectedId}
+          onChange={(e) => {
+            setAddress(e.target.value)
+            setAddressError(false)
+          }}
+          onFocus={(e) => {
+            setAddress(selectedId)
+            setIsAddressFocused(true)
+            e.target.select()
+          }}
+          onBlur={() => {
+            setIsAddressFocused(false)
+            setAddressError(false)
+          }}
+          onKeyDown={handleAddressKeyDown}
+          className={`font-mono text-sm font-medium h-8 w-28 ${addressError ? 'border-red-500 focus-visible:ring-red-500' : 'text-muted-foreground'}`}
+          title={addressError ? 'No cell, range or name matches this' : 'Type a reference or name to jump to it'}
+          aria-label="Cell address"
+        />
         
-        {selectedCell && (
-          <Badge variant="outline" className={`text-xs ${getTypeColor(cellType)}`}>
-            {getTypeIcon(cellType)}
-            <span className="ml-1 capitalize">{cellType}</span>
-          </Badge>
-        )}
+        <Badge variant="outline" className={`text-xs ${getTypeColor(cellType)}`}>
+          {getTypeIcon(cellType)}
+          <span className="ml-1 capitalize">{cellType}</span>
+        </Badge>
       </div>
 
       {/* Formula Input */}
@@ -0,0 +1,90 @@
+import React from 'react'
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger
+} from './ui/context-menu'
+import { LineAxis, LineChange, LineSpan } from '../types/spreadsheet'
+
+interface HeaderContextMenuProps {
+  // The header right-clicked, or the selected rows or columns around it
+  lines: LineSpan | null
+  // How many rows or columns the sheet has along the menu's axis
+  size: number
+  disabled?: boolean
+  onChange: (change: LineChange) => void
+  // Asks for an exact width or height for the lines; the item is left out without it
+  onSetSize?: () => void
+  onContextMenu: (e: React.MouseEvent) => void
+  children: React.ReactNode
+}
+
+const WORDS: Record<LineAxis, { one: string; many: string; before: string; after: string }> = {
+  rows: { one: 'Row', many: 'Rows', before: 'Above', after: 'Below' },
+  columns: { one: 'Column', many: 'Columns', before: 'Left', after: 'Right' }
+}
+
+export const HeaderContextMenu: React.FC<HeaderContextMenuProps> = ({
+  lines,
+  size,
+  disabled = false,
+  onChange,
+  onSetSize,
+  onContextMenu,
+  children
+}) => {
+  const renderItems = ({ axis, first, last }: LineSpan) => {
+    const count = last - first + 1
+    const words = WORDS[axis]
+    const noun = count === 1 ? words.one : `${count} ${words.many}`
+    return (
+      <>
+        <ContextMenuItem onSelect={() => onChange({ kind: 'insert', axis, at: first, count })}>
+          Insert {noun} {words.before}
+        </ContextMenuItem>
+        <ContextMenuItem onSelect={() => onChange({ kind: 'insert', axis, at: last + 1, count })}>
+          Insert {noun} {words.after}
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuItem disabled={first === 0} onSelect={() => onChange({ kind: 'move', axis, at: first, count, to: first - 1 })}>
+          Move {axis === 'rows' ? 'Up' : 'Left'}
+        </ContextMenuItem>
+        <ContextMenuItem disabled={last >= size - 1} onSelect={() => onChange({ kind: 'move', axis, at: first, count, to: first + 1 })}>
+          Move {axis === 'rows' ? 'Down' : 'Right'}
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        {onSetSize && (
+          <>
+            <ContextMenuItem onSelect={onSetSize}>
+              {axis === 'rows' ? 'Row Height' : 'Column Width'}...
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+          </>
+        )}
+        {/* A sheet keeps at least one row and one column */}
+        <ContextMenuItem
+          disabled={count >= size}
+          onSelect={() => onChange({ kind: 'delete', axis, at: first, count })}
+          className="text-red-600 focus:text-red-700"
+        >
+          Delete {noun}
+        </ContextMenuItem>
+      </>
+    )
+  }
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild disabled={disabled} onContextMenu={onContextMenu}>
+        {children}
+      </ContextMenuTrigger>
+      {/* Keys pressed in the menu are the menu's, not the grid's around it. Focus stays put
+          when the menu closes, since an item may open a dialog. */}
+      <ContextMenuContent onKeyDown={(e) => e.stopPropagation()} onCloseAutoFocus={(e) => e.preventDefault()}>
+        {lines && renderItems(lines)}
+      </ContextMenuContent>
+    </ContextMenu>
+  )
+}
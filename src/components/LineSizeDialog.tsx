@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { LineSpan } from '../types/spreadsheet'
+import { MAX_COLUMN_WIDTH, MAX_ROW_HEIGHT, MIN_COLUMN_WIDTH, MIN_ROW_HEIGHT } from '../utils/gridLayout'
+
+interface LineSizeDialogProps {
+  // The rows or columns being sized; the dialog is open while this is set
+  lines: LineSpan | null
+  // The size the first of them has now, in pixels
+  currentSize: number
+  onOpenChange: (open: boolean) => void
+  onApply: (size: number) => void
+}
+
+export const LineSizeDialog: React.FC<LineSizeDialogProps> = ({
+  lines,
+  currentSize,
+  onOpenChange,
+  onApply
+}) => {
+  const [draft, setDraft] = useState('')
+  const isRows = lines?.axis === 'rows'
+  const [min, max] = isRows ? [MIN_ROW_HEIGHT, MAX_ROW_HEIGHT] : [MIN_COLUMN_WIDTH, MAX_COLUMN_WIDTH]
+  const size = Number(draft)
+  const valid = draft.trim() !== '' && Number.isFinite(size) && size >= min && size <= max
+
+  useEffect(() => {
+    if (lines) setDraft(String(currentSize))
+  }, [lines, currentSize])
+
+  const apply = () => {
+    if (!valid) return
+    onApply(Math.round(size))
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={lines !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{isRows ? 'Row Height' : 'Column Width'}</DialogTitle>
+          <DialogDescription>
+            In pixels, from {min} to {max}.
+            {lines && lines.last > lines.first && ` Applies to all ${lines.last - lines.first + 1} selected ${isRows ? 'rows' : 'columns'}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <Label htmlFor="line-size">{isRows ? 'Height' : 'Width'}</Label>
+          <Input
+            id="line-size"
+            type="number"
+            min={min}
+            max={max}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') apply()
+            }}
+            autoFocus
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" disabled={!valid} onClick={apply}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
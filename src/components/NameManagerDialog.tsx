@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { DefinedName } from '../types/spreadsheet'
+import { validateDefinedName } from '../formula/names'
+
+interface NameManagerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  definedNames: DefinedName[]
+  sheets: { id: string; name: string }[]
+  // Names already used by named functions, which share the workbook's namespace
+  reservedNames: string[]
+  // Refers-to formula offered for a new name, usually the selected cell such as =$B$2
+  defaultFormula: string
+  onChange: (definedNames: DefinedName[]) => void
+}
+
+const WORKBOOK_SCOPE = 'workbook'
+
+export const NameManagerDialog: React.FC<NameManagerDialogProps> = ({
+  open,
+  onOpenChange,
+  definedNames,
+  sheets,
+  reservedNames,
+  defaultFormula,
+  onChange
+}) => {
+  // Index of the name being edited, or 'new'; null while just browsing the list
+  const [editing, setEditing] = useState<number | 'new' | null>(null)
+  const [draft, setDraft] = useState<DefinedName>({ name: '', formula: '' })
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setEditing(null)
+      setError(null)
+    }
+  }, [open])
+
+  const scopeLabel = (scope?: string) =>
+    scope ? sheets.find(sheet => sheet.id === scope)?.name ?? scope : 'Workbook'
+
+  const startEdit = (index: number | 'new') => {
+    setEditing(index)
+    setDraft(index === 'new' ? { name: '', formula: defaultFormula, comment: '' } : definedNames[index])
+    setError(null)
+  }
+
+  const handleSave = () => {
+    const formula = draft.formula.trim().startsWith('=') ? draft.formula.trim() : `=${draft.formula.trim()}`
+    const definedName: DefinedName = {
+      name: draft.name.trim(),
+      formula,
+      scope: draft.scope,
+      comment: draft.comment?.trim() || undefined
+    }
+
+    // The same name may exist once for the workbook and once for each sheet
+    const taken = [
+      ...reservedNames,
+      ...definedNames
+        .filter((existing, index) => index !== editing && existing.scope === definedName.scope)
+        .map(existing => existing.name)
+    ]
+    const problem = validateDefinedName(definedName, taken)
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    onChange(editing === 'new'
+      ? [...definedNames, definedName]
+      : definedNames.map((existing, index) => (index === editing ? definedName : existing)))
+    setEditing(null)
+  }
+
+  const handleDelete = (index: number) => {
+    onChange(definedNames.filter((_, i) => i !== index))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Name Manager</DialogTitle>
+          <DialogDescription>
+            Name a range or a constant and use it in formulas, e.g. =SUM(Revenue) or =B2 * TaxRate.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing === null ? (
+          <div className="max-h-80 overflow-y-auto">
+            {definedNames.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No names yet</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b border-border">
+                    <th className="py-2 font-medium">Name</th>
+                    <th className="py-2 font-medium">Refers To</th>
+                    <th className="py-2 font-medium">Scope</th>
+                    <th className="py-2 font-medium">Comment</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {definedNames.map((definedName, index) => (
+                    <tr key={`${definedName.scope ?? WORKBOOK_SCOPE}:${definedName.name}`} className="border-b border-border">
+                      <td className="py-1 font-mono font-medium">{definedName.name}</td>
+                      <td className="py-1 font-mono text-muted-foreground">{definedName.formula}</td>
+                      <td className="py-1">{scopeLabel(definedName.scope)}</td>
+                      <td className="py-1 text-muted-foreground">{definedName.comment}</td>
+                      <td className="py-1 text-right whitespace-nowrap">
+                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => startEdit(index)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => handleDelete(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="defined-name-name">Name</Label>
+                <Input
+                  id="defined-name-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  className="font-mono"
+                  placeholder="Revenue"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Scope</Label>
+                <Select
+                  value={draft.scope ?? WORKBOOK_SCOPE}
+                  onValueChange={(value) => setDraft({ ...draft, scope: value === WORKBOOK_SCOPE ? undefined : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WORKBOOK_SCOPE}>Workbook</SelectItem>
+                    {sheets.map(sheet => (
+                      <SelectItem key={sheet.id} value={sheet.id}>{sheet.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="defined-name-formula">Refers To</Label>
+              <Input
+                id="defined-name-formula"
+                value={draft.formula}
+                onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+                className="font-mono"
+                placeholder="=$B$2:$B$13"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="defined-name-comment">Comment</Label>
+              <Input
+                id="defined-name-comment"
+                value={draft.comment ?? ''}
+                onChange={(e) => setDraft({ ...draft, comment: e.target.value })}
+                placeholder="Optional"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {editing === null ? (
+            <Button size="sm" onClick={() => startEdit('new')}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Name
+            </Button>
+          ) : (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                Save
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,174 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Pencil, Plus, Trash2 } from 'lucide-react'
+import { NamedFunction } from '../types/spreadsheet'
+import { validateNamedFunction } from '../formula/names'
+
+interface NamedFunctionsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  namedFunctions: NamedFunction[]
+  // Defined names, which share the workbook's namespace
+  reservedNames: string[]
+  onChange: (namedFunctions: NamedFunction[]) => void
+}
+
+const EMPTY_DRAFT: NamedFunction = { name: '', formula: '=LAMBDA(', description: '' }
+
+export const NamedFunctionsDialog: React.FC<NamedFunctionsDialogProps> = ({
+  open,
+  onOpenChange,
+  namedFunctions,
+  reservedNames,
+  onChange
+}) => {
+  // Index of the function being edited, or 'new'; null while just browsing the list
+  const [editing, setEditing] = useState<number | 'new' | null>(null)
+  const [draft, setDraft] = useState<NamedFunction>(EMPTY_DRAFT)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setEditing(null)
+      setError(null)
+    }
+  }, [open])
+
+  const startEdit = (index: number | 'new') => {
+    setEditing(index)
+    setDraft(index === 'new' ? EMPTY_DRAFT : namedFunctions[index])
+    setError(null)
+  }
+
+  const handleSave = () => {
+    const others = [
+      ...reservedNames,
+      ...namedFunctions.filter((_, index) => index !== editing).map(fn => fn.name)
+    ]
+    const formula = draft.formula.trim().startsWith('=') ? draft.formula.trim() : `=${draft.formula.trim()}`
+    const fn: NamedFunction = {
+      name: draft.name.trim().toUpperCase(),
+      formula,
+      description: draft.description?.trim() || undefined
+    }
+
+    const problem = validateNamedFunction(fn, others)
+    if (problem) {
+      setError(problem)
+      return
+    }
+
+    onChange(editing === 'new'
+      ? [...namedFunctions, fn]
+      : namedFunctions.map((existing, index) => (index === editing ? fn : existing)))
+    setEditing(null)
+  }
+
+  const handleDelete = (index: number) => {
+    onChange(namedFunctions.filter((_, i) => i !== index))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Named Functions</DialogTitle>
+          <DialogDescription>
+            Save a LAMBDA under a name and call it from any cell, e.g. =MARGIN(B2, C2).
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing === null ? (
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {namedFunctions.length === 0 && (
+              <p className="text-sm text-muted-foreground py-4 text-center">No named functions yet</p>
+            )}
+            {namedFunctions.map((fn, index) => (
+              <div key={fn.name} className="flex items-start gap-2 p-2 rounded-md border border-border">
+                <div className="flex-1 min-w-0">
+                  <div className="font-mono text-sm font-medium">{fn.name}</div>
+                  <div className="font-mono text-xs text-muted-foreground truncate">{fn.formula}</div>
+                  {fn.description && <div className="text-xs text-muted-foreground mt-1">{fn.description}</div>}
+                </div>
+                <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => startEdit(index)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                  onClick={() => handleDelete(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="named-function-name">Name</Label>
+              <Input
+                id="named-function-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className="font-mono"
+                placeholder="MARGIN"
+                autoFocus
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="named-function-formula">Formula</Label>
+              <Textarea
+                id="named-function-formula"
+                value={draft.formula}
+                onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+                className="font-mono"
+                placeholder="=LAMBDA(cost, price, (price - cost) / price)"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="named-function-description">Description</Label>
+              <Input
+                id="named-function-description"
+                value={draft.description ?? ''}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                placeholder="Optional"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+        )}
+
+        <DialogFooter>
+          {editing === null ? (
+            <Button size="sm" onClick={() => startEdit('new')}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Function
+            </Button>
+          ) : (
+            <>
+              <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleSave}>
+                Save
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,87 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Checkbox } from './ui/checkbox'
+import { Label } from './ui/label'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { PasteMode, PasteOptions } from '../types/clipboard'
+
+interface PasteSpecialDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onPaste: (options: PasteOptions) => void
+}
+
+const MODES: { mode: PasteMode; label: string; description: string }[] = [
+  { mode: 'all', label: 'All', description: 'Contents and formatting' },
+  { mode: 'values', label: 'Values', description: 'Results only, without formulas or formatting' },
+  { mode: 'formulas', label: 'Formulas', description: 'Formulas and values, without formatting' },
+  { mode: 'formats', label: 'Formats', description: 'Formatting only; cell contents are kept' }
+]
+
+export const PasteSpecialDialog: React.FC<PasteSpecialDialogProps> = ({
+  open,
+  onOpenChange,
+  onPaste
+}) => {
+  const [mode, setMode] = useState<PasteMode>('all')
+  const [transpose, setTranspose] = useState(false)
+
+  // Each paste starts from the plain options
+  useEffect(() => {
+    if (open) {
+      setMode('all')
+      setTranspose(false)
+    }
+  }, [open])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Paste Special</DialogTitle>
+          <DialogDescription>
+            Choose which parts of the copied cells to paste.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as PasteMode)} className="space-y-1">
+          {MODES.map(option => (
+            <Label
+              key={option.mode}
+              htmlFor={`paste-${option.mode}`}
+              className="flex items-start gap-3 rounded-md border border-border p-3 cursor-pointer hover:bg-muted/50"
+            >
+              <RadioGroupItem id={`paste-${option.mode}`} value={option.mode} className="mt-0.5" />
+              <div>
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs text-muted-foreground font-normal">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="flex items-center gap-2">
+          <Checkbox id="paste-transpose" checked={transpose} onCheckedChange={(checked) => setTranspose(checked === true)} />
+          <Label htmlFor="paste-transpose">Transpose rows and columns</Label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => onPaste({ mode, transpose })}>
+            Paste
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
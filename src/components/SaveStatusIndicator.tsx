@@ -0,0 +1,44 @@
+import React from 'react'
+import { AlertCircle, Check, Loader2 } from 'lucide-react'
+import { SaveStatus } from '../types/storage'
+
+interface SaveStatusIndicatorProps {
+  status: SaveStatus
+  lastSavedAt: Date | null
+}
+
+export const SaveStatusIndicator: React.FC<SaveStatusIndicatorProps> = ({ status, lastSavedAt }) => {
+  switch (status) {
+    case 'saving':
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Saving...
+        </span>
+      )
+    case 'unsaved':
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <span className="h-2 w-2 rounded-full bg-amber-500" />
+          Unsaved changes
+        </span>
+      )
+    case 'error':
+      return (
+        <span className="flex items-center gap-1 text-xs text-red-600">
+          <AlertCircle className="h-3 w-3" />
+          Save failed
+        </span>
+      )
+    default:
+      return (
+        <span
+          className="flex items-center gap-1 text-xs text-muted-foreground"
+          title={lastSavedAt ? `Saved at ${lastSavedAt.toLocaleTimeString()}` : undefined}
+        >
+          <Check className="h-3 w-3" />
+          Saved
+        </span>
+      )
+  }
+}
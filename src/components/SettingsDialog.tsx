@@ -0,0 +1,64 @@
+import React from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Label } from './ui/label'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { AppSettings, GridRenderer } from '../types/settings'
+
+interface SettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: AppSettings
+  onChange: (changes: Partial<AppSettings>) => void
+}
+
+const RENDERERS: { renderer: GridRenderer; label: string; description: string }[] = [
+  { renderer: 'dom', label: 'Standard', description: 'Each cell is a page element, with tooltips on errors and changes' },
+  { renderer: 'canvas', label: 'Canvas', description: 'Cells are painted onto one canvas; faster for large, dense sheets' }
+]
+
+export const SettingsDialog: React.FC<SettingsDialogProps> = ({
+  open,
+  onOpenChange,
+  settings,
+  onChange
+}) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle>Settings</DialogTitle>
+        <DialogDescription>
+          Settings are kept in this browser.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium">Grid renderer</div>
+        <RadioGroup
+          value={settings.gridRenderer}
+          onValueChange={(value) => onChange({ gridRenderer: value as GridRenderer })}
+          className="space-y-1"
+        >
+          {RENDERERS.map(option => (
+            <Label
+              key={option.renderer}
+              htmlFor={`renderer-${option.renderer}`}
+              className="flex items-start gap-3 rounded-md border border-border p-3 cursor-pointer hover:bg-muted/50"
+            >
+              <RadioGroupItem id={`renderer-${option.renderer}`} value={option.renderer} className="mt-0.5" />
+              <div>
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs text-muted-foreground font-normal">{option.description}</div>
+              </div>
+            </Label>
+          ))}
+        </RadioGroup>
+      </div>
+    </DialogContent>
+  </Dialog>
+)
@@ -0,0 +1,165 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger
+} from './ui/context-menu'
+import { Plus } from 'lucide-react'
+import { SpreadsheetData } from '../types/spreadsheet'
+import { SHEET_COLORS } from '../utils/workbook'
+
+interface SheetTabsProps {
+  sheets: SpreadsheetData[]
+  activeSheetId: string
+  onSelect: (sheetId: string) => void
+  onAdd: () => void
+  // Returns a message when the name cannot be used
+  onRename: (sheetId: string, name: string) => string | null
+  onDuplicate: (sheetId: string) => void
+  onDelete: (sheetId: string) => void
+  onMove: (sheetId: string, toIndex: number) => void
+  onColorChange: (sheetId: string, color: string | undefined) => void
+}
+
+export const SheetTabs: React.FC<SheetTabsProps> = ({
+  sheets,
+  activeSheetId,
+  onSelect,
+  onAdd,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onMove,
+  onColorChange
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [renameError, setRenameError] = useState<string | null>(null)
+  const [draggedId, setDraggedId] = useState<string | null>(null)
+
+  const startRename = (sheet: SpreadsheetData) => {
+    setRenamingId(sheet.id)
+    setDraftName(sheet.name)
+    setRenameError(null)
+  }
+
+  const commitRename = () => {
+    if (!renamingId) return
+    const current = sheets.find(sheet => sheet.id === renamingId)
+    if (current && draftName.trim() !== current.name) {
+      const problem = onRename(renamingId, draftName.trim())
+      if (problem) {
+        setRenameError(problem)
+        return
+      }
+    }
+    setRenamingId(null)
+  }
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      commitRename()
+    } else if (e.key === 'Escape') {
+      setRenamingId(null)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1 px-2 py-1 bg-muted/30 border-t border-border overflow-x-auto">
+      <Button size="sm" variant="ghost" className="h-7 w-7 p-0 shrink-0" onClick={onAdd} title="Add sheet">
+        <Plus className="h-4 w-4" />
+      </Button>
+
+      {sheets.map((sheet, index) => {
+        const isActive = sheet.id === activeSheetId
+
+        if (sheet.id === renamingId) {
+          return (
+            <Input
+              key={sheet.id}
+              value={draftName}
+              onChange={(e) => {
+                setDraftName(e.target.value)
+                setRenameError(null)
+              }}
+              onKeyDown={handleRenameKeyDown}
+              onBlur={commitRename}
+              className={`h-7 w-32 text-sm ${renameError ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+              title={renameError ?? undefined}
+              autoFocus
+            />
+          )
+        }
+
+        return (
+          <ContextMenu key={sheet.id}>
+            <ContextMenuTrigger asChild>
+              <button
+                draggable
+                onDragStart={() => setDraggedId(sheet.id)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (draggedId && draggedId !== sheet.id) onMove(draggedId, index)
+                  setDraggedId(null)
+                }}
+                onDragEnd={() => setDraggedId(null)}
+                onClick={() => onSelect(sheet.id)}
+                onDoubleClick={() => startRename(sheet)}
+                className={`h-7 px-3 text-sm rounded-b-md border-b-2 whitespace-nowrap transition-colors ${
+                  isActive ? 'bg-white font-medium shadow-sm' : 'text-muted-foreground hover:bg-muted/50'
+                }`}
+                style={{ borderBottomColor: sheet.color ?? 'transparent' }}
+              >
+                {sheet.name}
+              </button>
+            </ContextMenuTrigger>
+            {/* Focus stays with the rename box rather than returning to the tab */}
+            <ContextMenuContent onCloseAutoFocus={(e) => e.preventDefault()}>
+              <ContextMenuItem onSelect={() => startRename(sheet)}>Rename</ContextMenuItem>
+              <ContextMenuItem onSelect={() => onDuplicate(sheet.id)}>Duplicate</ContextMenuItem>
+              <ContextMenuSeparator />
+              <ContextMenuItem disabled={index === 0} onSelect={() => onMove(sheet.id, index - 1)}>
+                Move Left
+              </ContextMenuItem>
+              <ContextMenuItem disabled={index === sheets.length - 1} onSelect={() => onMove(sheet.id, index + 1)}>
+                Move Right
+              </ContextMenuItem>
+              <ContextMenuSub>
+                <ContextMenuSubTrigger>Tab Color</ContextMenuSubTrigger>
+                <ContextMenuSubContent>
+                  <div className="grid grid-cols-4 gap-1 p-1">
+                    {SHEET_COLORS.map(color => (
+                      <button
+                        key={color}
+                        onClick={() => onColorChange(sheet.id, color)}
+                        className="h-5 w-5 rounded-sm border border-border"
+                        style={{ backgroundColor: color }}
+                        title={color}
+                      />
+                    ))}
+                  </div>
+                  <ContextMenuItem onSelect={() => onColorChange(sheet.id, undefined)}>No Color</ContextMenuItem>
+                </ContextMenuSubContent>
+              </ContextMenuSub>
+              <ContextMenuSeparator />
+              <ContextMenuItem
+                disabled={sheets.length <= 1}
+                onSelect={() => onDelete(sheet.id)}
+                className="text-red-600 focus:text-red-700"
+              >
+                Delete
+              </ContextMenuItem>
+            </ContextMenuContent>
+          </ContextMenu>
+        )
+      })}
+    </div>
+  )
+}
@@ -1,26 +1,117 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react'
-import { Cell } from '../types/spreadsheet'
-import { getCellId, columnToLetter, detectCellType, formatCellValue, evaluateFormula } from '../utils/spreadsheet'
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { Cell, CellStore, LineAxis, LineChange, LineSpan } from '../types/spreadsheet'
+import { ClipboardPayload } from '../types/clipboard'
+import { getCellId, columnToLetter, detectCellType, formatCellValue } from '../utils/spreadsheet'
+import { getCell } from '../utils/cellStore'
+import { fitLineSize } from '../utils/autoFit'
+import { ERROR_DESCRIPTIONS } from '../formula/errors'
+import { CellDiff, CellDiffKind } from '../history/versions'
+import { Selection } from '../types/selection'
+import { CellAddress } from '../types/formula'
+import {
+  HEADER_HEIGHT,
+  HEADER_WIDTH,
+  cellRect,
+  clampLineSize,
+  contentSize,
+  createGridLayout,
+  lineSize,
+  lineStart,
+  scrollCellIntoView,
+  visibleWindow
+} from '../utils/gridLayout'
+import {
+  addToSelection,
+  columnRange,
+  extendSelection,
+  extendToColumn,
+  extendToRow,
+  isCellSelected,
+  isColumnSelected,
+  isRowSelected,
+  isSingleCell,
+  lastRange,
+  moveSelection,
+  normalizeRange,
+  rowRange,
+  selectAll,
+  selectCell,
+  selectionTouchesColumn,
+  selectionTouchesRow
+} from '../utils/selection'
+import { GridRenderer } from '../types/settings'
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from './ui/tooltip'
+import { CanvasGrid } from './CanvasGrid'
+import { HeaderContextMenu } from './HeaderContextMenu'
+import { LineSizeDialog } from './LineSizeDialog'
 
 interface SpreadsheetGridProps {
-  cells: Record<string, Cell>
-  selectedCell: { row: number; col: number } | null
-  onCellSelect: (row: number, col: number) => void
+  store: CellStore
+  selection: Selection
+  onSelectionChange: (selection: Selection) => void
   onCellValueChange: (row: number, col: number, value: string) => void
-  rows?: number
-  cols?: number
+  onFill?: (direction: 'down' | 'right') => void
+  onUndo?: () => void
+  onRedo?: () => void
+  // Returns what to put on the clipboard for the selection, or null to leave it alone
+  onCopy?: (cut: boolean) => ClipboardPayload | null
+  // special is set for Ctrl/Cmd+Shift+V, which asks how to paste
+  onPaste?: (payload: ClipboardPayload, special: boolean) => void
+  // Insert, delete and move rows or columns from their headers' context menu
+  onLinesChange?: (change: LineChange) => void
+  // Sets the size of rows or columns by index; null puts one back to the default size
+  onResize?: (axis: LineAxis, sizes: Record<number, number | null>) => void
+  // Highlights cells that differ from another version, by cell id
+  diff?: Record<string, CellDiff>
+  // Cells can be selected but not edited, e.g. while comparing versions
+  readOnly?: boolean
+  renderer?: GridRenderer
+  rows: number
+  cols: number
+  columnWidths?: Record<number, number>
+  rowHeights?: Record<number, number>
   isEditing: boolean
   onStartEdit: () => void
   onStopEdit: () => void
 }
 
+// A header border being dragged: the lines it sizes, where the drag began and the size so far
+interface Resizing {
+  lines: LineSpan
+  index: number
+  origin: number
+  startSize: number
+  size: number
+}
+
+const spanSizes = ({ first, last }: LineSpan, size: number | null): Record<number, number | null> =>
+  Object.fromEntries(Array.from({ length: last - first + 1 }, (_, i) => [first + i, size]))
+
+const DIFF_STYLES: Record<CellDiffKind, string> = {
+  added: ' bg-green-100',
+  removed: ' bg-red-100 text-red-700 line-through',
+  changed: ' bg-amber-100'
+}
+
 export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
-  cells,
-  selectedCell,
-  onCellSelect,
+  store,
+  selection,
+  onSelectionChange,
   onCellValueChange,
-  rows = 50,
-  cols = 26,
+  onFill,
+  onUndo,
+  onRedo,
+  onCopy,
+  onPaste,
+  onLinesChange,
+  onResize,
+  diff,
+  readOnly = false,
+  renderer = 'dom',
+  rows,
+  cols,
+  columnWidths,
+  rowHeights,
   isEditing,
   onStartEdit,
   onStopEdit
@@ -29,17 +120,183 @@ export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
   const [editValue, setEditValue] = useState('')
   const gridRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
+  // What a held mouse button is selecting, while it is dragged across cells or headers
+  const dragging = useRef<'cells' | 'rows' | 'cols' | null>(null)
+  // Paste events do not say whether Shift was held, so the key press notes it
+  const pasteSpecial = useRef(false)
+  const { active } = selection
+  const [scroll, setScroll] = useState({ top: 0, left: 0 })
+  const [viewport, setViewport] = useState({ width: 0, height: 0 })
+  // The active cell as last set by a click, which is in view already
+  const pointerTarget = useRef<CellAddress | null>(null)
+  const [menuLines, setMenuLines] = useState<LineSpan | null>(null)
+  // Set while a right-click on a header is on its way to the grid, which opens the menu
+  const headerMenuRequested = useRef(false)
+  const [resizing, setResizing] = useState<Resizing | null>(null)
+  // The lines whose exact size is being asked for
+  const [sizingLines, setSizingLines] = useState<LineSpan | null>(null)
+  const resizable = !readOnly && !!onResize
+
+  // A border being dragged shows its line at the new size before it is stored
+  const layout = useMemo(() => {
+    const preview = (axis: LineAxis) => (resizing?.lines.axis === axis ? { [resizing.index]: resizing.size } : {})
+    return createGridLayout(rows, cols, { ...rowHeights, ...preview('rows') }, { ...columnWidths, ...preview('columns') })
+  }, [rows, cols, rowHeights, columnWidths, resizing])
+  // Read when the active cell moves, which alone should scroll
+  const layoutRef = useRef(layout)
+  layoutRef.current = layout
 
-  const handleCellClick = (row: number, col: number) => {
+  useEffect(() => {
+    const element = gridRef.current
+    if (!element) return
+    const measure = () => setViewport({ width: element.clientWidth, height: element.clientHeight })
+    measure()
+    const observer = new ResizeObserver(measure)
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // Keyboard moves and jumps from the address box bring the active cell into view
+  useEffect(() => {
+    const fromPointer = pointerTarget.current?.row === active.row && pointerTarget.current?.col === active.col
+    pointerTarget.current = null
+    if (!fromPointer && gridRef.current) scrollCellIntoView(gridRef.current, layoutRef.current, active.row, active.col)
+  }, [active.row, active.col])
+
+  useEffect(() => {
+    const stopDragging = () => {
+      dragging.current = null
+    }
+    window.addEventListener('mouseup', stopDragging)
+    return () => window.removeEventListener('mouseup', stopDragging)
+  }, [])
+
+  // Shift extends the last range, Ctrl/Cmd adds another one, and a plain click starts over
+  const handleCellMouseDown = (e: React.MouseEvent, row: number, col: number) => {
+    // Clicks inside the cell being edited place the caret
+    if (e.button !== 0 || (editingCell?.row === row && editingCell?.col === col)) return
     if (editingCell) {
       handleCellSubmit()
     }
-    onCellSelect(row, col)
+    const cell = { row, col }
+    if (!e.shiftKey) pointerTarget.current = cell
+    if (e.shiftKey) onSelectionChange(extendSelection(selection, cell))
+    else if (e.ctrlKey || e.metaKey) onSelectionChange(addToSelection(selection, { start: cell, end: cell }))
+    else onSelectionChange(selectCell(cell))
+    dragging.current = 'cells'
+  }
+
+  const handleRowHeaderMouseDown = (e: React.MouseEvent, row: number) => {
+    if (e.button !== 0) return
+    if (editingCell) handleCellSubmit()
+    if (!e.shiftKey) pointerTarget.current = { row, col: 0 }
+    if (e.shiftKey) onSelectionChange(extendToRow(selection, row, cols))
+    else if (e.ctrlKey || e.metaKey) onSelectionChange(addToSelection(selection, rowRange(row, row, cols)))
+    else onSelectionChange({ active: { row, col: 0 }, ranges: [rowRange(row, row, cols)] })
+    dragging.current = 'rows'
+  }
+
+  const handleColumnHeaderMouseDown = (e: React.MouseEvent, col: number) => {
+    if (e.button !== 0) return
+    if (editingCell) handleCellSubmit()
+    if (!e.shiftKey) pointerTarget.current = { row: 0, col }
+    if (e.shiftKey) onSelectionChange(extendToColumn(selection, col, rows))
+    else if (e.ctrlKey || e.metaKey) onSelectionChange(addToSelection(selection, columnRange(col, col, rows)))
+    else onSelectionChange({ active: { row: 0, col }, ranges: [columnRange(col, col, rows)] })
+    dragging.current = 'cols'
+  }
+
+  const handleCellMouseEnter = (row: number, col: number) => {
+    if (dragging.current === 'cells') onSelectionChange(extendSelection(selection, { row, col }))
+  }
+
+  const handleRowHeaderMouseEnter = (row: number) => {
+    if (dragging.current === 'rows') onSelectionChange(extendToRow(selection, row, cols))
+  }
+
+  const handleColumnHeaderMouseEnter = (col: number) => {
+    if (dragging.current === 'cols') onSelectionChange(extendToColumn(selection, col, rows))
+  }
+
+  // The whole rows or columns selected around a header's, if it is one of them
+  const selectedLinesAround = (axis: LineAxis, index: number): LineSpan | null => {
+    const { start, end } = normalizeRange(lastRange(selection))
+    if (axis === 'rows') {
+      return start.col === 0 && end.col === cols - 1 && index >= start.row && index <= end.row
+        ? { axis, first: start.row, last: end.row }
+        : null
+    }
+    return start.row === 0 && end.row === rows - 1 && index >= start.col && index <= end.col
+      ? { axis, first: start.col, last: end.col }
+      : null
+  }
+
+  // Right-clicking a header acts on all the selected rows or columns when it is one of them,
+  // and otherwise selects just its own
+  const handleHeaderContextMenu = (axis: LineAxis, index: number) => {
+    const selected = selectedLinesAround(axis, index)
+    if (selected) {
+      setMenuLines(selected)
+    } else {
+      setMenuLines({ axis, first: index, last: index })
+      onSelectionChange(axis === 'rows'
+        ? { active: { row: index, col: 0 }, ranges: [rowRange(index, index, cols)] }
+        : { active: { row: 0, col: index }, ranges: [columnRange(index, index, rows)] })
+    }
+    headerMenuRequested.current = true
+  }
+
+  // Dragging or double-clicking a border within selected rows or columns sizes them all alike
+  const handleResizeStart = (e: React.MouseEvent, axis: LineAxis, index: number) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+    if (editingCell) handleCellSubmit()
+    const size = lineSize(axis === 'rows' ? layout.rows : layout.cols, index)
+    setResizing({
+      lines: selectedLinesAround(axis, index) ?? { axis, first: index, last: index },
+      index,
+      origin: axis === 'rows' ? e.clientY : e.clientX,
+      startSize: size,
+      size
+    })
+  }
+
+  const handleAutoFit = (axis: LineAxis, index: number) => {
+    const { first, last } = selectedLinesAround(axis, index) ?? { first: index, last: index }
+    const sizes: Record<number, number | null> = {}
+    for (let line = first; line <= last; line++) sizes[line] = fitLineSize(store, axis, line)
+    onResize?.(axis, sizes)
+  }
+
+  useEffect(() => {
+    if (!resizing) return
+    const { axis } = resizing.lines
+    const handleMove = (e: MouseEvent) => {
+      const moved = (axis === 'rows' ? e.clientY : e.clientX) - resizing.origin
+      setResizing({ ...resizing, size: clampLineSize(axis, resizing.startSize + moved) })
+    }
+    const handleUp = () => {
+      if (resizing.size !== resizing.startSize) onResize?.(axis, spanSizes(resizing.lines, resizing.size))
+      setResizing(null)
+    }
+    window.addEventListener('mousemove', handleMove)
+    window.addEventListener('mouseup', handleUp)
+    return () => {
+      window.removeEventListener('mousemove', handleMove)
+      window.removeEventListener('mouseup', handleUp)
+    }
+  }, [resizing, onResize])
+
+  // Only headers have a menu; elsewhere the right-click is swallowed
+  const handleGridContextMenu = (e: React.MouseEvent) => {
+    if (!headerMenuRequested.current) e.preventDefault()
+    headerMenuRequested.current = false
   }
 
   const handleCellDoubleClick = (row: number, col: number) => {
-    const cellId = getCellId(row, col)
-    const cell = cells[cellId]
+    if (readOnly) return
+    const cell = getCell(store, row, col)
     setEditingCell({ row, col })
     setEditValue(cell?.formula || cell?.value || '')
     onStartEdit()
@@ -54,16 +311,26 @@ export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
     }
   }
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!selectedCell) return
+  const move = (e: React.KeyboardEvent, rowDelta: number, colDelta: number) => {
+    if (editingCell) return
+    e.preventDefault()
+    const next = moveSelection(selection, rowDelta, colDelta, rows, cols, e.shiftKey)
+    onSelectionChange(next)
+    // Extending leaves the active cell where it is; the corner being moved is what to show
+    if (e.shiftKey && gridRef.current) {
+      const { end } = lastRange(next)
+      scrollCellIntoView(gridRef.current, layout, end.row, end.col)
+    }
+  }
 
+  const handleKeyDown = (e: React.KeyboardEvent) => {
     switch (e.key) {
       case 'Enter':
         if (editingCell) {
           handleCellSubmit()
         } else {
           // Move down
-          onCellSelect(Math.min(selectedCell.row + 1, rows - 1), selectedCell.col)
+          onSelectionChange(moveSelection(selection, 1, 0, rows, cols, false))
         }
         break
       case 'Tab':
@@ -72,7 +339,7 @@ export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
           handleCellSubmit()
         }
         // Move right
-        onCellSelect(selectedCell.row, Math.min(selectedCell.col + 1, cols - 1))
+        onSelectionChange(moveSelection(selection, 0, 1, rows, cols, false))
         break
       case 'Escape':
         if (editingCell) {
@@ -82,37 +349,42 @@ export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
         }
         break
       case 'ArrowUp':
-        if (!editingCell) {
-          e.preventDefault()
-          onCellSelect(Math.max(selectedCell.row - 1, 0), selectedCell.col)
-        }
+        move(e, -1, 0)
         break
       case 'ArrowDown':
-        if (!editingCell) {
-          e.preventDefault()
-          onCellSelect(Math.min(selectedCell.row + 1, rows - 1), selectedCell.col)
-        }
+        move(e, 1, 0)
         break
       case 'ArrowLeft':
-        if (!editingCell) {
-          e.preventDefault()
-          onCellSelect(selectedCell.row, Math.max(selectedCell.col - 1, 0))
-        }
+        move(e, 0, -1)
         break
       case 'ArrowRight':
-        if (!editingCell) {
-          e.preventDefault()
-          onCellSelect(selectedCell.row, Math.min(selectedCell.col + 1, cols - 1))
-        }
+        move(e, 0, 1)
         break
       case 'F2':
         e.preventDefault()
-        handleCellDoubleClick(selectedCell.row, selectedCell.col)
+        handleCellDoubleClick(active.row, active.col)
         break
       default:
-        if (!editingCell && e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+        if (!editingCell && (e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'a') {
+          e.preventDefault()
+          onSelectionChange(selectAll(rows, cols))
+        } else if (!editingCell && (e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'v') {
+          pasteSpecial.current = !readOnly
+        } else if (readOnly) {
+          break
+        } else if (!editingCell && (e.ctrlKey || e.metaKey) && (e.key === 'd' || e.key === 'r')) {
+          // Excel fill shortcuts: copy the cell above (Ctrl+D) or to the left (Ctrl+R)
+          e.preventDefault()
+          onFill?.(e.key === 'd' ? 'down' : 'right')
+        } else if (!editingCell && (e.ctrlKey || e.metaKey) && (e.key.toLowerCase() === 'z' || e.key === 'y')) {
+          // Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo. While typing in a cell the
+          // input's own undo applies instead.
+          e.preventDefault()
+          if (e.shiftKey || e.key === 'y') onRedo?.()
+          else onUndo?.()
+        } else if (!editingCell && e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
           // Start editing with the typed character
-          setEditingCell(selectedCell)
+          setEditingCell(active)
           setEditValue(e.key)
           onStartEdit()
         }
@@ -126,34 +398,65 @@ export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
     }
   }, [editingCell])
 
+  // Outlines the whole area a dynamic array formula spills into
+  const getSpillBorder = (row: number, col: number, cell: Cell | undefined) => {
+    const anchor = cell?.spillAnchor ? store.cells[cell.spillAnchor] : cell
+    if (!anchor?.spill || anchor.error) return ''
+
+    let className = ''
+    if (row === anchor.row) className += ' border-t-blue-500'
+    if (row === anchor.row + anchor.spill.rows - 1) className += ' border-b-blue-500'
+    if (col === anchor.col) className += ' border-l-blue-500'
+    if (col === anchor.col + anchor.spill.cols - 1) className += ' border-r-blue-500'
+    return className
+  }
+
+  const getInlineStyle = (cell: Cell | undefined): React.CSSProperties | undefined => cell?.style && {
+    backgroundColor: cell.style.backgroundColor,
+    color: cell.style.textColor,
+    fontWeight: cell.style.fontWeight,
+    textAlign: cell.style.textAlign,
+    fontSize: cell.style.fontSize
+  }
+
   const getCellStyle = (row: number, col: number) => {
     const cellId = getCellId(row, col)
-    const cell = cells[cellId]
-    const isSelected = selectedCell?.row === row && selectedCell?.col === col
+    const cell = store.cells[cellId]
+    const isActive = active.row === row && active.col === col
     const isEditing = editingCell?.row === row && editingCell?.col === col
 
-    let className = 'border border-gray-200 h-8 min-w-[80px] px-2 text-sm font-mono cursor-cell hover:bg-blue-50 transition-colors'
+    let className = 'border border-gray-200 px-2 text-sm font-mono cursor-cell hover:bg-blue-50 transition-colors'
     
-    if (isSelected) {
-      className += ' ring-2 ring-primary ring-inset bg-blue-50'
+    if (isActive) {
+      className += ' ring-2 ring-primary ring-inset'
+      if (isSingleCell(selection)) className += ' bg-blue-50'
+    } else if (isCellSelected(selection, row, col)) {
+      className += ' bg-blue-100'
     }
     
     if (isEditing) {
       className += ' ring-2 ring-accent ring-inset'
     }
 
-    if (cell?.type === 'formula') {
+    const change = diff?.[cellId]
+    if (change) {
+      className += DIFF_STYLES[change.kind]
+    } else if (cell?.error) {
+      className += ' bg-destructive/5 text-destructive font-semibold text-center'
+    } else if (cell?.type === 'formula') {
       className += ' bg-accent/5'
-    } else if (cell?.type === 'number') {
+    } else if (cell?.type === 'number' || cell?.type === 'date') {
       className += ' text-right'
     }
 
+    className += getSpillBorder(row, col, cell)
+
     return className
   }
 
   const renderCell = (row: number, col: number) => {
     const cellId = getCellId(row, col)
-    const cell = cells[cellId]
+    const cell = store.cells[cellId]
     const isEditingThis = editingCell?.row === row && editingCell?.col === col
 
     if (isEditingThis) {
@@ -178,6 +481,46 @@ export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
     }
 
     const displayValue = cell ? formatCellValue(cell) : ''
+    const change = diff?.[cellId]
+
+    if (change) {
+      // Removed cells are not in the sheet any more, so their old value is shown struck out
+      const before = change.before ? formatCellValue(change.before) : ''
+      return (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="w-full h-full flex items-center px-2 truncate">
+              {change.kind === 'removed' ? before : displayValue}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs">
+            <div className="font-semibold capitalize">{change.kind}</div>
+            {change.kind !== 'added' && <div className="font-mono">Was: {change.before?.formula ?? before}</div>}
+            {change.kind !== 'removed' && <div className="font-mono">Now: {change.after?.formula ?? displayValue}</div>}
+          </TooltipContent>
+        </Tooltip>
+      )
+    }
+
+    if (cell?.error) {
+      const description = ERROR_DESCRIPTIONS[cell.error.code]
+      return (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="w-full h-full flex items-center justify-center px-2 truncate">
+              {displayValue}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="max-w-xs bg-destructive text-destructive-foreground">
+            <div className="font-semibold">{cell.error.code}</div>
+            <div>{description}</div>
+            {cell.error.message !== description && (
+              <div className="mt-1 font-mono">{cell.error.message}</div>
+            )}
+          </TooltipContent>
+        </Tooltip>
+      )
+    }
     
     return (
       <div className="w-full h-full flex items-center px-2 truncate">
@@ -186,52 +529,176 @@ export const SpreadsheetGrid: React.FC<SpreadsheetGridProps> = ({
     )
   }
 
+  // The cell being edited has its own input, which handles the clipboard as text
+  const handleCopy = (e: React.ClipboardEvent, cut: boolean) => {
+    if (editingCell || !onCopy || (cut && readOnly)) return
+    const payload = onCopy(cut)
+    if (!payload) return
+    e.preventDefault()
+    e.clipboardData.setData('text/plain', payload.text)
+    if (payload.html) e.clipboardData.setData('text/html', payload.html)
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const special = pasteSpecial.current
+    pasteSpecial.current = false
+    if (editingCell || readOnly || !onPaste) return
+    e.preventDefault()
+    onPaste({ text: e.clipboardData.getData('text/plain'), html: e.clipboardData.getData('text/html') || undefined }, special)
+  }
+
+  const getHeaderStyle = (touched: boolean, whole: boolean) =>
+    whole ? ' bg-blue-200 text-primary' : touched ? ' bg-blue-100' : ' bg-gray-100'
+
+  const { firstRow, lastRow, firstCol, lastCol } = visibleWindow(scroll, viewport, layout)
+  const visibleRows = Array.from({ length: Math.max(0, lastRow - firstRow + 1) }, (_, i) => firstRow + i)
+  const visibleCols = Array.from({ length: Math.max(0, lastCol - firstCol + 1) }, (_, i) => firstCol + i)
+
   return (
-    <div 
-      ref={gridRef}
-      className="spreadsheet-grid overflow-auto bg-white border border-gray-200"
-      tabIndex={0}
-      onKeyDown={handleKeyDown}
-      style={{ height: 'calc(100vh - 200px)' }}
-    >
-      <div className="inline-block min-w-full">
-        {/* Header Row */}
-        <div className="flex sticky top-0 bg-gray-50 z-10">
-          <div className="w-12 h-8 border border-gray-200 bg-gray-100 flex items-center justify-center text-xs font-medium">
-            
-          </div>
-          {Array.from({ length: cols }, (_, col) => (
+    <>
+      <div 
+        ref={gridRef}
+        className="spreadsheet-grid overflow-auto bg-white border border-gray-200"
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+        onCopy={(e) => handleCopy(e, false)}
+        onCut={(e) => handleCopy(e, true)}
+        onPaste={handlePaste}
+        style={{ height: 'calc(100vh - 236px)' }}
+      >
+        <TooltipProvider delayDuration={300}>
+          <HeaderContextMenu
+            lines={menuLines}
+            size={menuLines?.axis === 'columns' ? cols : rows}
+            disabled={readOnly || !onLinesChange}
+            onChange={(change) => {
+              onLinesChange?.(change)
+              gridRef.current?.focus()
+            }}
+            onSetSize={resizable ? () => setSizingLines(menuLines) : undefined}
+            onContextMenu={handleGridContextMenu}
+          >
+            {/* Sized for the whole sheet, so the scrollbars do; only the cells in view are drawn */}
             <div
-              key={col}
-              className="min-w-[80px] h-8 border border-gray-200 bg-gray-100 flex items-center justify-center text-xs font-medium"
+              className="relative select-none"
+              style={contentSize(layout)}
             >
-              {columnToLetter(col)}
-            </div>
-          ))}
-        </div>
-
-        {/* Data Rows */}
-        {Array.from({ length: rows }, (_, row) => (
-          <div key={row} className="flex">
-            {/* Row Header */}
-            <div className="w-12 h-8 border border-gray-200 bg-gray-100 flex items-center justify-center text-xs font-medium sticky left-0 z-10">
-              {row + 1}
+              {renderer === 'canvas' ? (
+                <>
+                  <CanvasGrid
+                    store={store}
+                    selection={selection}
+                    diff={diff}
+                    editingCell={editingCell}
+                    layout={layout}
+                    scroll={scroll}
+                    viewport={viewport}
+                    onCellMouseDown={handleCellMouseDown}
+                    onCellMouseEnter={handleCellMouseEnter}
+                    onCellDoubleClick={handleCellDoubleClick}
+                    onRowHeaderMouseDown={handleRowHeaderMouseDown}
+                    onRowHeaderMouseEnter={handleRowHeaderMouseEnter}
+                    onColumnHeaderMouseDown={handleColumnHeaderMouseDown}
+                    onColumnHeaderMouseEnter={handleColumnHeaderMouseEnter}
+                    onSelectAll={() => onSelectionChange(selectAll(rows, cols))}
+                    onRowHeaderContextMenu={(row) => handleHeaderContextMenu('rows', row)}
+                    onColumnHeaderContextMenu={(col) => handleHeaderContextMenu('columns', col)}
+                    onResizeStart={resizable ? handleResizeStart : undefined}
+                    onAutoFit={resizable ? handleAutoFit : undefined}
+                  />
+                  {/* The editor stays a real input, laid over the cell being edited */}
+                  {editingCell && (
+                    <div className="absolute z-30 bg-white ring-2 ring-accent ring-inset" style={cellRect(layout, editingCell.row, editingCell.col)}>
+                      {renderCell(editingCell.row, editingCell.col)}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <>
+                  {/* Header Row */}
+                  <div className="sticky top-0 z-20 bg-gray-50" style={{ height: HEADER_HEIGHT }}>
+                    <div
+                      className="sticky left-0 z-10 border border-gray-200 bg-gray-100 flex items-center justify-center text-xs font-medium cursor-pointer hover:bg-gray-200"
+                      style={{ width: HEADER_WIDTH, height: HEADER_HEIGHT }}
+                      onClick={() => onSelectionChange(selectAll(rows, cols))}
+                      title="Select all"
+                    >
+                
+                    </div>
+                    {visibleCols.map(col => (
+                      <div
+                        key={col}
+                        className={`absolute top-0 border border-gray-200 flex items-center justify-center text-xs font-medium cursor-s-resize${getHeaderStyle(selectionTouchesColumn(selection, col), isColumnSelected(selection, col, rows))}`}
+                        style={{ left: HEADER_WIDTH + lineStart(layout.cols, col), width: lineSize(layout.cols, col), height: HEADER_HEIGHT }}
+                        onMouseDown={(e) => handleColumnHeaderMouseDown(e, col)}
+                        onMouseEnter={() => handleColumnHeaderMouseEnter(col)}
+                        onContextMenu={() => handleHeaderContextMenu('columns', col)}
+                      >
+                        {columnToLetter(col)}
+                        {resizable && (
+                          <div
+                            className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+                            onMouseDown={(e) => handleResizeStart(e, 'columns', col)}
+                            onDoubleClick={() => handleAutoFit('columns', col)}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Row Headers */}
+                  <div className="sticky left-0 z-10" style={{ width: HEADER_WIDTH, height: layout.rows.length }}>
+                    {visibleRows.map(row => (
+                      <div
+                        key={row}
+                        className={`absolute left-0 border border-gray-200 flex items-center justify-center text-xs font-medium cursor-e-resize${getHeaderStyle(selectionTouchesRow(selection, row), isRowSelected(selection, row, cols))}`}
+                        style={{ top: lineStart(layout.rows, row), width: HEADER_WIDTH, height: lineSize(layout.rows, row) }}
+                        onMouseDown={(e) => handleRowHeaderMouseDown(e, row)}
+                        onMouseEnter={() => handleRowHeaderMouseEnter(row)}
+                        onContextMenu={() => handleHeaderContextMenu('rows', row)}
+                      >
+                        {row + 1}
+                        {resizable && (
+                          <div
+                            className="absolute bottom-0 left-0 w-full h-1.5 cursor-row-resize hover:bg-primary/40"
+                            onMouseDown={(e) => handleResizeStart(e, 'rows', row)}
+                            onDoubleClick={() => handleAutoFit('rows', row)}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Data Cells */}
+                  {visibleRows.map(row => visibleCols.map(col => (
+                    <div
+                      key={`${row}-${col}`}
+                      className={getCellStyle(row, col)}
+                      style={{ position: 'absolute', ...cellRect(layout, row, col), ...getInlineStyle(getCell(store, row, col)) }}
+                      onMouseDown={(e) => handleCellMouseDown(e, row, col)}
+                      onMouseEnter={() => handleCellMouseEnter(row, col)}
+                      onDoubleClick={() => handleCellDoubleClick(row, col)}
+                    >
+                      {renderCell(row, col)}
+                    </div>
+                  )))}
+                </>
+              )}
             </div>
-            
-            {/* Data Cells */}
-            {Array.from({ length: cols }, (_, col) => (
-              <div
-                key={`${row}-${col}`}
-                className={getCellStyle(row, col)}
-                onClick={() => handleCellClick(row, col)}
-                onDoubleClick={() => handleCellDoubleClick(row, col)}
-              >
-                {renderCell(row, col)}
-              </div>
-            ))}
-          </div>
-        ))}
+          </HeaderContextMenu>
+        </TooltipProvider>
       </div>
-    </div>
+      <LineSizeDialog
+        lines={sizingLines}
+        currentSize={sizingLines ? lineSize(sizingLines.axis === 'rows' ? layout.rows : layout.cols, sizingLines.first) : 0}
+        onOpenChange={(open) => {
+          if (!open) setSizingLines(null)
+        }}
+        onApply={(size) => {
+          if (sizingLines) onResize?.(sizingLines.axis, spanSizes(sizingLines, size))
+        }}
+      />
+    </>
   )
-}
\ No newline at end of file
+}
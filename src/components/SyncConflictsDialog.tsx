@@ -0,0 +1,78 @@
+import React from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Cell } from '../types/spreadsheet'
+import { CellConflict } from '../types/storage'
+
+interface SyncConflictsDialogProps {
+  conflicts: CellConflict[]
+  // Both called with the conflicts the user settled
+  onKeepLocal: (conflicts: CellConflict[]) => void
+  onUseRemote: (conflicts: CellConflict[]) => void
+}
+
+const describe = (cell: Cell | undefined) => cell?.formula ?? cell?.value ?? ''
+
+export const SyncConflictsDialog: React.FC<SyncConflictsDialogProps> = ({ conflicts, onKeepLocal, onUseRemote }) => (
+  <Dialog open={conflicts.length > 0} onOpenChange={(open) => !open && onKeepLocal(conflicts)}>
+    <DialogContent className="sm:max-w-2xl">
+      <DialogHeader>
+        <DialogTitle>Resolve Sync Conflicts</DialogTitle>
+        <DialogDescription>
+          These cells were changed on this device and somewhere else while you were offline.
+          Your version is shown in the sheet until you choose.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-80 overflow-y-auto border border-border rounded-md">
+        <table className="w-full text-sm">
+          <thead className="bg-muted/50 sticky top-0">
+            <tr className="text-left">
+              <th className="px-3 py-2 font-medium">Cell</th>
+              <th className="px-3 py-2 font-medium">This device</th>
+              <th className="px-3 py-2 font-medium">Elsewhere</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {conflicts.map(conflict => (
+              <tr key={`${conflict.sheetId}!${conflict.cellId}`} className="border-t border-border">
+                <td className="px-3 py-2 font-mono whitespace-nowrap">{conflict.sheetName}!{conflict.cellId}</td>
+                <td className="px-3 py-2 font-mono truncate max-w-[12rem]">
+                  {describe(conflict.local) || <span className="text-muted-foreground italic">empty</span>}
+                </td>
+                <td className="px-3 py-2 font-mono truncate max-w-[12rem]">
+                  {describe(conflict.remote) || <span className="text-muted-foreground italic">empty</span>}
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap text-right">
+                  <Button size="sm" variant="ghost" className="h-7" onClick={() => onKeepLocal([conflict])}>
+                    Keep mine
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-7" onClick={() => onUseRemote([conflict])}>
+                    Use theirs
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <DialogFooter>
+        <Button size="sm" variant="outline" onClick={() => onUseRemote(conflicts)}>
+          Use All Theirs
+        </Button>
+        <Button size="sm" onClick={() => onKeepLocal(conflicts)}>
+          Keep All Mine
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  </Dialog>
+)
@@ -0,0 +1,50 @@
+import React from 'react'
+import { AlertCircle, Cloud, CloudOff, RefreshCw } from 'lucide-react'
+import { SyncStatus } from '../types/storage'
+
+interface SyncStatusIndicatorProps {
+  status: SyncStatus
+  pendingCount: number
+  onRetry: () => void
+}
+
+const changes = (count: number) => `${count} ${count === 1 ? 'change' : 'changes'}`
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ status, pendingCount, onRetry }) => {
+  switch (status) {
+    case 'syncing':
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <RefreshCw className="h-3 w-3 animate-spin" />
+          Syncing...
+        </span>
+      )
+    case 'offline':
+      return (
+        <span className="flex items-center gap-1 text-xs text-amber-600" title="Changes are kept on this device">
+          <CloudOff className="h-3 w-3" />
+          Offline{pendingCount > 0 && ` · ${changes(pendingCount)} to sync`}
+        </span>
+      )
+    case 'pending':
+    case 'error':
+      return (
+        <button
+          className={`flex items-center gap-1 text-xs ${status === 'error' ? 'text-red-600' : 'text-muted-foreground'}`}
+          onClick={onRetry}
+          title="Sync now"
+        >
+          <AlertCircle className="h-3 w-3" />
+          {status === 'error' ? 'Sync failed' : 'Waiting to sync'}
+          {pendingCount > 0 && ` · ${changes(pendingCount)}`}
+        </button>
+      )
+    default:
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Cloud className="h-3 w-3" />
+          Synced
+        </span>
+      )
+  }
+}
@@ -0,0 +1,184 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { GitCompare, History, RotateCcw, X } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { WorkbookVersion } from '../types/storage'
+import { CellDiffKind, versionLabel } from '../history/versions'
+
+export const CURRENT_VERSION = 'current'
+
+interface VersionHistoryPanelProps {
+  // null while the list is loading
+  versions: WorkbookVersion[] | null
+  // Set while a comparison is shown on the grid
+  comparison: { fromLabel: string; toLabel: string; counts: Record<CellDiffKind, number> } | null
+  // The selected cell or range, offered as the range to restore
+  defaultRange: string
+  onCreate: (name: string) => void
+  // toId is a version id or CURRENT_VERSION
+  onCompare: (fromId: string, toId: string) => void
+  onStopComparing: () => void
+  onRestore: (versionId: string) => void
+  // Returns a message when the range cannot be restored
+  onRestoreRange: (versionId: string, range: string) => Promise<string | null>
+  onClose: () => void
+}
+
+export const VersionHistoryPanel: React.FC<VersionHistoryPanelProps> = ({
+  versions,
+  comparison,
+  defaultRange,
+  onCreate,
+  onCompare,
+  onStopComparing,
+  onRestore,
+  onRestoreRange,
+  onClose
+}) => {
+  const [name, setName] = useState('')
+  const [compareTo, setCompareTo] = useState(CURRENT_VERSION)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [range, setRange] = useState('')
+  const [rangeError, setRangeError] = useState<string | null>(null)
+
+  const toggleExpanded = (versionId: string) => {
+    setExpandedId(expandedId === versionId ? null : versionId)
+    setRange(defaultRange)
+    setRangeError(null)
+  }
+
+  const handleCreate = () => {
+    onCreate(name)
+    setName('')
+  }
+
+  const handleRestoreRange = async (versionId: string) => {
+    const problem = await onRestoreRange(versionId, range)
+    setRangeError(problem)
+  }
+
+  return (
+    <div className="w-80 bg-white border-l border-border flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <div className="flex items-center gap-2 font-semibold">
+          <History className="h-4 w-4" />
+          Version History
+        </div>
+        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="p-4 space-y-2 border-b border-border">
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="Name this version"
+            className="h-8 text-sm"
+          />
+          <Button size="sm" className="h-8" onClick={handleCreate}>
+            Save
+          </Button>
+        </div>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <span className="shrink-0">Compare against</span>
+          <Select value={compareTo} onValueChange={setCompareTo}>
+            <SelectTrigger className="h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT_VERSION}>Current workbook</SelectItem>
+              {versions?.map(version => (
+                <SelectItem key={version.id} value={version.id}>{versionLabel(version)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {comparison && (
+        <div className="px-4 py-3 bg-amber-50 border-b border-amber-200 text-sm space-y-2">
+          <div>
+            <span className="font-medium">{comparison.fromLabel}</span> → <span className="font-medium">{comparison.toLabel}</span>
+          </div>
+          <div className="flex gap-3 text-xs">
+            <span className="text-green-700">{comparison.counts.added} added</span>
+            <span className="text-red-700">{comparison.counts.removed} removed</span>
+            <span className="text-amber-700">{comparison.counts.changed} changed</span>
+          </div>
+          <Button size="sm" variant="outline" className="h-7" onClick={onStopComparing}>
+            Stop Comparing
+          </Button>
+        </div>
+      )}
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {versions === null && (
+            <p className="text-sm text-muted-foreground py-4 text-center">Loading versions...</p>
+          )}
+          {versions?.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">No versions yet</p>
+          )}
+          {versions?.map(version => (
+            <div key={version.id} className="rounded-md border border-border p-2 space-y-2">
+              <button className="w-full text-left" onClick={() => toggleExpanded(version.id)}>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate flex-1">{versionLabel(version)}</span>
+                  <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+                    {version.kind === 'named' ? 'Named' : 'Auto'}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {version.author ?? 'Unknown'} · {formatDistanceToNow(version.createdAt, { addSuffix: true })}
+                </div>
+              </button>
+
+              {expandedId === version.id && (
+                <div className="space-y-2">
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 flex-1"
+                      disabled={compareTo === version.id}
+                      onClick={() => onCompare(version.id, compareTo)}
+                    >
+                      <GitCompare className="h-3 w-3 mr-1" />
+                      Compare
+                    </Button>
+                    <Button size="sm" variant="outline" className="h-7 flex-1" onClick={() => onRestore(version.id)}>
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      value={range}
+                      onChange={(e) => {
+                        setRange(e.target.value)
+                        setRangeError(null)
+                      }}
+                      placeholder="A1:C10"
+                      className={`h-7 text-xs font-mono ${rangeError ? 'border-red-500 focus-visible:ring-red-500' : ''}`}
+                    />
+                    <Button size="sm" variant="outline" className="h-7 shrink-0" onClick={() => handleRestoreRange(version.id)}>
+                      Restore Range
+                    </Button>
+                  </div>
+                  {rangeError && <p className="text-xs text-red-600">{rangeError}</p>}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
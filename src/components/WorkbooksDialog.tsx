@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { FileSpreadsheet, Pencil, Plus, Trash2 } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+import { WorkbookSummary } from '../types/storage'
+
+interface WorkbooksDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // null while the list is loading
+  workbooks: WorkbookSummary[] | null
+  currentWorkbookId: string
+  onOpen: (workbookId: string) => void
+  onCreate: () => void
+  onRename: (workbookId: string, name: string) => void
+  onDelete: (workbookId: string) => void
+}
+
+export const WorkbooksDialog: React.FC<WorkbooksDialogProps> = ({
+  open,
+  onOpenChange,
+  workbooks,
+  currentWorkbookId,
+  onOpen,
+  onCreate,
+  onRename,
+  onDelete
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const [confirmingId, setConfirmingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setRenamingId(null)
+      setConfirmingId(null)
+    }
+  }, [open])
+
+  const startRename = (workbook: WorkbookSummary) => {
+    setRenamingId(workbook.id)
+    setDraftName(workbook.name)
+    setConfirmingId(null)
+  }
+
+  const commitRename = () => {
+    if (renamingId && draftName.trim()) onRename(renamingId, draftName.trim())
+    setRenamingId(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>My Workbooks</DialogTitle>
+          <DialogDescription>
+            Workbooks are saved to your account as you work.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {workbooks === null && (
+            <p className="text-sm text-muted-foreground py-4 text-center">Loading workbooks...</p>
+          )}
+          {workbooks?.length === 0 && (
+            <p className="text-sm text-muted-foreground py-4 text-center">No saved workbooks yet</p>
+          )}
+          {workbooks?.map(workbook => (
+            <div
+              key={workbook.id}
+              className={`flex items-center gap-2 p-2 rounded-md border ${
+                workbook.id === currentWorkbookId ? 'border-primary bg-primary/5' : 'border-border'
+              }`}
+            >
+              <FileSpreadsheet className="h-4 w-4 text-muted-foreground shrink-0" />
+              <div className="flex-1 min-w-0">
+                {workbook.id === renamingId ? (
+                  <Input
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename()
+                      else if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    onBlur={commitRename}
+                    className="h-7 text-sm"
+                    autoFocus
+                  />
+                ) : (
+                  <button
+                    className="text-left w-full"
+                    onClick={() => onOpen(workbook.id)}
+                    disabled={workbook.id === currentWorkbookId}
+                  >
+                    <div className="text-sm font-medium truncate">{workbook.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {workbook.sheetCount} {workbook.sheetCount === 1 ? 'sheet' : 'sheets'} · edited{' '}
+                      {formatDistanceToNow(workbook.updatedAt, { addSuffix: true })}
+                    </div>
+                  </button>
+                )}
+              </div>
+              {confirmingId === workbook.id ? (
+                <>
+                  <Button size="sm" variant="outline" className="h-8" onClick={() => setConfirmingId(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    className="h-8"
+                    onClick={() => {
+                      setConfirmingId(null)
+                      onDelete(workbook.id)
+                    }}
+                  >
+                    Delete
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => startRename(workbook)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                    onClick={() => setConfirmingId(workbook.id)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button size="sm" onClick={onCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Workbook
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
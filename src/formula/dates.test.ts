@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { dateToSerial, dayOfWeek, nowSerial, parseDateText, serialToDate, serialToTime } from './dates'
+
+describe('1900 date serials', () => {
+  it('numbers days from 1 January 1900, counting the fictitious 29 February', () => {
+    expect(dateToSerial(1900, 1, 1)).toBe(1)
+    expect(dateToSerial(1900, 2, 28)).toBe(59)
+    expect(dateToSerial(1900, 2, 29)).toBe(60)
+    expect(dateToSerial(1900, 3, 1)).toBe(61)
+    expect(dateToSerial(2024, 1, 15)).toBe(45306)
+  })
+
+  it('rolls month and day overflow into the next month or year', () => {
+    expect(dateToSerial(2023, 13, 1)).toBe(dateToSerial(2024, 1, 1))
+    expect(dateToSerial(2024, 3, 0)).toBe(dateToSerial(2024, 2, 29))
+  })
+
+  it('reads serials back as dates, including serial 0 and the leap-year bug', () => {
+    expect(serialToDate(45306.75)).toEqual({ year: 2024, month: 1, day: 15 })
+    expect(serialToDate(60)).toEqual({ year: 1900, month: 2, day: 29 })
+    expect(serialToDate(61)).toEqual({ year: 1900, month: 3, day: 1 })
+    expect(serialToDate(0)).toEqual({ year: 1900, month: 1, day: 0 })
+  })
+
+  it('reads the fraction as the time of day', () => {
+    expect(serialToTime(45306.75)).toEqual({ hours: 18, minutes: 0, seconds: 0 })
+    expect(serialToTime(0.5 + 90 / 86400)).toEqual({ hours: 12, minutes: 1, seconds: 30 })
+  })
+
+  it('counts weekdays from Sunday', () => {
+    expect(dayOfWeek(dateToSerial(2024, 1, 14))).toBe(0)
+    expect(dayOfWeek(dateToSerial(2024, 1, 20))).toBe(6)
+  })
+
+  it('takes now from the local calendar', () => {
+    expect(nowSerial(new Date(2024, 0, 15, 6, 0, 0))).toBe(45306.25)
+  })
+})
+
+describe('parseDateText', () => {
+  it('reads MM/DD/YYYY and YYYY-MM-DD dates', () => {
+    expect(parseDateText('1/15/2024')).toBe(45306)
+    expect(parseDateText(' 2024-01-15 ')).toBe(45306)
+  })
+
+  it('rejects other text and days that do not exist', () => {
+    expect(parseDateText('15.01.2024')).toBeNull()
+    expect(parseDateText('2/30/2024')).toBeNull()
+    expect(parseDateText('2023-02-29')).toBeNull()
+    expect(parseDateText('1/1/1899')).toBeNull()
+  })
+})
@@ -0,0 +1,80 @@
+// Excel's 1900 date system: serial 1 is 1 January 1900 and the time of day is the
+// fractional part. Excel inherited Lotus 1-2-3's belief that 1900 was a leap year,
+// so serial 60 is the fictitious 29 February 1900 and every later date is one higher.
+// Serial 0 is Excel's 0 January 1900, which DAY reads as 0 and MONTH as 1.
+
+export interface DateParts {
+  year: number
+  month: number
+  day: number
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const EPOCH = Date.UTC(1899, 11, 31)
+const LEAP_BUG_SERIAL = 60
+const ZERO_DATE: DateParts = { year: 1900, month: 1, day: 0 }
+
+export const MAX_SERIAL = 2958465 // 31 December 9999
+
+const utcDate = (year: number, month: number, day: number): number => {
+  const date = new Date(0)
+  // setUTCFullYear keeps years 0–99 literal, where Date.UTC would map them to 1900–1999
+  date.setUTCFullYear(year, month - 1, day)
+  return date.getTime()
+}
+
+// Month and day overflow roll over like Excel's DATE: month 13 is January of the next year
+export const dateToSerial = (year: number, month: number, day: number): number => {
+  if (year === 1900 && month === 2 && day === 29) return LEAP_BUG_SERIAL
+  const days = Math.round((utcDate(year, month, day) - EPOCH) / MS_PER_DAY)
+  return days >= LEAP_BUG_SERIAL ? days + 1 : days
+}
+
+export const serialToDate = (serial: number): DateParts => {
+  const whole = Math.floor(serial)
+  if (whole === 0) return ZERO_DATE
+  if (whole === LEAP_BUG_SERIAL) return { year: 1900, month: 2, day: 29 }
+
+  const date = new Date(EPOCH + (whole > LEAP_BUG_SERIAL ? whole - 1 : whole) * MS_PER_DAY)
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+export const serialToTime = (serial: number): { hours: number; minutes: number; seconds: number } => {
+  const totalSeconds = Math.round((serial - Math.floor(serial)) * 24 * 60 * 60)
+  return {
+    hours: Math.floor(totalSeconds / 3600) % 24,
+    minutes: Math.floor(totalSeconds / 60) % 60,
+    seconds: totalSeconds % 60
+  }
+}
+
+// 0 for Sunday through 6 for Saturday
+export const dayOfWeek = (serial: number): number => ((Math.floor(serial) - 1) % 7 + 7) % 7
+
+export const daysInMonth = (year: number, month: number): number =>
+  year === 1900 && month === 2 ? 29 : new Date(utcDate(year, month + 1, 0)).getUTCDate()
+
+// The local wall-clock date and time, so TODAY() matches the user's calendar
+export const nowSerial = (now: Date = new Date()): number => {
+  const date = dateToSerial(now.getFullYear(), now.getMonth() + 1, now.getDate())
+  const seconds = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds()
+  return date + seconds / (24 * 60 * 60)
+}
+
+const US_DATE = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/
+
+// Reads the MM/DD/YYYY and YYYY-MM-DD forms that detectCellType recognises as dates
+export const parseDateText = (text: string): number | null => {
+  const trimmed = text.trim()
+  const us = trimmed.match(US_DATE)
+  const iso = trimmed.match(ISO_DATE)
+  if (!us && !iso) return null
+
+  const [year, month, day] = us
+    ? [Number(us[3]), Number(us[1]), Number(us[2])]
+    : [Number(iso![1]), Number(iso![2]), Number(iso![3])]
+
+  if (year < 1900 || month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null
+  return dateToSerial(year, month, day)
+}
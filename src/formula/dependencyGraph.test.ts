@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { applyCellEdits, buildDependencyGraph } from './engine'
+import { getDirectDependents, getRecalculationOrder } from './dependencyGraph'
+
+const calculate = (inputs: Record<string, string>) => {
+  const graph = buildDependencyGraph({})
+  const edits = Object.entries(inputs).map(([id, input]) => ({ row: Number(id.slice(1)) - 1, col: id.charCodeAt(0) - 65, input }))
+  return { graph, cells: applyCellEdits({}, graph, edits) }
+}
+
+describe('getRecalculationOrder', () => {
+  it('orders every cell downstream of a change after its precedents', () => {
+    const { graph } = calculate({ A1: '1', B1: '=A1*2', C1: '=B1+A1', D1: '=C1', E1: '5' })
+    const { order, cycles } = getRecalculationOrder(graph, ['A1'])
+    expect(cycles).toEqual([])
+    expect(order).toEqual(['A1', 'B1', 'C1', 'D1'])
+  })
+
+  it('tracks the cells of a range and forgets references a formula no longer has', () => {
+    const { graph, cells } = calculate({ A1: '1', A2: '2', B1: '=SUM(A1:A2)' })
+    expect(getDirectDependents(graph, 'A2')).toEqual(['B1'])
+    applyCellEdits(cells, graph, [{ row: 0, col: 1, input: '=A1' }])
+    expect(getDirectDependents(graph, 'A2')).toEqual([])
+  })
+
+  it('recalculates dependents on every edit', () => {
+    const { graph, cells } = calculate({ A1: '1', B1: '=A1*2', C1: '=B1+1' })
+    const next = applyCellEdits(cells, graph, [{ row: 0, col: 0, input: '10' }])
+    expect([next.B1.value, next.C1.value]).toEqual(['20', '21'])
+  })
+})
+
+describe('circular references', () => {
+  it('are reported as the path around the cycle', () => {
+    const { graph } = calculate({ A1: '=C1', B1: '=A1', C1: '=B1', D1: '=C1+1' })
+    const { order, cycles } = getRecalculationOrder(graph, ['A1'])
+    expect(cycles).toHaveLength(1)
+    expect(cycles[0]).toHaveLength(4)
+    expect(cycles[0][0]).toBe(cycles[0][3])
+    expect(new Set(cycles[0])).toEqual(new Set(['A1', 'B1', 'C1']))
+    expect(order).toEqual(['D1'])
+  })
+
+  it('show #CIRC! in every cell of the cycle, with the path in the message', () => {
+    const { cells } = calculate({ A1: '=B1+1', B1: '=A1', C1: '=B1*2' })
+    expect([cells.A1.error?.code, cells.B1.error?.code]).toEqual(['#CIRC!', '#CIRC!'])
+    expect(cells.A1.error?.message).toMatch(/^Circular reference: [AB]1 → [AB]1 → [AB]1$/)
+    expect(cells.C1.error?.code).toBe('#CIRC!')
+  })
+
+  it('include a cell that reads itself', () => {
+    expect(calculate({ A1: '=SUM(A1:A3)' }).cells.A1.error?.code).toBe('#CIRC!')
+  })
+
+  it('clear once the cycle is broken', () => {
+    const { graph, cells } = calculate({ A1: '=B1+1', B1: '=A1' })
+    const next = applyCellEdits(cells, graph, [{ row: 0, col: 1, input: '4' }])
+    expect(next.A1.error).toBeUndefined()
+    expect(next.A1.value).toBe('5')
+  })
+})
+
+describe('error values', () => {
+  it('pass from the cell that produced them to the cells reading it', () => {
+    const { cells } = calculate({ A1: '=1/0', B1: '=A1+1', C1: '=IFERROR(B1, "none")', D1: '=NOPE(1)' })
+    expect(cells.B1.error?.code).toBe('#DIV/0!')
+    expect(cells.C1.value).toBe('none')
+    expect(cells.D1.error?.code).toBe('#NAME?')
+  })
+
+  it('can be tested for', () => {
+    const { cells } = calculate({ A1: '=NA()', B1: '=ISNA(A1)', C1: '=ISERROR(A1 * 2)' })
+    expect(cells.A1.error?.code).toBe('#N/A')
+    expect([cells.B1.value, cells.C1.value]).toEqual(['TRUE', 'TRUE'])
+  })
+})
@@ -0,0 +1,262 @@
+import { CellAddress, FormulaNode } from '../types/formula'
+import { getCellId, parseCellId } from '../utils/spreadsheet'
+import { collectReferences } from './references'
+
+interface RangeBounds {
+  start: CellAddress
+  end: CellAddress
+}
+
+export interface DependencyGraph {
+  // formula cell id -> cell ids it reads directly
+  precedents: Map<string, Set<string>>
+  // cell id -> formula cell ids that read it directly
+  dependents: Map<string, Set<string>>
+  // formula cell id -> ranges it reads; ranges are kept whole because A:A is a million cells
+  rangePrecedents: Map<string, RangeBounds[]>
+  // formula cells that call OFFSET, INDIRECT and the like; they recalculate on every change
+  volatile: Set<string>
+  // dynamic array formula cell id -> the area its result spills into, or would if not blocked
+  spills: Map<string, RangeBounds>
+  // upper-case name -> formula cell ids that use it, so redefining a name recalculates them
+  nameDependents: Map<string, Set<string>>
+  // upper-case defined name -> the areas, other names and other sheets its definition refers to
+  nameReferences: Map<string, { ranges: RangeBounds[]; names: string[]; sheets: string[] }>
+  // upper-case sheet name -> formula cell ids that read from that sheet
+  sheetDependents: Map<string, Set<string>>
+}
+
+export const createDependencyGraph = (): DependencyGraph => ({
+  precedents: new Map(),
+  dependents: new Map(),
+  rangePrecedents: new Map(),
+  volatile: new Set(),
+  spills: new Map(),
+  nameDependents: new Map(),
+  nameReferences: new Map(),
+  sheetDependents: new Map()
+})
+
+const contains = ({ start, end }: RangeBounds, row: number, col: number) =>
+  row >= start.row && row <= end.row && col >= start.col && col <= end.col
+
+const overlaps = (a: RangeBounds, b: RangeBounds) =>
+  a.start.row <= b.end.row && b.start.row <= a.end.row && a.start.col <= b.end.col && b.start.col <= a.end.col
+
+const clearCellDependencies = (graph: DependencyGraph, cellId: string) => {
+  for (const precedent of graph.precedents.get(cellId) ?? []) {
+    const dependents = graph.dependents.get(precedent)
+    dependents?.delete(cellId)
+    if (dependents?.size === 0) graph.dependents.delete(precedent)
+  }
+  graph.precedents.delete(cellId)
+  graph.rangePrecedents.delete(cellId)
+  graph.volatile.delete(cellId)
+  for (const dependentsByKey of [graph.nameDependents, graph.sheetDependents]) {
+    for (const [key, dependents] of dependentsByKey) {
+      dependents.delete(cellId)
+      if (dependents.size === 0) dependentsByKey.delete(key)
+    }
+  }
+}
+
+const addDependent = (dependentsByKey: Map<string, Set<string>>, key: string, cellId: string) => {
+  if (!dependentsByKey.has(key)) dependentsByKey.set(key, new Set())
+  dependentsByKey.get(key)!.add(cellId)
+}
+
+// Replaces the recorded precedents of a cell; pass null when it no longer holds a formula
+export const setCellDependencies = (graph: DependencyGraph, cellId: string, ast: FormulaNode | null) => {
+  clearCellDependencies(graph, cellId)
+  if (!ast) return
+
+  const { cells, ranges, volatile, names, sheets } = collectReferences(ast)
+  if (volatile) graph.volatile.add(cellId)
+
+  for (const name of names) addDependent(graph.nameDependents, name, cellId)
+  for (const sheet of sheets) addDependent(graph.sheetDependents, sheet, cellId)
+
+  const precedents = new Set(cells.map(({ row, col }) => getCellId(row, col)))
+  graph.precedents.set(cellId, precedents)
+
+  for (const precedent of precedents) {
+    if (!graph.dependents.has(precedent)) graph.dependents.set(precedent, new Set())
+    graph.dependents.get(precedent)!.add(cellId)
+  }
+
+  if (ranges.length > 0) {
+    graph.rangePrecedents.set(cellId, ranges.map(({ start, end }) => ({ start, end })))
+  }
+}
+
+// Records what a defined name refers to, so formulas using the name follow changes to those
+// cells; pass null when the name is deleted
+export const setNameReferences = (graph: DependencyGraph, name: string, ast: FormulaNode | null) => {
+  graph.nameReferences.delete(name.toUpperCase())
+  if (!ast) return
+
+  const { cells, ranges, names, sheets } = collectReferences(ast)
+  graph.nameReferences.set(name.toUpperCase(), {
+    ranges: [...cells.map(cell => ({ start: cell, end: cell })), ...ranges.map(({ start, end }) => ({ start, end }))],
+    names,
+    sheets
+  })
+}
+
+export const getNameDependents = (graph: DependencyGraph, name: string): string[] =>
+  [...(graph.nameDependents.get(name.toUpperCase()) ?? [])]
+
+// Defined names whose definitions match, directly or through other names
+const namesWhere = (
+  graph: DependencyGraph,
+  matches: (references: { ranges: RangeBounds[]; sheets: string[] }) => boolean
+): Set<string> => {
+  const found = new Set<string>()
+  for (const [name, references] of graph.nameReferences) {
+    if (matches(references)) found.add(name)
+  }
+
+  let grew = found.size > 0
+  while (grew) {
+    grew = false
+    for (const [name, { names }] of graph.nameReferences) {
+      if (!found.has(name) && names.some(other => found.has(other))) {
+        found.add(name)
+        grew = true
+      }
+    }
+  }
+  return found
+}
+
+// Formula cells that read from another sheet, by name or through a defined name, and so
+// have to recalculate when that sheet changes
+export const getSheetDependents = (graph: DependencyGraph, sheetName: string): string[] => {
+  const key = sheetName.toUpperCase()
+  const result = new Set(graph.sheetDependents.get(key))
+  for (const name of namesWhere(graph, ({ sheets }) => sheets.includes(key))) {
+    for (const dependent of graph.nameDependents.get(name) ?? []) result.add(dependent)
+  }
+  return [...result]
+}
+
+export const getDirectDependents = (graph: DependencyGraph, cellId: string): string[] => {
+  const result = new Set(graph.dependents.get(cellId))
+  const { row, col } = parseCellId(cellId)
+
+  for (const [formulaId, ranges] of graph.rangePrecedents) {
+    if (ranges.some(range => contains(range, row, col))) result.add(formulaId)
+  }
+
+  // Formulas using a defined name read whatever the name refers to
+  const spill = graph.spills.get(cellId)
+  const area = spill ?? { start: { row, col }, end: { row, col } }
+  const names = namesWhere(graph, ({ ranges }) => ranges.some(range => overlaps(range, area)))
+  for (const name of names) {
+    for (const dependent of graph.nameDependents.get(name) ?? []) result.add(dependent)
+  }
+
+  // A spilling formula feeds everything that reads its spill area
+  if (spill) {
+    for (let r = spill.start.row; r <= spill.end.row; r++) {
+      for (let c = spill.start.col; c <= spill.end.col; c++) {
+        for (const dependent of graph.dependents.get(getCellId(r, c)) ?? []) result.add(dependent)
+      }
+    }
+    for (const [formulaId, ranges] of graph.rangePrecedents) {
+      if (ranges.some(range => overlaps(range, spill))) result.add(formulaId)
+    }
+  }
+
+  // ...and has to look again when a cell in that area changes, since it may block the spill
+  for (const [anchorId, area] of graph.spills) {
+    if (anchorId !== cellId && contains(area, row, col)) result.add(anchorId)
+  }
+
+  return [...result]
+}
+
+// Orders the changed cells and everything downstream of them so each formula is
+// evaluated after its precedents. Cycles are cut out and reported as paths such as
+// [A1, B1, A1] (A1 reads B1, which reads A1); cells that merely read from a cycle
+// still get ordered after it.
+export const getRecalculationOrder = (
+  graph: DependencyGraph,
+  changedIds: string[]
+): { order: string[]; cycles: string[][] } => {
+  const collectDownstream = (startIds: Iterable<string>) => {
+    const found = new Set<string>()
+    const stack = [...startIds]
+    while (stack.length > 0) {
+      const cellId = stack.pop()!
+      if (found.has(cellId)) continue
+      found.add(cellId)
+      stack.push(...getDirectDependents(graph, cellId))
+    }
+    return found
+  }
+
+  const affected = collectDownstream([...changedIds, ...graph.volatile])
+
+  // A volatile cell may read any cell, so it runs after every affected cell that is
+  // not itself downstream of a volatile cell (which would make a false cycle)
+  const downstreamOfVolatile = collectDownstream(graph.volatile)
+  const volatileEdges = (cellId: string) =>
+    downstreamOfVolatile.has(cellId) ? [] : [...graph.volatile]
+
+  // Kahn's algorithm restricted to the affected cells
+  const inDegree = new Map<string, number>()
+  const downstream = new Map<string, string[]>()
+  const upstream = new Map<string, string[]>()
+  for (const cellId of affected) {
+    inDegree.set(cellId, inDegree.get(cellId) ?? 0)
+    const dependents = [...new Set([...getDirectDependents(graph, cellId), ...volatileEdges(cellId)])]
+      .filter(id => affected.has(id))
+    downstream.set(cellId, dependents)
+    for (const dependent of dependents) {
+      inDegree.set(dependent, (inDegree.get(dependent) ?? 0) + 1)
+      if (!upstream.has(dependent)) upstream.set(dependent, [])
+      upstream.get(dependent)!.push(cellId)
+    }
+  }
+
+  const order: string[] = []
+  const cycles: string[][] = []
+  const done = new Set<string>()
+  const queue = [...affected].filter(cellId => inDegree.get(cellId) === 0)
+
+  const release = (cellId: string) => {
+    done.add(cellId)
+    for (const dependent of downstream.get(cellId)!) {
+      if (done.has(dependent)) continue
+      const remaining = inDegree.get(dependent)! - 1
+      inDegree.set(dependent, remaining)
+      if (remaining === 0) queue.push(dependent)
+    }
+  }
+
+  while (done.size < affected.size) {
+    while (queue.length > 0) {
+      const cellId = queue.shift()!
+      if (done.has(cellId)) continue
+      order.push(cellId)
+      release(cellId)
+    }
+    if (done.size === affected.size) break
+
+    // Every cell left has an unfinished precedent, so walking upstream must loop back
+    const path: string[] = []
+    const seen = new Map<string, number>()
+    let current = [...affected].find(cellId => !done.has(cellId))!
+    while (!seen.has(current)) {
+      seen.set(current, path.length)
+      path.push(current)
+      current = upstream.get(current)!.find(cellId => !done.has(cellId))!
+    }
+    const cycle = [...path.slice(seen.get(current)!), current]
+    cycles.push(cycle)
+    for (const cellId of new Set(cycle)) release(cellId)
+  }
+
+  return { order, cycles }
+}
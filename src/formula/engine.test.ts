@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, Workbook } from '../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph, environmentFor } from './engine'
+import { getCellId } from '../utils/spreadsheet'
+import { createSheet, createWorkbook, updateSheet } from '../utils/workbook'
+
+const calculate = (edits: { row: number; col: number; input: string }[], cells: Record<string, Cell> = {}) =>
+  applyCellEdits(cells, buildDependencyGraph(cells), edits)
+
+// Applies the edits to one sheet of the workbook, reading the others as they are
+const calculateOn = (workbook: Workbook, sheetIndex: number, edits: { row: number; col: number; input: string }[]) => {
+  const sheet = workbook.sheets[sheetIndex]
+  const cells = applyCellEdits(sheet.cells, buildDependencyGraph(sheet.cells), edits, environmentFor(workbook, sheet.id))
+  return updateSheet(workbook, sheet.id, { cells })
+}
+
+const valueAt = (cells: Record<string, Cell>, row: number, col: number) => cells[getCellId(row, col)]?.value
+
+describe('range reads', () => {
+  it('reads whole columns as far as the sheet is used', () => {
+    const cells = calculate([
+      { row: 0, col: 0, input: '4' },
+      { row: 4999, col: 0, input: '6' },
+      { row: 0, col: 1, input: '=SUM(A:A)' },
+      { row: 1, col: 1, input: '=INDEX(A:A, 5000)' }
+    ])
+    expect(valueAt(cells, 0, 1)).toBe('10')
+    expect(valueAt(cells, 1, 1)).toBe('6')
+  })
+
+  it('reads results computed earlier in the same recalculation', () => {
+    const edits = Array.from({ length: 2000 }, (_, row) => ({ row, col: 0, input: `=${row + 1}*2` }))
+    const cells = calculate([...edits, { row: 0, col: 1, input: '=SUM(A1:A2000)' }, { row: 1, col: 1, input: '=COUNT(A:A)' }])
+    expect(valueAt(cells, 0, 1)).toBe(String(2000 * 2001))
+    expect(valueAt(cells, 1, 1)).toBe('2000')
+  })
+
+  it('reads large ranges with gaps as empty', () => {
+    const cells = calculate([
+      { row: 10, col: 2, input: 'x' },
+      { row: 1500, col: 3, input: '5' },
+      { row: 0, col: 5, input: '=COUNTA(A1:D2000)' },
+      { row: 1, col: 5, input: '=SUM(A1:D2000)' },
+      { row: 2, col: 5, input: '=INDEX(A1:D2000, 11, 3)' },
+      { row: 3, col: 5, input: '=INDEX(A1:D2000, 12, 3)' }
+    ])
+    expect(valueAt(cells, 0, 5)).toBe('2')
+    expect(valueAt(cells, 1, 5)).toBe('5')
+    expect(valueAt(cells, 2, 5)).toBe('x')
+    expect(valueAt(cells, 3, 5)).toBe('0')
+  })
+
+  it('reads the cells a spill fills', () => {
+    const cells = calculate([
+      { row: 0, col: 0, input: '=SEQUENCE(1200)' },
+      { row: 0, col: 1, input: '=SUM(A1:A1200)' },
+      { row: 1, col: 1, input: '=SUM(A1#)' }
+    ])
+    expect(valueAt(cells, 0, 1)).toBe(String(1200 * 1201 / 2))
+    expect(valueAt(cells, 1, 1)).toBe(String(1200 * 1201 / 2))
+  })
+})
+
+describe('references to other sheets', () => {
+  it('reads a SUMIF or AVERAGEIF sum range from its own sheet', () => {
+    const column = (values: string[], col: number) => values.map((input, row) => ({ row, col, input }))
+    const workbook = createWorkbook('Budget', [createSheet('Summary'), createSheet('Data')])
+    const data = calculateOn(workbook, 1, column(['10', '20', '30'], 1))
+    const summary = calculateOn(data, 0, [
+      ...column(['1', '2', '3'], 2),
+      ...column(['100', '200', '300'], 1),
+      { row: 0, col: 5, input: '=SUMIF(C1:C3,">1",Data!B1:B3)' },
+      { row: 1, col: 5, input: '=AVERAGEIF(C1:C3,">1",Data!B1:B3)' }
+    ])
+    const cells = summary.sheets[0].cells
+    expect(valueAt(cells, 0, 5)).toBe('50')
+    expect(valueAt(cells, 1, 5)).toBe('25')
+  })
+})
@@ -0,0 +1,536 @@
+import { Cell, CellStore, DefinedName, FormulaEnvironment, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { CellAddress, EvaluationContext, FormulaNode, FormulaValue, NumberFormat, ScalarValue } from '../types/formula'
+import { detectCellType, formatCellReference, getCellId } from '../utils/spreadsheet'
+import { cellsInRange, createCellStore } from '../utils/cellStore'
+import { MAX_COLS, MAX_ROWS, parseFormula } from './parser'
+import { evaluateNode, evaluateToMatrix } from './evaluator'
+import { FormulaError, captureError, isErrorValue, makeError } from './errors'
+import { cellToValue, toText } from './values'
+import { getFunction } from './functions/registry'
+import { moveReferences, shiftFormula } from './referenceAdjuster'
+import { namesForSheet } from './names'
+import {
+  DependencyGraph,
+  createDependencyGraph,
+  getRecalculationOrder,
+  getSheetDependents,
+  setCellDependencies,
+  setNameReferences
+} from './dependencyGraph'
+
+export const EMPTY_ENVIRONMENT: FormulaEnvironment = { sheetId: '', sheets: [], definedNames: [], namedFunctions: [] }
+
+export const environmentFor = (workbook: Workbook, sheetId: string): FormulaEnvironment => ({
+  sheetId,
+  sheets: workbook.sheets,
+  definedNames: workbook.definedNames,
+  namedFunctions: workbook.namedFunctions
+})
+
+// Ranges up to this many cells are read cell by cell rather than indexing the sheet for them
+const DIRECT_READ_LIMIT = 1024
+
+export const createEvaluationContext = (
+  cells: Record<string, Cell>,
+  environment: FormulaEnvironment = EMPTY_ENVIRONMENT
+): EvaluationContext => {
+  // Indexed the first time a large range or the used area is read. Results computed later
+  // land in cells, which values are read from; a context is made afresh whenever cells
+  // are added, as spills change, so the positions indexed stay right.
+  let store: CellStore | null = null
+  const indexed = () => (store ??= createCellStore(cells))
+  const definitions = new Map(
+    [...environment.namedFunctions, ...namesForSheet(environment.definedNames, environment.sheetId)]
+      .map(definition => [definition.name.toUpperCase(), definition])
+  )
+  const resolved = new Map<string, FormulaValue>()
+  const resolving = new Set<string>()
+  const sheetContexts = new Map<string, EvaluationContext>()
+
+  const context: EvaluationContext = {
+    getCellValue: (row, col) => cellToValue(cells[getCellId(row, col)]),
+    getRangeValues: (start, end) => {
+      const rows = end.row - start.row + 1
+      const cols = end.col - start.col + 1
+      if (rows * cols <= DIRECT_READ_LIMIT) {
+        return Array.from({ length: rows }, (_, r) =>
+          Array.from({ length: cols }, (_, c) => context.getCellValue(start.row + r, start.col + c)))
+      }
+      const values = Array.from({ length: rows }, () => new Array<ScalarValue>(cols).fill(null))
+      for (const { id, row, col } of cellsInRange(indexed(), { start, end })) {
+        values[row - start.row][col - start.col] = cellToValue(cells[id])
+      }
+      return values
+    },
+    getUsedBounds: () => {
+      const used = indexed().usedRange
+      return used ? { rows: used.end.row + 1, cols: used.end.col + 1 } : { rows: 0, cols: 0 }
+    },
+    getSpillRange: (row, col) => {
+      const cell = cells[getCellId(row, col)]
+      if (!cell?.spill || cell.error) return null
+      return {
+        start: { row, col },
+        end: { row: row + cell.spill.rows - 1, col: col + cell.spill.cols - 1 }
+      }
+    },
+    // A name's definition is evaluated once per context: a range, a constant, or the LAMBDA
+    // of a named function, whose closure then does the work on each call
+    resolveName: name => {
+      const key = name.toUpperCase()
+      const definition = definitions.get(key)
+      if (!definition) return undefined
+      if (!resolved.has(key)) {
+        if (resolving.has(key)) throw new FormulaError('#CIRC!', `The name ${definition.name} refers to itself`)
+        const ast = tryParse(definition.formula)
+        if (!ast) throw new FormulaError('#NAME?', `The name ${definition.name} has an invalid formula`)
+        resolving.add(key)
+        try {
+          resolved.set(key, evaluateNode(ast, context))
+        } finally {
+          resolving.delete(key)
+        }
+      }
+      return resolved.get(key)
+    },
+    // Other sheets are read as they were last calculated; a sheet naming itself reads these cells
+    resolveSheet: name => {
+      const sheet = environment.sheets.find(candidate => candidate.name.toUpperCase() === name.toUpperCase())
+      if (!sheet) return undefined
+      if (sheet.id === environment.sheetId) return context
+      if (!sheetContexts.has(sheet.id)) {
+        sheetContexts.set(sheet.id, createEvaluationContext(sheet.cells, { ...environment, sheetId: sheet.id }))
+      }
+      return sheetContexts.get(sheet.id)
+    }
+  }
+  return context
+}
+
+const tryParse = (formula: string): FormulaNode | null => {
+  try {
+    return parseFormula(formula)
+  } catch {
+    return null
+  }
+}
+
+// Formula cells keep their computed result as display text, with the error detail alongside
+const withResult = (cell: Cell, result: ScalarValue, numberFormat?: NumberFormat): Cell => {
+  if (isErrorValue(result)) {
+    return {
+      ...cell,
+      value: result.code,
+      error: { code: result.code, message: result.message },
+      numberFormat: undefined
+    }
+  }
+  // A formula that points at an empty cell displays 0, as in Excel
+  return {
+    ...cell,
+    value: result === null ? '0' : toText(result),
+    error: undefined,
+    numberFormat: typeof result === 'number' ? numberFormat : undefined
+  }
+}
+
+// Like Excel, a formula takes its display format from the date function or date cell it is
+// built on: =B2+30 stays a date, while =C2-B2 on two dates is a plain number of days
+const inferNumberFormat = (node: FormulaNode, cells: Record<string, Cell>): NumberFormat | undefined => {
+  switch (node.type) {
+    case 'cell': {
+      const cell = cells[getCellId(node.row, node.col)]
+      return cell?.type === 'date' ? 'date' : cell?.numberFormat
+    }
+    case 'call':
+      return getFunction(node.name)?.resultFormat
+    case 'binary': {
+      const left = inferNumberFormat(node.left, cells)
+      const right = inferNumberFormat(node.right, cells)
+      if (node.operator === '+') return left ?? right
+      if (node.operator === '-') return right ? undefined : left
+      return undefined
+    }
+    default:
+      return undefined
+  }
+}
+
+const computeResult = (
+  formula: string,
+  context: EvaluationContext,
+  cells: Record<string, Cell>
+): { values: ScalarValue[][]; numberFormat?: NumberFormat } => {
+  const ast = captureError(() => parseFormula(formula))
+  if (isErrorValue(ast)) return { values: [[makeError('#NAME?', `Formula parse error: ${ast.message}`)]] }
+  return { values: evaluateToMatrix(ast, context), numberFormat: inferNumberFormat(ast, cells) }
+}
+
+const rangeLabel = (start: CellAddress, end: CellAddress) =>
+  `${formatCellReference({ ...start, absoluteRow: false, absoluteCol: false })}:` +
+  `${formatCellReference({ ...end, absoluteRow: false, absoluteCol: false })}`
+
+// Removes the cells an anchor filled last time; returns their ids
+const clearSpill = (cells: Record<string, Cell>, graph: DependencyGraph, anchorId: string): string[] => {
+  const area = graph.spills.get(anchorId)
+  graph.spills.delete(anchorId)
+  if (!area) return []
+
+  const cleared: string[] = []
+  for (let row = area.start.row; row <= area.end.row; row++) {
+    for (let col = area.start.col; col <= area.end.col; col++) {
+      const cell = cells[getCellId(row, col)]
+      if (cell?.spillAnchor !== anchorId) continue
+      if (cell.style) {
+        cells[cell.id] = { id: cell.id, row, col, value: '', type: 'text', style: cell.style }
+      } else {
+        delete cells[cell.id]
+      }
+      cleared.push(cell.id)
+    }
+  }
+  return cleared
+}
+
+// Stores a formula's result. An array result spills into the cells below and to the right,
+// or becomes #SPILL! when anything is in the way. Returns the ids of cells that started or
+// stopped holding spilled values, since formulas reading them were not ordered after the anchor.
+const storeResult = (
+  cells: Record<string, Cell>,
+  graph: DependencyGraph,
+  anchor: Cell,
+  values: ScalarValue[][],
+  numberFormat?: NumberFormat
+): string[] => {
+  const cleared = clearSpill(cells, graph, anchor.id)
+  const rows = values.length
+  const cols = values[0].length
+  if (rows === 1 && cols === 1) {
+    cells[anchor.id] = { ...withResult(anchor, values[0][0], numberFormat), spill: undefined }
+    return cleared
+  }
+
+  const area = {
+    start: { row: anchor.row, col: anchor.col },
+    end: { row: anchor.row + rows - 1, col: anchor.col + cols - 1 }
+  }
+  graph.spills.set(anchor.id, area)
+
+  let blocker: string | null = area.end.row >= MAX_ROWS || area.end.col >= MAX_COLS
+    ? `The spill range ${rangeLabel(area.start, area.end)} extends past the edge of the sheet`
+    : null
+  for (let row = area.start.row; row <= area.end.row && !blocker; row++) {
+    for (let col = area.start.col; col <= area.end.col && !blocker; col++) {
+      const cell = cells[getCellId(row, col)]
+      if (!cell || cell.id === anchor.id) continue
+      if (cell.spillAnchor || cell.formula || cell.value !== '') {
+        blocker = `${cell.id} is in the way of the spill range ${rangeLabel(area.start, area.end)}`
+      }
+    }
+  }
+
+  const spill = { rows, cols }
+  if (blocker) {
+    cells[anchor.id] = { ...withResult(anchor, makeError('#SPILL!', blocker)), spill }
+    return cleared
+  }
+
+  const filled: string[] = []
+  values.forEach((rowValues, r) => rowValues.forEach((value, c) => {
+    const row = anchor.row + r
+    const col = anchor.col + c
+    const id = getCellId(row, col)
+    if (id === anchor.id) {
+      cells[id] = { ...withResult(anchor, value, numberFormat), spill }
+    } else {
+      const base: Cell = { id, row, col, value: '', type: 'formula', style: cells[id]?.style, spillAnchor: anchor.id }
+      cells[id] = withResult(base, value, numberFormat)
+      filled.push(id)
+    }
+  }))
+
+  const changed = new Set([...cleared, ...filled])
+  for (const id of cleared) if (filled.includes(id)) changed.delete(id)
+  return [...changed]
+}
+
+// Replaces the defined names the graph knows about; formulas using them are not recalculated
+export const registerDefinedNames = (graph: DependencyGraph, definedNames: DefinedName[]) => {
+  graph.nameReferences.clear()
+  for (const { name, formula } of definedNames) setNameReferences(graph, name, tryParse(formula))
+}
+
+export const buildDependencyGraph = (
+  cells: Record<string, Cell>,
+  definedNames: DefinedName[] = []
+): DependencyGraph => {
+  const graph = createDependencyGraph()
+  registerDefinedNames(graph, definedNames)
+  for (const cell of Object.values(cells)) {
+    if (cell.formula) setCellDependencies(graph, cell.id, tryParse(cell.formula))
+    if (cell.spill) {
+      graph.spills.set(cell.id, {
+        start: { row: cell.row, col: cell.col },
+        end: { row: cell.row + cell.spill.rows - 1, col: cell.col + cell.spill.cols - 1 }
+      })
+    }
+  }
+  return graph
+}
+
+// A graph for each sheet of a workbook, keyed by sheet id
+export const buildWorkbookGraphs = (workbook: Workbook): Record<string, DependencyGraph> =>
+  Object.fromEntries(workbook.sheets.map(sheet => [
+    sheet.id,
+    buildDependencyGraph(sheet.cells, namesForSheet(workbook.definedNames, sheet.id))
+  ]))
+
+// Spills can move cells nobody edited, which can change other spills in turn
+const MAX_SPILL_PASSES = 8
+
+// Re-evaluates the changed cells and all of their dependents in topological order
+export const recalculate = (
+  cells: Record<string, Cell>,
+  graph: DependencyGraph,
+  changedIds: string[],
+  environment: FormulaEnvironment = EMPTY_ENVIRONMENT
+): Record<string, Cell> => {
+  const next = { ...cells }
+  let pending = changedIds
+
+  for (let pass = 0; pass < MAX_SPILL_PASSES && pending.length > 0; pass++) {
+    let context = createEvaluationContext(next, environment)
+    const { order, cycles } = getRecalculationOrder(graph, pending)
+    const spillChanges = new Set<string>()
+
+    const store = (cell: Cell, values: ScalarValue[][], numberFormat?: NumberFormat) => {
+      const changed = storeResult(next, graph, cell, values, numberFormat)
+      if (changed.length === 0) return
+      changed.forEach(id => spillChanges.add(id))
+      // Spilled cells can widen the used area that whole-column references read
+      context = createEvaluationContext(next, environment)
+    }
+
+    for (const cycle of cycles) {
+      const message = `Circular reference: ${cycle.join(' → ')}`
+      for (const cellId of cycle) {
+        const cell = next[cellId]
+        if (cell?.formula) store(cell, [[makeError('#CIRC!', message)]])
+      }
+    }
+
+    for (const cellId of order) {
+      const cell = next[cellId]
+      if (!cell?.formula) {
+        // A formula replaced by a plain value takes its spilled array with it
+        clearSpill(next, graph, cellId).forEach(id => spillChanges.add(id))
+        continue
+      }
+      const { values, numberFormat } = computeResult(cell.formula, context, next)
+      store(cell, values, numberFormat)
+    }
+
+    pending = [...spillChanges]
+  }
+
+  return next
+}
+
+export interface CellEdit {
+  row: number
+  col: number
+  input: string
+  style?: Cell['style']
+}
+
+// Stores raw input in cells, keeping formula source apart from its computed value,
+// and recalculates everything that depends on them in one pass
+export const applyCellEdits = (
+  cells: Record<string, Cell>,
+  graph: DependencyGraph,
+  edits: CellEdit[],
+  environment: FormulaEnvironment = EMPTY_ENVIRONMENT
+): Record<string, Cell> => {
+  const next = { ...cells }
+  const changedIds: string[] = []
+
+  for (const { row, col, input, style } of edits) {
+    const cellId = getCellId(row, col)
+    const type = detectCellType(input)
+    const isFormula = type === 'formula'
+
+    setCellDependencies(graph, cellId, isFormula ? tryParse(input) : null)
+    next[cellId] = {
+      ...cells[cellId],
+      id: cellId,
+      row,
+      col,
+      value: isFormula ? '' : input,
+      formula: isFormula ? input : undefined,
+      type,
+      error: undefined,
+      numberFormat: undefined,
+      spill: undefined,
+      spillAnchor: undefined,
+      ...(style !== undefined && { style })
+    }
+    changedIds.push(cellId)
+  }
+
+  return recalculate(next, graph, changedIds, environment)
+}
+
+export const applyCellEdit = (
+  cells: Record<string, Cell>,
+  graph: DependencyGraph,
+  row: number,
+  col: number,
+  input: string,
+  environment: FormulaEnvironment = EMPTY_ENVIRONMENT
+): Record<string, Cell> => applyCellEdits(cells, graph, [{ row, col, input }], environment)
+
+// The raw input a cell would hold if copied from one position to another
+export const getCopiedInput = (cell: Cell | undefined, from: CellAddress, to: CellAddress): string => {
+  if (!cell) return ''
+  if (!cell.formula) return cell.value
+  return shiftFormula(cell.formula, to.row - from.row, to.col - from.col)
+}
+
+// Copies one cell into each target, shifting relative references (Ctrl+D, Ctrl+R, fill handle)
+export const fillCells = (
+  cells: Record<string, Cell>,
+  graph: DependencyGraph,
+  source: CellAddress,
+  targets: CellAddress[],
+  environment: FormulaEnvironment = EMPTY_ENVIRONMENT
+): Record<string, Cell> => {
+  const cell = cells[getCellId(source.row, source.col)]
+  return applyCellEdits(cells, graph, targets.map(target => ({
+    row: target.row,
+    col: target.col,
+    input: getCopiedInput(cell, source, target),
+    style: cell?.style
+  })), environment)
+}
+
+// Moves a block of cells. Formulas keep pointing at the same data: anything that
+// referenced the block, including formulas inside it, follows it to its new place.
+export const moveCells = (
+  cells: Record<string, Cell>,
+  graph: DependencyGraph,
+  block: { start: CellAddress; end: CellAddress },
+  rowOffset: number,
+  colOffset: number,
+  environment: FormulaEnvironment = EMPTY_ENVIRONMENT
+): Record<string, Cell> => {
+  const inBlock = (cell: Cell) =>
+    cell.row >= block.start.row && cell.row <= block.end.row &&
+    cell.col >= block.start.col && cell.col <= block.end.col
+
+  const next: Record<string, Cell> = {}
+  const moved: Cell[] = []
+  const changedIds = new Set<string>()
+
+  // Spilled arrays are not moved as values; their formulas spill again from the new place
+  const source = { ...cells }
+  for (const cell of Object.values(cells)) {
+    if (inBlock(cell) && graph.spills.has(cell.id)) {
+      clearSpill(source, graph, cell.id).forEach(id => changedIds.add(id))
+    }
+  }
+
+  for (const cell of Object.values(source)) {
+    if (inBlock(cell) && !cell.spillAnchor) {
+      moved.push(cell)
+      changedIds.add(cell.id)
+    } else {
+      next[cell.id] = cell
+    }
+  }
+
+  for (const cell of moved) {
+    const row = cell.row + rowOffset
+    const col = cell.col + colOffset
+    const id = getCellId(row, col)
+    next[id] = { ...cell, id, row, col }
+    changedIds.add(id)
+  }
+
+  for (const cell of Object.values(next)) {
+    if (!cell.formula) continue
+    const formula = moveReferences(cell.formula, block, rowOffset, colOffset)
+    if (formula !== cell.formula || changedIds.has(cell.id)) {
+      next[cell.id] = { ...cell, formula }
+      changedIds.add(cell.id)
+    }
+  }
+
+  for (const cellId of changedIds) {
+    const formula = next[cellId]?.formula
+    setCellDependencies(graph, cellId, formula ? tryParse(formula) : null)
+  }
+
+  return recalculate(next, graph, [...changedIds], environment)
+}
+
+const sameResults = (before: Record<string, Cell>, after: Record<string, Cell>): boolean =>
+  Object.keys({ ...before, ...after }).every(id =>
+    before[id]?.value === after[id]?.value && before[id]?.error?.code === after[id]?.error?.code
+  )
+
+// Formulas reading a sheet that reads them back would otherwise chase each other forever
+const MAX_SHEET_PASSES = 16
+
+// Once a sheet's cells have changed, recalculates the formulas on every sheet that read it,
+// and then whatever reads those, sheet by sheet
+export const propagateSheetChanges = (
+  workbook: Workbook,
+  graphs: Record<string, DependencyGraph>,
+  changedSheetId: string
+): Workbook => {
+  let sheets = workbook.sheets
+  const pending = [changedSheetId]
+
+  for (let pass = 0; pass < MAX_SHEET_PASSES && pending.length > 0; pass++) {
+    const changedId = pending.shift()
+    const changed = sheets.find(sheet => sheet.id === changedId)
+    if (!changed) continue
+
+    sheets = sheets.map((sheet): SpreadsheetData => {
+      const graph = graphs[sheet.id]
+      const dependents = graph ? getSheetDependents(graph, changed.name) : []
+      if (dependents.length === 0) return sheet
+
+      const cells = recalculate(sheet.cells, graph, dependents, environmentFor({ ...workbook, sheets }, sheet.id))
+      if (sameResults(sheet.cells, cells)) return sheet
+      if (!pending.includes(sheet.id)) pending.push(sheet.id)
+      return { ...sheet, cells, updatedAt: new Date() }
+    })
+  }
+
+  return { ...workbook, sheets }
+}
+
+// Recalculates the cells selectIds picks out on each sheet, such as the formulas using a
+// redefined name or a renamed sheet, then carries the results on to the sheets reading them
+export const recalculateWorkbook = (
+  workbook: Workbook,
+  graphs: Record<string, DependencyGraph>,
+  selectIds: (graph: DependencyGraph, sheet: SpreadsheetData) => string[]
+): Workbook => {
+  const changed: string[] = []
+  const sheets = workbook.sheets.map((sheet): SpreadsheetData => {
+    const graph = graphs[sheet.id]
+    const ids = graph ? selectIds(graph, sheet) : []
+    if (ids.length === 0) return sheet
+
+    changed.push(sheet.id)
+    const cells = recalculate(sheet.cells, graph, ids, environmentFor(workbook, sheet.id))
+    return { ...sheet, cells, updatedAt: new Date() }
+  })
+
+  return changed.reduce(
+    (current, sheetId) => propagateSheetChanges(current, graphs, sheetId),
+    { ...workbook, sheets }
+  )
+}
@@ -0,0 +1,53 @@
+import { ErrorCode, ErrorValue, ScalarValue } from '../types/formula'
+
+export const ERROR_DESCRIPTIONS: Record<ErrorCode, string> = {
+  '#DIV/0!': 'The formula divides by zero or by an empty cell',
+  '#REF!': 'The formula refers to a cell that does not exist',
+  '#NAME?': 'The formula uses a function or name that is not recognised',
+  '#VALUE!': 'A value in the formula has the wrong type, such as text where a number is expected',
+  '#N/A': 'A value is not available, usually because a lookup found no match',
+  '#NUM!': 'The result is not a valid number, or a calculation could not converge',
+  '#CIRC!': 'The formula depends on its own result through a circular reference',
+  '#SPILL!': 'The array result cannot spill because cells in its way are not empty',
+  '#CALC!': 'The calculation produced an empty array'
+}
+
+export const ERROR_CODES = Object.keys(ERROR_DESCRIPTIONS) as ErrorCode[]
+
+// Thrown while evaluating; the evaluator turns it into an error value for the cell
+export class FormulaError extends Error {
+  code: ErrorCode
+
+  constructor(code: ErrorCode, message: string = ERROR_DESCRIPTIONS[code]) {
+    super(message)
+    this.name = 'FormulaError'
+    this.code = code
+  }
+}
+
+export const makeError = (code: ErrorCode, message: string = ERROR_DESCRIPTIONS[code]): ErrorValue => ({
+  kind: 'error',
+  code,
+  message
+})
+
+export const isErrorValue = (value: unknown): value is ErrorValue =>
+  value !== null && typeof value === 'object' && (value as ErrorValue).kind === 'error'
+
+export const isErrorCode = (text: string): text is ErrorCode => text in ERROR_DESCRIPTIONS
+
+// Runs a computation and turns any formula error it raises into an error value
+export const captureError = <T>(compute: () => T): T | ErrorValue => {
+  try {
+    return compute()
+  } catch (error) {
+    if (error instanceof FormulaError) return makeError(error.code, error.message)
+    throw error
+  }
+}
+
+// Rethrows an error value so it propagates out of whatever operation received it
+export const assertNotError = <T extends ScalarValue>(value: T): Exclude<T, ErrorValue> => {
+  if (isErrorValue(value)) throw new FormulaError(value.code, value.message)
+  return value as Exclude<T, ErrorValue>
+}
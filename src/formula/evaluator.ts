@@ -0,0 +1,176 @@
+import {
+  BinaryOperator,
+  CellAddress,
+  EvaluationContext,
+  FormulaNode,
+  FormulaValue,
+  RangeReferenceNode,
+  RangeValue,
+  ScalarValue
+} from '../types/formula'
+import { getFunction } from './functions/registry'
+import { isArray, isLambda, makeArray, readRange, sheetContext, toMatrix } from './functions/helpers'
+import { FormulaError, captureError, makeError } from './errors'
+import { compareValues, toNumber, toScalar, toText } from './values'
+
+const applyBinary = (operator: BinaryOperator, left: ScalarValue, right: ScalarValue): ScalarValue => {
+  switch (operator) {
+    case '+':
+      return toNumber(left) + toNumber(right)
+    case '-':
+      return toNumber(left) - toNumber(right)
+    case '*':
+      return toNumber(left) * toNumber(right)
+    case '/': {
+      const divisor = toNumber(right)
+      if (divisor === 0) throw new FormulaError('#DIV/0!')
+      return toNumber(left) / divisor
+    }
+    case '^': {
+      const result = Math.pow(toNumber(left), toNumber(right))
+      if (!Number.isFinite(result)) throw new FormulaError('#NUM!', 'The power is not a real number')
+      return result
+    }
+    case '&':
+      return toText(left) + toText(right)
+    case '=':
+      return compareValues(left, right) === 0
+    case '<>':
+      return compareValues(left, right) !== 0
+    case '<':
+      return compareValues(left, right) < 0
+    case '>':
+      return compareValues(left, right) > 0
+    case '<=':
+      return compareValues(left, right) <= 0
+    case '>=':
+      return compareValues(left, right) >= 0
+  }
+}
+
+const resolveRange = (node: RangeReferenceNode, context: EvaluationContext): RangeValue => {
+  const { start, sheet } = node
+  let end: CellAddress = node.end
+
+  if (node.kind !== 'cells') {
+    const bounds = context.getUsedBounds()
+    end = {
+      row: Math.min(end.row, bounds.rows - 1),
+      col: Math.min(end.col, bounds.cols - 1)
+    }
+  }
+
+  return { ...readRange(context, start, end), sheet }
+}
+
+const isMultiCell = (value: FormulaValue) =>
+  isArray(value) && (value.values.length !== 1 || value.values[0].length !== 1)
+
+// Operators work element by element on ranges and arrays, as in =B2:B10*C2:C10 or
+// =A2:A10>100. A single row or column stretches to fit; cells outside a smaller operand are #N/A.
+const liftOperator = (
+  operands: FormulaValue[],
+  apply: (...values: ScalarValue[]) => ScalarValue
+): FormulaValue => {
+  if (!operands.some(isMultiCell)) return apply(...operands.map(toScalar))
+
+  const matrices = operands.map(toMatrix)
+  const rows = Math.max(...matrices.map(matrix => matrix.length))
+  const cols = Math.max(...matrices.map(matrix => matrix[0]?.length ?? 0))
+  const pick = (matrix: ScalarValue[][], row: number, col: number): ScalarValue => {
+    const r = matrix.length === 1 ? 0 : row
+    const c = matrix[0].length === 1 ? 0 : col
+    return r < matrix.length && c < matrix[r].length ? matrix[r][c] : makeError('#N/A', 'The arrays are different sizes')
+  }
+
+  return makeArray(
+    Array.from({ length: rows }, (_, row) =>
+      Array.from({ length: cols }, (_, col) =>
+        captureError(() => apply(...matrices.map(matrix => pick(matrix, row, col))))
+      )
+    )
+  )
+}
+
+const resolveSpill = (row: number, col: number, context: EvaluationContext): RangeValue => {
+  const area = context.getSpillRange(row, col)
+  if (!area) throw new FormulaError('#REF!', 'The referenced cell does not hold a spilled array')
+  return readRange(context, area.start, area.end)
+}
+
+const callLambda = (callee: FormulaValue, args: FormulaValue[], name: string): FormulaValue => {
+  if (!isLambda(callee)) throw new FormulaError('#VALUE!', `${name} is not a LAMBDA`)
+  if (args.length !== callee.params.length) {
+    throw new FormulaError('#VALUE!', `${name} takes ${callee.params.length} argument${callee.params.length === 1 ? '' : 's'}`)
+  }
+  return callee.call(args)
+}
+
+export const evaluateNode = (node: FormulaNode, context: EvaluationContext): FormulaValue => {
+  const evaluate = (child: FormulaNode, scope: EvaluationContext = context) => evaluateNode(child, scope)
+
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value
+    case 'missing':
+      return null
+    case 'error':
+      return makeError(node.code)
+    case 'cell':
+      return sheetContext(context, node.sheet).getCellValue(node.row, node.col)
+    case 'range':
+      return resolveRange(node, sheetContext(context, node.sheet))
+    case 'spill':
+      return { ...resolveSpill(node.row, node.col, sheetContext(context, node.sheet)), sheet: node.sheet }
+    case 'name': {
+      const value = context.resolveName(node.name)
+      if (value === undefined) throw new FormulaError('#NAME?', `Unknown name "${node.name}"`)
+      return value
+    }
+    case 'unary':
+      return liftOperator([evaluate(node.operand)], operand =>
+        node.operator === '-' ? -toNumber(operand) : toNumber(operand)
+      )
+    case 'percent':
+      return liftOperator([evaluate(node.operand)], operand => toNumber(operand) / 100)
+    case 'binary':
+      return liftOperator([evaluate(node.left), evaluate(node.right)], (left, right) =>
+        applyBinary(node.operator, left, right)
+      )
+    case 'call': {
+      const fn = getFunction(node.name)
+      if (!fn) {
+        // Named functions and LAMBDA variables are called like built-ins
+        const lambda = context.resolveName(node.name)
+        if (lambda === undefined) throw new FormulaError('#NAME?', `Unknown function "${node.name}"`)
+        return callLambda(lambda, node.args.map(arg => evaluate(arg)), node.name)
+      }
+      if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        throw new FormulaError('#VALUE!', `Wrong number of arguments to ${node.name}`)
+      }
+      return fn.invoke(node.args, evaluate, context)
+    }
+    case 'invoke':
+      return callLambda(evaluate(node.callee), node.args.map(arg => evaluate(arg)), 'The value being called')
+  }
+}
+
+const checkFinite = (value: ScalarValue): ScalarValue =>
+  typeof value === 'number' && !Number.isFinite(value)
+    ? makeError('#NUM!', 'The result is too large to represent')
+    : value
+
+// Evaluates a whole formula to the grid of values it fills: 1×1 for an ordinary result,
+// larger for a dynamic array that spills. An error raised anywhere inside becomes the result.
+export const evaluateToMatrix = (node: FormulaNode, context: EvaluationContext): ScalarValue[][] => {
+  const result = captureError(() => {
+    const value = evaluateNode(node, context)
+    return isArray(value) ? value : toScalar(value)
+  })
+  if (!isArray(result)) return [[checkFinite(result)]]
+  // A range clipped to nothing, such as A:A on an empty sheet, reads as a blank
+  if (result.values.length === 0 || result.values[0].length === 0) return [[null]]
+  return result.values.map(row => row.map(checkFinite))
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+
+// Fills columns from A onwards with the given values, row 1 down, then enters formula in H1
+const calculate = (columns: string[][], formula: string): Record<string, Cell> => {
+  const edits = columns.flatMap((values, col) => values.map((input, row) => ({ row, col, input })))
+  edits.push({ row: 0, col: 7, input: formula })
+  return applyCellEdits({}, buildDependencyGraph({}), edits)
+}
+
+// What the block from H1 shows, rows by columns; errors by their code
+const spill = (columns: string[][], formula: string, rows: number, cols: number): string[][] => {
+  const cells = calculate(columns, formula)
+  return Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) => {
+    const cell = cells[getCellId(row, 7 + col)]
+    return cell?.error ? cell.error.code : cell?.value ?? ''
+  }))
+}
+
+const regions = [
+  ['East', 'West', 'East', 'North', 'west'],
+  ['30', '10', '20', '', '40']
+]
+
+describe('FILTER', () => {
+  it('keeps the rows whose include value is true', () => {
+    expect(spill(regions, '=FILTER(A1:B5, B1:B5>15)', 4, 2)).toEqual([
+      ['East', '30'],
+      ['East', '20'],
+      ['west', '40'],
+      ['', '']
+    ])
+  })
+
+  it('returns the fallback, or #CALC!, when nothing is left', () => {
+    expect(spill(regions, '=FILTER(A1:A5, B1:B5>100, "none")', 1, 1)).toEqual([['none']])
+    expect(spill(regions, '=FILTER(A1:A5, B1:B5>100)', 1, 1)).toEqual([['#CALC!']])
+    expect(spill(regions, '=FILTER(A1:A5, B1:B3>1)', 1, 1)).toEqual([['#VALUE!']])
+  })
+})
+
+describe('SORT and SORTBY', () => {
+  it('SORT orders rows by a column, keeping blanks last either way, where they spill as 0', () => {
+    expect(spill(regions, '=SORT(B1:B5)', 5, 1).flat()).toEqual(['10', '20', '30', '40', '0'])
+    expect(spill(regions, '=SORT(B1:B5, 1, -1)', 5, 1).flat()).toEqual(['40', '30', '20', '10', '0'])
+    expect(spill(regions, '=SORT(A1:B5, 3)', 1, 1)).toEqual([['#VALUE!']])
+  })
+
+  it('SORTBY orders by other columns, in turn', () => {
+    expect(spill(regions, '=SORTBY(A1:A5, A1:A5, 1, B1:B5, -1)', 5, 1).flat())
+      .toEqual(['East', 'East', 'North', 'west', 'West'])
+  })
+})
+
+describe('UNIQUE', () => {
+  it('drops repeated rows, comparing text regardless of case', () => {
+    expect(spill(regions, '=UNIQUE(A1:A5)', 4, 1).flat()).toEqual(['East', 'West', 'North', ''])
+    expect(spill(regions, '=UNIQUE(A1:A5, FALSE, TRUE)', 2, 1).flat()).toEqual(['North', ''])
+  })
+})
+
+describe('SEQUENCE and TRANSPOSE', () => {
+  it('SEQUENCE fills rows then columns', () => {
+    expect(spill([], '=SEQUENCE(2, 3, 10, 5)', 2, 3)).toEqual([['10', '15', '20'], ['25', '30', '35']])
+    expect(spill([], '=SEQUENCE(0)', 1, 1)).toEqual([['#CALC!']])
+  })
+
+  it('TRANSPOSE turns rows into columns', () => {
+    expect(spill(regions, '=TRANSPOSE(A1:B2)', 2, 2)).toEqual([['East', 'West'], ['30', '10']])
+  })
+})
+
+describe('spilling', () => {
+  it('is #SPILL! when the cells it needs are taken', () => {
+    const cells = applyCellEdits({}, buildDependencyGraph({}), [
+      { row: 2, col: 0, input: 'taken' },
+      { row: 0, col: 0, input: '=SEQUENCE(3)' }
+    ])
+    expect(cells.A1.error?.code).toBe('#SPILL!')
+  })
+
+  it('reads the whole spill through A1#', () => {
+    const cells = calculate([['=SEQUENCE(4)']], '=SUM(A1#)')
+    expect(cells.H1.value).toBe('10')
+  })
+})
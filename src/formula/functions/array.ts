@@ -0,0 +1,157 @@
+import { FormulaFunction, FormulaValue, ScalarValue } from '../../types/formula'
+import { FormulaError, assertNotError, isErrorValue } from '../errors'
+import { compareValues, toBoolean, toScalar } from '../values'
+import { MAX_COLS, MAX_ROWS } from '../parser'
+import { defineFunction, makeArray, numberArg, toMatrix } from './helpers'
+
+const transpose = (table: ScalarValue[][]): ScalarValue[][] =>
+  table.length === 0 ? [] : table[0].map((_, col) => table.map(row => row[col]))
+
+const optionalFlag = (args: FormulaValue[], index: number): boolean =>
+  index < args.length && args[index] !== null ? toBoolean(toScalar(args[index])) : false
+
+const sortOrder = (args: FormulaValue[], index: number): 1 | -1 => {
+  const order = Math.trunc(numberArg(args, index, 1))
+  if (order !== 1 && order !== -1) throw new FormulaError('#VALUE!', 'The sort order must be 1 or -1')
+  return order
+}
+
+// Sorting puts blanks and errors after everything else whichever way the data is ordered
+const compareForSort = (a: ScalarValue, b: ScalarValue, order: 1 | -1): number => {
+  const rank = (value: ScalarValue) => (isErrorValue(value) ? 2 : value === null ? 1 : 0)
+  if (rank(a) !== 0 || rank(b) !== 0) return rank(a) - rank(b)
+  return compareValues(a, b) * order
+}
+
+// UNIQUE compares text case-insensitively, like the = operator
+const rowKey = (row: ScalarValue[]): string =>
+  JSON.stringify(row.map(value => {
+    if (isErrorValue(value)) return `#${value.code}`
+    if (typeof value === 'string') return `s${value.toLowerCase()}`
+    return `${typeof value}${String(value)}`
+  }))
+
+export const arrayFunctions: Record<string, FormulaFunction> = {
+  // FILTER(array, include, [if_empty]) keeps the rows (or columns) whose include value is TRUE
+  FILTER: defineFunction(2, 3, args => {
+    const table = toMatrix(args[0])
+    const include = toMatrix(args[1])
+    const height = table.length
+    const width = table[0]?.length ?? 0
+
+    const byRow = include.length === height && include[0].length === 1
+    const byCol = include.length === 1 && include[0].length === width
+    if (!byRow && !byCol) {
+      throw new FormulaError('#VALUE!', 'The include argument must match the height or width of the array')
+    }
+
+    const keep = include.flat().map(value => toBoolean(assertNotError(value)))
+    const result = byRow
+      ? table.filter((_, row) => keep[row])
+      : table.map(row => row.filter((_, col) => keep[col]))
+
+    if (result.length === 0 || result[0].length === 0) {
+      if (args.length > 2 && args[2] !== null) return args[2]
+      throw new FormulaError('#CALC!', 'FILTER found no matching values')
+    }
+    return makeArray(result)
+  }),
+
+  // SORT(array, [sort_index], [sort_order], [by_col])
+  SORT: defineFunction(1, 4, args => {
+    const byCol = optionalFlag(args, 3)
+    const table = byCol ? transpose(toMatrix(args[0])) : toMatrix(args[0])
+    const index = Math.trunc(numberArg(args, 1, 1))
+    const order = sortOrder(args, 2)
+    if (index < 1 || index > (table[0]?.length ?? 0)) {
+      throw new FormulaError('#VALUE!', 'The sort index is outside the array')
+    }
+
+    const sorted = [...table].sort((a, b) => compareForSort(a[index - 1], b[index - 1], order))
+    return makeArray(byCol ? transpose(sorted) : sorted)
+  }),
+
+  // SORTBY(array, by_array1, [order1], by_array2, [order2], ...) sorts by other rows or columns
+  SORTBY: defineFunction(2, 255, args => {
+    const table = toMatrix(args[0])
+    const keys: { values: ScalarValue[]; order: 1 | -1 }[] = []
+    let byCol: boolean | null = null
+
+    for (let i = 1; i < args.length; i += 2) {
+      const by = toMatrix(args[i])
+      const isColumn = by[0].length === 1 && by.length === table.length
+      const isRow = by.length === 1 && by[0].length === (table[0]?.length ?? 0)
+      if (!isColumn && !isRow) {
+        throw new FormulaError('#VALUE!', 'Each sort-by array must be one row or column the size of the array')
+      }
+      const sortsColumns = !isColumn
+      if (byCol !== null && byCol !== sortsColumns) {
+        throw new FormulaError('#VALUE!', 'Sort-by arrays must all be rows or all be columns')
+      }
+      byCol = sortsColumns
+      keys.push({ values: by.flat(), order: sortOrder(args, i + 1) })
+    }
+
+    const lines = byCol ? transpose(table) : table
+    const positions = lines.map((_, position) => position)
+    positions.sort((a, b) => {
+      for (const { values, order } of keys) {
+        const result = compareForSort(values[a], values[b], order)
+        if (result !== 0) return result
+      }
+      return 0
+    })
+
+    const sorted = positions.map(position => lines[position])
+    return makeArray(byCol ? transpose(sorted) : sorted)
+  }),
+
+  // UNIQUE(array, [by_col], [exactly_once])
+  UNIQUE: defineFunction(1, 3, args => {
+    const byCol = optionalFlag(args, 1)
+    const exactlyOnce = optionalFlag(args, 2)
+    const lines = byCol ? transpose(toMatrix(args[0])) : toMatrix(args[0])
+
+    const counts = new Map<string, number>()
+    for (const line of lines) {
+      const key = rowKey(line)
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+
+    const seen = new Set<string>()
+    const result = lines.filter(line => {
+      const key = rowKey(line)
+      if (seen.has(key)) return false
+      seen.add(key)
+      return !exactlyOnce || counts.get(key) === 1
+    })
+
+    if (result.length === 0) {
+      throw new FormulaError('#CALC!', exactlyOnce ? 'UNIQUE found no values that occur exactly once' : 'UNIQUE was given an empty array')
+    }
+    return makeArray(byCol ? transpose(result) : result)
+  }),
+
+  // SEQUENCE(rows, [columns], [start], [step])
+  SEQUENCE: defineFunction(1, 4, args => {
+    const rows = Math.trunc(numberArg(args, 0))
+    const cols = Math.trunc(numberArg(args, 1, 1))
+    const start = numberArg(args, 2, 1)
+    const step = numberArg(args, 3, 1)
+    if (rows < 0 || cols < 0) throw new FormulaError('#VALUE!', 'SEQUENCE needs a positive size')
+    if (rows === 0 || cols === 0) throw new FormulaError('#CALC!', 'SEQUENCE would be empty')
+    if (rows > MAX_ROWS || cols > MAX_COLS) throw new FormulaError('#VALUE!', 'SEQUENCE is larger than the sheet')
+
+    return makeArray(
+      Array.from({ length: rows }, (_, row) =>
+        Array.from({ length: cols }, (_, col) => start + (row * cols + col) * step)
+      )
+    )
+  }),
+
+  TRANSPOSE: defineFunction(1, 1, args => {
+    const table = toMatrix(args[0])
+    if (table.length === 0) throw new FormulaError('#CALC!', 'TRANSPOSE was given an empty array')
+    return makeArray(transpose(table))
+  })
+}
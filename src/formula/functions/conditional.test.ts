@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+
+// Fills columns from A onwards with the given inputs, row 1 down, then enters formula in Z1
+const result = (columns: string[][], formula: string): number | string => {
+  const edits = columns.flatMap((inputs, col) => inputs.map((input, row) => ({ row, col, input })))
+  edits.push({ row: 0, col: 25, input: formula })
+  const cells: Record<string, Cell> = applyCellEdits({}, buildDependencyGraph({}), edits)
+  const cell = cells[getCellId(0, 25)]
+  return cell.error ? cell.error.code : Number(cell.value)
+}
+
+const REGIONS = ['East', 'West', 'East', 'North', 'east']
+const SALES = ['100', '200', '300', '400', 'n/a']
+const UNITS = ['1', '2', '3', '4', '5']
+
+describe('COUNTIF and COUNTIFS', () => {
+  it('count the cells that meet every criteria', () => {
+    expect(result([REGIONS], '=COUNTIF(A1:A5,"east")')).toBe(3)
+    expect(result([REGIONS, SALES], '=COUNTIFS(A1:A5,"East",B1:B5,">150")')).toBe(1)
+  })
+
+  it('compare date cells against a date in the criteria', () => {
+    const dates = ['12/31/2023', '1/15/2024', '6/30/2024']
+    expect(result([dates], '=COUNTIF(A1:A3,">1/1/2024")')).toBe(2)
+    expect(result([dates], '=COUNTIF(A1:A3,"<=2023-12-31")')).toBe(1)
+  })
+
+  it('take a criteria from a cell', () => {
+    expect(result([REGIONS, ['West']], '=COUNTIF(A1:A5,B1)')).toBe(1)
+  })
+})
+
+describe('SUMIF and AVERAGEIF', () => {
+  it('aggregate the sum range where the criteria range matches', () => {
+    expect(result([REGIONS, SALES], '=SUMIF(A1:A5,"East",B1:B5)')).toBe(400)
+    expect(result([REGIONS, SALES], '=AVERAGEIF(A1:A5,"East",B1:B5)')).toBe(200)
+  })
+
+  it('aggregate the criteria range itself when there is no sum range', () => {
+    expect(result([UNITS], '=SUMIF(A1:A5,">2")')).toBe(12)
+  })
+
+  it('resize the sum range from its top-left cell', () => {
+    expect(result([REGIONS, SALES], '=SUMIF(A1:A5,"East",B1:B2)')).toBe(400)
+  })
+
+  it('has nothing to average when no cell matches', () => {
+    expect(result([REGIONS, SALES], '=AVERAGEIF(A1:A5,"South",B1:B5)')).toBe('#DIV/0!')
+  })
+})
+
+describe('SUMIFS, AVERAGEIFS, MAXIFS and MINIFS', () => {
+  it('aggregate where every criteria range matches', () => {
+    expect(result([SALES, REGIONS, UNITS], '=SUMIFS(A1:A5,B1:B5,"East",C1:C5,"<3")')).toBe(100)
+    expect(result([SALES, REGIONS], '=AVERAGEIFS(A1:A5,B1:B5,"<>North")')).toBe(200)
+    expect(result([SALES, REGIONS], '=MAXIFS(A1:A5,B1:B5,"East")')).toBe(300)
+    expect(result([SALES, REGIONS], '=MINIFS(A1:A5,B1:B5,"South")')).toBe(0)
+  })
+
+  it('reject ranges of different sizes and unpaired criteria', () => {
+    expect(result([SALES, REGIONS], '=SUMIFS(A1:A5,B1:B4,"East")')).toBe('#VALUE!')
+    expect(result([SALES, REGIONS], '=SUMIFS(A1:A5,B1:B5)')).toBe('#VALUE!')
+  })
+})
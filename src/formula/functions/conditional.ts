@@ -0,0 +1,85 @@
+import { EvaluationContext, FormulaFunction, FormulaValue, ScalarValue } from '../../types/formula'
+import { FormulaError, assertNotError } from '../errors'
+import { toScalar } from '../values'
+import { defineReferenceFunction, isRange, readRange, sheetContext, toMatrix } from './helpers'
+import { parseCriteria } from './criteria'
+
+// Like Excel, a sum/average range is resized to match the criteria range from its top-left cell
+const alignedValues = (target: FormulaValue, shape: ScalarValue[][], context: EvaluationContext): ScalarValue[] => {
+  const height = shape.length
+  const width = shape[0]?.length ?? 0
+  if (!isRange(target)) return toMatrix(target).flat()
+
+  const start = target.start
+  return readRange(sheetContext(context, target.sheet), start, { row: start.row + height - 1, col: start.col + width - 1 }).values.flat()
+}
+
+// Positions (in row-major order) where every criteria range satisfies its criteria
+const matchingPositions = (pairs: FormulaValue[]): { positions: number[]; shape: ScalarValue[][] } => {
+  if (pairs.length === 0 || pairs.length % 2 !== 0) {
+    throw new FormulaError('#VALUE!', 'Criteria ranges and criteria must come in pairs')
+  }
+
+  const shape = toMatrix(pairs[0])
+  const size = shape.length * (shape[0]?.length ?? 0)
+  let positions = Array.from({ length: size }, (_, i) => i)
+
+  for (let i = 0; i < pairs.length; i += 2) {
+    const matrix = toMatrix(pairs[i])
+    if (matrix.length !== shape.length || (matrix[0]?.length ?? 0) !== (shape[0]?.length ?? 0)) {
+      throw new FormulaError('#VALUE!', 'All criteria ranges must be the same size')
+    }
+    const values = matrix.flat()
+    const test = parseCriteria(toScalar(pairs[i + 1]))
+    positions = positions.filter(position => test(values[position]))
+  }
+
+  return { positions, shape }
+}
+
+// Only numbers are aggregated; an error in a matching cell propagates
+const numbersAt = (values: ScalarValue[], positions: number[]): number[] =>
+  positions
+    .map(position => assertNotError(values[position]))
+    .filter((value): value is number => typeof value === 'number')
+
+const sum = (numbers: number[]) => numbers.reduce((total, n) => total + n, 0)
+
+const average = (numbers: number[]) => {
+  if (numbers.length === 0) throw new FormulaError('#DIV/0!', 'No cells matched the criteria')
+  return sum(numbers) / numbers.length
+}
+
+// SUMIF(range, criteria, [sum_range]) and friends: the aggregated range is optional and last
+const defineSingleCriteria = (aggregate: (numbers: number[]) => number): FormulaFunction =>
+  defineReferenceFunction(2, 3, (args, context) => {
+    const { positions, shape } = matchingPositions([args[0], args[1]])
+    const values = args.length > 2 && args[2] !== null
+      ? alignedValues(args[2], shape, context)
+      : shape.flat()
+    return aggregate(numbersAt(values, positions))
+  })
+
+// SUMIFS(sum_range, criteria_range1, criteria1, ...) and friends: the aggregated range comes first
+const defineMultiCriteria = (aggregate: (numbers: number[]) => number): FormulaFunction =>
+  defineReferenceFunction(3, 255, args => {
+    const { positions, shape } = matchingPositions(args.slice(1))
+    const target = toMatrix(args[0])
+    if (target.length !== shape.length || (target[0]?.length ?? 0) !== (shape[0]?.length ?? 0)) {
+      throw new FormulaError('#VALUE!', 'The aggregated range must match the criteria ranges in size')
+    }
+    return aggregate(numbersAt(target.flat(), positions))
+  })
+
+export const conditionalFunctions: Record<string, FormulaFunction> = {
+  SUMIF: defineSingleCriteria(sum),
+  SUMIFS: defineMultiCriteria(sum),
+  AVERAGEIF: defineSingleCriteria(average),
+  AVERAGEIFS: defineMultiCriteria(average),
+  MAXIFS: defineMultiCriteria(numbers => (numbers.length === 0 ? 0 : Math.max(...numbers))),
+  MINIFS: defineMultiCriteria(numbers => (numbers.length === 0 ? 0 : Math.min(...numbers))),
+
+  COUNTIF: defineReferenceFunction(2, 2, args => matchingPositions(args).positions.length),
+
+  COUNTIFS: defineReferenceFunction(2, 254, args => matchingPositions(args).positions.length)
+}
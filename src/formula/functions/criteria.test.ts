@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { ScalarValue } from '../../types/formula'
+import { makeError } from '../errors'
+import { dateToSerial } from '../dates'
+import { parseCriteria } from './criteria'
+
+// The values among the candidates that the criteria accepts
+const matching = (criteria: ScalarValue, candidates: ScalarValue[]) => candidates.filter(parseCriteria(criteria))
+
+describe('parseCriteria', () => {
+  it('matches numbers, and numeric text, by value', () => {
+    expect(matching(10, [10, '10', 11, 'ten', null])).toEqual([10, '10'])
+    expect(matching('=10', [10, '10', 11])).toEqual([10, '10'])
+    expect(matching('<>10', [10, 11, 'x', null])).toEqual([11, 'x', null])
+  })
+
+  it('compares only values of the operand kind', () => {
+    expect(matching('>5', [4, 5, 6, '7', 'abc', true])).toEqual([6])
+    expect(matching('<=b', ['a', 'B', 'c', 1])).toEqual(['a', 'B'])
+  })
+
+  it('matches text case-insensitively with wildcards', () => {
+    expect(matching('app*', ['Apple', 'application', 'pineapple', 5])).toEqual(['Apple', 'application'])
+    expect(matching('<>?ear', ['pear', 'bear', 'year!', 'gear'])).toEqual(['year!'])
+    expect(matching('~*', ['*', 'a'])).toEqual(['*'])
+  })
+
+  it('treats "=", "<>" and an empty criteria as tests for blanks', () => {
+    expect(matching('=', [null, '', 0, 'x'])).toEqual([null, ''])
+    expect(matching('<>', [null, '', 0, 'x'])).toEqual([0, 'x'])
+    expect(matching(null, [null, 'x'])).toEqual([null])
+  })
+
+  it('matches logical values and errors only against their own kind', () => {
+    expect(matching('TRUE', [true, false, 'TRUE', 1])).toEqual([true])
+    expect(matching(false, [true, false, 0])).toEqual([false])
+    const error = makeError('#N/A')
+    expect(matching(error, [error, makeError('#DIV/0!'), '#N/A'])).toEqual([error])
+  })
+
+  it('compares date operands as the serial numbers dates are held as', () => {
+    const days = [dateToSerial(2023, 12, 31), dateToSerial(2024, 1, 1), dateToSerial(2024, 3, 15), dateToSerial(2024, 12, 1)]
+    expect(matching('>1/1/2024', days)).toEqual(days.slice(2))
+    expect(matching('>=2024-01-01', days)).toEqual(days.slice(1))
+    expect(matching('1/1/2024', days)).toEqual([days[1]])
+  })
+})
@@ -0,0 +1,63 @@
+import { ScalarValue } from '../../types/formula'
+import { isErrorValue } from '../errors'
+import { parseDateText } from '../dates'
+import { NUMERIC_TEXT, compareValues, toText } from '../values'
+import { wildcardToRegExp } from './matching'
+
+export type CriteriaTest = (value: ScalarValue) => boolean
+
+const asNumber = (value: ScalarValue): number | null => {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && NUMERIC_TEXT.test(value.trim())) return Number(value.trim())
+  return null
+}
+
+const isBlank = (value: ScalarValue) => value === null || value === ''
+
+// Turns a SUMIF-style criteria argument into a predicate: 1000, ">1000", "<>", "=",
+// "app*", "<>?ear", "TRUE", ">1/1/2024", or the value of a referenced cell such as B2
+export const parseCriteria = (criteria: ScalarValue): CriteriaTest => {
+  if (isErrorValue(criteria)) {
+    return value => isErrorValue(value) && value.code === criteria.code
+  }
+  if (typeof criteria === 'number') return value => asNumber(value) === criteria
+  if (typeof criteria === 'boolean') return value => value === criteria
+  if (criteria === null || criteria === '') return isBlank
+
+  const text = toText(criteria)
+  const [, operator = '', operand] = text.match(/^(<=|>=|<>|<|>|=)?(.*)$/s)!
+
+  if (operand === '') {
+    // "=" matches blanks, "<>" matches anything that is not blank
+    if (operator === '<>') return value => !isBlank(value)
+    if (operator === '=') return isBlank
+  }
+
+  // Dates are held as serial numbers, so a date operand compares as one
+  const number = asNumber(operand) ?? parseDateText(operand)
+  const upper = operand.toUpperCase()
+  const target: ScalarValue = number !== null ? number : upper === 'TRUE' || upper === 'FALSE' ? upper === 'TRUE' : operand
+
+  if (operator === '' || operator === '=' || operator === '<>') {
+    const wildcard = typeof target === 'string' ? wildcardToRegExp(target) : null
+    const equals = (value: ScalarValue): boolean => {
+      if (isBlank(value) || isErrorValue(value)) return false
+      if (wildcard) return typeof value === 'string' && wildcard.test(value)
+      if (typeof target === 'number') return asNumber(value) === target
+      return typeof value === typeof target && compareValues(value, target) === 0
+    }
+    return operator === '<>' ? value => !equals(value) : equals
+  }
+
+  // Ordering comparisons only consider cells of the same kind as the operand
+  return value => {
+    if (isBlank(value) || isErrorValue(value) || typeof value !== typeof target) return false
+    const order = compareValues(value, target)
+    switch (operator) {
+      case '<': return order < 0
+      case '>': return order > 0
+      case '<=': return order <= 0
+      default: return order >= 0
+    }
+  }
+}
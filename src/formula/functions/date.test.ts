@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+
+// Expected results are the ones Microsoft publishes in each function's Excel documentation
+
+// Enters formula in A1 and returns its result, or its error code
+const result = (formula: string): number | string => {
+  const cells: Record<string, Cell> = applyCellEdits({}, buildDependencyGraph({}), [{ row: 0, col: 0, input: formula }])
+  const cell = cells[getCellId(0, 0)]
+  return cell.error ? cell.error.code : Number(cell.value)
+}
+
+describe('DATE', () => {
+  it('builds serials, treating years below 1900 as offsets', () => {
+    expect(result('=DATE(2008, 1, 2)')).toBe(39449)
+    expect(result('=DATE(108, 1, 2)')).toBe(39449)
+    expect(result('=DATE(2008, 14, 2)')).toBe(result('=DATE(2009, 2, 2)'))
+    expect(result('=DATE(2008, 1, -15)')).toBe(result('=DATE(2007, 12, 16)'))
+  })
+
+  it('rejects years outside 0 to 9999', () => {
+    expect(result('=DATE(10000, 1, 1)')).toBe('#NUM!')
+    expect(result('=DATE(-1, 1, 1)')).toBe('#NUM!')
+  })
+})
+
+describe('YEAR, MONTH, DAY and WEEKDAY', () => {
+  it('take a date apart', () => {
+    expect(result('=YEAR("2024-07-05")')).toBe(2024)
+    expect(result('=MONTH(DATE(2024, 7, 5))')).toBe(7)
+    expect(result('=DAY("7/5/2024")')).toBe(5)
+  })
+
+  it('read serial 0 as 0 January 1900', () => {
+    expect(result('=YEAR(0)')).toBe(1900)
+    expect(result('=MONTH(0)')).toBe(1)
+    expect(result('=DAY(0)')).toBe(0)
+  })
+
+  it('read serial 60 as 29 February 1900', () => {
+    expect(result('=MONTH(60)')).toBe(2)
+    expect(result('=DAY(60)')).toBe(29)
+  })
+
+  it('number weekdays by return type', () => {
+    // 14 February 2008 was a Thursday
+    expect(result('=WEEKDAY(DATE(2008, 2, 14))')).toBe(5)
+    expect(result('=WEEKDAY(DATE(2008, 2, 14), 2)')).toBe(4)
+    expect(result('=WEEKDAY(DATE(2008, 2, 14), 3)')).toBe(3)
+    expect(result('=WEEKDAY(DATE(2008, 2, 14), 9)')).toBe('#NUM!')
+  })
+
+  it('reject dates outside the calendar', () => {
+    expect(result('=DAY(-1)')).toBe('#NUM!')
+    expect(result('=YEAR(3000000)')).toBe('#NUM!')
+  })
+})
+
+describe('EDATE and EOMONTH', () => {
+  it('move by months, clamping to the end of shorter months', () => {
+    expect(result('=EDATE(DATE(2011, 1, 15), 1)')).toBe(result('=DATE(2011, 2, 15)'))
+    expect(result('=EDATE(DATE(2011, 1, 31), 1)')).toBe(result('=DATE(2011, 2, 28)'))
+    expect(result('=EDATE(DATE(2011, 1, 15), -1)')).toBe(result('=DATE(2010, 12, 15)'))
+    expect(result('=EOMONTH(DATE(2011, 1, 1), 1)')).toBe(40602)
+    expect(result('=EOMONTH(DATE(2011, 1, 1), -3)')).toBe(40482)
+  })
+})
+
+describe('DATEDIF', () => {
+  it('counts whole units between two dates', () => {
+    expect(result('=DATEDIF(DATE(2001, 1, 1), DATE(2003, 1, 1), "Y")')).toBe(2)
+    expect(result('=DATEDIF(DATE(2001, 6, 1), DATE(2002, 8, 15), "D")')).toBe(440)
+    expect(result('=DATEDIF(DATE(2001, 6, 1), DATE(2002, 8, 15), "YD")')).toBe(75)
+    expect(result('=DATEDIF(DATE(2001, 6, 1), DATE(2002, 8, 15), "YM")')).toBe(2)
+    expect(result('=DATEDIF(DATE(2001, 6, 1), DATE(2002, 8, 15), "MD")')).toBe(14)
+  })
+
+  it('rejects a start after the end and unknown units', () => {
+    expect(result('=DATEDIF(DATE(2002, 1, 1), DATE(2001, 1, 1), "D")')).toBe('#NUM!')
+    expect(result('=DATEDIF(DATE(2001, 1, 1), DATE(2002, 1, 1), "W")')).toBe('#NUM!')
+  })
+})
+
+describe('NETWORKDAYS and WORKDAY', () => {
+  it('count and step over working days, skipping holidays', () => {
+    expect(result('=NETWORKDAYS(DATE(2012, 10, 1), DATE(2013, 3, 1))')).toBe(110)
+    expect(result('=NETWORKDAYS(DATE(2012, 10, 1), DATE(2013, 3, 1), DATE(2012, 11, 22))')).toBe(109)
+    expect(result('=NETWORKDAYS(DATE(2013, 3, 1), DATE(2012, 10, 1))')).toBe(-110)
+    expect(result('=WORKDAY(DATE(2008, 10, 1), 151)')).toBe(39933)
+  })
+})
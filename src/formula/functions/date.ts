@@ -0,0 +1,166 @@
+import { FormulaFunction, FormulaValue } from '../../types/formula'
+import { FormulaError } from '../errors'
+import { MAX_SERIAL, dateToSerial, dayOfWeek, daysInMonth, nowSerial, serialToDate } from '../dates'
+import { toNumber } from '../values'
+import { defineFunction, flattenValues, numberArg, textArg } from './helpers'
+
+// A date argument: a serial number, a date cell, or date text such as "2024-01-15"
+const serialArg = (args: FormulaValue[], index: number): number => {
+  const serial = Math.floor(numberArg(args, index))
+  if (serial < 0 || serial > MAX_SERIAL) throw new FormulaError('#NUM!', 'The date is out of range')
+  return serial
+}
+
+const checkSerial = (serial: number): number => {
+  if (serial < 0 || serial > MAX_SERIAL) throw new FormulaError('#NUM!', 'The resulting date is out of range')
+  return serial
+}
+
+// The same day of the month some months later, clamped to the end of shorter months
+const addMonths = (serial: number, months: number): { year: number; month: number; day: number } => {
+  const { year, month, day } = serialToDate(serial)
+  const total = year * 12 + (month - 1) + months
+  const targetYear = Math.floor(total / 12)
+  const targetMonth = total - targetYear * 12 + 1
+  return { year: targetYear, month: targetMonth, day: Math.min(day, daysInMonth(targetYear, targetMonth)) }
+}
+
+// WEEKDAY return types: 1 counts Sunday as 1, 2 counts Monday as 1, 3 counts Monday as 0,
+// and 11–17 count Monday through Sunday as 1
+const weekdayNumber = (serial: number, returnType: number): number => {
+  const day = dayOfWeek(serial)
+  if (returnType === 1) return day + 1
+  if (returnType === 2) return ((day + 6) % 7) + 1
+  if (returnType === 3) return (day + 6) % 7
+  if (returnType >= 11 && returnType <= 17) {
+    const firstDay = (returnType - 10) % 7
+    return ((day - firstDay + 7) % 7) + 1
+  }
+  throw new FormulaError('#NUM!', 'Invalid WEEKDAY return type')
+}
+
+const isWeekend = (serial: number) => {
+  const day = dayOfWeek(serial)
+  return day === 0 || day === 6
+}
+
+const holidaySet = (args: FormulaValue[], index: number): Set<number> =>
+  new Set(
+    index < args.length
+      ? flattenValues([args[index]]).filter(value => value !== null).map(value => Math.floor(toNumber(value)))
+      : []
+  )
+
+const monthsBetween = (start: number, end: number): number => {
+  const from = serialToDate(start)
+  const to = serialToDate(end)
+  const months = (to.year - from.year) * 12 + (to.month - from.month)
+  return to.day < from.day ? months - 1 : months
+}
+
+const datedif = (start: number, end: number, unit: string): number => {
+  if (start > end) throw new FormulaError('#NUM!', 'The start date must not be after the end date')
+
+  const from = serialToDate(start)
+  const to = serialToDate(end)
+  switch (unit.toUpperCase()) {
+    case 'D':
+      return end - start
+    case 'M':
+      return monthsBetween(start, end)
+    case 'Y':
+      return Math.floor(monthsBetween(start, end) / 12)
+    case 'YM':
+      return monthsBetween(start, end) % 12
+    case 'MD': {
+      if (to.day >= from.day) return to.day - from.day
+      // Count from the same day of the previous month, or its last day when that is shorter
+      const previousMonth = to.month === 1 ? 12 : to.month - 1
+      const previousLength = daysInMonth(to.month === 1 ? to.year - 1 : to.year, previousMonth)
+      return previousLength - Math.min(from.day, previousLength) + to.day
+    }
+    case 'YD': {
+      let anniversary = dateToSerial(to.year, from.month, Math.min(from.day, daysInMonth(to.year, from.month)))
+      if (anniversary > end) {
+        anniversary = dateToSerial(to.year - 1, from.month, Math.min(from.day, daysInMonth(to.year - 1, from.month)))
+      }
+      return end - anniversary
+    }
+    default:
+      throw new FormulaError('#NUM!', `Unknown DATEDIF unit "${unit}"`)
+  }
+}
+
+export const dateFunctions: Record<string, FormulaFunction> = {
+  TODAY: { ...defineFunction(0, 0, () => Math.floor(nowSerial())), volatile: true, resultFormat: 'date' },
+
+  NOW: { ...defineFunction(0, 0, () => nowSerial()), volatile: true, resultFormat: 'datetime' },
+
+  // Years 0–1899 are offsets from 1900, as in Excel; month and day overflow roll over
+  DATE: {
+    ...defineFunction(3, 3, args => {
+      let year = Math.trunc(numberArg(args, 0))
+      if (year < 0 || year > 9999) throw new FormulaError('#NUM!', 'The year must be between 0 and 9999')
+      if (year < 1900) year += 1900
+      return checkSerial(dateToSerial(year, Math.trunc(numberArg(args, 1)), Math.trunc(numberArg(args, 2))))
+    }),
+    resultFormat: 'date'
+  },
+
+  YEAR: defineFunction(1, 1, args => serialToDate(serialArg(args, 0)).year),
+
+  MONTH: defineFunction(1, 1, args => serialToDate(serialArg(args, 0)).month),
+
+  DAY: defineFunction(1, 1, args => serialToDate(serialArg(args, 0)).day),
+
+  WEEKDAY: defineFunction(1, 2, args => weekdayNumber(serialArg(args, 0), Math.trunc(numberArg(args, 1, 1)))),
+
+  EDATE: {
+    ...defineFunction(2, 2, args => {
+      const { year, month, day } = addMonths(serialArg(args, 0), Math.trunc(numberArg(args, 1)))
+      return checkSerial(dateToSerial(year, month, day))
+    }),
+    resultFormat: 'date'
+  },
+
+  EOMONTH: {
+    ...defineFunction(2, 2, args => {
+      const { year, month } = addMonths(serialArg(args, 0), Math.trunc(numberArg(args, 1)))
+      return checkSerial(dateToSerial(year, month, daysInMonth(year, month)))
+    }),
+    resultFormat: 'date'
+  },
+
+  // DATEDIF(start, end, unit) with units Y, M, D, MD (days ignoring months and years),
+  // YM (months ignoring years) and YD (days ignoring years)
+  DATEDIF: defineFunction(3, 3, args => datedif(serialArg(args, 0), serialArg(args, 1), textArg(args, 2))),
+
+  // Whole working days between two dates, counting both ends; negative when they are reversed
+  NETWORKDAYS: defineFunction(2, 3, args => {
+    const start = serialArg(args, 0)
+    const end = serialArg(args, 1)
+    const holidays = holidaySet(args, 2)
+
+    let count = 0
+    for (let day = Math.min(start, end); day <= Math.max(start, end); day++) {
+      if (!isWeekend(day) && !holidays.has(day)) count++
+    }
+    return start <= end ? count : -count
+  }),
+
+  WORKDAY: {
+    ...defineFunction(2, 3, args => {
+      let serial = serialArg(args, 0)
+      let remaining = Math.trunc(numberArg(args, 1))
+      const holidays = holidaySet(args, 2)
+      const step = Math.sign(remaining)
+
+      while (remaining !== 0) {
+        serial = checkSerial(serial + step)
+        if (!isWeekend(serial) && !holidays.has(serial)) remaining -= step
+      }
+      return serial
+    }),
+    resultFormat: 'date'
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+
+// Expected results are the ones Microsoft publishes in each function's Excel documentation
+
+// Fills columns from A onwards with the given values, row 1 down, then enters formula in Z1
+const result = (columns: (string | number)[][], formula: string): number | string => {
+  const edits = columns.flatMap((values, col) =>
+    values.map((value, row) => ({ row, col, input: String(value) }))
+  )
+  edits.push({ row: 0, col: 25, input: formula })
+  const cells: Record<string, Cell> = applyCellEdits({}, buildDependencyGraph({}), edits)
+  const cell = cells[getCellId(0, 25)]
+  return cell.error ? cell.error.code : Number(cell.value)
+}
+
+const value = (formula: string) => result([], formula) as number
+
+describe('PMT, IPMT and PPMT', () => {
+  it('give the payment for a loan or a savings target', () => {
+    expect(value('=PMT(8%/12, 10, 10000)')).toBeCloseTo(-1037.03, 2)
+    expect(value('=PMT(8%/12, 10, 10000, 0, 1)')).toBeCloseTo(-1030.16, 2)
+    expect(value('=PMT(6%/12, 18*12, 0, 50000)')).toBeCloseTo(-129.08, 2)
+    expect(value('=PMT(0, 10, 1000)')).toBe(-100)
+    expect(result([], '=PMT(5%, 0, 1000)')).toBe('#NUM!')
+  })
+
+  it('split a payment into interest and principal', () => {
+    expect(value('=IPMT(10%/12, 1, 3*12, 8000)')).toBeCloseTo(-66.67, 2)
+    expect(value('=IPMT(10%, 3, 3, 8000)')).toBeCloseTo(-292.45, 2)
+    expect(value('=PPMT(10%/12, 1, 2*12, 2000)')).toBeCloseTo(-75.62, 2)
+    expect(value('=PPMT(8%, 10, 10, 200000)')).toBeCloseTo(-27598.05, 2)
+    expect(value('=IPMT(10%, 2, 3, 8000) + PPMT(10%, 2, 3, 8000)')).toBeCloseTo(value('=PMT(10%, 3, 8000)'), 8)
+    expect(result([], '=IPMT(10%, 4, 3, 8000)')).toBe('#NUM!')
+  })
+})
+
+describe('FV, PV and NPER', () => {
+  it('move money through time', () => {
+    expect(value('=FV(6%/12, 10, -200, -500, 1)')).toBeCloseTo(2581.4, 2)
+    expect(value('=FV(5%, 10, 0, -1000)')).toBeCloseTo(1628.89, 2)
+    expect(value('=PV(8%/12, 12*20, 500, , 0)')).toBeCloseTo(-59777.15, 2)
+    expect(value('=FV(0, 10, -100, -1000)')).toBe(2000)
+  })
+
+  it('count the periods needed', () => {
+    expect(value('=NPER(12%/12, -100, -1000, 10000, 1)')).toBeCloseTo(59.6738657, 6)
+    expect(value('=NPER(12%/12, -100, -1000)')).toBeCloseTo(-9.57859404, 6)
+    expect(value('=NPER(0, -100, 1000)')).toBe(10)
+    expect(result([], '=NPER(10%, 10, 1000, 100)')).toBe('#NUM!')
+  })
+})
+
+describe('NPV and XNPV', () => {
+  it('NPV discounts the first value by a full period and reads cells as well as ranges', () => {
+    expect(result([[-10000, 3000, 4200, 6800]], '=NPV(10%, A1:A4)')).toBeCloseTo(1188.44, 2)
+    expect(result([[-10000, 3000, 4200, 6800]], '=NPV(10%, A1, A2, A3, A4)')).toBeCloseTo(1188.44, 2)
+    expect(result([], '=NPV(-1, 100)')).toBe('#DIV/0!')
+  })
+
+  const flows = [
+    [-10000, 2750, 4250, 3250, 2750],
+    ['=DATE(2008, 1, 1)', '=DATE(2008, 3, 1)', '=DATE(2008, 10, 30)', '=DATE(2009, 2, 15)', '=DATE(2009, 4, 1)']
+  ]
+
+  it('XNPV discounts by the days from the first date', () => {
+    expect(result(flows, '=XNPV(9%, A1:A5, B1:B5)')).toBeCloseTo(2086.65, 2)
+    expect(result(flows, '=XNPV(9%, A1:A5, B1:B4)')).toBe('#NUM!')
+    expect(result([flows[0], [...flows[1]].reverse()], '=XNPV(9%, A1:A5, B1:B5)')).toBe('#NUM!')
+  })
+
+  it('XIRR finds the rate that brings XNPV to zero', () => {
+    expect(result(flows, '=XIRR(A1:A5, B1:B5)')).toBeCloseTo(0.373362535, 8)
+  })
+})
+
+describe('IRR and RATE', () => {
+  const values = [[-70000, 12000, 15000, 18000, 21000, 26000]]
+
+  it('IRR solves for the rate, from a guess where given', () => {
+    expect(result(values, '=IRR(A1:A5)')).toBeCloseTo(-0.0212, 4)
+    expect(result(values, '=IRR(A1:A6)')).toBeCloseTo(0.0866, 4)
+    expect(result(values, '=IRR(A1:A3, -10%)')).toBeCloseTo(-0.4435, 4)
+  })
+
+  it('IRR needs money both paid and received', () => {
+    expect(result([[100, 200]], '=IRR(A1:A2)')).toBe('#NUM!')
+  })
+
+  it('RATE solves for the rate per period', () => {
+    expect(value('=RATE(4*12, -200, 8000)')).toBeCloseTo(0.0077015, 6)
+    expect(value('=RATE(10, -100, 1000)')).toBeCloseTo(0, 8)
+    expect(result([], '=RATE(0, -200, 8000)')).toBe('#NUM!')
+  })
+
+  it('finds the same rate from a poor guess', () => {
+    expect(value('=RATE(360, -1000, 100000, 0, 0, 5)')).toBeCloseTo(value('=RATE(360, -1000, 100000)'), 8)
+  })
+})
@@ -0,0 +1,210 @@
+import { FormulaFunction, FormulaValue } from '../../types/formula'
+import { FormulaError } from '../errors'
+import { toNumber } from '../values'
+import { collectNumbers, defineFunction, defineReferenceFunction, flattenValues, numberArg } from './helpers'
+
+// Cash flows follow Excel's sign convention: money paid out is negative, money received positive.
+// type 0 means payments fall at the end of each period, 1 at the start.
+
+const paymentType = (args: FormulaValue[], index: number): 0 | 1 => (numberArg(args, index, 0) === 0 ? 0 : 1)
+
+const growth = (rate: number, nper: number) => Math.pow(1 + rate, nper)
+
+const pmt = (rate: number, nper: number, pv: number, fv: number, type: 0 | 1): number => {
+  if (nper === 0) throw new FormulaError('#NUM!', 'The number of periods cannot be 0')
+  if (rate === 0) return -(pv + fv) / nper
+  const factor = growth(rate, nper)
+  return -(rate * (fv + pv * factor)) / ((1 + rate * type) * (factor - 1))
+}
+
+const fv = (rate: number, nper: number, payment: number, pv: number, type: 0 | 1): number => {
+  if (rate === 0) return -(pv + payment * nper)
+  const factor = growth(rate, nper)
+  return -(pv * factor + (payment * (1 + rate * type) * (factor - 1)) / rate)
+}
+
+const pv = (rate: number, nper: number, payment: number, future: number, type: 0 | 1): number => {
+  if (rate === 0) return -(future + payment * nper)
+  const factor = growth(rate, nper)
+  return -(future + (payment * (1 + rate * type) * (factor - 1)) / rate) / factor
+}
+
+// Interest part of payment number per, as Excel computes it
+const ipmt = (rate: number, per: number, nper: number, present: number, future: number, type: 0 | 1): number => {
+  if (per < 1 || per > nper) throw new FormulaError('#NUM!', 'The period must be between 1 and the number of periods')
+  const payment = pmt(rate, nper, present, future, type)
+  if (per === 1) return type === 1 ? 0 : -present * rate
+  const balance = type === 1
+    ? fv(rate, per - 2, payment, present, 1) - payment
+    : fv(rate, per - 1, payment, present, 0)
+  return balance * rate
+}
+
+interface SolveOptions {
+  guess: number
+  maxIterations: number
+}
+
+const TOLERANCE = 1e-10
+
+// Newton's method from the guess, as Excel uses, with a numerical derivative. When that
+// diverges or stalls, falls back to bisection over the first sign change near the guess.
+// Rates at or below -100% are meaningless, so the search stays above -1.
+const solveRate = (f: (rate: number) => number, { guess, maxIterations }: SolveOptions): number => {
+  let rate = guess
+  for (let i = 0; i < maxIterations; i++) {
+    const value = f(rate)
+    if (!Number.isFinite(value)) break
+    if (Math.abs(value) < TOLERANCE) return rate
+
+    const step = Math.max(Math.abs(rate), 1) * 1e-7
+    const slope = (f(rate + step) - value) / step
+    if (!Number.isFinite(slope) || slope === 0) break
+
+    const next = rate - value / slope
+    if (!Number.isFinite(next) || next <= -1) break
+    if (Math.abs(next - rate) < TOLERANCE) return next
+    rate = next
+  }
+
+  return bisect(f, guess)
+}
+
+const bisect = (f: (rate: number) => number, guess: number): number => {
+  // Probe outwards from the guess for an interval whose ends have opposite signs
+  const probes = [-0.99, -0.9, -0.5, -0.2, 0, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 100]
+    .sort((a, b) => Math.abs(a - guess) - Math.abs(b - guess))
+
+  for (const probe of probes) {
+    let [low, high] = probe < guess ? [probe, guess] : [guess, probe]
+    let fLow = f(low)
+    const fHigh = f(high)
+    if (!Number.isFinite(fLow) || !Number.isFinite(fHigh) || Math.sign(fLow) === Math.sign(fHigh)) continue
+
+    for (let i = 0; i < 200; i++) {
+      const middle = (low + high) / 2
+      const fMiddle = f(middle)
+      if (Math.abs(fMiddle) < TOLERANCE || (high - low) / 2 < TOLERANCE) return middle
+      if (Math.sign(fMiddle) === Math.sign(fLow)) {
+        low = middle
+        fLow = fMiddle
+      } else {
+        high = middle
+      }
+    }
+  }
+
+  throw new FormulaError('#NUM!', 'The calculation did not converge; try a different guess')
+}
+
+const requireSignChange = (values: number[]) => {
+  if (!values.some(v => v > 0) || !values.some(v => v < 0)) {
+    throw new FormulaError('#NUM!', 'The cash flows need at least one positive and one negative value')
+  }
+}
+
+const npv = (rate: number, values: number[]): number => {
+  if (rate === -1) throw new FormulaError('#DIV/0!', 'The rate cannot be -100%')
+  return values.reduce((total, value, i) => total + value / growth(rate, i + 1), 0)
+}
+
+// Values and dates for XNPV and XIRR, paired up; every date must be on or after the first
+const datedFlows = (args: FormulaValue[]): { values: number[]; days: number[] } => {
+  const values = flattenValues([args[0]]).map(toNumber)
+  const dates = flattenValues([args[1]]).map(value => Math.floor(toNumber(value)))
+  if (values.length !== dates.length) throw new FormulaError('#NUM!', 'The values and dates must be the same size')
+  if (dates.some(date => date < dates[0])) throw new FormulaError('#NUM!', 'No date may come before the first date')
+  return { values, days: dates.map(date => date - dates[0]) }
+}
+
+const xnpv = (rate: number, values: number[], days: number[]): number =>
+  values.reduce((total, value, i) => total + value / Math.pow(1 + rate, days[i] / 365), 0)
+
+export const financialFunctions: Record<string, FormulaFunction> = {
+  // PMT(rate, nper, pv, [fv], [type]): the payment per period for a loan or investment
+  PMT: defineFunction(3, 5, args =>
+    pmt(numberArg(args, 0), numberArg(args, 1), numberArg(args, 2), numberArg(args, 3, 0), paymentType(args, 4))
+  ),
+
+  // IPMT(rate, per, nper, pv, [fv], [type]) and PPMT split one payment into interest and principal
+  IPMT: defineFunction(4, 6, args =>
+    ipmt(numberArg(args, 0), numberArg(args, 1), numberArg(args, 2), numberArg(args, 3), numberArg(args, 4, 0), paymentType(args, 5))
+  ),
+
+  PPMT: defineFunction(4, 6, args => {
+    const [rate, per, nper, present] = [0, 1, 2, 3].map(index => numberArg(args, index))
+    const future = numberArg(args, 4, 0)
+    const type = paymentType(args, 5)
+    return pmt(rate, nper, present, future, type) - ipmt(rate, per, nper, present, future, type)
+  }),
+
+  // FV(rate, nper, pmt, [pv], [type]), so compound interest on 1000 at 5% for 10 years is =FV(5%, 10, 0, -1000)
+  FV: defineFunction(3, 5, args =>
+    fv(numberArg(args, 0), numberArg(args, 1), numberArg(args, 2), numberArg(args, 3, 0), paymentType(args, 4))
+  ),
+
+  // PV(rate, nper, pmt, [fv], [type])
+  PV: defineFunction(3, 5, args =>
+    pv(numberArg(args, 0), numberArg(args, 1), numberArg(args, 2), numberArg(args, 3, 0), paymentType(args, 4))
+  ),
+
+  // NPER(rate, pmt, pv, [fv], [type])
+  NPER: defineFunction(3, 5, args => {
+    const rate = numberArg(args, 0)
+    const payment = numberArg(args, 1)
+    const present = numberArg(args, 2)
+    const future = numberArg(args, 3, 0)
+    const type = paymentType(args, 4)
+
+    if (rate === 0) {
+      if (payment === 0) throw new FormulaError('#NUM!', 'The payment cannot be 0 when the rate is 0')
+      return -(present + future) / payment
+    }
+    const ratio = (payment * (1 + rate * type) - future * rate) / (present * rate + payment * (1 + rate * type))
+    if (!(ratio > 0)) throw new FormulaError('#NUM!', 'These payments can never reach the target value')
+    return Math.log(ratio) / Math.log(1 + rate)
+  }),
+
+  // NPV(rate, value1, ...): the first value is discounted by one full period
+  NPV: defineReferenceFunction(2, 255, args => npv(numberArg(args, 0), collectNumbers(args.slice(1)))),
+
+  // XNPV(rate, values, dates) discounts each value by its actual distance from the first date
+  XNPV: defineFunction(3, 3, args => {
+    const rate = numberArg(args, 0)
+    if (rate <= -1) throw new FormulaError('#NUM!', 'The rate must be greater than -100%')
+    const { values, days } = datedFlows(args.slice(1))
+    return xnpv(rate, values, days)
+  }),
+
+  // IRR(values, [guess]); Excel gives up after 20 iterations
+  IRR: defineFunction(1, 2, args => {
+    const values = collectNumbers([args[0]])
+    requireSignChange(values)
+    return solveRate(rate => values.reduce((total, value, i) => total + value / growth(rate, i), 0), {
+      guess: numberArg(args, 1, 0.1),
+      maxIterations: 20
+    })
+  }),
+
+  // XIRR(values, dates, [guess]); Excel allows 100 iterations
+  XIRR: defineFunction(2, 3, args => {
+    const { values, days } = datedFlows(args)
+    requireSignChange(values)
+    return solveRate(rate => xnpv(rate, values, days), { guess: numberArg(args, 2, 0.1), maxIterations: 100 })
+  }),
+
+  // RATE(nper, pmt, pv, [fv], [type], [guess]); Excel gives up after 20 iterations
+  RATE: defineFunction(3, 6, args => {
+    const nper = numberArg(args, 0)
+    const payment = numberArg(args, 1)
+    const present = numberArg(args, 2)
+    const future = numberArg(args, 3, 0)
+    const type = paymentType(args, 4)
+    if (nper <= 0) throw new FormulaError('#NUM!', 'The number of periods must be positive')
+
+    return solveRate(rate => (rate === 0
+      ? present + payment * nper + future
+      : present * growth(rate, nper) + (payment * (1 + rate * type) * (growth(rate, nper) - 1)) / rate + future
+    ), { guess: numberArg(args, 5, 0.1), maxIterations: 20 })
+  })
+}
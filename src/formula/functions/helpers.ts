@@ -0,0 +1,125 @@
+import {
+  ArrayValue,
+  CellAddress,
+  EvaluationContext,
+  FormulaFunction,
+  FormulaNode,
+  FormulaValue,
+  LambdaValue,
+  RangeValue,
+  ScalarValue
+} from '../../types/formula'
+import { FormulaError, assertNotError } from '../errors'
+import { toNumber, toScalar, toText } from '../values'
+
+export const defineFunction = (
+  minArgs: number,
+  maxArgs: number,
+  fn: (args: FormulaValue[], context: EvaluationContext) => FormulaValue
+): FormulaFunction => ({
+  minArgs,
+  maxArgs,
+  invoke: (args, evaluate, context) => fn(args.map(arg => evaluate(arg)), context)
+})
+
+// Like defineFunction, but a bare cell argument stays a one-cell range, so SUM(B1) skips
+// text and logical values in B1 the same way SUM(B1:B1) does
+export const defineReferenceFunction = (
+  minArgs: number,
+  maxArgs: number,
+  fn: (args: FormulaValue[], context: EvaluationContext) => FormulaValue
+): FormulaFunction => ({
+  minArgs,
+  maxArgs,
+  invoke: (args, evaluate, context) =>
+    fn(args.map(arg => (arg.type === 'cell' ? evaluateReference(arg, evaluate) : evaluate(arg))), context)
+})
+
+export const defineLazyFunction = (
+  minArgs: number,
+  maxArgs: number,
+  invoke: FormulaFunction['invoke']
+): FormulaFunction => ({ minArgs, maxArgs, invoke })
+
+export const isRange = (value: FormulaValue): value is RangeValue =>
+  value !== null && typeof value === 'object' && value.kind === 'range'
+
+// Ranges and computed arrays alike hold a grid of values
+export const isArray = (value: FormulaValue): value is RangeValue | ArrayValue =>
+  value !== null && typeof value === 'object' && (value.kind === 'range' || value.kind === 'array')
+
+export const makeArray = (values: ScalarValue[][]): ArrayValue => ({ kind: 'array', values })
+
+export const readRange = (context: EvaluationContext, start: CellAddress, end: CellAddress): RangeValue =>
+  ({ kind: 'range', start, end, values: context.getRangeValues(start, end) })
+
+// The context to read a reference from: another sheet's for Sheet2!B3, otherwise the formula's own
+export const sheetContext = (context: EvaluationContext, sheet?: string): EvaluationContext => {
+  if (!sheet) return context
+  const target = context.resolveSheet(sheet)
+  if (!target) throw new FormulaError('#REF!', `There is no sheet named "${sheet}"`)
+  return target
+}
+
+// Evaluates an argument as a reference, so a bare A1 keeps its address instead of collapsing to its value
+export const evaluateReference = (
+  node: FormulaNode,
+  evaluate: (node: FormulaNode) => FormulaValue
+): RangeValue => {
+  const value = evaluate(
+    node.type === 'cell' ? { type: 'range', kind: 'cells', start: node, end: node, sheet: node.sheet } : node
+  )
+  if (!isRange(value)) throw new FormulaError('#VALUE!', 'Expected a cell reference')
+  return value
+}
+
+export const isLambda = (value: FormulaValue): value is LambdaValue =>
+  value !== null && typeof value === 'object' && value.kind === 'lambda'
+
+// A scope in which the given LET or LAMBDA variables shadow everything outside it
+export const withBindings = (
+  context: EvaluationContext,
+  names: string[],
+  values: FormulaValue[]
+): EvaluationContext => {
+  const bindings = new Map(names.map((name, i) => [name.toUpperCase(), values[i]]))
+  return {
+    ...context,
+    resolveName: name => {
+      const key = name.toUpperCase()
+      return bindings.has(key) ? bindings.get(key) : context.resolveName(name)
+    }
+  }
+}
+
+// Ranges and arrays give their values; a single value is treated as a 1×1 table
+export const toMatrix = (value: FormulaValue): ScalarValue[][] => (isArray(value) ? value.values : [[toScalar(value)]])
+
+export const flattenValues = (args: FormulaValue[]): ScalarValue[] =>
+  args.flatMap(arg => (isArray(arg) ? arg.values.flat() : [toScalar(arg)]))
+
+// Values inside ranges only count when they are numbers; values typed directly
+// as arguments are coerced, so SUM(A1:A3) skips "abc" while SUM("abc") fails.
+// Functions built with defineReferenceFunction pass a bare A1 as a range too.
+export const collectNumbers = (args: FormulaValue[]): number[] => {
+  const numbers: number[] = []
+  for (const arg of args) {
+    if (isArray(arg)) {
+      for (const value of arg.values.flat()) {
+        const checked = assertNotError(value)
+        if (typeof checked === 'number') numbers.push(checked)
+      }
+    } else if (arg !== null) {
+      numbers.push(toNumber(toScalar(arg)))
+    }
+  }
+  return numbers
+}
+
+// Optional arguments fall back when left out entirely or omitted between commas
+export const numberArg = (args: FormulaValue[], index: number, fallback?: number): number => {
+  if ((index >= args.length || args[index] === null) && fallback !== undefined) return fallback
+  return toNumber(toScalar(args[index]))
+}
+
+export const textArg = (args: FormulaValue[], index: number): string => toText(toScalar(args[index]))
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, NamedFunction } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph, environmentFor } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+import { createWorkbook } from '../../utils/workbook'
+
+// Fills column A from row 1 down with the given inputs, then enters formula in H1, with the
+// given named functions in the workbook
+const calculate = (inputs: string[], formula: string, namedFunctions: NamedFunction[] = []): Record<string, Cell> => {
+  const workbook = { ...createWorkbook('Book'), namedFunctions }
+  const edits = inputs.map((input, row) => ({ row, col: 0, input }))
+  edits.push({ row: 0, col: 7, input: formula })
+  return applyCellEdits({}, buildDependencyGraph({}), edits, environmentFor(workbook, workbook.sheets[0].id))
+}
+
+// What the block from H1 shows, rows by columns; errors by their code
+const spill = (inputs: string[], formula: string, rows = 1, cols = 1, namedFunctions: NamedFunction[] = []) => {
+  const cells = calculate(inputs, formula, namedFunctions)
+  return Array.from({ length: rows }, (_, row) => Array.from({ length: cols }, (_, col) => {
+    const cell = cells[getCellId(row, 7 + col)]
+    return cell?.error ? cell.error.code : cell?.value ?? ''
+  }))
+}
+
+const result = (inputs: string[], formula: string, namedFunctions: NamedFunction[] = []) =>
+  spill(inputs, formula, 1, 1, namedFunctions)[0][0]
+
+describe('LET', () => {
+  it('names values that later values and the calculation can use', () => {
+    expect(result(['4'], '=LET(x, A1, y, x * 2, x + y)')).toBe('12')
+  })
+
+  it('needs plain names in pairs', () => {
+    expect(result([], '=LET(x, 1, y, 2)')).toBe('#VALUE!')
+    expect(result([], '=LET(A1, 1, A1)')).toBe('#VALUE!')
+  })
+})
+
+describe('LAMBDA and named functions', () => {
+  const margin = { name: 'MARGIN', formula: '=LAMBDA(cost, price, (price - cost) / price)' }
+  const factorial = { name: 'FACT2', formula: '=LAMBDA(n, IF(n <= 1, 1, n * FACT2(n - 1)))' }
+  const forever = { name: 'FOREVER', formula: '=LAMBDA(n, FOREVER(n + 1))' }
+
+  it('calls a LAMBDA written in place', () => {
+    expect(result([], '=LAMBDA(x, x * x)(5)')).toBe('25')
+  })
+
+  it('calls named functions, including ones that call themselves', () => {
+    expect(result(['75'], '=MARGIN(A1, 100)', [margin])).toBe('0.25')
+    expect(result([], '=FACT2(5)', [factorial])).toBe('120')
+  })
+
+  it('stops a named function that never returns', () => {
+    expect(result([], '=FOREVER(1)', [forever])).toBe('#NUM!')
+  })
+})
+
+describe('MAP, BYROW and BYCOL', () => {
+  it('MAP calls the LAMBDA for each element, keeping errors to their own cell', () => {
+    expect(spill(['1', '2', '0'], '=MAP(A1:A3, LAMBDA(x, 10 / x))', 3).flat()).toEqual(['10', '5', '#DIV/0!'])
+    expect(result(['1'], '=MAP(A1:A2, LAMBDA(x, y, x))')).toBe('#VALUE!')
+  })
+
+  it('BYROW and BYCOL give one value per row or column', () => {
+    const cells = calculate([], '=BYROW(SEQUENCE(2, 3), LAMBDA(row, SUM(row)))')
+    expect([cells.H1.value, cells.H2.value]).toEqual(['6', '15'])
+    expect(spill([], '=BYCOL(SEQUENCE(2, 3), LAMBDA(col, MAX(col)))', 1, 3)).toEqual([['4', '5', '6']])
+  })
+
+  it('need a LAMBDA as the last argument', () => {
+    expect(result(['1'], '=MAP(A1:A2, 5)')).toBe('#VALUE!')
+  })
+})
+
+describe('REDUCE and SCAN', () => {
+  it('REDUCE folds an array into one value, from an initial value where given', () => {
+    expect(result(['1', '2', '3'], '=REDUCE(0, A1:A3, LAMBDA(total, x, total + x * x))')).toBe('14')
+    expect(result(['1', '2', '3'], '=REDUCE(A1:A3, LAMBDA(total, x, total + x))')).toBe('6')
+  })
+
+  it('SCAN returns every step', () => {
+    expect(spill(['1', '2', '3'], '=SCAN(1, A1:A3, LAMBDA(product, x, product * x))', 3).flat()).toEqual(['1', '2', '6'])
+  })
+})
@@ -0,0 +1,109 @@
+import { FormulaFunction, FormulaNode, FormulaValue, LambdaValue, ScalarValue } from '../../types/formula'
+import { FormulaError, captureError } from '../errors'
+import { toScalar } from '../values'
+import { defineFunction, defineLazyFunction, isLambda, makeArray, toMatrix, withBindings } from './helpers'
+
+// Guards against a named function that calls itself forever
+const MAX_CALL_DEPTH = 256
+let callDepth = 0
+
+const variableName = (node: FormulaNode): string => {
+  if (node.type !== 'name') throw new FormulaError('#VALUE!', 'LET and LAMBDA variables must be plain names, such as x or total')
+  return node.name
+}
+
+const lambdaArg = (value: FormulaValue, name: string): LambdaValue => {
+  if (!isLambda(value)) throw new FormulaError('#VALUE!', `${name} needs a LAMBDA as its last argument`)
+  return value
+}
+
+const call = (lambda: LambdaValue, args: FormulaValue[], name: string): FormulaValue => {
+  if (args.length !== lambda.params.length) {
+    throw new FormulaError('#VALUE!', `The LAMBDA given to ${name} must take ${args.length} parameter${args.length === 1 ? '' : 's'}`)
+  }
+  return lambda.call(args)
+}
+
+// Each element of a MAP, BYROW or BYCOL result is a single value; errors stay in their own cell
+const callForValue = (lambda: LambdaValue, args: FormulaValue[], name: string): ScalarValue =>
+  captureError(() => toScalar(call(lambda, args, name)))
+
+// REDUCE and SCAN take an optional initial value before the array and the LAMBDA
+const accumulatorArgs = (args: FormulaValue[]): { initial: FormulaValue; source: ScalarValue[][] } =>
+  args.length === 2 ? { initial: null, source: toMatrix(args[0]) } : { initial: args[0], source: toMatrix(args[1]) }
+
+export const lambdaFunctions: Record<string, FormulaFunction> = {
+  // LET(name1, value1, [name2, value2, ...], calculation); later values can use earlier names
+  LET: defineLazyFunction(3, 253, (args, evaluate, context) => {
+    if (args.length % 2 === 0) throw new FormulaError('#VALUE!', 'LET needs name and value pairs followed by a calculation')
+
+    let scope = context
+    for (let i = 0; i < args.length - 1; i += 2) {
+      scope = withBindings(scope, [variableName(args[i])], [evaluate(args[i + 1], scope)])
+    }
+    return evaluate(args[args.length - 1], scope)
+  }),
+
+  // LAMBDA(param1, ..., calculation) captures the scope it is written in
+  LAMBDA: defineLazyFunction(1, 254, (args, evaluate, context) => {
+    const params = args.slice(0, -1).map(variableName)
+    const body = args[args.length - 1]
+    return {
+      kind: 'lambda',
+      params,
+      call: values => {
+        if (callDepth >= MAX_CALL_DEPTH) throw new FormulaError('#NUM!', 'Too many nested LAMBDA calls')
+        callDepth++
+        try {
+          return evaluate(body, withBindings(context, params, values))
+        } finally {
+          callDepth--
+        }
+      }
+    }
+  }),
+
+  // MAP(array1, [array2, ...], lambda) calls the lambda with matching elements of each array
+  MAP: defineFunction(2, 254, args => {
+    const lambda = lambdaArg(args[args.length - 1], 'MAP')
+    const arrays = args.slice(0, -1).map(toMatrix)
+    const [first] = arrays
+    if (arrays.some(array => array.length !== first.length || array[0].length !== first[0].length)) {
+      throw new FormulaError('#VALUE!', 'MAP needs arrays of the same size')
+    }
+    return makeArray(first.map((row, r) => row.map((_, c) => callForValue(lambda, arrays.map(array => array[r][c]), 'MAP'))))
+  }),
+
+  // REDUCE([initial], array, lambda(accumulator, value)) folds the array into one result
+  REDUCE: defineFunction(2, 3, args => {
+    const lambda = lambdaArg(args[args.length - 1], 'REDUCE')
+    const { initial, source } = accumulatorArgs(args)
+    return source.flat().reduce<FormulaValue>((accumulator, value) => call(lambda, [accumulator, value], 'REDUCE'), initial)
+  }),
+
+  // SCAN([initial], array, lambda(accumulator, value)) returns every intermediate result
+  SCAN: defineFunction(2, 3, args => {
+    const lambda = lambdaArg(args[args.length - 1], 'SCAN')
+    const { initial, source } = accumulatorArgs(args)
+
+    // Accumulates row by row and returns an array the shape of the source
+    let accumulator: FormulaValue = initial
+    return makeArray(source.map(row => row.map(value => {
+      accumulator = toScalar(call(lambda, [accumulator, value], 'SCAN'))
+      return accumulator
+    })))
+  }),
+
+  // BYROW(array, lambda(row)) gives one value per row, as a column
+  BYROW: defineFunction(2, 2, args => {
+    const lambda = lambdaArg(args[1], 'BYROW')
+    return makeArray(toMatrix(args[0]).map(row => [callForValue(lambda, [makeArray([row])], 'BYROW')]))
+  }),
+
+  // BYCOL(array, lambda(column)) gives one value per column, as a row
+  BYCOL: defineFunction(2, 2, args => {
+    const lambda = lambdaArg(args[1], 'BYCOL')
+    const table = toMatrix(args[0])
+    return makeArray([table[0].map((_, c) => callForValue(lambda, [makeArray(table.map(row => [row[c]]))], 'BYCOL'))])
+  })
+}
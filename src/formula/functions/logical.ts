@@ -0,0 +1,61 @@
+import { FormulaFunction, FormulaValue } from '../../types/formula'
+import { FormulaError, assertNotError, captureError, isErrorValue, makeError } from '../errors'
+import { toBoolean, toScalar } from '../values'
+import { defineFunction, defineLazyFunction, isArray } from './helpers'
+
+// Ranges contribute only their booleans and numbers; text typed directly is an error
+const collectBooleans = (args: FormulaValue[]): boolean[] => {
+  const booleans: boolean[] = []
+  for (const arg of args) {
+    if (isArray(arg)) {
+      for (const value of arg.values.flat()) {
+        assertNotError(value)
+        if (typeof value === 'boolean' || typeof value === 'number') booleans.push(toBoolean(value))
+      }
+    } else if (arg !== null) {
+      booleans.push(toBoolean(toScalar(arg)))
+    }
+  }
+  if (booleans.length === 0) throw new FormulaError('#VALUE!', 'No logical values to test')
+  return booleans
+}
+
+export const logicalFunctions: Record<string, FormulaFunction> = {
+  IF: defineLazyFunction(2, 3, (args, evaluate) => {
+    const condition = toBoolean(toScalar(evaluate(args[0])))
+    if (condition) return evaluate(args[1])
+    return args.length > 2 ? evaluate(args[2]) : false
+  }),
+
+  IFERROR: defineLazyFunction(2, 2, (args, evaluate) => {
+    // Force a range down to a single value so a bad range also counts as an error
+    const value = captureError(() => toScalar(evaluate(args[0])))
+    return isErrorValue(value) ? evaluate(args[1]) : value
+  }),
+
+  IFNA: defineLazyFunction(2, 2, (args, evaluate) => {
+    const value = captureError(() => toScalar(evaluate(args[0])))
+    return isErrorValue(value) && value.code === '#N/A' ? evaluate(args[1]) : value
+  }),
+
+  ISERROR: defineLazyFunction(1, 1, (args, evaluate) =>
+    isErrorValue(captureError(() => toScalar(evaluate(args[0]))))
+  ),
+
+  ISNA: defineLazyFunction(1, 1, (args, evaluate) => {
+    const value = captureError(() => toScalar(evaluate(args[0])))
+    return isErrorValue(value) && value.code === '#N/A'
+  }),
+
+  NA: defineFunction(0, 0, () => makeError('#N/A')),
+
+  AND: defineFunction(1, 255, args => collectBooleans(args).every(Boolean)),
+
+  OR: defineFunction(1, 255, args => collectBooleans(args).some(Boolean)),
+
+  NOT: defineFunction(1, 1, args => !toBoolean(toScalar(args[0]))),
+
+  TRUE: defineFunction(0, 0, () => true),
+
+  FALSE: defineFunction(0, 0, () => false)
+}
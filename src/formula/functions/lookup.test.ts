@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+
+// Fills the sheet from A1 with the given rows, then enters formula in Z1 and returns what it shows
+const result = (rows: string[][], formula: string): string => {
+  const edits = rows.flatMap((values, row) => values.map((input, col) => ({ row, col, input })))
+  edits.push({ row: 0, col: 25, input: formula })
+  const cells: Record<string, Cell> = applyCellEdits({}, buildDependencyGraph({}), edits)
+  const cell = cells[getCellId(0, 25)]
+  return cell.error ? cell.error.code : cell.value
+}
+
+const fruit = [
+  ['Apple', '1.2', '40'],
+  ['Banana', '0.5', '120'],
+  ['Cherry', '4', '15'],
+  ['Date', '3', '60']
+]
+
+describe('VLOOKUP and HLOOKUP', () => {
+  it('find an exact key, with wildcards and regardless of case', () => {
+    expect(result(fruit, '=VLOOKUP("cherry", A1:C4, 3, FALSE)')).toBe('15')
+    expect(result(fruit, '=VLOOKUP("Ban*", A1:C4, 2, FALSE)')).toBe('0.5')
+    expect(result(fruit, '=VLOOKUP("Fig", A1:C4, 2, FALSE)')).toBe('#N/A')
+  })
+
+  it('take the last key not above the lookup value in a sorted table', () => {
+    const bands = [['0', 'F'], ['50', 'C'], ['70', 'B'], ['90', 'A']]
+    expect(result(bands, '=VLOOKUP(75, A1:B4, 2)')).toBe('B')
+    expect(result(bands, '=VLOOKUP(90, A1:B4, 2, TRUE)')).toBe('A')
+    expect(result(bands, '=VLOOKUP(-1, A1:B4, 2)')).toBe('#N/A')
+  })
+
+  it('reject column indexes outside the table', () => {
+    expect(result(fruit, '=VLOOKUP("Apple", A1:C4, 0, FALSE)')).toBe('#VALUE!')
+    expect(result(fruit, '=VLOOKUP("Apple", A1:C4, 4, FALSE)')).toBe('#REF!')
+  })
+
+  it('read across rows for HLOOKUP', () => {
+    const table = [['Q1', 'Q2', 'Q3'], ['100', '200', '300']]
+    expect(result(table, '=HLOOKUP("Q2", A1:C2, 2, FALSE)')).toBe('200')
+  })
+})
+
+describe('MATCH', () => {
+  it('gives the position of an exact or sorted match', () => {
+    const column = [['10'], ['20'], ['30'], ['40']]
+    expect(result(column, '=MATCH(30, A1:A4, 0)')).toBe('3')
+    expect(result(column, '=MATCH(35, A1:A4)')).toBe('3')
+    expect(result(column, '=MATCH(5, A1:A4, 1)')).toBe('#N/A')
+    expect(result([['40'], ['30'], ['20'], ['10']], '=MATCH(25, A1:A4, -1)')).toBe('2')
+  })
+
+  it('needs a single row or column', () => {
+    expect(result(fruit, '=MATCH("Apple", A1:B4, 0)')).toBe('#N/A')
+  })
+})
+
+describe('XLOOKUP', () => {
+  it('returns the matching item, or the fallback when nothing matches', () => {
+    expect(result(fruit, '=XLOOKUP("Date", A1:A4, C1:C4)')).toBe('60')
+    expect(result(fruit, '=XLOOKUP("Fig", A1:A4, C1:C4, "none")')).toBe('none')
+    expect(result(fruit, '=XLOOKUP("Fig", A1:A4, C1:C4)')).toBe('#N/A')
+  })
+
+  it('takes the next smaller or larger item', () => {
+    const sizes = [['10'], ['20'], ['30']]
+    expect(result(sizes, '=XLOOKUP(25, A1:A3, A1:A3, , -1)')).toBe('20')
+    expect(result(sizes, '=XLOOKUP(25, A1:A3, A1:A3, , 1)')).toBe('30')
+    expect(result(sizes, '=XLOOKUP(25, A1:A3, A1:A3, , 0, 2)')).toBe('#N/A')
+    expect(result(sizes, '=XLOOKUP(25, A1:A3, A1:A3, , 1, 2)')).toBe('30')
+  })
+
+  it('searches from the last item back', () => {
+    const sales = [['North', '1'], ['South', '2'], ['North', '3']]
+    expect(result(sales, '=XLOOKUP("North", A1:A3, B1:B3, , 0, -1)')).toBe('3')
+  })
+
+  it('rejects arrays of different sizes and unknown modes', () => {
+    expect(result(fruit, '=XLOOKUP("Date", A1:A4, C1:C3)')).toBe('#VALUE!')
+    expect(result(fruit, '=XLOOKUP("Date", A1:A4, C1:C4, , 3)')).toBe('#VALUE!')
+  })
+})
+
+describe('INDEX', () => {
+  it('picks a cell by row and column, or by position in a single row or column', () => {
+    expect(result(fruit, '=INDEX(A1:C4, 2, 3)')).toBe('120')
+    expect(result(fruit, '=INDEX(A1:A4, 4)')).toBe('Date')
+    expect(result(fruit, '=INDEX(A1:C1, 2)')).toBe('1.2')
+  })
+
+  it('returns a reference other functions can read', () => {
+    expect(result(fruit, '=SUM(INDEX(A1:C4, 0, 3))')).toBe('235')
+  })
+
+  it('is #REF! outside the range', () => {
+    expect(result(fruit, '=INDEX(A1:C4, 5, 1)')).toBe('#REF!')
+  })
+})
+
+describe('OFFSET and INDIRECT', () => {
+  it('OFFSET moves and resizes a reference', () => {
+    expect(result(fruit, '=OFFSET(A1, 2, 1)')).toBe('4')
+    expect(result(fruit, '=SUM(OFFSET(A1, 0, 2, 4, 1))')).toBe('235')
+    expect(result(fruit, '=OFFSET(A1, -1, 0)')).toBe('#REF!')
+  })
+
+  it('INDIRECT reads a reference from text in A1 or R1C1 style', () => {
+    expect(result(fruit, '=INDIRECT("C" & 2)')).toBe('120')
+    expect(result(fruit, '=SUM(INDIRECT("R1C3:R2C3", FALSE))')).toBe('160')
+    expect(result(fruit, '=INDIRECT("not a ref")')).toBe('#REF!')
+  })
+
+  it('recalculate on any edit, since the cells they read are not known in advance', () => {
+    const graph = buildDependencyGraph({})
+    let cells = applyCellEdits({}, graph, [
+      { row: 0, col: 0, input: 'C3' },
+      { row: 0, col: 1, input: '=INDIRECT(A1)' },
+      { row: 0, col: 3, input: '=OFFSET(A1, 2, 2)' }
+    ])
+    cells = applyCellEdits(cells, graph, [{ row: 2, col: 2, input: '7' }])
+    expect([cells.B1.value, cells.D1.value]).toEqual(['7', '7'])
+  })
+})
@@ -0,0 +1,234 @@
+import { ArrayValue, FormulaFunction, FormulaValue, RangeValue, ScalarValue } from '../../types/formula'
+import { FormulaError, makeError } from '../errors'
+import { columnToLetter } from '../../utils/spreadsheet'
+import { MAX_COLS, MAX_ROWS, parseFormula } from '../parser'
+import { toBoolean, toScalar, toText } from '../values'
+import {
+  defineFunction,
+  defineLazyFunction,
+  evaluateReference,
+  isArray,
+  isRange,
+  makeArray,
+  numberArg,
+  readRange,
+  sheetContext,
+  toMatrix
+} from './helpers'
+import { findExact, findNearest, findSorted } from './matching'
+
+const notFound = () => new FormulaError('#N/A', 'No match was found')
+
+const column = (table: ScalarValue[][], index: number) => table.map(row => row[index])
+
+const optionalFlag = (args: FormulaValue[], index: number, fallback: boolean): boolean =>
+  index < args.length && args[index] !== null ? toBoolean(toScalar(args[index])) : fallback
+
+// Shared body of VLOOKUP and HLOOKUP once the table is oriented so keys run down the first column
+const tableLookup = (lookup: ScalarValue, table: ScalarValue[][], index: number, approximate: boolean) => {
+  if (index < 1) throw new FormulaError('#VALUE!', 'The column index must be at least 1')
+  if (table.length === 0 || index > table[0].length) {
+    throw new FormulaError('#REF!', 'The column index is outside the table')
+  }
+
+  const keys = column(table, 0)
+  const position = approximate
+    ? findSorted(keys, lookup)
+    : findExact(keys, lookup, { wildcards: true })
+  if (position === -1) throw notFound()
+  return table[position][index - 1]
+}
+
+const transpose = (table: ScalarValue[][]): ScalarValue[][] =>
+  table.length === 0 ? [] : table[0].map((_, col) => column(table, col))
+
+const matchPosition = (lookup: ScalarValue, values: ScalarValue[], matchType: number): number => {
+  if (matchType === 0) return findExact(values, lookup, { wildcards: true })
+  return findSorted(values, lookup, matchType < 0)
+}
+
+// XLOOKUP's match_mode (0 exact, -1/1 next smaller/larger, 2 wildcard) and
+// search_mode (1 first-to-last, -1 last-to-first, 2/-2 binary on ascending/descending data)
+const xlookupPosition = (
+  lookup: ScalarValue,
+  values: ScalarValue[],
+  matchMode: number,
+  searchMode: number
+): number => {
+  if (![0, -1, 1, 2].includes(matchMode)) throw new FormulaError('#VALUE!', 'Invalid match mode')
+  if (![1, -1, 2, -2].includes(searchMode)) throw new FormulaError('#VALUE!', 'Invalid search mode')
+
+  const reverse = searchMode === -1
+  if (Math.abs(searchMode) !== 2 || matchMode === 2) {
+    if (matchMode === 2) return findExact(values, lookup, { wildcards: true, reverse })
+    if (matchMode === 0) return findExact(values, lookup, { reverse })
+    return findNearest(values, lookup, matchMode as -1 | 1, reverse)
+  }
+
+  const descending = searchMode === -2
+  const position = findSorted(values, lookup, descending)
+  const exact = position !== -1 && findExact([values[position]], lookup) === 0
+  if (exact || matchMode === 0) return exact ? position : -1
+
+  // findSorted lands on the neighbour that is smaller (ascending) or larger (descending)
+  const wantsSmaller = matchMode === -1
+  if (wantsSmaller !== descending) return position
+  const next = position + 1
+  return next < values.length ? next : -1
+}
+
+// Slicing a range keeps it a reference; slicing a computed array gives a smaller array
+const sliceRange = (
+  source: RangeValue | ArrayValue,
+  rowOffset: number,
+  colOffset: number,
+  rows: number,
+  cols: number
+): RangeValue | ArrayValue => {
+  const values = source.values.slice(rowOffset, rowOffset + rows).map(row => row.slice(colOffset, colOffset + cols))
+  if (!isRange(source)) return makeArray(values)
+  return {
+    kind: 'range',
+    start: { row: source.start.row + rowOffset, col: source.start.col + colOffset },
+    end: { row: source.start.row + rowOffset + rows - 1, col: source.start.col + colOffset + cols - 1 },
+    values,
+    sheet: source.sheet
+  }
+}
+
+// Turns R1C1 text into A1 text for INDIRECT; only absolute R1C1 references are supported
+const r1c1ToA1 = (text: string): string => {
+  const convert = (part: string) => {
+    const match = part.toUpperCase().match(/^R(\d+)C(\d+)$/)
+    if (!match) throw new FormulaError('#REF!', `"${text}" is not a valid R1C1 reference`)
+    return `${columnToLetter(parseInt(match[2]) - 1)}${match[1]}`
+  }
+  return text.split(':').map(convert).join(':')
+}
+
+export const lookupFunctions: Record<string, FormulaFunction> = {
+  VLOOKUP: defineFunction(3, 4, args => {
+    const table = toMatrix(args[1])
+    return tableLookup(toScalar(args[0]), table, Math.trunc(numberArg(args, 2)), optionalFlag(args, 3, true))
+  }),
+
+  HLOOKUP: defineFunction(3, 4, args => {
+    const table = transpose(toMatrix(args[1]))
+    return tableLookup(toScalar(args[0]), table, Math.trunc(numberArg(args, 2)), optionalFlag(args, 3, true))
+  }),
+
+  MATCH: defineFunction(2, 3, args => {
+    const table = toMatrix(args[1])
+    if (table.length > 1 && table[0].length > 1) {
+      throw new FormulaError('#N/A', 'MATCH needs a single row or column')
+    }
+    const position = matchPosition(toScalar(args[0]), table.flat(), Math.sign(numberArg(args, 2, 1)))
+    if (position === -1) throw notFound()
+    return position + 1
+  }),
+
+  XLOOKUP: defineFunction(3, 6, args => {
+    const lookupTable = toMatrix(args[1])
+    const returnTable = toMatrix(args[2])
+    const vertical = lookupTable[0]?.length === 1
+    if (!vertical && lookupTable.length !== 1) {
+      throw new FormulaError('#VALUE!', 'The lookup array must be a single row or column')
+    }
+
+    const keys = lookupTable.flat()
+    const sameSize = vertical ? returnTable.length === keys.length : returnTable[0]?.length === keys.length
+    if (!sameSize) throw new FormulaError('#VALUE!', 'The lookup and return arrays must be the same size')
+
+    const position = xlookupPosition(
+      toScalar(args[0]),
+      keys,
+      Math.trunc(numberArg(args, 4, 0)),
+      Math.trunc(numberArg(args, 5, 1))
+    )
+
+    if (position === -1) {
+      if (args.length > 3 && args[3] !== null) return args[3]
+      return makeError('#N/A', 'No match was found')
+    }
+
+    const returnArray = args[2]
+    if (isArray(returnArray)) {
+      return vertical
+        ? sliceRange(returnArray, position, 0, 1, returnTable[0].length)
+        : sliceRange(returnArray, 0, position, returnTable.length, 1)
+    }
+    return returnArray
+  }),
+
+  // INDEX(range, row, [col]) returns a reference, so =INDEX(B2:D9, 3, 2) can feed other
+  // reference-taking functions; a 0 row or column selects the whole column or row
+  INDEX: defineFunction(2, 3, args => {
+    const source = args[0]
+    const table = toMatrix(source)
+    let row = Math.trunc(numberArg(args, 1))
+    let col = Math.trunc(numberArg(args, 2, 0))
+
+    const height = table.length
+    const width = table[0]?.length ?? 0
+
+    // A single row or column can be indexed with one number
+    if (args.length === 2 && height === 1) {
+      col = row
+      row = 1
+    } else if (args.length === 2 && width === 1) {
+      col = 1
+    }
+
+    if (row < 0 || col < 0 || row > height || col > width) {
+      throw new FormulaError('#REF!', 'The index is outside the range')
+    }
+
+    if (!isArray(source)) return table[0][0]
+    return sliceRange(
+      source,
+      row === 0 ? 0 : row - 1,
+      col === 0 ? 0 : col - 1,
+      row === 0 ? height : 1,
+      col === 0 ? width : 1
+    )
+  }),
+
+  OFFSET: {
+    ...defineLazyFunction(3, 5, (args, evaluate, context) => {
+      const base = evaluateReference(args[0], evaluate)
+      const values = args.slice(1).map(arg => evaluate(arg))
+      const rows = Math.trunc(numberArg(values, 0))
+      const cols = Math.trunc(numberArg(values, 1))
+      const height = Math.trunc(numberArg(values, 2, base.end.row - base.start.row + 1))
+      const width = Math.trunc(numberArg(values, 3, base.end.col - base.start.col + 1))
+
+      const start = { row: base.start.row + rows, col: base.start.col + cols }
+      const end = { row: start.row + height - 1, col: start.col + width - 1 }
+      if (height < 1 || width < 1 || start.row < 0 || start.col < 0 || end.row >= MAX_ROWS || end.col >= MAX_COLS) {
+        throw new FormulaError('#REF!', 'OFFSET points outside the sheet')
+      }
+      return { ...readRange(sheetContext(context, base.sheet), start, end), sheet: base.sheet }
+    }),
+    volatile: true
+  },
+
+  INDIRECT: {
+    ...defineLazyFunction(1, 2, (args, evaluate) => {
+      const values = args.map(arg => evaluate(arg))
+      const a1Style = values.length < 2 || values[1] === null || toBoolean(toScalar(values[1]))
+      const text = toText(toScalar(values[0])).trim()
+
+      let node
+      try {
+        node = parseFormula(a1Style ? text : r1c1ToA1(text))
+      } catch {
+        throw new FormulaError('#REF!', `"${text}" is not a valid reference`)
+      }
+      if (node.type !== 'cell' && node.type !== 'range') {
+        throw new FormulaError('#REF!', `"${text}" is not a valid reference`)
+      }
+      return evaluateReference(node, evaluate)
+    }),
+    volatile: true
+  }
+}
@@ -0,0 +1,86 @@
+import { ScalarValue } from '../../types/formula'
+import { isErrorValue } from '../errors'
+import { compareValues } from '../values'
+
+// Excel wildcards: * any run, ? any single character, ~ escapes the next character
+export const wildcardToRegExp = (pattern: string): RegExp => {
+  let source = ''
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '~' && i + 1 < pattern.length) {
+      source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    } else if (char === '*') {
+      source += '.*'
+    } else if (char === '?') {
+      source += '.'
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`, 'is')
+}
+
+const sameType = (a: ScalarValue, b: ScalarValue) => typeof a === typeof b
+
+// Lookups never match blanks or errors, and never coerce across types ("1" is not 1)
+export const valuesMatch = (candidate: ScalarValue, lookup: ScalarValue, wildcard: RegExp | null): boolean => {
+  if (candidate === null || isErrorValue(candidate) || !sameType(candidate, lookup)) return false
+  if (wildcard && typeof candidate === 'string') return wildcard.test(candidate)
+  return compareValues(candidate, lookup) === 0
+}
+
+export const findExact = (
+  values: ScalarValue[],
+  lookup: ScalarValue,
+  { wildcards = false, reverse = false } = {}
+): number => {
+  const wildcard = wildcards && typeof lookup === 'string' ? wildcardToRegExp(lookup) : null
+  for (let step = 0; step < values.length; step++) {
+    const i = reverse ? values.length - 1 - step : step
+    if (valuesMatch(values[i], lookup, wildcard)) return i
+  }
+  return -1
+}
+
+// Binary search over sorted data for the last position at or before the lookup value
+// (ascending) or at or after it (descending), as Excel's approximate match does
+export const findSorted = (values: ScalarValue[], lookup: ScalarValue, descending = false): number => {
+  let low = 0
+  let high = values.length - 1
+  let found = -1
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2)
+    const candidate = values[mid]
+    const order = candidate === null || isErrorValue(candidate) ? 1 : compareValues(candidate, lookup)
+    if (descending ? order >= 0 : order <= 0) {
+      if (candidate !== null && sameType(candidate, lookup)) found = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+
+  return found
+}
+
+// Unsorted search for an exact match, or failing that the closest value on one side
+export const findNearest = (
+  values: ScalarValue[],
+  lookup: ScalarValue,
+  direction: -1 | 1,
+  reverse = false
+): number => {
+  const exact = findExact(values, lookup, { reverse })
+  if (exact !== -1) return exact
+
+  let best = -1
+  for (let step = 0; step < values.length; step++) {
+    const i = reverse ? values.length - 1 - step : step
+    const candidate = values[i]
+    if (candidate === null || isErrorValue(candidate) || !sameType(candidate, lookup)) continue
+    if (Math.sign(compareValues(candidate, lookup)) !== direction) continue
+    if (best === -1 || Math.sign(compareValues(candidate, values[best])) === -direction) best = i
+  }
+  return best
+}
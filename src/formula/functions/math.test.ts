@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+
+// Fills column B from row 1 down with the given inputs, then enters formula in Z1
+const result = (inputs: string[], formula: string): number | string => {
+  const edits = inputs.map((input, row) => ({ row, col: 1, input }))
+  edits.push({ row: 0, col: 25, input: formula })
+  const cells: Record<string, Cell> = applyCellEdits({}, buildDependencyGraph({}), edits)
+  const cell = cells[getCellId(0, 25)]
+  return cell.error ? cell.error.code : Number(cell.value)
+}
+
+describe('SUM', () => {
+  it('skips text and logical values in a single cell as it does in a range', () => {
+    expect(result(['Total', '5'], '=SUM(B1,B2)')).toBe(5)
+    expect(result(['Total'], '=SUM(B1)')).toBe(0)
+    expect(result(['TRUE', '5'], '=SUM(B1,B2)')).toBe(5)
+    expect(result(['Total', '5'], '=SUM(B1:B2)')).toBe(5)
+  })
+
+  it('coerces values typed as arguments', () => {
+    expect(result([], '=SUM("3", TRUE, 1)')).toBe(5)
+    expect(result([], '=SUM("abc")')).toBe('#VALUE!')
+  })
+
+  it('passes on an error in a referenced cell', () => {
+    expect(result(['=1/0', '5'], '=SUM(B1,B2)')).toBe('#DIV/0!')
+  })
+})
+
+describe('AVERAGE, MIN, MAX and PRODUCT', () => {
+  it('leave text cells out', () => {
+    expect(result(['4', 'n/a', '8'], '=AVERAGE(B1,B2,B3)')).toBe(6)
+    expect(result(['n/a'], '=AVERAGE(B1)')).toBe('#DIV/0!')
+    expect(result(['4', 'TRUE', '8'], '=MIN(B1,B2,B3)')).toBe(4)
+    expect(result(['4', '99x', '8'], '=MAX(B1,B2,B3)')).toBe(8)
+    expect(result(['4', 'x', '8'], '=PRODUCT(B1,B2,B3)')).toBe(32)
+  })
+})
+
+describe('COUNT', () => {
+  it('counts only numbers in cells', () => {
+    expect(result(['1', '2', 'TRUE'], '=COUNT(B1,B2,B3)')).toBe(2)
+  })
+
+  it('counts values typed as arguments that read as numbers', () => {
+    expect(result([], '=COUNT(1, "2", TRUE, "x")')).toBe(3)
+  })
+})
+
+describe('SUMIF', () => {
+  it('resizes a one-cell sum range to the criteria range', () => {
+    expect(result(['10', '20', '30'], '=SUMIF(B1:B3,">10",B1)')).toBe(50)
+  })
+})
@@ -0,0 +1,91 @@
+import { FormulaFunction } from '../../types/formula'
+import { FormulaError } from '../errors'
+import { collectNumbers, defineFunction, defineReferenceFunction, flattenValues, isArray, numberArg } from './helpers'
+
+// Shifts through the decimal exponent so 1.005 rounds to 1.01 like Excel, not 1.00
+const shift = (value: number, digits: number) => Number(`${value}e${digits}`)
+
+const roundWith = (round: (value: number) => number) => (value: number, digits: number): number => {
+  const magnitude = Math.abs(value)
+  const rounded = digits >= 0
+    ? shift(round(shift(magnitude, digits)), -digits)
+    : round(magnitude / Math.pow(10, -digits)) * Math.pow(10, -digits)
+  return Math.sign(value) * rounded
+}
+
+const roundHalfUp = roundWith(Math.round)
+const roundUp = roundWith(Math.ceil)
+const roundDown = roundWith(Math.floor)
+
+export const mathFunctions: Record<string, FormulaFunction> = {
+  SUM: defineReferenceFunction(1, 255, args => collectNumbers(args).reduce((sum, n) => sum + n, 0)),
+
+  PRODUCT: defineReferenceFunction(1, 255, args => collectNumbers(args).reduce((product, n) => product * n, 1)),
+
+  AVERAGE: defineReferenceFunction(1, 255, args => {
+    const numbers = collectNumbers(args)
+    if (numbers.length === 0) throw new FormulaError('#DIV/0!', 'AVERAGE needs at least one number')
+    return numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+  }),
+
+  MIN: defineReferenceFunction(1, 255, args => {
+    const numbers = collectNumbers(args)
+    return numbers.length === 0 ? 0 : Math.min(...numbers)
+  }),
+
+  MAX: defineReferenceFunction(1, 255, args => {
+    const numbers = collectNumbers(args)
+    return numbers.length === 0 ? 0 : Math.max(...numbers)
+  }),
+
+  // Counts numbers in ranges and cells, plus values typed as arguments that can be read as numbers
+  COUNT: defineReferenceFunction(1, 255, args => {
+    let count = 0
+    for (const arg of args) {
+      if (isArray(arg)) {
+        count += arg.values.flat().filter(value => typeof value === 'number').length
+      } else if (typeof arg === 'number' || typeof arg === 'boolean') {
+        count++
+      } else if (typeof arg === 'string' && arg.trim() !== '' && !isNaN(Number(arg))) {
+        count++
+      }
+    }
+    return count
+  }),
+
+  COUNTA: defineFunction(1, 255, args => flattenValues(args).filter(value => value !== null).length),
+
+  ROUND: defineFunction(2, 2, args => roundHalfUp(numberArg(args, 0), Math.trunc(numberArg(args, 1)))),
+
+  ROUNDUP: defineFunction(2, 2, args => roundUp(numberArg(args, 0), Math.trunc(numberArg(args, 1)))),
+
+  ROUNDDOWN: defineFunction(2, 2, args => roundDown(numberArg(args, 0), Math.trunc(numberArg(args, 1)))),
+
+  INT: defineFunction(1, 1, args => Math.floor(numberArg(args, 0))),
+
+  ABS: defineFunction(1, 1, args => Math.abs(numberArg(args, 0))),
+
+  SQRT: defineFunction(1, 1, args => {
+    const value = numberArg(args, 0)
+    if (value < 0) throw new FormulaError('#NUM!', 'SQRT of a negative number')
+    return Math.sqrt(value)
+  }),
+
+  POWER: defineFunction(2, 2, args => {
+    const result = Math.pow(numberArg(args, 0), numberArg(args, 1))
+    if (!Number.isFinite(result)) throw new FormulaError('#NUM!', 'The power is not a real number')
+    return result
+  }),
+
+  // Excel's MOD takes the sign of the divisor
+  MOD: defineFunction(2, 2, args => {
+    const number = numberArg(args, 0)
+    const divisor = numberArg(args, 1)
+    if (divisor === 0) throw new FormulaError('#DIV/0!', 'MOD by zero')
+    return number - divisor * Math.floor(number / divisor)
+  }),
+
+  PI: defineFunction(0, 0, () => Math.PI),
+
+  SIGN: defineFunction(1, 1, args => Math.sign(numberArg(args, 0)))
+}
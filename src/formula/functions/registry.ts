@@ -0,0 +1,26 @@
+import { FormulaFunction } from '../../types/formula'
+import { arrayFunctions } from './array'
+import { conditionalFunctions } from './conditional'
+import { dateFunctions } from './date'
+import { financialFunctions } from './financial'
+import { lambdaFunctions } from './lambda'
+import { logicalFunctions } from './logical'
+import { lookupFunctions } from './lookup'
+import { mathFunctions } from './math'
+import { statisticsFunctions } from './statistics'
+import { textFunctions } from './text'
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  ...mathFunctions,
+  ...logicalFunctions,
+  ...textFunctions,
+  ...lookupFunctions,
+  ...conditionalFunctions,
+  ...dateFunctions,
+  ...arrayFunctions,
+  ...statisticsFunctions,
+  ...financialFunctions,
+  ...lambdaFunctions
+}
+
+export const getFunction = (name: string): FormulaFunction | undefined => FUNCTIONS[name.toUpperCase()]
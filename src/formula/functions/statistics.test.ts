@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { columnToLetter, getCellId } from '../../utils/spreadsheet'
+
+// Expected results are the ones Microsoft publishes in each function's Excel documentation
+
+// Fills columns from A onwards with the given values, row 1 down, then enters formula in Z1
+const calculate = (columns: (string | number)[][], formula: string): Record<string, Cell> => {
+  const edits = columns.flatMap((values, col) =>
+    values.map((value, row) => ({ row, col, input: String(value) }))
+  )
+  edits.push({ row: 0, col: 25, input: formula })
+  return applyCellEdits({}, buildDependencyGraph({}), edits)
+}
+
+const result = (columns: (string | number)[][], formula: string): number | string => {
+  const cell = calculate(columns, formula)[getCellId(0, 25)]
+  return cell.error ? cell.error.code : Number(cell.value)
+}
+
+const range = (col: number, length: number) => `${columnToLetter(col)}1:${columnToLetter(col)}${length}`
+
+// Sample data from the STDEV.S, STDEV.P, VAR.S and VAR.P pages
+const STRENGTHS = [1345, 1301, 1368, 1322, 1310, 1370, 1318, 1350, 1303, 1299]
+
+describe('MEDIAN', () => {
+  it('takes the middle value, or the mean of the middle two', () => {
+    expect(result([[1, 2, 3, 4, 5]], '=MEDIAN(A1:A5)')).toBe(3)
+    expect(result([[1, 2, 3, 4, 5, 6]], '=MEDIAN(A1:A6)')).toBe(3.5)
+  })
+
+  it('fails on a range with no numbers', () => {
+    expect(result([['a', 'b']], '=MEDIAN(A1:A2)')).toBe('#NUM!')
+    expect(result([], '=MEDIAN(A1:A5)')).toBe('#NUM!')
+  })
+
+  it('rejects text typed as an argument', () => {
+    expect(result([], '=MEDIAN(1, "abc")')).toBe('#VALUE!')
+  })
+})
+
+describe('MODE.SNGL', () => {
+  it('returns the most frequent value', () => {
+    expect(result([[5.6, 4, 4, 3, 2, 4]], '=MODE.SNGL(A1:A6)')).toBe(4)
+  })
+
+  it('is #N/A when nothing repeats or there is no data', () => {
+    expect(result([[1, 2, 3]], '=MODE.SNGL(A1:A3)')).toBe('#N/A')
+    expect(result([], '=MODE.SNGL(A1:A3)')).toBe('#N/A')
+  })
+})
+
+describe('STDEV and VAR', () => {
+  it('match the published sample and population results', () => {
+    expect(result([STRENGTHS], '=STDEV.S(A1:A10)')).toBeCloseTo(27.46391572, 8)
+    expect(result([STRENGTHS], '=STDEV.P(A1:A10)')).toBeCloseTo(26.05455814, 8)
+    expect(result([STRENGTHS], '=VAR.S(A1:A10)')).toBeCloseTo(754.2666667, 7)
+    expect(result([STRENGTHS], '=VAR.P(A1:A10)')).toBeCloseTo(678.84, 8)
+  })
+
+  it('divide by zero without enough numbers', () => {
+    expect(result([[5]], '=STDEV.S(A1:A1)')).toBe('#DIV/0!')
+    expect(result([[5]], '=VAR.S(A1:A1)')).toBe('#DIV/0!')
+    expect(result([], '=STDEV.P(A1:A5)')).toBe('#DIV/0!')
+    expect(result([], '=VAR.P(A1:A5)')).toBe('#DIV/0!')
+  })
+
+  it('skip text in ranges but reject it as an argument', () => {
+    expect(result([[...STRENGTHS, 'n/a']], '=STDEV.S(A1:A11)')).toBeCloseTo(27.46391572, 8)
+    expect(result([], '=VAR.P(1, 2, "abc")')).toBe('#VALUE!')
+  })
+})
+
+describe('PERCENTILE', () => {
+  it('interpolates inclusively', () => {
+    expect(result([[1, 3, 2, 4]], '=PERCENTILE.INC(A1:A4, 0.3)')).toBeCloseTo(1.9, 12)
+  })
+
+  it('interpolates exclusively', () => {
+    const data = [1, 2, 3, 6, 6, 6, 7, 8, 9]
+    expect(result([data], '=PERCENTILE.EXC(A1:A9, 0.25)')).toBe(2.5)
+    expect(result([data], '=PERCENTILE.EXC(A1:A9, 0.5)')).toBe(6)
+  })
+
+  it('is #NUM! when k is out of range', () => {
+    const data = [1, 2, 3, 6, 6, 6, 7, 8, 9]
+    expect(result([data], '=PERCENTILE.EXC(A1:A9, 0)')).toBe('#NUM!')
+    expect(result([data], '=PERCENTILE.EXC(A1:A9, 0.01)')).toBe('#NUM!')
+    expect(result([data], '=PERCENTILE.EXC(A1:A9, 2)')).toBe('#NUM!')
+    expect(result([data], '=PERCENTILE.INC(A1:A9, 1.5)')).toBe('#NUM!')
+  })
+
+  it('fails on empty ranges and text k', () => {
+    expect(result([], '=PERCENTILE.INC(A1:A5, 0.5)')).toBe('#NUM!')
+    expect(result([[1, 2]], '=PERCENTILE.INC(A1:A2, "abc")')).toBe('#VALUE!')
+  })
+})
+
+describe('QUARTILE', () => {
+  const data = [1, 2, 4, 7, 8, 9, 10, 12]
+
+  it('returns the quartiles of the data', () => {
+    expect(result([data], '=QUARTILE(A1:A8, 1)')).toBe(3.5)
+    expect(result([data], '=QUARTILE.INC(A1:A8, 3)')).toBe(9.25)
+    expect(result([data], '=QUARTILE(A1:A8, 0)')).toBe(1)
+    expect(result([data], '=QUARTILE(A1:A8, 4)')).toBe(12)
+  })
+
+  it('is #NUM! for a quartile outside 0 to 4', () => {
+    expect(result([data], '=QUARTILE(A1:A8, 5)')).toBe('#NUM!')
+    expect(result([data], '=QUARTILE(A1:A8, -1)')).toBe('#NUM!')
+  })
+})
+
+describe('RANK', () => {
+  const data = [7, 3.5, 3.5, 1, 2]
+
+  it('ranks with RANK.EQ, ties sharing the best rank', () => {
+    expect(result([data], '=RANK.EQ(7, A1:A5, 1)')).toBe(5)
+    expect(result([data], '=RANK.EQ(2, A1:A5)')).toBe(4)
+    expect(result([data], '=RANK.EQ(3.5, A1:A5, 1)')).toBe(3)
+  })
+
+  it('averages tied ranks with RANK.AVG', () => {
+    expect(result([[89, 88, 92, 101, 94, 97, 95]], '=RANK.AVG(94, A1:A7)')).toBe(4)
+    expect(result([data], '=RANK.AVG(3.5, A1:A5, 1)')).toBe(3.5)
+    expect(result([data], '=RANK.AVG(3.5, A1:A5)')).toBe(2.5)
+  })
+
+  it('is #N/A for a number not in the list', () => {
+    expect(result([data], '=RANK.EQ(4, A1:A5)')).toBe('#N/A')
+    expect(result([], '=RANK.AVG(4, A1:A5)')).toBe('#N/A')
+  })
+})
+
+describe('FREQUENCY', () => {
+  it('spills a count per bin and one for values above the last', () => {
+    const scores = [79, 85, 78, 85, 50, 81, 95, 88, 97]
+    const cells = calculate([scores, [70, 79, 89]], `=FREQUENCY(${range(0, 9)}, ${range(1, 3)})`)
+    const counts = [0, 1, 2, 3].map(row => Number(cells[getCellId(row, 25)].value))
+    expect(counts).toEqual([1, 2, 4, 2])
+  })
+
+  it('counts nothing for an empty data range', () => {
+    const cells = calculate([[], [10, 20]], '=FREQUENCY(A1:A5, B1:B2)')
+    const counts = [0, 1, 2].map(row => Number(cells[getCellId(row, 25)].value))
+    expect(counts).toEqual([0, 0, 0])
+  })
+})
+
+describe('CORREL', () => {
+  it('matches the published coefficient', () => {
+    expect(result([[3, 2, 4, 5, 6], [9, 7, 12, 15, 17]], '=CORREL(A1:A5, B1:B5)')).toBeCloseTo(0.997054486, 9)
+  })
+
+  it('is #DIV/0! with no numbers to pair and #N/A for ranges of different sizes', () => {
+    expect(result([], '=CORREL(A1:A5, B1:B5)')).toBe('#DIV/0!')
+    expect(result([['a', 'b'], ['c', 'd']], '=CORREL(A1:A2, B1:B2)')).toBe('#DIV/0!')
+    expect(result([[1, 2, 3], [4, 5, 6]], '=CORREL(A1:A3, B1:B2)')).toBe('#N/A')
+  })
+})
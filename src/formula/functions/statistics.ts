@@ -0,0 +1,195 @@
+import { FormulaFunction, FormulaValue } from '../../types/formula'
+import { FormulaError, assertNotError } from '../errors'
+import { collectNumbers, defineFunction, defineReferenceFunction, flattenValues, makeArray, numberArg } from './helpers'
+
+const sum = (numbers: number[]) => numbers.reduce((total, n) => total + n, 0)
+
+const mean = (numbers: number[]) => sum(numbers) / numbers.length
+
+const ascending = (numbers: number[]) => [...numbers].sort((a, b) => a - b)
+
+// Sum of squared deviations from the mean, divided by n (population) or n - 1 (sample)
+const variance = (numbers: number[], sample: boolean): number => {
+  const divisor = sample ? numbers.length - 1 : numbers.length
+  if (divisor < 1) {
+    throw new FormulaError('#DIV/0!', `Needs at least ${sample ? 2 : 1} number${sample ? 's' : ''}`)
+  }
+  const average = mean(numbers)
+  return sum(numbers.map(n => (n - average) ** 2)) / divisor
+}
+
+const defineVariance = (sample: boolean, root: boolean): FormulaFunction =>
+  defineReferenceFunction(1, 255, args => {
+    const result = variance(collectNumbers(args), sample)
+    return root ? Math.sqrt(result) : result
+  })
+
+// Interpolates between the two values either side of a fractional 0-based position
+const interpolate = (sorted: number[], position: number): number => {
+  const lower = Math.floor(position)
+  const fraction = position - lower
+  if (lower + 1 >= sorted.length) return sorted[lower]
+  return sorted[lower] + fraction * (sorted[lower + 1] - sorted[lower])
+}
+
+const nonEmpty = (numbers: number[]): number[] => {
+  if (numbers.length === 0) throw new FormulaError('#NUM!', 'The data contains no numbers')
+  return numbers
+}
+
+const percentileInclusive = (numbers: number[], k: number): number => {
+  if (k < 0 || k > 1) throw new FormulaError('#NUM!', 'The percentile must be between 0 and 1')
+  const sorted = ascending(nonEmpty(numbers))
+  return interpolate(sorted, k * (sorted.length - 1))
+}
+
+const percentileExclusive = (numbers: number[], k: number): number => {
+  const sorted = ascending(nonEmpty(numbers))
+  const position = k * (sorted.length + 1) - 1
+  if (position < 0 || position > sorted.length - 1) {
+    throw new FormulaError('#NUM!', 'The percentile is too close to 0 or 1 for this much data')
+  }
+  return interpolate(sorted, position)
+}
+
+const quartile = (args: FormulaValue[], percentile: (numbers: number[], k: number) => number, min: number, max: number) => {
+  const quart = Math.trunc(numberArg(args, 1))
+  if (quart < min || quart > max) throw new FormulaError('#NUM!', `The quartile must be between ${min} and ${max}`)
+  return percentile(collectNumbers([args[0]]), quart / 4)
+}
+
+// Matches up two equally sized ranges, keeping only positions where both hold numbers
+const numberPairs = (args: FormulaValue[]): [number[], number[]] => {
+  const first = flattenValues([args[0]])
+  const second = flattenValues([args[1]])
+  if (first.length !== second.length) throw new FormulaError('#N/A', 'The two arrays must be the same size')
+
+  const xs: number[] = []
+  const ys: number[] = []
+  first.forEach((value, i) => {
+    const x = assertNotError(value)
+    const y = assertNotError(second[i])
+    if (typeof x === 'number' && typeof y === 'number') {
+      xs.push(x)
+      ys.push(y)
+    }
+  })
+  return [xs, ys]
+}
+
+const covariance = (xs: number[], ys: number[], sample: boolean): number => {
+  const divisor = sample ? xs.length - 1 : xs.length
+  if (divisor < 1) throw new FormulaError('#DIV/0!', 'Not enough pairs of numbers')
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+  return sum(xs.map((x, i) => (x - meanX) * (ys[i] - meanY))) / divisor
+}
+
+const defineCovariance = (sample: boolean): FormulaFunction =>
+  defineFunction(2, 2, args => covariance(...numberPairs(args), sample))
+
+const mode = (numbers: number[]): number => {
+  const counts = new Map<number, number>()
+  for (const n of numbers) counts.set(n, (counts.get(n) ?? 0) + 1)
+
+  // Ties go to the value that appears first
+  let best: number | null = null
+  for (const n of numbers) {
+    if (counts.get(n)! > 1 && (best === null || counts.get(n)! > counts.get(best)!)) best = n
+  }
+  if (best === null) throw new FormulaError('#N/A', 'No value appears more than once')
+  return best
+}
+
+const defineNthValue = (largest: boolean): FormulaFunction =>
+  defineFunction(2, 2, args => {
+    const numbers = ascending(collectNumbers([args[0]]))
+    const k = Math.ceil(numberArg(args, 1))
+    if (k < 1 || k > numbers.length) throw new FormulaError('#NUM!', 'k is outside the size of the data')
+    return largest ? numbers[numbers.length - k] : numbers[k - 1]
+  })
+
+// RANK.EQ(number, ref, [order]): 0 or omitted ranks the largest value 1, anything else the smallest.
+// Tied values share the best rank, or with RANK.AVG the average of the ranks they cover.
+const defineRank = (average: boolean): FormulaFunction =>
+  defineFunction(2, 3, args => {
+    const target = numberArg(args, 0)
+    const numbers = collectNumbers([args[1]])
+    const descending = numberArg(args, 2, 0) === 0
+    const ties = numbers.filter(n => n === target).length
+    if (ties === 0) throw new FormulaError('#N/A', 'The number is not in the list')
+    const best = numbers.filter(n => (descending ? n > target : n < target)).length + 1
+    return average ? best + (ties - 1) / 2 : best
+  })
+
+const rank = defineRank(false)
+
+export const statisticsFunctions: Record<string, FormulaFunction> = {
+  MEDIAN: defineReferenceFunction(1, 255, args => {
+    const sorted = ascending(nonEmpty(collectNumbers(args)))
+    const middle = Math.floor(sorted.length / 2)
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+  }),
+
+  'MODE.SNGL': defineReferenceFunction(1, 255, args => mode(collectNumbers(args))),
+  MODE: defineReferenceFunction(1, 255, args => mode(collectNumbers(args))),
+
+  'STDEV.S': defineVariance(true, true),
+  'STDEV.P': defineVariance(false, true),
+  'VAR.S': defineVariance(true, false),
+  'VAR.P': defineVariance(false, false),
+  STDEV: defineVariance(true, true),
+  STDEVP: defineVariance(false, true),
+  VAR: defineVariance(true, false),
+  VARP: defineVariance(false, false),
+
+  'PERCENTILE.INC': defineFunction(2, 2, args => percentileInclusive(collectNumbers([args[0]]), numberArg(args, 1))),
+  'PERCENTILE.EXC': defineFunction(2, 2, args => percentileExclusive(collectNumbers([args[0]]), numberArg(args, 1))),
+  PERCENTILE: defineFunction(2, 2, args => percentileInclusive(collectNumbers([args[0]]), numberArg(args, 1))),
+
+  'QUARTILE.INC': defineFunction(2, 2, args => quartile(args, percentileInclusive, 0, 4)),
+  'QUARTILE.EXC': defineFunction(2, 2, args => quartile(args, percentileExclusive, 1, 3)),
+  QUARTILE: defineFunction(2, 2, args => quartile(args, percentileInclusive, 0, 4)),
+
+  CORREL: defineFunction(2, 2, args => {
+    const [xs, ys] = numberPairs(args)
+    const spread = Math.sqrt(variance(xs, false) * variance(ys, false))
+    if (spread === 0) throw new FormulaError('#DIV/0!', 'One of the arrays has no variation')
+    return covariance(xs, ys, false) / spread
+  }),
+
+  'COVARIANCE.S': defineCovariance(true),
+  'COVARIANCE.P': defineCovariance(false),
+  COVAR: defineCovariance(false),
+
+  'RANK.EQ': rank,
+  'RANK.AVG': defineRank(true),
+  RANK: rank,
+
+  LARGE: defineNthValue(true),
+  SMALL: defineNthValue(false),
+
+  // FREQUENCY(data, bins) spills one count per bin, plus a last count for values above every bin
+  FREQUENCY: defineFunction(2, 2, args => {
+    const data = collectNumbers([args[0]])
+    const bins = collectNumbers([args[1]])
+    const sortedBins = ascending(bins)
+    const counts = new Map<number, number>()
+    let above = 0
+
+    for (const n of data) {
+      const bin = sortedBins.find(edge => n <= edge)
+      if (bin === undefined) above++
+      else counts.set(bin, (counts.get(bin) ?? 0) + 1)
+    }
+
+    // Counts come back in the order the bins were given; a repeated bin only counts once
+    const seen = new Set<number>()
+    const column = bins.map(bin => {
+      if (seen.has(bin)) return [0]
+      seen.add(bin)
+      return [counts.get(bin) ?? 0]
+    })
+    return makeArray([...column, [above]])
+  })
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph } from '../engine'
+import { getCellId } from '../../utils/spreadsheet'
+
+// Fills column A from row 1 down with the given inputs, then enters formula in Z1 and returns what it shows
+const result = (inputs: string[], formula: string): string => {
+  const edits = inputs.map((input, row) => ({ row, col: 0, input }))
+  edits.push({ row: 0, col: 25, input: formula })
+  const cells: Record<string, Cell> = applyCellEdits({}, buildDependencyGraph({}), edits)
+  const cell = cells[getCellId(0, 25)]
+  return cell.error ? cell.error.code : cell.value
+}
+
+describe('CONCAT and CONCATENATE', () => {
+  it('join values and every cell of a range', () => {
+    expect(result(['a', 'b', 'c'], '=CONCAT(A1:A3, "-", 1)')).toBe('abc-1')
+    expect(result(['Total'], '=CONCATENATE(A1, ": ", TRUE)')).toBe('Total: TRUE')
+  })
+})
+
+describe('LEFT, RIGHT and MID', () => {
+  it('take characters from either end or the middle', () => {
+    expect(result(['Spreadsheet'], '=LEFT(A1, 6)')).toBe('Spread')
+    expect(result(['Spreadsheet'], '=LEFT(A1)')).toBe('S')
+    expect(result(['Spreadsheet'], '=RIGHT(A1, 5)')).toBe('sheet')
+    expect(result(['Spreadsheet'], '=RIGHT(A1, 0)')).toBe('')
+    expect(result(['Spreadsheet'], '=MID(A1, 4, 3)')).toBe('ead')
+    expect(result(['Spreadsheet'], '=LEFT(A1, 50)')).toBe('Spreadsheet')
+  })
+
+  it('reject negative counts and starts before the first character', () => {
+    expect(result(['abc'], '=LEFT(A1, -1)')).toBe('#VALUE!')
+    expect(result(['abc'], '=MID(A1, 0, 1)')).toBe('#VALUE!')
+  })
+})
+
+describe('LEN, UPPER, LOWER and TRIM', () => {
+  it('measure and tidy text', () => {
+    expect(result(['Hello'], '=LEN(A1)')).toBe('5')
+    expect(result(['Hello'], '=UPPER(A1)')).toBe('HELLO')
+    expect(result(['Hello'], '=LOWER(A1)')).toBe('hello')
+    expect(result([], '=TRIM("  First   Quarter  ")')).toBe('First Quarter')
+  })
+
+  it('read numbers as their text', () => {
+    expect(result(['12345'], '=LEN(A1)')).toBe('5')
+  })
+})
+
+describe('TEXT', () => {
+  it('formats numbers and dates with a pattern', () => {
+    expect(result(['1234.5'], '=TEXT(A1, "$#,##0.00")')).toBe('$1,234.50')
+    expect(result([], '=TEXT(DATE(2024, 3, 9), "dd mmm yyyy")')).toBe('09 Mar 2024')
+    expect(result(['0.25'], '=TEXT(A1, "0%")')).toBe('25%')
+  })
+
+  it('leaves text that is not a number unchanged', () => {
+    expect(result(['n/a'], '=TEXT(A1, "0.00")')).toBe('n/a')
+    expect(result(['12'], '=TEXT(A1, "General")')).toBe('12')
+  })
+})
@@ -0,0 +1,56 @@
+import { FormulaFunction } from '../../types/formula'
+import { FormulaError } from '../errors'
+import { formatWithPattern } from '../numberFormat'
+import { toNumber, toScalar, toText } from '../values'
+import { defineFunction, flattenValues, numberArg, textArg } from './helpers'
+
+const countArg = (value: number): number => {
+  if (value < 0) throw new FormulaError('#VALUE!', 'Character count cannot be negative')
+  return Math.floor(value)
+}
+
+export const textFunctions: Record<string, FormulaFunction> = {
+  CONCAT: defineFunction(1, 255, args => flattenValues(args).map(toText).join('')),
+
+  CONCATENATE: defineFunction(1, 255, args => flattenValues(args).map(toText).join('')),
+
+  LEFT: defineFunction(1, 2, args => textArg(args, 0).slice(0, countArg(numberArg(args, 1, 1)))),
+
+  RIGHT: defineFunction(1, 2, args => {
+    const text = textArg(args, 0)
+    const count = countArg(numberArg(args, 1, 1))
+    return count === 0 ? '' : text.slice(-count)
+  }),
+
+  MID: defineFunction(3, 3, args => {
+    const start = Math.floor(numberArg(args, 1))
+    if (start < 1) throw new FormulaError('#VALUE!', 'MID start must be at least 1')
+    return textArg(args, 0).slice(start - 1, start - 1 + countArg(numberArg(args, 2)))
+  }),
+
+  LEN: defineFunction(1, 1, args => textArg(args, 0).length),
+
+  UPPER: defineFunction(1, 1, args => textArg(args, 0).toUpperCase()),
+
+  LOWER: defineFunction(1, 1, args => textArg(args, 0).toLowerCase()),
+
+  // Excel's TRIM also collapses runs of inner spaces to one
+  TRIM: defineFunction(1, 1, args => textArg(args, 0).trim().replace(/ {2,}/g, ' ')),
+
+  // TEXT(value, format) such as TEXT(B2, "dd mmm yyyy") or TEXT(C2, "$#,##0.00");
+  // text that is not a number or a date comes back unchanged
+  TEXT: defineFunction(2, 2, args => {
+    const value = toScalar(args[0])
+    const pattern = textArg(args, 1)
+    if (pattern.toUpperCase() === 'GENERAL') return toText(value)
+
+    let number: number
+    try {
+      number = toNumber(value)
+    } catch (error) {
+      if (typeof value === 'string') return value
+      throw error
+    }
+    return formatWithPattern(number, pattern)
+  })
+}
@@ -0,0 +1,154 @@
+import { Token } from '../types/formula'
+import { ERROR_CODES, FormulaError } from './errors'
+
+const CELL_REFERENCE = /^[A-Za-z]{1,3}\d+$/
+const ANCHORED_CELL_REFERENCE = /^\$?[A-Za-z]{1,3}\$?\d+(?![A-Za-z0-9_.(])/
+const COLUMN_RANGE = /^\$?[A-Za-z]{1,3}:\$?[A-Za-z]{1,3}(?![A-Za-z0-9_.(])/
+const ROW_RANGE = /^\$?\d+:\$?\d+(?![\d.])/
+// 'Q1 Sales'! — quoted sheet names may contain spaces and '' stands for a quote
+const QUOTED_SHEET = /^'(?:[^']|'')+'!/
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%', ':']
+
+const isDigit = (char: string) => char >= '0' && char <= '9'
+const isWordStart = (char: string) => /[A-Za-z_]/.test(char)
+const isWordChar = (char: string) => /[A-Za-z0-9_.]/.test(char)
+
+export const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = []
+  let pos = 0
+
+  while (pos < source.length) {
+    const char = source[pos]
+
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    // Whole-column (A:C) and whole-row (1:3) ranges would otherwise lex as names and numbers
+    const columnRange = source.slice(pos).match(COLUMN_RANGE)
+    if (columnRange) {
+      tokens.push({ type: 'columnRange', value: columnRange[0].toUpperCase(), position: pos })
+      pos += columnRange[0].length
+      continue
+    }
+    const rowRange = source.slice(pos).match(ROW_RANGE)
+    if (rowRange) {
+      tokens.push({ type: 'rowRange', value: rowRange[0], position: pos })
+      pos += rowRange[0].length
+      continue
+    }
+
+    // $A1, A$1 and $A$1; plain A1 is told apart from names in the word branch below
+    const anchored = source.slice(pos).match(ANCHORED_CELL_REFERENCE)
+    if (anchored && anchored[0].includes('$')) {
+      tokens.push({ type: 'cell', value: anchored[0].toUpperCase(), position: pos })
+      pos += anchored[0].length
+      continue
+    }
+
+    const quotedSheet = source.slice(pos).match(QUOTED_SHEET)
+    if (quotedSheet) {
+      tokens.push({ type: 'sheet', value: quotedSheet[0], position: pos })
+      pos += quotedSheet[0].length
+      continue
+    }
+
+    // Number: 12, 1.5, .5, 1e3
+    if (isDigit(char) || (char === '.' && isDigit(source[pos + 1] ?? ''))) {
+      const match = source.slice(pos).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/)!
+      tokens.push({ type: 'number', value: match[0], position: pos })
+      pos += match[0].length
+      continue
+    }
+
+    // String literal with "" as an escaped quote
+    if (char === '"') {
+      const start = pos
+      let value = ''
+      pos++
+      while (true) {
+        if (pos >= source.length) throw new FormulaError('#NAME?', 'Unterminated string literal')
+        if (source[pos] === '"') {
+          if (source[pos + 1] === '"') {
+            value += '"'
+            pos += 2
+            continue
+          }
+          pos++
+          break
+        }
+        value += source[pos++]
+      }
+      tokens.push({ type: 'string', value, position: start })
+      continue
+    }
+
+    if (isWordStart(char)) {
+      const start = pos
+      while (pos < source.length && isWordChar(source[pos])) pos++
+      const word = source.slice(start, pos)
+      const upper = word.toUpperCase()
+
+      let next = pos
+      while (next < source.length && /\s/.test(source[next])) next++
+
+      // Sheet2!B3; the token keeps the ! so its length matches the source text
+      if (source[pos] === '!') {
+        tokens.push({ type: 'sheet', value: `${word}!`, position: start })
+        pos++
+        continue
+      }
+
+      if (source[next] === '(') {
+        tokens.push({ type: 'function', value: upper, position: start })
+      } else if (CELL_REFERENCE.test(word)) {
+        tokens.push({ type: 'cell', value: upper, position: start })
+      } else if (upper === 'TRUE' || upper === 'FALSE') {
+        tokens.push({ type: 'boolean', value: upper, position: start })
+      } else {
+        tokens.push({ type: 'identifier', value: word, position: start })
+      }
+      continue
+    }
+
+    if (char === '#') {
+      // Straight after a cell reference, # is the spill operator (A1#) rather than an error value
+      const previous = tokens[tokens.length - 1]
+      if (previous?.type === 'cell' && previous.position + previous.value.length === pos) {
+        tokens.push({ type: 'operator', value: '#', position: pos++ })
+        continue
+      }
+      const code = ERROR_CODES.find(candidate => source.toUpperCase().startsWith(candidate, pos))
+      if (!code) throw new FormulaError('#NAME?', `Unknown error value at position ${pos}`)
+      tokens.push({ type: 'error', value: code, position: pos })
+      pos += code.length
+      continue
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: pos++ })
+      continue
+    }
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: pos++ })
+      continue
+    }
+    if (char === ',') {
+      tokens.push({ type: 'comma', value: char, position: pos++ })
+      continue
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos))
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, position: pos })
+      pos += operator.length
+      continue
+    }
+
+    throw new FormulaError('#NAME?', `Unexpected character "${char}" at position ${pos}`)
+  }
+
+  tokens.push({ type: 'eof', value: '', position: pos })
+  return tokens
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { DefinedName } from '../types/spreadsheet'
+import { MAX_ROWS } from './parser'
+import {
+  fitToSheet,
+  namesForSheet,
+  resolveNavigationTarget,
+  validateDefinedName,
+  validateName,
+  validateNamedFunction
+} from './names'
+
+describe('validateName', () => {
+  it('accepts names the lexer reads back as names', () => {
+    expect(validateName('TaxRate')).toBeNull()
+    expect(validateName('_total.2024')).toBeNull()
+  })
+
+  it('explains why a name cannot be used', () => {
+    expect(validateName('2024Total')).toMatch(/start with a letter/)
+    expect(validateName('ab12')).toBe('AB12 looks like a cell reference')
+    expect(validateName('true')).toBe('TRUE is a logical value')
+    expect(validateName('sum')).toBe('SUM is a built-in function')
+    expect(validateName('margin', ['Margin'])).toBe('MARGIN is already defined')
+  })
+
+  it('checks the formula of defined names and named functions', () => {
+    expect(validateDefinedName({ name: 'TaxRate', formula: '=0.2' })).toBeNull()
+    expect(validateDefinedName({ name: 'TaxRate', formula: '=(1' })).toMatch(/could not be read/)
+    expect(validateNamedFunction({ name: 'DOUBLE', formula: '=LAMBDA(x, x * 2)' })).toBeNull()
+    expect(validateNamedFunction({ name: 'DOUBLE', formula: '=2' })).toMatch(/must be a LAMBDA/)
+  })
+})
+
+describe('namesForSheet', () => {
+  it('lets sheet names override workbook names of the same name', () => {
+    const definedNames: DefinedName[] = [
+      { name: 'Rate', formula: '=0.2' },
+      { name: 'Target', formula: '=100' },
+      { name: 'rate', formula: '=0.5', scope: 's-1' },
+      { name: 'Other', formula: '=1', scope: 's-2' }
+    ]
+    expect(namesForSheet(definedNames, 's-1').map(({ name, formula }) => [name, formula])).toEqual([
+      ['rate', '=0.5'],
+      ['Target', '=100']
+    ])
+  })
+})
+
+describe('resolveNavigationTarget', () => {
+  const definedNames: DefinedName[] = [
+    { name: 'Totals', formula: '=Summary!B2:D4' },
+    { name: 'Alias', formula: '=Totals' },
+    { name: 'Loop', formula: '=Loop' },
+    { name: 'Rate', formula: '=0.2' }
+  ]
+
+  it('reads cells, ranges and references to other sheets', () => {
+    expect(resolveNavigationTarget(' b3 ', [])).toEqual({ start: { row: 2, col: 1 }, end: { row: 2, col: 1 } })
+    expect(resolveNavigationTarget('Data!A1:C2', [])).toEqual({
+      start: { row: 0, col: 0 },
+      end: { row: 1, col: 2 },
+      sheet: 'Data'
+    })
+    expect(resolveNavigationTarget('A:A', [])?.end).toEqual({ row: MAX_ROWS - 1, col: 0 })
+  })
+
+  it('follows names to the cells they refer to', () => {
+    const totals = { start: { row: 1, col: 1 }, end: { row: 3, col: 3 }, sheet: 'Summary' }
+    expect(resolveNavigationTarget('totals', definedNames)).toEqual(totals)
+    expect(resolveNavigationTarget('Alias', definedNames)).toEqual(totals)
+  })
+
+  it('is null for text that leads to no cells', () => {
+    expect(resolveNavigationTarget('Rate', definedNames)).toBeNull()
+    expect(resolveNavigationTarget('Loop', definedNames)).toBeNull()
+    expect(resolveNavigationTarget('Missing', definedNames)).toBeNull()
+    expect(resolveNavigationTarget('A1:', [])).toBeNull()
+  })
+})
+
+describe('fitToSheet', () => {
+  it('stops whole rows and columns at the edge of the sheet', () => {
+    const column = resolveNavigationTarget('B:B', [])!
+    expect(fitToSheet(column, 1000, 26)).toEqual({ start: { row: 0, col: 1 }, end: { row: 999, col: 1 } })
+    const row = resolveNavigationTarget('Data!3:3', [])!
+    expect(fitToSheet(row, 1000, 26)).toEqual({ start: { row: 2, col: 0 }, end: { row: 2, col: 25 }, sheet: 'Data' })
+  })
+
+  it('is null for a target that starts beyond the sheet', () => {
+    expect(fitToSheet(resolveNavigationTarget('Z5000', [])!, 1000, 26)).toBeNull()
+    expect(fitToSheet(resolveNavigationTarget('AA1', [])!, 1000, 26)).toBeNull()
+    expect(fitToSheet(resolveNavigationTarget('Z1000', [])!, 1000, 26)).not.toBeNull()
+  })
+})
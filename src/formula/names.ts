@@ -0,0 +1,95 @@
+import { CellAddress, FormulaNode } from '../types/formula'
+import { DefinedName, NamedFunction } from '../types/spreadsheet'
+import { captureError, isErrorValue } from './errors'
+import { getFunction } from './functions/registry'
+import { parseFormula } from './parser'
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/
+const CELL_LIKE = /^[A-Za-z]{1,3}\d+$/
+
+// Checks a workbook name the way the formula lexer will read it back; returns a
+// message explaining the problem, or null when the name can be used
+export const validateName = (name: string, taken: string[] = []): string | null => {
+  const upper = name.toUpperCase()
+  if (!NAME_PATTERN.test(name)) return 'Names start with a letter or underscore and contain only letters, digits, _ and .'
+  if (CELL_LIKE.test(name)) return `${upper} looks like a cell reference`
+  if (upper === 'TRUE' || upper === 'FALSE') return `${upper} is a logical value`
+  if (getFunction(upper)) return `${upper} is a built-in function`
+  if (taken.some(existing => existing.toUpperCase() === upper)) return `${upper} is already defined`
+  return null
+}
+
+// A named function is a name plus a formula whose outermost call is LAMBDA
+export const validateNamedFunction = (fn: NamedFunction, taken: string[] = []): string | null => {
+  const nameError = validateName(fn.name, taken)
+  if (nameError) return nameError
+
+  const ast = captureError(() => parseFormula(fn.formula))
+  if (isErrorValue(ast)) return `The formula could not be read: ${ast.message}`
+  if (ast.type !== 'call' || ast.name !== 'LAMBDA') return 'The formula must be a LAMBDA, such as =LAMBDA(x, x * 2)'
+  return null
+}
+
+// A defined name refers to anything a formula can compute, usually a range or a constant
+export const validateDefinedName = (definedName: DefinedName, taken: string[] = []): string | null => {
+  const nameError = validateName(definedName.name, taken)
+  if (nameError) return nameError
+
+  const ast = captureError(() => parseFormula(definedName.formula))
+  if (isErrorValue(ast)) return `The formula could not be read: ${ast.message}`
+  return null
+}
+
+// The defined names formulas on a sheet see: its own, then workbook names it does not override
+export const namesForSheet = (definedNames: DefinedName[], sheetId: string): DefinedName[] => {
+  const local = definedNames.filter(definedName => definedName.scope === sheetId)
+  const overridden = new Set(local.map(definedName => definedName.name.toUpperCase()))
+  return [
+    ...local,
+    ...definedNames.filter(definedName => !definedName.scope && !overridden.has(definedName.name.toUpperCase()))
+  ]
+}
+
+const MAX_NAME_DEPTH = 16
+
+export interface NavigationTarget {
+  start: CellAddress
+  end: CellAddress
+  // Set when the target is on another sheet, as in Sheet2!B3
+  sheet?: string
+}
+
+// The area typed into the address box: a reference such as B3, A1:C10 or Sheet2!B3, or a
+// name that refers to one. Returns null when the text does not lead to any cells.
+export const resolveNavigationTarget = (text: string, definedNames: DefinedName[]): NavigationTarget | null => {
+  const resolve = (node: FormulaNode, depth: number): NavigationTarget | null => {
+    switch (node.type) {
+      case 'cell':
+        return { start: { row: node.row, col: node.col }, end: { row: node.row, col: node.col }, sheet: node.sheet }
+      case 'range':
+        return {
+          start: { row: node.start.row, col: node.start.col },
+          end: { row: node.end.row, col: node.end.col },
+          sheet: node.sheet
+        }
+      case 'name': {
+        const definedName = definedNames.find(candidate => candidate.name.toUpperCase() === node.name.toUpperCase())
+        if (!definedName || depth >= MAX_NAME_DEPTH) return null
+        const ast = captureError(() => parseFormula(definedName.formula))
+        return isErrorValue(ast) ? null : resolve(ast, depth + 1)
+      }
+      default:
+        return null
+    }
+  }
+
+  const ast = captureError(() => parseFormula(text.trim()))
+  return isErrorValue(ast) ? null : resolve(ast, 0)
+}
+
+// The part of a target that lies on a sheet of the given size: whole rows and columns such as
+// A:A stop at its edge. Null when the target starts beyond the sheet, as Z5000 does on 1000 rows.
+export const fitToSheet = (target: NavigationTarget, rows: number, cols: number): NavigationTarget | null => {
+  if (target.start.row >= rows || target.start.col >= cols) return null
+  return { ...target, end: { row: Math.min(target.end.row, rows - 1), col: Math.min(target.end.col, cols - 1) } }
+}
@@ -0,0 +1,125 @@
+import { NumberFormat } from '../types/formula'
+import { FormulaError } from './errors'
+import { dayOfWeek, serialToDate, serialToTime } from './dates'
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+]
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export const DISPLAY_PATTERNS: Record<NumberFormat, string> = {
+  date: 'm/d/yyyy',
+  datetime: 'm/d/yyyy h:mm'
+}
+
+type Section =
+  | { kind: 'literal'; text: string }
+  | { kind: 'code'; code: string }
+
+const DATE_CODE = /^(yyyy|yy|mmmm|mmm|mm|m|dddd|ddd|dd|d|hh|h|ss|s|am\/pm|a\/p)/i
+
+// Splits a pattern such as dd-mmm-yyyy "at" h:mm AM/PM into codes and literal text
+const tokenizePattern = (pattern: string): Section[] => {
+  const sections: Section[] = []
+  let i = 0
+  while (i < pattern.length) {
+    const rest = pattern.slice(i)
+    const code = rest.match(DATE_CODE)
+    if (code) {
+      sections.push({ kind: 'code', code: code[0].toLowerCase() })
+      i += code[0].length
+    } else if (rest[0] === '"') {
+      const close = rest.indexOf('"', 1)
+      const end = close === -1 ? rest.length : close
+      sections.push({ kind: 'literal', text: rest.slice(1, end) })
+      i += end + 1
+    } else if (rest[0] === '\\' && rest.length > 1) {
+      sections.push({ kind: 'literal', text: rest[1] })
+      i += 2
+    } else {
+      sections.push({ kind: 'literal', text: rest[0] })
+      i += 1
+    }
+  }
+  return sections
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+
+// "m" and "mm" mean minutes straight after an hour code or just before a seconds code
+const isMinutes = (codes: string[], index: number): boolean => {
+  const previous = codes[index - 1]
+  const next = codes[index + 1]
+  return Boolean(previous?.startsWith('h') || next?.startsWith('s'))
+}
+
+const formatDatePattern = (serial: number, sections: Section[]): string => {
+  if (serial < 0) throw new FormulaError('#VALUE!', 'Dates before 1900 cannot be formatted')
+
+  const { year, month, day } = serialToDate(serial)
+  const { hours, minutes, seconds } = serialToTime(serial)
+  const codes = sections.flatMap(section => (section.kind === 'code' ? [section.code] : []))
+  const twelveHour = codes.some(code => code === 'am/pm' || code === 'a/p')
+
+  let codeIndex = 0
+  return sections.map(section => {
+    if (section.kind === 'literal') return section.text
+
+    const index = codeIndex++
+    const hour12 = hours % 12 === 0 ? 12 : hours % 12
+    switch (section.code) {
+      case 'yyyy': return String(year)
+      case 'yy': return pad(year % 100)
+      case 'mmmm': return MONTH_NAMES[month - 1]
+      case 'mmm': return MONTH_NAMES[month - 1].slice(0, 3)
+      case 'mm': return isMinutes(codes, index) ? pad(minutes) : pad(month)
+      case 'm': return isMinutes(codes, index) ? String(minutes) : String(month)
+      case 'dddd': return DAY_NAMES[dayOfWeek(serial)]
+      case 'ddd': return DAY_NAMES[dayOfWeek(serial)].slice(0, 3)
+      case 'dd': return pad(day)
+      case 'd': return String(day)
+      case 'hh': return pad(twelveHour ? hour12 : hours)
+      case 'h': return String(twelveHour ? hour12 : hours)
+      case 'ss': return pad(seconds)
+      case 's': return String(seconds)
+      case 'am/pm': return hours < 12 ? 'AM' : 'PM'
+      default: return hours < 12 ? 'A' : 'P'
+    }
+  }).join('')
+}
+
+const NUMBER_CORE = /[#0][#0,]*(\.[#0]*)?|\.[#0]+/
+
+// Numeric patterns: 0 is a required digit, # an optional one, a comma groups thousands
+// and % multiplies by 100. Anything around the digits is kept as literal text.
+const formatNumberPattern = (value: number, pattern: string): string => {
+  const literal = pattern.replace(/"([^"]*)"/g, '$1').replace(/\\(.)/g, '$1')
+  const match = literal.match(NUMBER_CORE)
+  if (!match) return literal
+
+  const core = match[0]
+  const [integerPattern, fractionPattern = ''] = core.split('.')
+  const scaled = literal.includes('%') ? value * 100 : value
+  const minFraction = (fractionPattern.match(/0/g) ?? []).length
+  const minInteger = (integerPattern.match(/0/g) ?? []).length
+
+  let [integer, fraction = ''] = Math.abs(scaled).toFixed(fractionPattern.length).split('.')
+  while (fraction.length > minFraction && fraction.endsWith('0')) fraction = fraction.slice(0, -1)
+  integer = integer.replace(/^0+/, '').padStart(minInteger, '0')
+  if (integerPattern.includes(',')) integer = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',')
+
+  const digits = fraction ? `${integer}.${fraction}` : integer
+  const isNegative = scaled < 0 && /[1-9]/.test(digits)
+  const prefix = literal.slice(0, match.index)
+  const suffix = literal.slice(match.index! + core.length)
+  return `${isNegative ? '-' : ''}${prefix}${digits}${suffix}`
+}
+
+// Formats a number with an Excel-style pattern, as TEXT does. Patterns containing date
+// or time codes treat the number as a date serial.
+export const formatWithPattern = (value: number, pattern: string): string => {
+  const sections = tokenizePattern(pattern)
+  const hasDateCode = sections.some(section => section.kind === 'code' && !/^[ap]/.test(section.code))
+  return hasDateCode ? formatDatePattern(value, sections) : formatNumberPattern(value, pattern)
+}
@@ -0,0 +1,210 @@
+import {
+  BinaryOperator,
+  CellReference,
+  ErrorCode,
+  FormulaNode,
+  RangeKind,
+  RangeReferenceNode,
+  Token
+} from '../types/formula'
+import { letterToColumn, parseCellReference, parseSheetPrefix } from '../utils/spreadsheet'
+import { tokenize } from './lexer'
+import { FormulaError } from './errors'
+
+// Binding powers follow Excel precedence: comparison < & < +- < */ < ^ < % < unary minus
+const BINARY_PRECEDENCE: Record<BinaryOperator, number> = {
+  '=': 10,
+  '<>': 10,
+  '<': 10,
+  '>': 10,
+  '<=': 10,
+  '>=': 10,
+  '&': 20,
+  '+': 30,
+  '-': 30,
+  '*': 40,
+  '/': 40,
+  '^': 50
+}
+const PERCENT_PRECEDENCE = 60
+const PREFIX_PRECEDENCE = 70
+
+// Excel sheet limits, used as the far edge of whole-row and whole-column ranges
+export const MAX_ROWS = 1048576
+export const MAX_COLS = 16384
+
+const isBinaryOperator = (value: string): value is BinaryOperator => value in BINARY_PRECEDENCE
+
+// Normalises B2:A1 to A1:B2, keeping each coordinate's $ anchor with it
+const makeRange = (kind: RangeKind, a: CellReference, b: CellReference): RangeReferenceNode => {
+  const [top, bottom] = a.row <= b.row ? [a, b] : [b, a]
+  const [left, right] = a.col <= b.col ? [a, b] : [b, a]
+  return {
+    type: 'range',
+    kind,
+    start: { row: top.row, absoluteRow: top.absoluteRow, col: left.col, absoluteCol: left.absoluteCol },
+    end: { row: bottom.row, absoluteRow: bottom.absoluteRow, col: right.col, absoluteCol: right.absoluteCol }
+  }
+}
+
+const parseColumnRange = (text: string): RangeReferenceNode => {
+  const [first, last] = text.split(':').map(part => ({
+    row: 0,
+    col: letterToColumn(part.replace('$', '')),
+    absoluteRow: true,
+    absoluteCol: part.startsWith('$')
+  }))
+  return makeRange('columns', first, { ...last, row: MAX_ROWS - 1 })
+}
+
+const parseRowRange = (text: string): RangeReferenceNode => {
+  const [first, last] = text.split(':').map(part => ({
+    row: parseInt(part.replace('$', '')) - 1,
+    col: 0,
+    absoluteRow: part.startsWith('$'),
+    absoluteCol: true
+  }))
+  return makeRange('rows', first, { ...last, col: MAX_COLS - 1 })
+}
+
+export const parseFormula = (formula: string): FormulaNode => {
+  const source = formula.startsWith('=') ? formula.substring(1) : formula
+  const tokens = tokenize(source)
+  let index = 0
+
+  const peek = (): Token => tokens[index]
+  const next = (): Token => tokens[index++]
+
+  const expect = (type: Token['type']): Token => {
+    const token = next()
+    if (token.type !== type) {
+      throw new FormulaError('#NAME?', `Expected ${type} but found "${token.value || token.type}" at position ${token.position}`)
+    }
+    return token
+  }
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrefix()
+
+    while (true) {
+      const token = peek()
+      if (token.type !== 'operator') break
+
+      if (token.value === ':') {
+        // The range operator binds tightest and only joins two cell references
+        if (left.type !== 'cell') {
+          throw new FormulaError('#NAME?', `Range operator needs a cell reference at position ${token.position}`)
+        }
+        next()
+        const endToken = expect('cell')
+        left = { ...makeRange('cells', left, parseCellReference(endToken.value)), sheet: left.sheet }
+        continue
+      }
+
+      if (token.value === '#') {
+        if (left.type !== 'cell') {
+          throw new FormulaError('#NAME?', `Spill operator needs a cell reference at position ${token.position}`)
+        }
+        next()
+        left = { ...left, type: 'spill' }
+        continue
+      }
+
+      if (token.value === '%') {
+        if (PERCENT_PRECEDENCE < minPrecedence) break
+        next()
+        left = { type: 'percent', operand: left }
+        continue
+      }
+
+      if (!isBinaryOperator(token.value)) break
+      const precedence = BINARY_PRECEDENCE[token.value]
+      // All binary operators are left-associative, including ^ (=2^3^2 is 64 in Excel)
+      if (precedence <= minPrecedence) break
+
+      next()
+      const right = parseExpression(precedence)
+      left = { type: 'binary', operator: token.value, left, right }
+    }
+
+    return left
+  }
+
+  const parseArguments = (): FormulaNode[] => {
+    expect('lparen')
+    const args: FormulaNode[] = []
+
+    if (peek().type !== 'rparen') {
+      while (true) {
+        const omitted = peek().type === 'comma' || peek().type === 'rparen'
+        args.push(omitted ? { type: 'missing' } : parseExpression(0))
+        if (peek().type !== 'comma') break
+        next()
+      }
+    }
+
+    expect('rparen')
+    return args
+  }
+
+  const parseCall = (name: string): FormulaNode => {
+    let node: FormulaNode = { type: 'call', name, args: parseArguments() }
+    // A call can return a LAMBDA that is called straight away: =LAMBDA(x, x * 2)(5)
+    while (peek().type === 'lparen') {
+      node = { type: 'invoke', callee: node, args: parseArguments() }
+    }
+    return node
+  }
+
+  const parsePrefix = (): FormulaNode => {
+    const token = next()
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.value) }
+      case 'string':
+        return { type: 'string', value: token.value }
+      case 'boolean':
+        return { type: 'boolean', value: token.value === 'TRUE' }
+      case 'error':
+        return { type: 'error', code: token.value as ErrorCode }
+      case 'cell':
+        return { type: 'cell', ...parseCellReference(token.value) }
+      case 'columnRange':
+        return parseColumnRange(token.value)
+      case 'rowRange':
+        return parseRowRange(token.value)
+      case 'sheet': {
+        // The prefix applies to the reference right after it; A1:B2 is joined on in parseExpression
+        const reference = parsePrefix()
+        if (reference.type !== 'cell' && reference.type !== 'range') {
+          throw new FormulaError('#NAME?', `Expected a reference after ${token.value} at position ${token.position}`)
+        }
+        return { ...reference, sheet: parseSheetPrefix(token.value) }
+      }
+      case 'identifier':
+        return { type: 'name', name: token.value }
+      case 'function':
+        return parseCall(token.value)
+      case 'lparen': {
+        const inner = parseExpression(0)
+        expect('rparen')
+        return inner
+      }
+      case 'operator':
+        if (token.value === '-' || token.value === '+') {
+          return { type: 'unary', operator: token.value, operand: parseExpression(PREFIX_PRECEDENCE) }
+        }
+        break
+    }
+
+    throw new FormulaError('#NAME?', `Unexpected "${token.value || 'end of formula'}" at position ${token.position}`)
+  }
+
+  const node = parseExpression(0)
+  const trailing = peek()
+  if (trailing.type !== 'eof') {
+    throw new FormulaError('#NAME?', `Unexpected "${trailing.value}" at position ${trailing.position}`)
+  }
+  return node
+}
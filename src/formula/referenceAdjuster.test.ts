@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { LineChange } from '../types/spreadsheet'
+import { adjustLineReferences, moveReferences, shiftFormula } from './referenceAdjuster'
+import { parseFormula } from './parser'
+import { applyCellEdits, buildDependencyGraph, fillCells, moveCells } from './engine'
+
+const onThisSheet = (sheet?: string) => sheet === undefined || sheet === 'Data'
+
+const adjust = (formula: string, change: LineChange) => adjustLineReferences(formula, change, onThisSheet)
+
+describe('adjustLineReferences', () => {
+  it('moves references past inserted lines', () => {
+    expect(adjust('=A3+B1', { kind: 'insert', axis: 'rows', at: 1, count: 2 })).toBe('=A5+B1')
+    expect(adjust('=SUM($C$1:C4)', { kind: 'insert', axis: 'columns', at: 0, count: 1 })).toBe('=SUM($D$1:D4)')
+  })
+
+  it('shrinks ranges over deleted lines and replaces lost cells with #REF!', () => {
+    expect(adjust('=SUM(A1:A5)', { kind: 'delete', axis: 'rows', at: 1, count: 2 })).toBe('=SUM(A1:A3)')
+    expect(adjust('=A3*2', { kind: 'delete', axis: 'rows', at: 2, count: 1 })).toBe('=#REF!*2')
+    expect(adjust('=Data!A3', { kind: 'delete', axis: 'rows', at: 2, count: 1 })).toBe('=#REF!')
+  })
+
+  it('drops the spill operator along with a deleted anchor', () => {
+    const byRow = adjust('=A3#', { kind: 'delete', axis: 'rows', at: 2, count: 1 })
+    const byColumn = adjust('=SUM(Data!A3#)', { kind: 'delete', axis: 'columns', at: 0, count: 1 })
+    expect(byRow).toBe('=#REF!')
+    expect(byColumn).toBe('=SUM(#REF!)')
+    expect(() => parseFormula(byRow)).not.toThrow()
+    expect(() => parseFormula(byColumn)).not.toThrow()
+  })
+
+  it('keeps the spill operator on an anchor that moves', () => {
+    expect(adjust('=A3#', { kind: 'delete', axis: 'rows', at: 0, count: 1 })).toBe('=A2#')
+    expect(adjust('=A3#', { kind: 'move', axis: 'rows', at: 2, count: 1, to: 0 })).toBe('=A1#')
+  })
+})
+
+describe('shiftFormula', () => {
+  it('moves relative parts and keeps $-anchored ones', () => {
+    expect(shiftFormula('=A1+$B$1+C$1+$D1', 2, 1)).toBe('=B3+$B$1+D$1+$D3')
+    expect(shiftFormula('=SUM(A1:B2)*Data!C3', 1, 0)).toBe('=SUM(A2:B3)*Data!C4')
+  })
+
+  it('moves whole rows and columns along their own axis only', () => {
+    expect(shiftFormula('=SUM(A:A)+SUM(1:1)', 3, 1)).toBe('=SUM(B:B)+SUM(4:4)')
+  })
+
+  it('gives #REF! for references pushed off the sheet', () => {
+    expect(shiftFormula('=A2*2', -2, 0)).toBe('=#REF!*2')
+  })
+
+  it('leaves text and names alone', () => {
+    expect(shiftFormula('="A1"&Rate', 1, 1)).toBe('="A1"&Rate')
+  })
+})
+
+describe('moveReferences', () => {
+  const block = { start: { row: 0, col: 0 }, end: { row: 1, col: 1 } }
+
+  it('follows cells and whole ranges inside the moved block, anchored or not', () => {
+    expect(moveReferences('=A1+$B$2', block, 5, 0)).toBe('=A6+$B$7')
+    expect(moveReferences('=SUM(A1:B2)', block, 0, 3)).toBe('=SUM(D1:E2)')
+  })
+
+  it('leaves ranges reaching outside the block and other sheets alone', () => {
+    expect(moveReferences('=SUM(A1:A5)+C1+Data!A1', block, 5, 0)).toBe('=SUM(A1:A5)+C1+Data!A1')
+  })
+})
+
+describe('copying and moving cells', () => {
+  it('fills a formula down, shifting it for each row', () => {
+    const graph = buildDependencyGraph({})
+    const cells = applyCellEdits({}, graph, [
+      { row: 0, col: 0, input: '1' },
+      { row: 1, col: 0, input: '2' },
+      { row: 0, col: 1, input: '=A1*$A$1' }
+    ])
+    const filled = fillCells(cells, graph, { row: 0, col: 1 }, [{ row: 1, col: 1 }])
+    expect(filled.B2.formula).toBe('=A2*$A$1')
+    expect(filled.B2.value).toBe('2')
+  })
+
+  it('moves a block and points formulas outside it at the new place', () => {
+    const graph = buildDependencyGraph({})
+    const cells = applyCellEdits({}, graph, [
+      { row: 0, col: 0, input: '4' },
+      { row: 0, col: 2, input: '=A1*2' }
+    ])
+    const moved = moveCells(cells, graph, { start: { row: 0, col: 0 }, end: { row: 0, col: 0 } }, 3, 0)
+    expect(moved.A1).toBeUndefined()
+    expect(moved.C1.formula).toBe('=A4*2')
+    expect(moved.C1.value).toBe('8')
+  })
+})
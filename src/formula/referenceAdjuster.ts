@@ -0,0 +1,241 @@
+import { CellAddress, CellReference } from '../types/formula'
+import { LineChange } from '../types/spreadsheet'
+import {
+  columnToLetter,
+  formatCellReference,
+  formatSheetPrefix,
+  letterToColumn,
+  parseCellReference,
+  parseSheetPrefix
+} from '../utils/spreadsheet'
+import { tokenize } from './lexer'
+import { MAX_COLS, MAX_ROWS } from './parser'
+
+// Which coordinates of a reference are meaningful: a whole-column range only has columns
+export type ReferencePart = 'cell' | 'column' | 'row'
+
+// Returns the rewritten reference, or null when it no longer points anywhere (#REF!).
+// sheet is set for references to a named sheet, such as Sheet2!B3.
+export type ReferenceMapper = (ref: CellReference, part: ReferencePart, sheet?: string) => CellReference | null
+
+// A1:B2 style ranges, and whole-column or whole-row ranges such as A:C or 2:5; by default
+// each end is mapped on its own
+export type RangeMapper = (
+  start: CellReference,
+  end: CellReference,
+  sheet: string | undefined,
+  part: ReferencePart
+) => [CellReference, CellReference] | null
+
+interface Replacement {
+  start: number
+  end: number
+  text: string
+}
+
+const inBounds = ({ row, col }: CellAddress) => row >= 0 && col >= 0 && row < MAX_ROWS && col < MAX_COLS
+
+// One end of a whole-column or whole-row range, such as $B or 7
+const parseLine = (text: string, part: 'column' | 'row'): CellReference => {
+  const anchored = text.startsWith('$')
+  const bare = text.replace('$', '')
+  return part === 'column'
+    ? { row: 0, col: letterToColumn(bare), absoluteRow: true, absoluteCol: anchored }
+    : { row: parseInt(bare) - 1, col: 0, absoluteRow: anchored, absoluteCol: true }
+}
+
+const formatLine = (ref: CellReference, part: 'column' | 'row'): string =>
+  part === 'column'
+    ? `${ref.absoluteCol ? '$' : ''}${columnToLetter(ref.col)}`
+    : `${ref.absoluteRow ? '$' : ''}${ref.row + 1}`
+
+const mapEnds = (
+  [start, end]: [CellReference, CellReference],
+  mapRef: ReferenceMapper,
+  part: ReferencePart,
+  sheet?: string
+): [CellReference, CellReference] | null => {
+  const first = mapRef(start, part, sheet)
+  const last = mapRef(end, part, sheet)
+  return first && last ? [first, last] : null
+}
+
+// Rewrites every reference in a formula through mapRef, leaving the rest of the
+// text (spacing, parentheses, string literals) exactly as the user typed it
+export const rewriteReferences = (
+  formula: string,
+  mapRef: ReferenceMapper,
+  mapRange?: RangeMapper
+): string => {
+  if (!formula.startsWith('=')) return formula
+
+  let tokens
+  try {
+    tokens = tokenize(formula.substring(1))
+  } catch {
+    // Leave formulas that do not lex alone; they already evaluate to an error
+    return formula
+  }
+
+  const replacements: Replacement[] = []
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    const start = token.position + 1
+    const end = start + token.value.length
+    const previous = tokens[i - 1]
+    const sheet = previous?.type === 'sheet' ? parseSheetPrefix(previous.value) : undefined
+    // A reference that no longer points anywhere loses its sheet prefix too
+    const from = (text: string) => (text === '#REF!' && sheet !== undefined ? previous.position + 1 : start)
+
+    if (token.type === 'cell') {
+      const isRange = tokens[i + 1]?.value === ':' && tokens[i + 2]?.type === 'cell'
+      if (isRange) {
+        const endToken = tokens[i + 2]
+        const corners: [CellReference, CellReference] = [
+          parseCellReference(token.value),
+          parseCellReference(endToken.value)
+        ]
+        const mapped = mapRange ? mapRange(...corners, sheet, 'cell') : mapEnds(corners, mapRef, 'cell', sheet)
+        const rangeEnd = endToken.position + 1 + endToken.value.length
+        const text = mapped ? `${formatCellReference(mapped[0])}:${formatCellReference(mapped[1])}` : '#REF!'
+        replacements.push({ start: from(text), end: rangeEnd, text })
+        i += 2
+      } else {
+        const mapped = mapRef(parseCellReference(token.value), 'cell', sheet)
+        const text = mapped ? formatCellReference(mapped) : '#REF!'
+        // A spill anchor that is gone takes its # with it, since #REF!# does not lex
+        const spill = tokens[i + 1]?.type === 'operator' && tokens[i + 1].value === '#'
+        replacements.push({ start: from(text), end: spill && !mapped ? end + 1 : end, text })
+        if (spill && !mapped) i++
+      }
+    } else if (token.type === 'columnRange' || token.type === 'rowRange') {
+      const part = token.type === 'columnRange' ? 'column' : 'row'
+      const [first, last] = token.value.split(':').map(line => parseLine(line, part))
+      const mapped = mapRange ? mapRange(first, last, sheet, part) : mapEnds([first, last], mapRef, part, sheet)
+      const text = mapped ? `${formatLine(mapped[0], part)}:${formatLine(mapped[1], part)}` : '#REF!'
+      replacements.push({ start: from(text), end, text })
+    }
+  }
+
+  let result = formula
+  for (const { start, end, text } of replacements.reverse()) {
+    result = result.slice(0, start) + text + result.slice(end)
+  }
+  return result
+}
+
+// Copy and fill: relative parts move with the formula, $-anchored parts stay put
+export const shiftFormula = (formula: string, rowOffset: number, colOffset: number): string =>
+  rewriteReferences(formula, (ref, part) => {
+    const shifted = {
+      ...ref,
+      row: ref.absoluteRow || part === 'column' ? ref.row : ref.row + rowOffset,
+      col: ref.absoluteCol || part === 'row' ? ref.col : ref.col + colOffset
+    }
+    return inBounds(shifted) ? shifted : null
+  })
+
+// Move: references that point into the moved block follow it, whether or not they are
+// anchored. A range only follows when it lies entirely inside the block.
+export const moveReferences = (
+  formula: string,
+  block: { start: CellAddress; end: CellAddress },
+  rowOffset: number,
+  colOffset: number
+): string => {
+  const inside = (ref: CellAddress) =>
+    ref.row >= block.start.row && ref.row <= block.end.row &&
+    ref.col >= block.start.col && ref.col <= block.end.col
+  const move = (ref: CellReference): CellReference | null => {
+    const moved = { ...ref, row: ref.row + rowOffset, col: ref.col + colOffset }
+    return inBounds(moved) ? moved : null
+  }
+
+  // References to other sheets point somewhere the block did not come from
+  return rewriteReferences(
+    formula,
+    (ref, part, sheet) => (part === 'cell' && !sheet && inside(ref) ? move(ref) : ref),
+    (start, end, sheet, part) => {
+      if (part !== 'cell' || sheet || !inside(start) || !inside(end)) return [start, end]
+      const first = move(start)
+      const last = move(end)
+      return first && last ? [first, last] : null
+    }
+  )
+}
+
+// Where a row or column ends up after lines are inserted, deleted or moved; null when deleted
+export const mapLineIndex = (change: LineChange, index: number): number | null => {
+  const { at, count } = change
+  if (change.kind === 'insert') return index >= at ? index + count : index
+  if (change.kind === 'delete') return index < at ? index : index < at + count ? null : index - count
+  if (index >= at && index < at + count) return change.to + index - at
+  const remaining = index < at ? index : index - count
+  return remaining >= change.to ? remaining + count : remaining
+}
+
+// A span of lines after the change. Inserting inside it stretches it; deleting part of it
+// shrinks it, and deleting all of it leaves nothing.
+const mapLineSpan = (change: LineChange, first: number, last: number): [number, number] | null => {
+  if (change.kind === 'delete') {
+    const start = mapLineIndex(change, first) ?? change.at
+    const end = mapLineIndex(change, last) ?? change.at - 1
+    return start <= end ? [start, end] : null
+  }
+  const start = mapLineIndex(change, first)!
+  const end = mapLineIndex(change, last)!
+  return [Math.min(start, end), Math.max(start, end)]
+}
+
+// Inserted, deleted and moved rows or columns: references into the changed sheet follow its
+// cells, anchored or not, and references to deleted cells become #REF!. onSheet says whether
+// a reference, by its sheet prefix if it has one, points into the changed sheet.
+export const adjustLineReferences = (
+  formula: string,
+  change: LineChange,
+  onSheet: (sheet?: string) => boolean
+): string => {
+  const key = change.axis === 'rows' ? 'row' : 'col'
+  // Whole columns are untouched by row changes, and whole rows by column changes
+  const crosses = (part: ReferencePart) => part === (change.axis === 'rows' ? 'column' : 'row')
+
+  return rewriteReferences(
+    formula,
+    (ref, part, sheet) => {
+      if (!onSheet(sheet) || crosses(part)) return ref
+      const index = mapLineIndex(change, ref[key])
+      if (index === null) return null
+      const mapped = { ...ref, [key]: index }
+      return inBounds(mapped) ? mapped : null
+    },
+    (start, end, sheet, part) => {
+      if (!onSheet(sheet) || crosses(part)) return [start, end]
+      const reversed = start[key] > end[key]
+      const span = mapLineSpan(change, Math.min(start[key], end[key]), Math.max(start[key], end[key]))
+      if (!span) return null
+      const [first, last] = reversed ? [span[1], span[0]] : span
+      const mapped: [CellReference, CellReference] = [{ ...start, [key]: first }, { ...end, [key]: last }]
+      return inBounds(mapped[0]) && inBounds(mapped[1]) ? mapped : null
+    }
+  )
+}
+
+// Points references to a renamed sheet at its new name, quoting it when it needs quotes
+export const renameSheetReferences = (formula: string, oldName: string, newName: string): string => {
+  if (!formula.startsWith('=')) return formula
+
+  let tokens
+  try {
+    tokens = tokenize(formula.substring(1))
+  } catch {
+    return formula
+  }
+
+  let result = formula
+  for (const token of [...tokens].reverse()) {
+    if (token.type !== 'sheet' || parseSheetPrefix(token.value).toUpperCase() !== oldName.toUpperCase()) continue
+    const start = token.position + 1
+    result = result.slice(0, start) + formatSheetPrefix(newName) + result.slice(start + token.value.length)
+  }
+  return result
+}
@@ -0,0 +1,61 @@
+import { CellAddress, FormulaNode, RangeReferenceNode } from '../types/formula'
+import { getFunction } from './functions/registry'
+
+export interface FormulaReferences {
+  cells: CellAddress[]
+  ranges: RangeReferenceNode[]
+  // Calls OFFSET, INDIRECT or another function whose inputs are only known at run time
+  volatile: boolean
+  // Names that are not built-in functions: named functions, and LET and LAMBDA variables
+  names: string[]
+  // Upper-case names of other sheets the formula reads, as in Sheet2!B3
+  sheets: string[]
+}
+
+// Walks the AST and returns every cell and range the formula reads
+export const collectReferences = (node: FormulaNode): FormulaReferences => {
+  const references: FormulaReferences = { cells: [], ranges: [], volatile: false, names: [], sheets: [] }
+
+  const visit = (current: FormulaNode) => {
+    switch (current.type) {
+      case 'cell':
+        if (current.sheet) references.sheets.push(current.sheet.toUpperCase())
+        else references.cells.push({ row: current.row, col: current.col })
+        break
+      case 'range':
+        if (current.sheet) references.sheets.push(current.sheet.toUpperCase())
+        else references.ranges.push(current)
+        break
+      case 'spill':
+        // A1# is recalculated whenever A1 is, which is when its spilled array changes
+        if (current.sheet) references.sheets.push(current.sheet.toUpperCase())
+        else references.cells.push({ row: current.row, col: current.col })
+        break
+      case 'unary':
+      case 'percent':
+        visit(current.operand)
+        break
+      case 'binary':
+        visit(current.left)
+        visit(current.right)
+        break
+      case 'name':
+        references.names.push(current.name.toUpperCase())
+        break
+      case 'call': {
+        const fn = getFunction(current.name)
+        if (!fn) references.names.push(current.name.toUpperCase())
+        if (fn?.volatile) references.volatile = true
+        current.args.forEach(visit)
+        break
+      }
+      case 'invoke':
+        visit(current.callee)
+        current.args.forEach(visit)
+        break
+    }
+  }
+
+  visit(node)
+  return references
+}
@@ -0,0 +1,109 @@
+import { Cell } from '../types/spreadsheet'
+import { FormulaValue, ScalarValue } from '../types/formula'
+import { FormulaError, assertNotError, isErrorCode, makeError } from './errors'
+import { parseDateText } from './dates'
+
+export const NUMERIC_TEXT = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+
+export const toNumber = (value: ScalarValue): number => {
+  value = assertNotError(value)
+  if (value === null) return 0
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+
+  const trimmed = value.trim()
+  if (NUMERIC_TEXT.test(trimmed)) return Number(trimmed)
+  // Date text such as "1/15/2024" counts as its serial number, so ="1/15/2024"+7 works
+  const serial = parseDateText(trimmed)
+  if (serial !== null) return serial
+  throw new FormulaError('#VALUE!', `Cannot convert "${value}" to a number`)
+}
+
+// Excel displays at most 15 significant digits, which also hides binary float noise (0.1 + 0.2)
+export const formatNumber = (value: number): string => {
+  if (!Number.isFinite(value)) throw new FormulaError('#NUM!', 'The result is too large to represent')
+  return String(parseFloat(value.toPrecision(15)))
+}
+
+export const toText = (value: ScalarValue): string => {
+  value = assertNotError(value)
+  if (value === null) return ''
+  if (typeof value === 'number') return formatNumber(value)
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  return value
+}
+
+export const toBoolean = (value: ScalarValue): boolean => {
+  value = assertNotError(value)
+  if (value === null) return false
+  if (typeof value === 'boolean') return value
+  if (typeof value === 'number') return value !== 0
+
+  const upper = value.trim().toUpperCase()
+  if (upper === 'TRUE') return true
+  if (upper === 'FALSE') return false
+  throw new FormulaError('#VALUE!', `Cannot convert "${value}" to TRUE or FALSE`)
+}
+
+// Excel orders mixed types as numbers < text < booleans; text compares case-insensitively
+const typeRank = (value: number | string | boolean): number => {
+  if (typeof value === 'number') return 0
+  if (typeof value === 'string') return 1
+  return 2
+}
+
+export const compareValues = (left: ScalarValue, right: ScalarValue): number => {
+  left = assertNotError(left)
+  right = assertNotError(right)
+
+  // An empty cell takes on the type of whatever it is compared with
+  if (left === null && right === null) return 0
+  if (left === null) left = typeof right === 'string' ? '' : typeof right === 'boolean' ? false : 0
+  if (right === null) right = typeof left === 'string' ? '' : typeof left === 'boolean' ? false : 0
+
+  const rankDiff = typeRank(left) - typeRank(right)
+  if (rankDiff !== 0) return rankDiff
+
+  if (typeof left === 'string' && typeof right === 'string') {
+    const a = left.toLowerCase()
+    const b = right.toLowerCase()
+    return a < b ? -1 : a > b ? 1 : 0
+  }
+
+  const a = Number(left)
+  const b = Number(right)
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+// A range or array used where a single value is expected must be a single cell
+export const toScalar = (value: FormulaValue): ScalarValue => {
+  if (value === null || typeof value !== 'object' || value.kind === 'error') return value
+  if (value.kind === 'lambda') throw new FormulaError('#CALC!', 'A LAMBDA has to be called with its arguments')
+  if (value.values.length === 1 && value.values[0].length === 1) return value.values[0][0]
+  if (value.values.length === 0) return null
+  throw new FormulaError('#VALUE!', 'Expected a single value but found a range')
+}
+
+export const cellToValue = (cell: Cell | undefined): ScalarValue => {
+  if (!cell || cell.value === '') return null
+  if (cell.error) return makeError(cell.error.code, cell.error.message)
+
+  switch (cell.type) {
+    case 'number':
+      return Number(cell.value)
+    case 'boolean':
+      return cell.value.toLowerCase() === 'true'
+    case 'date':
+      // Dates keep the text the user typed and evaluate as serial numbers
+      return parseDateText(cell.value) ?? cell.value
+    case 'formula': {
+      // Formula cells store their computed result as text
+      if (NUMERIC_TEXT.test(cell.value)) return Number(cell.value)
+      if (cell.value === 'TRUE' || cell.value === 'FALSE') return cell.value === 'TRUE'
+      if (isErrorCode(cell.value)) return makeError(cell.value)
+      return cell.value
+    }
+    default:
+      return cell.value
+  }
+}
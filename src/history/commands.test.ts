@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest'
+import { Workbook } from '../types/spreadsheet'
+import { applyCellEdits, buildDependencyGraph, buildWorkbookGraphs, environmentFor } from '../formula/engine'
+import { addSheet, changeLines, createSheet, createWorkbook, deleteSheet, moveSheet, renameSheet, updateSheet } from '../utils/workbook'
+import { applyCommand, workbookCommand } from './commands'
+
+// A workbook whose first sheet holds the given inputs in column A, calculated
+const setup = (...inputs: string[]): Workbook => {
+  const workbook = createWorkbook('Budget', [createSheet('Data'), createSheet('Summary')])
+  return edit(workbook, 0, inputs.map((input, row) => ({ row, col: 0, input })))
+}
+
+const edit = (workbook: Workbook, sheetIndex: number, edits: { row: number; col: number; input: string }[]): Workbook => {
+  const sheet = workbook.sheets[sheetIndex]
+  const cells = applyCellEdits(sheet.cells, buildDependencyGraph(sheet.cells), edits, environmentFor(workbook, sheet.id))
+  return updateSheet(workbook, sheet.id, { cells })
+}
+
+const values = (workbook: Workbook, sheetIndex = 0) =>
+  Object.fromEntries(Object.values(workbook.sheets[sheetIndex].cells).map(cell => [cell.id, cell.value]))
+
+// Undoes the step from before to after on the workbook as it is now
+const undo = (current: Workbook, before: Workbook, after: Workbook) =>
+  applyCommand(current, buildWorkbookGraphs(current), workbookCommand('Step', before, after)!, 'before')
+
+describe('workbookCommand', () => {
+  it('is null when nothing changed', () => {
+    const workbook = setup('1')
+    expect(workbookCommand('Step', workbook, workbook)).toBeNull()
+    expect(workbookCommand('Step', workbook, { ...workbook, updatedAt: new Date() })).toBeNull()
+  })
+
+  it('records only the settings a change touched', () => {
+    const before = setup('1')
+    const after = updateSheet(before, before.sheets[0].id, { columnWidths: { 2: 120 } })
+    const command = workbookCommand('Column Width', before, after)
+    expect(command).toMatchObject({
+      type: 'workbook',
+      changes: { sheets: [{ type: 'fields', before: { columnWidths: undefined }, after: { columnWidths: { 2: 120 } }, cells: [] }] }
+    })
+  })
+})
+
+describe('undoing workbook commands', () => {
+  it('keeps a rename and edits merged since', () => {
+    const before = setup('1', '=A1*2')
+    const after = updateSheet(before, before.sheets[0].id, { rowHeights: { 0: 40 } })
+    // Renamed here and changed elsewhere after the resize, outside the history
+    const current = edit({ ...after, name: 'Budget 2024' }, 0, [{ row: 0, col: 0, input: '5' }])
+
+    const undone = undo(current, before, after)
+    expect(undone.name).toBe('Budget 2024')
+    expect(undone.sheets[0].rowHeights).toBeUndefined()
+    expect(values(undone)).toEqual({ A1: '5', A2: '10' })
+  })
+
+  it('puts inserted rows back and recalculates', () => {
+    const before = setup('1', '2', '=SUM(A1:A2)')
+    const after = changeLines(before, before.sheets[0].id, { kind: 'insert', axis: 'rows', at: 1, count: 2 })
+    expect(after.sheets[0].cells.A5.formula).toBe('=SUM(A1:A4)')
+
+    const undone = undo(after, before, after)
+    expect(undone.sheets[0].rows).toBe(before.sheets[0].rows)
+    expect(undone.sheets[0].cells.A3.formula).toBe('=SUM(A1:A2)')
+    expect(values(undone)).toEqual({ A1: '1', A2: '2', A3: '3' })
+  })
+
+  it('brings back a deleted sheet in its place, and formulas reading it', () => {
+    const base = setup('7')
+    const before = edit(base, 1, [{ row: 0, col: 0, input: '=Data!A1+1' }])
+    const deleted = deleteSheet(before, before.sheets[0].id)
+
+    const undone = undo(deleted, before, deleted)
+    expect(undone.sheets.map(sheet => sheet.name)).toEqual(['Data', 'Summary'])
+    expect(values(undone, 1)).toEqual({ A1: '8' })
+  })
+
+  it('removes an added sheet, keeping sheets added elsewhere since', () => {
+    const before = setup('1')
+    const after = addSheet(before, createSheet('Added'))
+    const current = addSheet(after, createSheet('Elsewhere'))
+
+    const undone = undo(current, before, after)
+    expect(undone.sheets.map(sheet => sheet.name)).toEqual(['Data', 'Summary', 'Elsewhere'])
+  })
+
+  it('undoes and redoes a sheet move and rename', () => {
+    const before = setup('1')
+    const moved = moveSheet(before, before.sheets[1].id, 0)
+    const after = renameSheet(moved, before.sheets[1].id, 'Totals')
+    const command = workbookCommand('Step', before, after)!
+
+    const undone = applyCommand(after, buildWorkbookGraphs(after), command, 'before')
+    expect(undone.sheets.map(sheet => sheet.name)).toEqual(['Data', 'Summary'])
+    const redone = applyCommand(undone, buildWorkbookGraphs(undone), command, 'after')
+    expect(redone.sheets.map(sheet => sheet.name)).toEqual(['Totals', 'Data'])
+  })
+
+  it('restores names and recalculates the formulas using them', () => {
+    const before = edit({ ...setup(), definedNames: [{ name: 'Rate', formula: '=0.5' }] }, 0, [{ row: 0, col: 0, input: '=Rate*100' }])
+    const after = edit({ ...before, definedNames: [{ name: 'Rate', formula: '=0.2' }] }, 0, [{ row: 0, col: 0, input: '=Rate*100' }])
+    expect(values(after)).toEqual({ A1: '20' })
+
+    const undone = undo(after, before, after)
+    expect(undone.definedNames).toEqual([{ name: 'Rate', formula: '=0.5' }])
+    expect(values(undone)).toEqual({ A1: '50' })
+  })
+})
@@ -0,0 +1,234 @@
+import { Cell, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { CellChange, CellInput, Command, SheetChange, SheetFields, WorkbookChanges } from '../types/history'
+import {
+  DependencyGraph,
+  getNameDependents,
+  getSheetDependents,
+  setCellDependencies
+} from '../formula/dependencyGraph'
+import {
+  applyCellEdits,
+  buildDependencyGraph,
+  buildWorkbookGraphs,
+  environmentFor,
+  propagateSheetChanges,
+  recalculate,
+  recalculateWorkbook
+} from '../formula/engine'
+import { namesForSheet } from '../formula/names'
+import { parseCellId } from '../utils/spreadsheet'
+import { getSheet, updateSheet } from '../utils/workbook'
+
+// Spilled values and computed results follow from the inputs, so they are not recorded
+const inputOf = (cell: Cell | undefined): CellInput | null => {
+  if (!cell || cell.spillAnchor) return null
+  const input = cell.formula ?? cell.value
+  if (!input && !cell.style) return null
+  return cell.style ? { input, style: cell.style } : { input }
+}
+
+const sameInput = (a: CellInput | null, b: CellInput | null) => JSON.stringify(a) === JSON.stringify(b)
+
+// The cells whose input differs between two versions of a sheet
+export const diffCells = (before: Record<string, Cell>, after: Record<string, Cell>): CellChange[] =>
+  Object.keys({ ...before, ...after })
+    .map(cellId => ({ cellId, before: inputOf(before[cellId]), after: inputOf(after[cellId]) }))
+    .filter(change => !sameInput(change.before, change.after))
+
+// null when nothing the user typed changed, so there is nothing to undo
+export const cellsCommand = (
+  label: string,
+  sheetId: string,
+  before: Record<string, Cell>,
+  after: Record<string, Cell>
+): Command | null => {
+  const changes = diffCells(before, after)
+  return changes.length > 0 ? { type: 'cells', label, sheetId, changes } : null
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+const SHEET_FIELDS: (keyof SheetFields)[] = ['name', 'color', 'rows', 'cols', 'columnWidths', 'rowHeights']
+
+// The settings and cell inputs that differ between two versions of a sheet; null when none do
+const diffSheet = (before: SpreadsheetData, after: SpreadsheetData): SheetChange | null => {
+  const fields = SHEET_FIELDS.filter(field => !same(before[field], after[field]))
+  const cells = before.cells === after.cells ? [] : diffCells(before.cells, after.cells)
+  if (fields.length === 0 && cells.length === 0) return null
+  const pickFields = (sheet: SpreadsheetData): SheetFields =>
+    Object.fromEntries(fields.map(field => [field, sheet[field]]))
+  return { type: 'fields', sheetId: after.id, before: pickFields(before), after: pickFields(after), cells }
+}
+
+// Records only what differs between the two workbooks; null when nothing does
+export const workbookCommand = (label: string, before: Workbook, after: Workbook): Command | null => {
+  if (before === after) return null
+  const beforeSheets = new Map(before.sheets.map(sheet => [sheet.id, sheet]))
+  const afterIds = new Set(after.sheets.map(sheet => sheet.id))
+  const sheets: SheetChange[] = []
+
+  for (const sheet of after.sheets) {
+    const previous = beforeSheets.get(sheet.id)
+    if (!previous) {
+      sheets.push({ type: 'sheet', sheetId: sheet.id, before: null, after: sheet })
+    } else if (previous !== sheet) {
+      const change = diffSheet(previous, sheet)
+      if (change) sheets.push(change)
+    }
+  }
+  for (const sheet of before.sheets) {
+    if (!afterIds.has(sheet.id)) sheets.push({ type: 'sheet', sheetId: sheet.id, before: sheet, after: null })
+  }
+
+  const order = { before: before.sheets.map(sheet => sheet.id), after: after.sheets.map(sheet => sheet.id) }
+  const changes: WorkbookChanges = {
+    sheets,
+    ...(!same(order.before, order.after) && { order }),
+    ...(!same(before.definedNames, after.definedNames) && {
+      definedNames: { before: before.definedNames, after: after.definedNames }
+    }),
+    ...(!same(before.namedFunctions, after.namedFunctions) && {
+      namedFunctions: { before: before.namedFunctions, after: after.namedFunctions }
+    })
+  }
+  const changed = sheets.length > 0 || changes.order || changes.definedNames || changes.namedFunctions
+  return changed ? { type: 'workbook', label, changes } : null
+}
+
+export const groupCommands = (label: string, commands: (Command | null)[]): Command | null => {
+  const steps = commands.filter((command): command is Command => command !== null)
+  if (steps.length <= 1) return steps[0] ?? null
+  return { type: 'group', label, commands: steps }
+}
+
+// Puts one side of each change back into the sheet, then recalculates the sheet and
+// whatever reads it on other sheets
+const applyChanges = (
+  workbook: Workbook,
+  graphs: Record<string, DependencyGraph>,
+  sheetId: string,
+  changes: CellChange[],
+  side: 'before' | 'after'
+): Workbook => {
+  const sheet = getSheet(workbook, sheetId)
+  if (!sheet) return workbook
+  if (!graphs[sheetId]) {
+    graphs[sheetId] = buildDependencyGraph(sheet.cells, namesForSheet(workbook.definedNames, sheetId))
+  }
+  const graph = graphs[sheetId]
+  const environment = environmentFor(workbook, sheetId)
+
+  // Cleared first, so restored cells do not keep a style they did not have
+  const cleared = { ...sheet.cells }
+  const emptied: string[] = []
+  for (const change of changes) {
+    delete cleared[change.cellId]
+    if (!change[side]) {
+      setCellDependencies(graph, change.cellId, null)
+      emptied.push(change.cellId)
+    }
+  }
+
+  const edits = changes.flatMap(change => {
+    const target = change[side]
+    return target ? [{ ...parseCellId(change.cellId), input: target.input, style: target.style }] : []
+  })
+  const cells = recalculate(applyCellEdits(cleared, graph, edits, environment), graph, emptied, environment)
+  return propagateSheetChanges(updateSheet(workbook, sheetId, { cells }), graphs, sheetId)
+}
+
+// Sheets in the recorded tab order. Sheets it does not know, such as ones added elsewhere
+// since, keep their place relative to each other after the rest.
+const inOrder = (sheets: SpreadsheetData[], order: string[]): SpreadsheetData[] => {
+  const position = (sheet: SpreadsheetData) => {
+    const index = order.indexOf(sheet.id)
+    return index === -1 ? order.length : index
+  }
+  return [...sheets].sort((a, b) => position(a) - position(b))
+}
+
+// Puts one side of a workbook change back, leaving everything it did not record as it is
+// now. Sheets come back first and the graphs are rebuilt for them; then the recorded cells
+// are restored, and formulas reading a changed name or sheet, or on a sheet that came
+// back whole, are recalculated.
+const applyWorkbookChanges = (
+  workbook: Workbook,
+  graphs: Record<string, DependencyGraph>,
+  changes: WorkbookChanges,
+  side: 'before' | 'after'
+): Workbook => {
+  let sheets = workbook.sheets
+  const restored = new Set<string>()
+  const sheetNames: string[] = []
+
+  for (const change of changes.sheets) {
+    if (change.type === 'sheet') {
+      const target = change[side]
+      sheets = sheets.filter(sheet => sheet.id !== change.sheetId)
+      if (target) {
+        sheets = [...sheets, target]
+        restored.add(target.id)
+      }
+      sheetNames.push((change.before ?? change.after)!.name)
+    } else {
+      const fields = change[side]
+      sheets = sheets.map(sheet => (sheet.id === change.sheetId ? { ...sheet, ...fields, updatedAt: new Date() } : sheet))
+      if (change.before.name !== undefined) sheetNames.push(change.before.name, change.after.name!)
+    }
+  }
+  if (changes.order) sheets = inOrder(sheets, changes.order[side])
+
+  let next: Workbook = {
+    ...workbook,
+    sheets,
+    definedNames: changes.definedNames?.[side] ?? workbook.definedNames,
+    namedFunctions: changes.namedFunctions?.[side] ?? workbook.namedFunctions,
+    updatedAt: new Date()
+  }
+  for (const sheetId of Object.keys(graphs)) delete graphs[sheetId]
+  Object.assign(graphs, buildWorkbookGraphs(next))
+
+  for (const change of changes.sheets) {
+    if (change.type === 'fields' && change.cells.length > 0) {
+      next = applyChanges(next, graphs, change.sheetId, change.cells, side)
+    }
+  }
+
+  const names = [
+    ...(changes.definedNames ? [...changes.definedNames.before, ...changes.definedNames.after] : []),
+    ...(changes.namedFunctions ? [...changes.namedFunctions.before, ...changes.namedFunctions.after] : [])
+  ].map(definition => definition.name)
+  if (restored.size === 0 && sheetNames.length === 0 && names.length === 0) return next
+  return recalculateWorkbook(next, graphs, (graph, sheet) => [
+    ...(restored.has(sheet.id) ? Object.keys(sheet.cells) : []),
+    ...sheetNames.flatMap(name => getSheetDependents(graph, name)),
+    ...names.flatMap(name => getNameDependents(graph, name))
+  ])
+}
+
+// Brings the workbook to one side of a command: 'before' undoes it, 'after' redoes it.
+// The graphs are updated in place to match.
+export const applyCommand = (
+  workbook: Workbook,
+  graphs: Record<string, DependencyGraph>,
+  command: Command,
+  side: 'before' | 'after'
+): Workbook => {
+  switch (command.type) {
+    case 'cells':
+      return applyChanges(workbook, graphs, command.sheetId, command.changes, side)
+    case 'workbook':
+      return applyWorkbookChanges(workbook, graphs, command.changes, side)
+    case 'group': {
+      const commands = side === 'before' ? [...command.commands].reverse() : command.commands
+      return commands.reduce((current, step) => applyCommand(current, graphs, step, side), workbook)
+    }
+  }
+}
+
+// The sheet a command changed cells on, to show it when the command is undone or redone
+export const commandSheetId = (command: Command): string | undefined => {
+  if (command.type === 'cells') return command.sheetId
+  if (command.type === 'group') return command.commands.map(commandSheetId).find(Boolean)
+  return undefined
+}
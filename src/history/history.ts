@@ -0,0 +1,23 @@
+import { Command, EditHistory } from '../types/history'
+
+// Older steps are dropped beyond this many
+export const MAX_UNDO_STEPS = 200
+
+export const EMPTY_HISTORY: EditHistory = { undo: [], redo: [] }
+
+// A new step clears whatever could have been redone
+export const recordCommand = (history: EditHistory, command: Command | null): EditHistory =>
+  command ? { undo: [...history.undo, command].slice(-MAX_UNDO_STEPS), redo: [] } : history
+
+// The step to undo and the history once it is undone, or null when there is nothing to undo
+export const takeUndo = (history: EditHistory): [Command, EditHistory] | null => {
+  const command = history.undo[history.undo.length - 1]
+  if (!command) return null
+  return [command, { undo: history.undo.slice(0, -1), redo: [...history.redo, command] }]
+}
+
+export const takeRedo = (history: EditHistory): [Command, EditHistory] | null => {
+  const command = history.redo[history.redo.length - 1]
+  if (!command) return null
+  return [command, { undo: [...history.undo, command], redo: history.redo.slice(0, -1) }]
+}
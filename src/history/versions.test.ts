@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { createMemoryVersionStorage } from '../storage/memoryStorage'
+import { MAX_COLS, MAX_ROWS } from '../formula/parser'
+import { buildWorkbookGraphs } from '../formula/engine'
+import { applyCommand } from './commands'
+import {
+  MAX_AUTO_VERSIONS,
+  countDiff,
+  createVersion,
+  diffWorkbooks,
+  findVersionSheet,
+  pruneAutoVersions,
+  restoreRangeCommand,
+  restoreVersionCommand
+} from './versions'
+
+const date = new Date('2024-03-01T09:00:00.000Z')
+
+const cell = (id: string, row: number, col: number, value: string): Cell => ({ id, row, col, value, type: 'text' })
+
+const sheet = (id: string, name: string, cells: Cell[]): SpreadsheetData => ({
+  id,
+  name,
+  cells: Object.fromEntries(cells.map(c => [c.id, c])),
+  rows: 1000,
+  cols: 26,
+  createdAt: date,
+  updatedAt: date
+})
+
+const workbook = (sheets: SpreadsheetData[], fields: Partial<Workbook> = {}): Workbook => ({
+  id: 'wb-1',
+  name: 'Budget',
+  sheets,
+  definedNames: [],
+  namedFunctions: [],
+  createdAt: date,
+  updatedAt: date,
+  ...fields
+})
+
+const before = sheet('s-1', 'Data', [cell('A1', 0, 0, 'kept'), cell('B2', 1, 1, 'old'), cell('C3', 2, 2, 'gone')])
+const after = sheet('s-1', 'Renamed', [cell('A1', 0, 0, 'kept'), cell('B2', 1, 1, 'new'), cell('D4', 3, 3, 'added')])
+
+describe('diffWorkbooks', () => {
+  it('lists added, removed and changed cells by sheet id, across a rename', () => {
+    const diff = diffWorkbooks(workbook([before]), workbook([after, sheet('s-2', 'New', [cell('A1', 0, 0, 'x')])]))
+    expect(Object.keys(diff)).toEqual(['s-1', 's-2'])
+    expect(Object.fromEntries(Object.entries(diff['s-1']).map(([id, change]) => [id, change.kind]))).toEqual({
+      B2: 'changed',
+      C3: 'removed',
+      D4: 'added'
+    })
+    expect(diff['s-1'].B2.before?.value).toBe('old')
+    expect(countDiff(diff)).toEqual({ added: 2, removed: 1, changed: 1 })
+  })
+
+  it('is empty between identical workbooks', () => {
+    expect(diffWorkbooks(workbook([before]), workbook([before]))).toEqual({})
+  })
+})
+
+describe('findVersionSheet', () => {
+  it('matches by id, then by name', () => {
+    const version = workbook([sheet('s-9', 'DATA', []), before])
+    expect(findVersionSheet(version, after)).toBe(before)
+    expect(findVersionSheet(version, sheet('s-3', 'data', []))?.id).toBe('s-9')
+    expect(findVersionSheet(version, sheet('s-3', 'Other', []))).toBeUndefined()
+  })
+})
+
+describe('restoreRangeCommand', () => {
+  it('puts back only the cells inside the range', () => {
+    const command = restoreRangeCommand(after, before, { row: 2, col: 2 }, { row: 0, col: 0 })
+    expect(command).toEqual({
+      type: 'cells',
+      label: 'Restore Range',
+      sheetId: 's-1',
+      changes: [
+        { cellId: 'B2', before: { input: 'new' }, after: { input: 'old' } },
+        { cellId: 'C3', before: null, after: { input: 'gone' } }
+      ]
+    })
+  })
+
+  it('handles whole columns without visiting every empty cell', () => {
+    const command = restoreRangeCommand(after, before, { row: 0, col: 0 }, { row: MAX_ROWS - 1, col: MAX_COLS - 1 })
+    expect(command?.type === 'cells' && command.changes.map(change => change.cellId).sort()).toEqual(['B2', 'C3', 'D4'])
+  })
+
+  it('is null when the range already matches', () => {
+    expect(restoreRangeCommand(after, before, { row: 0, col: 0 }, { row: 0, col: 0 })).toBeNull()
+  })
+})
+
+describe('restoreVersionCommand', () => {
+  it('keeps the workbook name and id', () => {
+    const current = workbook([after], { name: 'Budget 2024' })
+    const command = restoreVersionCommand(current, workbook([before], { id: 'other', name: 'Old name' }))!
+    expect(command).toMatchObject({ type: 'workbook', label: 'Restore Version' })
+    const restored = applyCommand(current, buildWorkbookGraphs(current), command, 'after')
+    expect([restored.id, restored.name, restored.sheets[0].name]).toEqual(['wb-1', 'Budget 2024', 'Data'])
+    expect(Object.keys(restored.sheets[0].cells).sort()).toEqual(['A1', 'B2', 'C3'])
+    expect(restoreVersionCommand(current, current)).toBeNull()
+  })
+})
+
+describe('pruneAutoVersions', () => {
+  it('deletes the oldest periodic versions beyond the limit and keeps named ones', async () => {
+    const storage = createMemoryVersionStorage()
+    const book = workbook([before])
+    const named = { ...createVersion(book, 'named', '  Quarter end  '), createdAt: new Date(0) }
+    expect(named.name).toBe('Quarter end')
+    await storage.saveVersion('user-1', named, book)
+    for (let i = 0; i < MAX_AUTO_VERSIONS + 2; i++) {
+      await storage.saveVersion('user-1', { ...createVersion(book, 'auto'), createdAt: new Date(i + 1) }, book)
+    }
+
+    await pruneAutoVersions(storage, 'user-1', book.id)
+    const kept = await storage.listVersions('user-1', book.id)
+    expect(kept.filter(version => version.kind === 'auto')).toHaveLength(MAX_AUTO_VERSIONS)
+    expect(kept[kept.length - 1].name).toBe('Quarter end')
+    expect(Math.min(...kept.filter(version => version.kind === 'auto').map(version => version.createdAt.getTime()))).toBe(3)
+  })
+})
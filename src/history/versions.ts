@@ -0,0 +1,110 @@
+import { CellAddress } from '../types/formula'
+import { Cell, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { Command } from '../types/history'
+import { VersionStorage, WorkbookVersion } from '../types/storage'
+import { rangeContains } from '../utils/selection'
+import { createId } from '../utils/workbook'
+import { diffCells, workbookCommand } from './commands'
+
+// Saving takes a version at most this often
+export const AUTO_VERSION_INTERVAL = 10 * 60 * 1000
+
+// Older periodic versions are deleted beyond this many; named ones are kept
+export const MAX_AUTO_VERSIONS = 50
+
+export type CellDiffKind = 'added' | 'removed' | 'changed'
+
+export interface CellDiff {
+  kind: CellDiffKind
+  before?: Cell
+  after?: Cell
+}
+
+// Sheet id, then cell id
+export type WorkbookDiff = Record<string, Record<string, CellDiff>>
+
+export const createVersion = (
+  workbook: Workbook,
+  kind: WorkbookVersion['kind'],
+  name?: string,
+  author?: string
+): WorkbookVersion => ({
+  id: createId('version'),
+  workbookId: workbook.id,
+  kind,
+  name: name?.trim() || undefined,
+  author,
+  createdAt: new Date()
+})
+
+export const versionLabel = (version: WorkbookVersion): string =>
+  version.name ?? version.createdAt.toLocaleString()
+
+export const pruneAutoVersions = async (storage: VersionStorage, userId: string, workbookId: string) => {
+  const autoVersions = (await storage.listVersions(userId, workbookId)).filter(version => version.kind === 'auto')
+  for (const version of autoVersions.slice(MAX_AUTO_VERSIONS)) {
+    await storage.deleteVersion(userId, version.id)
+  }
+}
+
+// Cells whose input was added, removed or changed between two versions, sheet by sheet.
+// Sheets are matched by id, so a renamed sheet is still compared with itself.
+export const diffWorkbooks = (before: Workbook, after: Workbook): WorkbookDiff => {
+  const beforeSheets = new Map(before.sheets.map(sheet => [sheet.id, sheet]))
+  const diff: WorkbookDiff = {}
+
+  for (const sheet of after.sheets) {
+    const previous = beforeSheets.get(sheet.id)?.cells ?? {}
+    const changes = diffCells(previous, sheet.cells)
+    if (changes.length === 0) continue
+
+    diff[sheet.id] = Object.fromEntries(changes.map(change => [change.cellId, {
+      kind: !change.before ? 'added' : !change.after ? 'removed' : 'changed',
+      before: previous[change.cellId],
+      after: sheet.cells[change.cellId]
+    }]))
+  }
+  return diff
+}
+
+export const countDiff = (diff: WorkbookDiff): Record<CellDiffKind, number> => {
+  const counts = { added: 0, removed: 0, changed: 0 }
+  for (const cells of Object.values(diff)) {
+    for (const { kind } of Object.values(cells)) counts[kind]++
+  }
+  return counts
+}
+
+// The version's copy of a sheet: the same sheet if it still exists there, else one by name
+export const findVersionSheet = (version: Workbook, sheet: SpreadsheetData): SpreadsheetData | undefined =>
+  version.sheets.find(candidate => candidate.id === sheet.id) ??
+  version.sheets.find(candidate => candidate.name.toUpperCase() === sheet.name.toUpperCase())
+
+// The whole workbook goes back to the version, keeping its identity and current name
+export const restoreVersionCommand = (workbook: Workbook, version: Workbook): Command | null =>
+  workbookCommand('Restore Version', workbook, {
+    ...version,
+    id: workbook.id,
+    name: workbook.name,
+    createdAt: workbook.createdAt,
+    updatedAt: new Date()
+  })
+
+// Puts a range of one sheet back the way the version had it, as a cell edit that can be undone
+export const restoreRangeCommand = (
+  sheet: SpreadsheetData,
+  versionSheet: SpreadsheetData,
+  start: CellAddress,
+  end: CellAddress
+): Command | null => {
+  // Only cells either side holds can differ, so a range as large as A:Z costs no more than the sheet
+  const inRange = (cells: Record<string, Cell>) =>
+    Object.fromEntries(Object.values(cells)
+      .filter(cell => rangeContains({ start, end }, cell.row, cell.col))
+      .map(cell => [cell.id, cell]))
+  const current = inRange(sheet.cells)
+  const restored = inRange(versionSheet.cells)
+
+  const changes = diffCells(current, restored)
+  return changes.length > 0 ? { type: 'cells', label: 'Restore Range', sheetId: sheet.id, changes } : null
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Workbook } from '../types/spreadsheet'
+import { SaveStatus, WorkbookStorage } from '../types/storage'
+
+export const AUTOSAVE_DELAY = 1500
+
+// Saves the workbook a short while after the last change. Changes are tracked by identity:
+// every edit produces a new Workbook object, so anything other than the last one stored or
+// loaded is unsaved.
+export function useAutosave(
+  storage: WorkbookStorage,
+  userId: string | null,
+  workbook: Workbook,
+  delay = AUTOSAVE_DELAY
+) {
+  const [status, setStatus] = useState<SaveStatus>('saved')
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const savedWorkbook = useRef<Workbook | null>(null)
+  const latestWorkbook = useRef(workbook)
+  // Saves run one after another so an older copy never lands after a newer one
+  const queue = useRef<Promise<void>>(Promise.resolve())
+
+  const save = useCallback(() => {
+    const run = async () => {
+      const snapshot = latestWorkbook.current
+      if (!userId || snapshot === savedWorkbook.current) return
+      setStatus('saving')
+      try {
+        await storage.saveWorkbook(userId, snapshot)
+        savedWorkbook.current = snapshot
+        setLastSavedAt(new Date())
+        setStatus(latestWorkbook.current === snapshot ? 'saved' : 'unsaved')
+      } catch (error) {
+        console.error('Failed to save workbook:', error)
+        setStatus('error')
+      }
+    }
+    queue.current = queue.current.then(run)
+    return queue.current
+  }, [storage, userId])
+
+  // For a workbook just loaded from storage, so opening it does not count as a change
+  const markSaved = useCallback((loaded: Workbook) => {
+    savedWorkbook.current = loaded
+    latestWorkbook.current = loaded
+    setStatus('saved')
+  }, [])
+
+  useEffect(() => {
+    latestWorkbook.current = workbook
+    if (!userId || workbook === savedWorkbook.current) return
+    setStatus('unsaved')
+    const timer = setTimeout(save, delay)
+    return () => clearTimeout(timer)
+  }, [workbook, userId, delay, save])
+
+  // Leaving the page with changes not yet stored asks for confirmation first
+  useEffect(() => {
+    if (status === 'saved') return
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault()
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [status])
+
+  return { status, isDirty: status !== 'saved', lastSavedAt, save, markSaved }
+}
@@ -0,0 +1,13 @@
+import { useMemo, useRef } from 'react'
+import { Cell, CellStore } from '../types/spreadsheet'
+import { EMPTY_CELL_STORE, updateCellStore } from '../utils/cellStore'
+
+// Keeps an index of the shown cells in step with them. Each edit updates the last store
+// rather than building a new one, so typing into a large sheet stays cheap.
+export function useCellStore(cells: Record<string, Cell>): CellStore {
+  const last = useRef<CellStore>(EMPTY_CELL_STORE)
+  return useMemo(() => {
+    last.current = updateCellStore(last.current, cells)
+    return last.current
+  }, [cells])
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react'
+import { AppSettings } from '../types/settings'
+
+const SETTINGS_KEY = 'cursor-ai-spreadsheet:settings'
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  gridRenderer: 'dom'
+}
+
+// Settings saved by an older version may lack newer keys, which take their defaults
+const loadSettings = (): AppSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') }
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+export function useSettings() {
+  const [settings, setSettings] = useState<AppSettings>(loadSettings)
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+    } catch {
+      // Private browsing can refuse storage; the settings last until the page closes
+    }
+  }, [settings])
+
+  const updateSettings = useCallback((changes: Partial<AppSettings>) => {
+    setSettings(previous => ({ ...previous, ...changes }))
+  }, [])
+
+  return { settings, updateSettings }
+}
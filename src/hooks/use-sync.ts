@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { MergedWorkbook, SyncStatus } from '../types/storage'
+import { OfflineStorage } from '../storage/offlineStorage'
+
+// How long to wait before trying again after the remote store failed
+export const SYNC_RETRY_DELAY = 30000
+
+// Replays queued changes whenever there are some and the browser is online, and reports
+// how far behind the remote store is
+export function useSync(
+  storage: OfflineStorage,
+  userId: string | null,
+  onMerged: (result: MergedWorkbook) => void
+) {
+  const [status, setStatus] = useState<SyncStatus>('synced')
+  const [pendingCount, setPendingCount] = useState(0)
+  const isSyncing = useRef(false)
+  // Set when changes are queued mid-sync, so they go out in the same run
+  const syncAgain = useRef(false)
+  const handleMerged = useRef(onMerged)
+
+  useEffect(() => {
+    handleMerged.current = onMerged
+  }, [onMerged])
+
+  // Keeps showing the last known count when the local queue cannot be read either
+  const refreshPendingCount = useCallback(async (id: string) => {
+    try {
+      setPendingCount(await storage.pendingCount(id))
+    } catch (error) {
+      console.error('Failed to count queued changes:', error)
+    }
+  }, [storage])
+
+  const sync = useCallback(async () => {
+    if (!userId) return
+    if (isSyncing.current) {
+      syncAgain.current = true
+      return
+    }
+    if (!navigator.onLine) {
+      await refreshPendingCount(userId)
+      setStatus('offline')
+      return
+    }
+
+    isSyncing.current = true
+    setStatus('syncing')
+    try {
+      do {
+        syncAgain.current = false
+        const merged = await storage.sync(userId)
+        merged.forEach(result => handleMerged.current(result))
+      } while (syncAgain.current)
+      const remaining = await storage.pendingCount(userId)
+      setPendingCount(remaining)
+      setStatus(remaining > 0 ? 'pending' : 'synced')
+    } catch (error) {
+      console.error('Failed to sync workbooks:', error)
+      await refreshPendingCount(userId)
+      setStatus(navigator.onLine ? 'error' : 'offline')
+    } finally {
+      isSyncing.current = false
+    }
+  }, [storage, userId, refreshPendingCount])
+
+  useEffect(() => {
+    sync()
+    const unsubscribe = storage.subscribe(sync)
+    const handleOffline = () => setStatus('offline')
+    window.addEventListener('online', sync)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      unsubscribe()
+      window.removeEventListener('online', sync)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [storage, sync])
+
+  useEffect(() => {
+    if (status !== 'error' && status !== 'pending') return
+    const timer = setTimeout(sync, SYNC_RETRY_DELAY)
+    return () => clearTimeout(timer)
+  }, [status, sync])
+
+  return { status, pendingCount, sync }
+}
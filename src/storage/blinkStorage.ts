@@ -0,0 +1,84 @@
+import { blink } from '../blink/client'
+import { VersionStorage, WorkbookStorage } from '../types/storage'
+import {
+  SheetRecord,
+  VersionRecord,
+  WorkbookRecord,
+  byMostRecent,
+  byNewestVersion,
+  fromRecords,
+  fromVersionRecord,
+  toRecords,
+  toSummary,
+  toVersionRecord,
+  versionSnapshot
+} from './records'
+
+const workbooks = () => blink.db.table<WorkbookRecord>('workbooks')
+const sheets = () => blink.db.table<SheetRecord>('sheets')
+const versions = () => blink.db.table<VersionRecord>('workbook_versions')
+
+// Workbooks in the Blink database: one row per workbook and one per sheet, each carrying
+// the owner's id so every query can be limited to the signed-in user
+export const blinkStorage: WorkbookStorage = {
+  listWorkbooks: async (userId) => {
+    const records = await workbooks().list({ where: { userId }, orderBy: { updatedAt: 'desc' } })
+    return records.map(toSummary).sort(byMostRecent)
+  },
+
+  loadWorkbook: async (userId, workbookId) => {
+    const [record] = await workbooks().list({ where: { id: workbookId, userId }, limit: 1 })
+    if (!record) return null
+    const sheetRecords = await sheets().list({ where: { workbookId, userId }, orderBy: { position: 'asc' } })
+    return fromRecords(record, sheetRecords)
+  },
+
+  saveWorkbook: async (userId, workbook) => {
+    const records = toRecords(userId, workbook)
+    await workbooks().upsert(records.workbook)
+    if (records.sheets.length > 0) await sheets().upsertMany(records.sheets)
+    // Sheets deleted from the workbook since it was last saved
+    await sheets().deleteMany({
+      where: {
+        AND: [{ workbookId: workbook.id }, { userId }, { id: { not_in: records.sheets.map(sheet => sheet.id) } }]
+      }
+    })
+  },
+
+  renameWorkbook: async (userId, workbookId, name) => {
+    const owned = await workbooks().exists({ where: { id: workbookId, userId } })
+    if (!owned) return
+    await workbooks().update(workbookId, { name, updatedAt: new Date().toISOString() })
+  },
+
+  deleteWorkbook: async (userId, workbookId) => {
+    await versions().deleteMany({ where: { AND: [{ workbookId }, { userId }] } })
+    await sheets().deleteMany({ where: { AND: [{ workbookId }, { userId }] } })
+    await workbooks().deleteMany({ where: { AND: [{ id: workbookId }, { userId }] } })
+  }
+}
+
+// Versions list without their snapshots, which can be large
+export const blinkVersionStorage: VersionStorage = {
+  listVersions: async (userId, workbookId) => {
+    const records = await versions().list({
+      where: { AND: [{ workbookId }, { userId }] },
+      orderBy: { createdAt: 'desc' },
+      select: ['id', 'workbookId', 'userId', 'kind', 'name', 'author', 'createdAt']
+    })
+    return records.map(fromVersionRecord).sort(byNewestVersion)
+  },
+
+  loadVersion: async (userId, versionId) => {
+    const [record] = await versions().list({ where: { AND: [{ id: versionId }, { userId }] }, limit: 1 })
+    return record ? versionSnapshot(record) : null
+  },
+
+  saveVersion: async (userId, version, workbook) => {
+    await versions().create(toVersionRecord(userId, version, workbook))
+  },
+
+  deleteVersion: async (userId, versionId) => {
+    await versions().deleteMany({ where: { AND: [{ id: versionId }, { userId }] } })
+  }
+}
@@ -0,0 +1,135 @@
+import { OperationQueue, PendingOperation, WorkbookStorage } from '../types/storage'
+import { SheetRecord, WorkbookRecord, byMostRecent, fromRecords, toRecords, toSummary } from './records'
+
+const DATABASE_NAME = 'cursor-ai-spreadsheet'
+const DATABASE_VERSION = 1
+
+// Two copies of each workbook: the one being edited, and the last one the remote store
+// agreed with, which is the starting point for merging changes made elsewhere
+export const LOCAL_STORES = { workbooks: 'workbooks', sheets: 'sheets' }
+export const SYNCED_STORES = { workbooks: 'syncedWorkbooks', sheets: 'syncedSheets' }
+const OPERATIONS_STORE = 'pendingOperations'
+
+let database: Promise<IDBDatabase> | null = null
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        for (const stores of [LOCAL_STORES, SYNCED_STORES]) {
+          db.createObjectStore(stores.workbooks, { keyPath: 'id' }).createIndex('userId', 'userId')
+          db.createObjectStore(stores.sheets, { keyPath: 'id' }).createIndex('workbookId', 'workbookId')
+        }
+        db.createObjectStore(OPERATIONS_STORE, { keyPath: 'seq', autoIncrement: true }).createIndex('userId', 'userId')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call try again rather than failing forever
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+const result = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined'
+
+// Workbooks kept in the browser, in the same records the database holds
+export const createIndexedDbStorage = (stores: { workbooks: string; sheets: string }): WorkbookStorage => {
+  const readWorkbook = async (userId: string, workbookId: string) => {
+    const db = await openDatabase()
+    const transaction = db.transaction([stores.workbooks, stores.sheets], 'readonly')
+    const [record, sheetRecords] = await Promise.all([
+      result<WorkbookRecord | undefined>(transaction.objectStore(stores.workbooks).get(workbookId)),
+      result<SheetRecord[]>(transaction.objectStore(stores.sheets).index('workbookId').getAll(workbookId))
+    ])
+    return record?.userId === userId ? { record, sheetRecords } : null
+  }
+
+  return {
+    listWorkbooks: async (userId) => {
+      const db = await openDatabase()
+      const store = db.transaction(stores.workbooks, 'readonly').objectStore(stores.workbooks)
+      const records = await result<WorkbookRecord[]>(store.index('userId').getAll(userId))
+      return records.map(toSummary).sort(byMostRecent)
+    },
+
+    loadWorkbook: async (userId, workbookId) => {
+      const stored = await readWorkbook(userId, workbookId)
+      return stored ? fromRecords(stored.record, stored.sheetRecords) : null
+    },
+
+    saveWorkbook: async (userId, workbook) => {
+      const records = toRecords(userId, workbook)
+      const existing = await readWorkbook(userId, workbook.id)
+      const db = await openDatabase()
+      const transaction = db.transaction([stores.workbooks, stores.sheets], 'readwrite')
+      const sheets = transaction.objectStore(stores.sheets)
+      transaction.objectStore(stores.workbooks).put(records.workbook)
+      existing?.sheetRecords.forEach(sheet => sheets.delete(sheet.id))
+      records.sheets.forEach(sheet => sheets.put(sheet))
+      await completion(transaction)
+    },
+
+    renameWorkbook: async (userId, workbookId, name) => {
+      const existing = await readWorkbook(userId, workbookId)
+      if (!existing) return
+      const db = await openDatabase()
+      const transaction = db.transaction(stores.workbooks, 'readwrite')
+      transaction.objectStore(stores.workbooks).put({ ...existing.record, name, updatedAt: new Date().toISOString() })
+      await completion(transaction)
+    },
+
+    deleteWorkbook: async (userId, workbookId) => {
+      const existing = await readWorkbook(userId, workbookId)
+      if (!existing) return
+      const db = await openDatabase()
+      const transaction = db.transaction([stores.workbooks, stores.sheets], 'readwrite')
+      const sheets = transaction.objectStore(stores.sheets)
+      transaction.objectStore(stores.workbooks).delete(workbookId)
+      existing.sheetRecords.forEach(sheet => sheets.delete(sheet.id))
+      await completion(transaction)
+    }
+  }
+}
+
+export const createIndexedDbQueue = (): OperationQueue => ({
+  enqueue: async (operation) => {
+    const db = await openDatabase()
+    const transaction = db.transaction(OPERATIONS_STORE, 'readwrite')
+    // The store numbers operations itself
+    const { userId, workbookId, kind, name, createdAt } = operation
+    transaction.objectStore(OPERATIONS_STORE).add({ userId, workbookId, kind, name, createdAt })
+    await completion(transaction)
+  },
+
+  list: async (userId) => {
+    const db = await openDatabase()
+    const store = db.transaction(OPERATIONS_STORE, 'readonly').objectStore(OPERATIONS_STORE)
+    const operations = await result<PendingOperation[]>(store.index('userId').getAll(userId))
+    return operations.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+  },
+
+  remove: async (seq) => {
+    const db = await openDatabase()
+    const transaction = db.transaction(OPERATIONS_STORE, 'readwrite')
+    transaction.objectStore(OPERATIONS_STORE).delete(seq)
+    await completion(transaction)
+  }
+})
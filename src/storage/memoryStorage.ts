@@ -0,0 +1,100 @@
+import { OperationQueue, PendingOperation, VersionStorage, WorkbookStorage } from '../types/storage'
+import {
+  SheetRecord,
+  VersionRecord,
+  WorkbookRecord,
+  byMostRecent,
+  byNewestVersion,
+  fromRecords,
+  fromVersionRecord,
+  toRecords,
+  toSummary,
+  toVersionRecord,
+  versionSnapshot
+} from './records'
+
+// Holds the same records as the database in memory, so tests and offline runs exercise the
+// same conversions. Each instance starts empty.
+export const createMemoryStorage = (): WorkbookStorage => {
+  const workbooks = new Map<string, WorkbookRecord>()
+  const sheets = new Map<string, SheetRecord>()
+
+  const owned = (userId: string, workbookId: string) => {
+    const record = workbooks.get(workbookId)
+    return record?.userId === userId ? record : undefined
+  }
+  const sheetsOf = (workbookId: string) => [...sheets.values()].filter(sheet => sheet.workbookId === workbookId)
+
+  return {
+    listWorkbooks: async (userId) =>
+      [...workbooks.values()].filter(record => record.userId === userId).map(toSummary).sort(byMostRecent),
+
+    loadWorkbook: async (userId, workbookId) => {
+      const record = owned(userId, workbookId)
+      return record ? fromRecords(record, sheetsOf(workbookId)) : null
+    },
+
+    saveWorkbook: async (userId, workbook) => {
+      const existing = workbooks.get(workbook.id)
+      if (existing && existing.userId !== userId) throw new Error(`Workbook ${workbook.id} belongs to another user`)
+
+      const records = toRecords(userId, workbook)
+      workbooks.set(workbook.id, records.workbook)
+      sheetsOf(workbook.id).forEach(sheet => sheets.delete(sheet.id))
+      records.sheets.forEach(sheet => sheets.set(sheet.id, sheet))
+    },
+
+    renameWorkbook: async (userId, workbookId, name) => {
+      const record = owned(userId, workbookId)
+      if (record) workbooks.set(workbookId, { ...record, name, updatedAt: new Date().toISOString() })
+    },
+
+    deleteWorkbook: async (userId, workbookId) => {
+      if (!owned(userId, workbookId)) return
+      sheetsOf(workbookId).forEach(sheet => sheets.delete(sheet.id))
+      workbooks.delete(workbookId)
+    }
+  }
+}
+
+export const createMemoryQueue = (): OperationQueue => {
+  const operations: PendingOperation[] = []
+  let nextSeq = 1
+
+  return {
+    enqueue: async (operation) => {
+      operations.push({ ...operation, seq: nextSeq++ })
+    },
+    list: async (userId) => operations.filter(operation => operation.userId === userId),
+    remove: async (seq) => {
+      const index = operations.findIndex(operation => operation.seq === seq)
+      if (index !== -1) operations.splice(index, 1)
+    }
+  }
+}
+
+export const createMemoryVersionStorage = (): VersionStorage => {
+  const versions = new Map<string, VersionRecord>()
+  const owned = (userId: string, versionId: string) => {
+    const record = versions.get(versionId)
+    return record?.userId === userId ? record : undefined
+  }
+
+  return {
+    listVersions: async (userId, workbookId) =>
+      [...versions.values()]
+        .filter(record => record.userId === userId && record.workbookId === workbookId)
+        .map(fromVersionRecord)
+        .sort(byNewestVersion),
+    loadVersion: async (userId, versionId) => {
+      const record = owned(userId, versionId)
+      return record ? versionSnapshot(record) : null
+    },
+    saveVersion: async (userId, version, workbook) => {
+      versions.set(version.id, toVersionRecord(userId, version, workbook))
+    },
+    deleteVersion: async (userId, versionId) => {
+      if (owned(userId, versionId)) versions.delete(versionId)
+    }
+  }
+}
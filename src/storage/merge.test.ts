@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { mergeWorkbooks } from './merge'
+
+const date = new Date('2024-03-01T09:00:00.000Z')
+
+const cell = (id: string, row: number, col: number, input: string): Cell =>
+  input.startsWith('=')
+    ? { id, row, col, value: '', formula: input, type: 'formula' }
+    : { id, row, col, value: input, type: 'text' }
+
+const sheet = (id: string, cells: Cell[], fields: Partial<SpreadsheetData> = {}): SpreadsheetData => ({
+  id,
+  name: id,
+  cells: Object.fromEntries(cells.map(c => [c.id, c])),
+  rows: 100,
+  cols: 26,
+  createdAt: date,
+  updatedAt: date,
+  ...fields
+})
+
+const workbook = (sheets: SpreadsheetData[], fields: Partial<Workbook> = {}): Workbook => ({
+  id: 'wb-1',
+  name: 'Budget',
+  sheets,
+  definedNames: [],
+  namedFunctions: [],
+  createdAt: date,
+  updatedAt: date,
+  ...fields
+})
+
+// Cell inputs by id on the merged sheet
+const inputs = (merged: Workbook, sheetId = 's-1') =>
+  Object.fromEntries(
+    Object.values(merged.sheets.find(s => s.id === sheetId)!.cells).map(c => [c.id, c.formula ?? c.value])
+  )
+
+const base = workbook([sheet('s-1', [cell('A1', 0, 0, '1'), cell('B1', 0, 1, '2'), cell('C1', 0, 2, '3')])])
+
+describe('mergeWorkbooks', () => {
+  it('keeps changes each side made to different cells', () => {
+    const local = workbook([sheet('s-1', [cell('A1', 0, 0, '10'), cell('B1', 0, 1, '2'), cell('C1', 0, 2, '3')])])
+    const remote = workbook([sheet('s-1', [cell('A1', 0, 0, '1'), cell('B1', 0, 1, '=A1*2'), cell('D1', 0, 3, 'new')])])
+
+    const { workbook: merged, conflicts } = mergeWorkbooks(base, local, remote)
+    expect(inputs(merged)).toEqual({ A1: '10', B1: '=A1*2', D1: 'new' })
+    expect(conflicts).toEqual([])
+  })
+
+  it('keeps the local input and reports a conflict when both sides changed a cell', () => {
+    const local = workbook([sheet('s-1', [cell('A1', 0, 0, 'mine'), cell('B1', 0, 1, '2'), cell('C1', 0, 2, '3')])])
+    const remote = workbook([sheet('s-1', [cell('A1', 0, 0, 'theirs'), cell('B1', 0, 1, '2'), cell('C1', 0, 2, '3')])])
+
+    const { workbook: merged, conflicts } = mergeWorkbooks(base, local, remote)
+    expect(inputs(merged).A1).toBe('mine')
+    expect(conflicts).toHaveLength(1)
+    expect(conflicts[0]).toMatchObject({ sheetId: 's-1', cellId: 'A1' })
+    expect(conflicts[0].local?.value).toBe('mine')
+    expect(conflicts[0].remote?.value).toBe('theirs')
+  })
+
+  it('does not report a conflict when both sides made the same change', () => {
+    const changed = () => workbook([sheet('s-1', [cell('A1', 0, 0, 'same'), cell('B1', 0, 1, '2'), cell('C1', 0, 2, '3')])])
+    const { workbook: merged, conflicts } = mergeWorkbooks(base, changed(), changed())
+    expect(inputs(merged).A1).toBe('same')
+    expect(conflicts).toEqual([])
+  })
+
+  it('carries over sheets added elsewhere and the workbook name changed elsewhere', () => {
+    const added = sheet('s-2', [cell('A1', 0, 0, 'x')])
+    const remote = workbook([...base.sheets, added], { name: 'Budget 2024' })
+
+    const { workbook: merged } = mergeWorkbooks(base, base, remote)
+    expect(merged.name).toBe('Budget 2024')
+    expect(merged.sheets.map(s => s.id)).toEqual(['s-1', 's-2'])
+  })
+
+  it('drops a sheet deleted elsewhere unless it was changed here', () => {
+    const withTwo = workbook([...base.sheets, sheet('s-2', [cell('A1', 0, 0, 'x')])])
+    const remote = workbook(base.sheets)
+
+    expect(mergeWorkbooks(withTwo, withTwo, remote).workbook.sheets.map(s => s.id)).toEqual(['s-1'])
+
+    const editedHere = workbook([...base.sheets, sheet('s-2', [cell('A1', 0, 0, 'edited')])])
+    expect(mergeWorkbooks(withTwo, editedHere, remote).workbook.sheets.map(s => s.id)).toEqual(['s-1', 's-2'])
+  })
+})
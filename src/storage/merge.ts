@@ -0,0 +1,104 @@
+import { Cell, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { CellConflict } from '../types/storage'
+
+// What the user put in a cell. Spilled values and computed results are left out: they
+// follow from the inputs and are recalculated after a merge.
+const cellInput = (cell: Cell | undefined): string => {
+  if (!cell || cell.spillAnchor) return ''
+  const input = cell.formula ?? cell.value
+  return input || cell.style ? JSON.stringify([input, cell.style ?? null]) : ''
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b)
+
+// Three-way choice for a single value: whichever side changed it wins, this side on a tie
+const pick = <S, T>(base: S | null | undefined, local: S, remote: S, read: (side: S) => T): T =>
+  base && same(read(local), read(base)) ? read(remote) : read(local)
+
+const mergeCells = (
+  base: SpreadsheetData | undefined,
+  local: SpreadsheetData,
+  remote: SpreadsheetData,
+  conflicts: CellConflict[]
+): Record<string, Cell> => {
+  const cells: Record<string, Cell> = {}
+  const ids = new Set([...Object.keys(local.cells), ...Object.keys(remote.cells)])
+
+  for (const id of ids) {
+    const baseInput = cellInput(base?.cells[id])
+    const localInput = cellInput(local.cells[id])
+    const remoteInput = cellInput(remote.cells[id])
+
+    let cell: Cell | undefined
+    if (localInput === remoteInput || remoteInput === baseInput) {
+      cell = local.cells[id]
+    } else if (localInput === baseInput) {
+      cell = remote.cells[id]
+    } else {
+      cell = local.cells[id]
+      conflicts.push({ sheetId: local.id, sheetName: local.name, cellId: id, local: local.cells[id], remote: remote.cells[id] })
+    }
+
+    if (cell && cellInput(cell)) cells[id] = cell
+  }
+  return cells
+}
+
+const sheetChanged = (base: SpreadsheetData | undefined, sheet: SpreadsheetData) =>
+  !base || Object.keys({ ...base.cells, ...sheet.cells }).some(id => cellInput(base.cells[id]) !== cellInput(sheet.cells[id]))
+
+// Combines this device's copy of a workbook with a newer copy from elsewhere, given the
+// version both started from. Changes from either side carry over; a cell changed on both
+// sides keeps the local input and is reported as a conflict. Formulas need recalculating
+// afterwards, since their results may come from either side.
+export const mergeWorkbooks = (
+  base: Workbook | null,
+  local: Workbook,
+  remote: Workbook
+): { workbook: Workbook; conflicts: CellConflict[] } => {
+  const conflicts: CellConflict[] = []
+  const baseSheets = new Map(base?.sheets.map(sheet => [sheet.id, sheet]))
+  const remoteSheets = new Map(remote.sheets.map(sheet => [sheet.id, sheet]))
+  const localIds = new Set(local.sheets.map(sheet => sheet.id))
+
+  const sheets: SpreadsheetData[] = []
+  for (const sheet of local.sheets) {
+    const baseSheet = baseSheets.get(sheet.id)
+    const remoteSheet = remoteSheets.get(sheet.id)
+    if (!remoteSheet) {
+      // Deleted elsewhere: it stays only if it was changed here
+      if (!baseSheet || sheetChanged(baseSheet, sheet)) sheets.push(sheet)
+      continue
+    }
+    sheets.push({
+      ...sheet,
+      name: pick(baseSheet, sheet, remoteSheet, side => side.name),
+      color: pick(baseSheet, sheet, remoteSheet, side => side.color),
+      rows: Math.max(sheet.rows, remoteSheet.rows),
+      cols: Math.max(sheet.cols, remoteSheet.cols),
+      columnWidths: pick(baseSheet, sheet, remoteSheet, side => side.columnWidths),
+      rowHeights: pick(baseSheet, sheet, remoteSheet, side => side.rowHeights),
+      cells: mergeCells(baseSheet, sheet, remoteSheet, conflicts),
+      updatedAt: new Date()
+    })
+  }
+
+  // Sheets added elsewhere, or deleted here but changed elsewhere since
+  for (const sheet of remote.sheets) {
+    if (localIds.has(sheet.id)) continue
+    const baseSheet = baseSheets.get(sheet.id)
+    if (!baseSheet || sheetChanged(baseSheet, sheet)) sheets.push(sheet)
+  }
+
+  return {
+    workbook: {
+      ...local,
+      name: pick(base, local, remote, side => side.name),
+      sheets: sheets.length > 0 ? sheets : local.sheets,
+      definedNames: pick(base, local, remote, side => side.definedNames),
+      namedFunctions: pick(base, local, remote, side => side.namedFunctions),
+      updatedAt: new Date()
+    },
+    conflicts
+  }
+}
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import { Workbook } from '../types/spreadsheet'
+import { WorkbookStorage } from '../types/storage'
+import { createOfflineStorage } from './offlineStorage'
+import { createMemoryQueue, createMemoryStorage } from './memoryStorage'
+
+const USER = 'user-1'
+
+const workbook = (fields: Partial<Workbook> = {}): Workbook => ({
+  id: 'wb-1',
+  name: 'Budget',
+  sheets: [{
+    id: 's-1',
+    name: 'Sheet1',
+    cells: { A1: { id: 'A1', row: 0, col: 0, value: '1', type: 'number' } },
+    rows: 100,
+    cols: 26,
+    createdAt: new Date('2024-03-01T09:00:00.000Z'),
+    updatedAt: new Date('2024-03-01T09:00:00.000Z')
+  }],
+  definedNames: [],
+  namedFunctions: [],
+  createdAt: new Date('2024-03-01T09:00:00.000Z'),
+  updatedAt: new Date('2024-03-01T09:00:00.000Z'),
+  ...fields
+})
+
+// A copy with one number cell set, and saved at the given time
+const setCell = (source: Workbook, id: string, col: number, value: string, updatedAt = source.updatedAt): Workbook => ({
+  ...source,
+  sheets: [{
+    ...source.sheets[0],
+    cells: { ...source.sheets[0].cells, [id]: { id, row: 0, col, value, type: 'number' } }
+  }],
+  updatedAt: new Date(updatedAt)
+})
+
+// A remote store that can be taken offline
+const createRemote = () => {
+  const store = createMemoryStorage()
+  const state = { online: true }
+  const guard = <A extends unknown[], R>(call: (...args: A) => Promise<R>) => async (...args: A) => {
+    if (!state.online) throw new Error('Offline')
+    return call(...args)
+  }
+  const remote: WorkbookStorage = {
+    listWorkbooks: guard(store.listWorkbooks),
+    loadWorkbook: guard(store.loadWorkbook),
+    saveWorkbook: guard(store.saveWorkbook),
+    renameWorkbook: guard(store.renameWorkbook),
+    deleteWorkbook: guard(store.deleteWorkbook)
+  }
+  return { remote, store, state }
+}
+
+const createStorage = (remote: WorkbookStorage) =>
+  createOfflineStorage(remote, { local: createMemoryStorage(), synced: createMemoryStorage(), queue: createMemoryQueue() })
+
+describe('createOfflineStorage', () => {
+  it('queues saves made offline and replays them on sync', async () => {
+    const { remote, store, state } = createRemote()
+    const storage = createStorage(remote)
+    state.online = false
+
+    await storage.saveWorkbook(USER, workbook())
+    await storage.saveWorkbook(USER, setCell(workbook(), 'A1', 0, '2', new Date('2024-03-01T10:00:00.000Z')))
+    // One queued save per workbook: replaying reads the latest local copy
+    expect(await storage.pendingCount(USER)).toBe(1)
+    expect((await storage.loadWorkbook(USER, 'wb-1'))?.sheets[0].cells.A1.value).toBe('2')
+    await expect(storage.sync(USER)).rejects.toThrow('Offline')
+    expect(await storage.pendingCount(USER)).toBe(1)
+
+    state.online = true
+    expect(await storage.sync(USER)).toEqual([])
+    expect(await storage.pendingCount(USER)).toBe(0)
+    expect((await store.loadWorkbook(USER, 'wb-1'))?.sheets[0].cells.A1.value).toBe('2')
+  })
+
+  it('replays renames and deletes in order, a delete replacing earlier operations', async () => {
+    const { remote, store, state } = createRemote()
+    const storage = createStorage(remote)
+    await storage.saveWorkbook(USER, workbook())
+    await storage.sync(USER)
+
+    state.online = false
+    await storage.renameWorkbook(USER, 'wb-1', 'Renamed')
+    await storage.saveWorkbook(USER, workbook({ id: 'wb-2' }))
+    await storage.deleteWorkbook(USER, 'wb-2')
+    expect(await storage.pendingCount(USER)).toBe(2)
+    expect((await storage.listWorkbooks(USER)).map(summary => summary.name)).toEqual(['Renamed'])
+
+    state.online = true
+    await storage.sync(USER)
+    expect((await store.listWorkbooks(USER)).map(summary => summary.name)).toEqual(['Renamed'])
+  })
+
+  it('notifies subscribers when a change is queued', async () => {
+    const { remote } = createRemote()
+    const storage = createStorage(remote)
+    let calls = 0
+    const unsubscribe = storage.subscribe(() => calls++)
+    await storage.saveWorkbook(USER, workbook())
+    unsubscribe()
+    await storage.saveWorkbook(USER, workbook())
+    expect(calls).toBe(1)
+  })
+
+  it('merges with changes made elsewhere since the last sync', async () => {
+    const { remote, store, state } = createRemote()
+    const storage = createStorage(remote)
+    const start = setCell(workbook(), 'B1', 1, '1')
+    await storage.saveWorkbook(USER, start)
+    await storage.sync(USER)
+
+    // Another device changes B1 while this one, offline, changes A1
+    await store.saveWorkbook(USER, setCell(start, 'B1', 1, '5', new Date('2024-03-02T00:00:00.000Z')))
+    state.online = false
+    await storage.saveWorkbook(USER, setCell(start, 'A1', 0, '9'))
+
+    state.online = true
+    const [merged] = await storage.sync(USER)
+    expect(merged.conflicts).toEqual([])
+    const cells = (await store.loadWorkbook(USER, 'wb-1'))!.sheets[0].cells
+    expect([cells.A1.value, cells.B1.value]).toEqual(['9', '5'])
+    expect((await storage.loadWorkbook(USER, 'wb-1'))!.sheets[0].cells.B1.value).toBe('5')
+  })
+})
@@ -0,0 +1,153 @@
+import { MergedWorkbook, OperationQueue, PendingOperation, WorkbookStorage, WorkbookSummary } from '../types/storage'
+import { LOCAL_STORES, SYNCED_STORES, createIndexedDbQueue, createIndexedDbStorage, isIndexedDbAvailable } from './indexedDb'
+import { createMemoryQueue, createMemoryStorage } from './memoryStorage'
+import { mergeWorkbooks } from './merge'
+import { byMostRecent } from './records'
+
+export interface OfflineStorage extends WorkbookStorage {
+  // Replays queued changes to the remote store, oldest first. Stops at the first failure,
+  // leaving it and everything after it queued. Resolves with the workbooks that were merged.
+  sync: (userId: string) => Promise<MergedWorkbook[]>
+  pendingCount: (userId: string) => Promise<number>
+  // Called whenever a change is queued; returns the unsubscribe function
+  subscribe: (listener: () => void) => () => void
+}
+
+export interface LocalStores {
+  // The copies being edited
+  local: WorkbookStorage
+  // The last copy of each workbook the remote store agreed with
+  synced: WorkbookStorage
+  queue: OperationQueue
+}
+
+// IndexedDB where the browser has it; memory otherwise, which lasts until the page closes
+export const createLocalStores = (): LocalStores =>
+  isIndexedDbAvailable()
+    ? { local: createIndexedDbStorage(LOCAL_STORES), synced: createIndexedDbStorage(SYNCED_STORES), queue: createIndexedDbQueue() }
+    : { local: createMemoryStorage(), synced: createMemoryStorage(), queue: createMemoryQueue() }
+
+// Reads and writes go to the local stores first, so work carries on without a connection;
+// writes are queued and replayed to the remote store by sync()
+export const createOfflineStorage = (
+  remote: WorkbookStorage,
+  { local, synced, queue }: LocalStores = createLocalStores()
+): OfflineStorage => {
+  const listeners = new Set<() => void>()
+
+  const enqueue = async (operation: Omit<PendingOperation, 'createdAt'>) => {
+    const pending = await queue.list(operation.userId)
+    // Replaying a save reads the latest local copy, so one queued save per workbook is enough
+    for (const existing of pending) {
+      const superseded = existing.workbookId === operation.workbookId &&
+        (existing.kind === operation.kind || operation.kind === 'delete')
+      if (superseded && existing.seq !== undefined) await queue.remove(existing.seq)
+    }
+    await queue.enqueue({ ...operation, createdAt: new Date().toISOString() })
+    listeners.forEach(listener => listener())
+  }
+
+  const replaySave = async (userId: string, workbookId: string): Promise<MergedWorkbook | null> => {
+    const workbook = await local.loadWorkbook(userId, workbookId)
+    // Deleted here since it was queued
+    if (!workbook) return null
+
+    const base = await synced.loadWorkbook(userId, workbookId)
+    const current = await remote.loadWorkbook(userId, workbookId)
+    const changedElsewhere = current && (!base || current.updatedAt.getTime() !== base.updatedAt.getTime())
+
+    if (!current || !changedElsewhere) {
+      await remote.saveWorkbook(userId, workbook)
+      await synced.saveWorkbook(userId, workbook)
+      return null
+    }
+
+    const { workbook: merged, conflicts } = mergeWorkbooks(base, workbook, current)
+    await remote.saveWorkbook(userId, merged)
+    await synced.saveWorkbook(userId, merged)
+    await local.saveWorkbook(userId, merged)
+    return { local: workbook, workbook: merged, conflicts }
+  }
+
+  return {
+    // Remote workbooks not yet copied here are listed too, while the connection allows
+    listWorkbooks: async (userId) => {
+      const localList = await local.listWorkbooks(userId)
+      let remoteList: WorkbookSummary[] = []
+      try {
+        remoteList = await remote.listWorkbooks(userId)
+      } catch {
+        // Offline: the local copies are all there is
+      }
+
+      const deleted = new Set(
+        (await queue.list(userId)).filter(operation => operation.kind === 'delete').map(operation => operation.workbookId)
+      )
+      const byId = new Map<string, WorkbookSummary>()
+      for (const summary of [...remoteList, ...localList]) {
+        const known = byId.get(summary.id)
+        if (!deleted.has(summary.id) && (!known || summary.updatedAt > known.updatedAt)) byId.set(summary.id, summary)
+      }
+      return [...byId.values()].sort(byMostRecent)
+    },
+
+    // The local copy wins while it has changes waiting; otherwise the remote copy is
+    // fetched and kept for next time
+    loadWorkbook: async (userId, workbookId) => {
+      const cached = await local.loadWorkbook(userId, workbookId)
+      const pending = await queue.list(userId)
+      if (cached && pending.some(operation => operation.workbookId === workbookId)) return cached
+
+      try {
+        const fresh = await remote.loadWorkbook(userId, workbookId)
+        if (!fresh) return cached
+        await local.saveWorkbook(userId, fresh)
+        await synced.saveWorkbook(userId, fresh)
+        return fresh
+      } catch {
+        return cached
+      }
+    },
+
+    saveWorkbook: async (userId, workbook) => {
+      await local.saveWorkbook(userId, workbook)
+      await enqueue({ userId, workbookId: workbook.id, kind: 'save' })
+    },
+
+    renameWorkbook: async (userId, workbookId, name) => {
+      await local.renameWorkbook(userId, workbookId, name)
+      await enqueue({ userId, workbookId, kind: 'rename', name })
+    },
+
+    deleteWorkbook: async (userId, workbookId) => {
+      await local.deleteWorkbook(userId, workbookId)
+      await synced.deleteWorkbook(userId, workbookId)
+      await enqueue({ userId, workbookId, kind: 'delete' })
+    },
+
+    sync: async (userId) => {
+      const merged: MergedWorkbook[] = []
+      for (const operation of await queue.list(userId)) {
+        if (operation.kind === 'save') {
+          const result = await replaySave(userId, operation.workbookId)
+          if (result) merged.push(result)
+        } else if (operation.kind === 'rename' && operation.name) {
+          await remote.renameWorkbook(userId, operation.workbookId, operation.name)
+        } else if (operation.kind === 'delete') {
+          await remote.deleteWorkbook(userId, operation.workbookId)
+        }
+        if (operation.seq !== undefined) await queue.remove(operation.seq)
+      }
+      return merged
+    },
+
+    pendingCount: async (userId) => (await queue.list(userId)).length,
+
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    }
+  }
+}
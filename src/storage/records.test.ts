@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { Cell, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { fromRecords, toRecords, toVersionRecord, versionSnapshot } from './records'
+import { createMemoryStorage } from './memoryStorage'
+
+const created = new Date('2024-03-01T09:00:00.000Z')
+const updated = new Date('2024-03-02T17:30:00.000Z')
+
+const cell = (id: string, row: number, col: number, fields: Partial<Cell> = {}): Cell =>
+  ({ id, row, col, value: '', type: 'text', ...fields })
+
+const sheet = (id: string, name: string, fields: Partial<SpreadsheetData> = {}): SpreadsheetData => ({
+  id,
+  name,
+  cells: {},
+  rows: 100,
+  cols: 26,
+  createdAt: created,
+  updatedAt: updated,
+  ...fields
+})
+
+const workbook: Workbook = {
+  id: 'wb-1',
+  name: 'Budget',
+  sheets: [
+    sheet('s-1', 'Summary', {
+      color: '#22c55e',
+      columnWidths: { 0: 140, 3: 60 },
+      rowHeights: { 2: 48 },
+      cells: {
+        A1: cell('A1', 0, 0, { value: 'Total', style: { fontWeight: 'bold' } }),
+        B1: cell('B1', 0, 1, { value: '300', formula: '=SUM(Data!B1:B2)', type: 'formula' }),
+        C1: cell('C1', 0, 2, { value: '2024-01-15', type: 'date', numberFormat: 'date' })
+      }
+    }),
+    sheet('s-2', 'Data', {
+      rows: 1000,
+      cols: 40,
+      cells: {
+        B1: cell('B1', 0, 1, { value: '100', type: 'number' }),
+        B2: cell('B2', 1, 1, { value: '200', type: 'number' })
+      }
+    })
+  ],
+  definedNames: [{ name: 'Rate', formula: '=0.2', scope: 's-1' }],
+  namedFunctions: [{ name: 'DOUBLE', formula: '=LAMBDA(x, x * 2)' }],
+  createdAt: created,
+  updatedAt: updated
+}
+
+describe('records', () => {
+  it('round-trips a workbook with several sheets', () => {
+    const records = toRecords('user-1', workbook)
+    expect(records.sheets.map(record => record.position)).toEqual([0, 1])
+    expect(fromRecords(records.workbook, records.sheets)).toEqual(workbook)
+  })
+
+  it('puts sheets back in tab order whatever order the rows come in', () => {
+    const records = toRecords('user-1', workbook)
+    const loaded = fromRecords(records.workbook, [...records.sheets].reverse())
+    expect(loaded.sheets.map(loadedSheet => loadedSheet.name)).toEqual(['Summary', 'Data'])
+  })
+
+  it('loads a damaged column as empty', () => {
+    const records = toRecords('user-1', workbook)
+    const damaged = [{ ...records.sheets[0], cells: '{not json', columnWidths: '[' }, records.sheets[1]]
+    const loaded = fromRecords({ ...records.workbook, definedNames: '' }, damaged)
+    expect(loaded.sheets[0].cells).toEqual({})
+    expect(loaded.sheets[0].columnWidths).toBeUndefined()
+    expect(loaded.definedNames).toEqual([])
+    expect(loaded.sheets[1]).toEqual(workbook.sheets[1])
+  })
+
+  it('round-trips a version snapshot', () => {
+    const version = { id: 'v-1', workbookId: workbook.id, kind: 'named' as const, name: 'Before edits', createdAt: updated }
+    expect(versionSnapshot(toVersionRecord('user-1', version, workbook))).toEqual(workbook)
+  })
+
+  it('round-trips through the memory store, which keeps users apart', async () => {
+    const storage = createMemoryStorage()
+    await storage.saveWorkbook('user-1', workbook)
+    expect(await storage.loadWorkbook('user-1', workbook.id)).toEqual(workbook)
+    expect(await storage.loadWorkbook('user-2', workbook.id)).toBeNull()
+
+    // Saving again replaces the sheets, dropping any deleted since
+    await storage.saveWorkbook('user-1', { ...workbook, sheets: [workbook.sheets[1]] })
+    const reloaded = await storage.loadWorkbook('user-1', workbook.id)
+    expect(reloaded?.sheets.map(loadedSheet => loadedSheet.id)).toEqual(['s-2'])
+    expect(await storage.listWorkbooks('user-1')).toEqual([
+      { id: workbook.id, name: 'Budget', sheetCount: 1, updatedAt: updated }
+    ])
+  })
+})
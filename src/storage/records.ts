@@ -0,0 +1,142 @@
+import { DefinedName, NamedFunction, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { WorkbookSummary, WorkbookVersion } from '../types/storage'
+
+// Rows as the database holds them: dates as ISO strings, nested data as JSON text
+
+export interface WorkbookRecord {
+  id: string
+  userId: string
+  name: string
+  sheetCount: number
+  definedNames: string
+  namedFunctions: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SheetRecord {
+  id: string
+  workbookId: string
+  userId: string
+  name: string
+  // Tab order within the workbook
+  position: number
+  color: string | null
+  rows: number
+  cols: number
+  // Resized columns and rows by index, as JSON; null when none are
+  columnWidths: string | null
+  rowHeights: string | null
+  cells: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface VersionRecord {
+  id: string
+  workbookId: string
+  userId: string
+  kind: 'auto' | 'named'
+  name: string | null
+  author: string | null
+  // The workbook and sheet records of the copy, as JSON
+  snapshot: string
+  createdAt: string
+}
+
+// A damaged column loads as empty rather than losing the whole workbook
+const parseJson = <T>(text: string | null | undefined, fallback: T): T => {
+  if (!text) return fallback
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    return fallback
+  }
+}
+
+export const toRecords = (userId: string, workbook: Workbook): { workbook: WorkbookRecord; sheets: SheetRecord[] } => ({
+  workbook: {
+    id: workbook.id,
+    userId,
+    name: workbook.name,
+    sheetCount: workbook.sheets.length,
+    definedNames: JSON.stringify(workbook.definedNames),
+    namedFunctions: JSON.stringify(workbook.namedFunctions),
+    createdAt: workbook.createdAt.toISOString(),
+    updatedAt: workbook.updatedAt.toISOString()
+  },
+  sheets: workbook.sheets.map((sheet, position) => ({
+    id: sheet.id,
+    workbookId: workbook.id,
+    userId,
+    name: sheet.name,
+    position,
+    color: sheet.color ?? null,
+    rows: sheet.rows,
+    cols: sheet.cols,
+    columnWidths: sheet.columnWidths ? JSON.stringify(sheet.columnWidths) : null,
+    rowHeights: sheet.rowHeights ? JSON.stringify(sheet.rowHeights) : null,
+    cells: JSON.stringify(sheet.cells),
+    createdAt: sheet.createdAt.toISOString(),
+    updatedAt: sheet.updatedAt.toISOString()
+  }))
+})
+
+export const fromRecords = (record: WorkbookRecord, sheetRecords: SheetRecord[]): Workbook => ({
+  id: record.id,
+  name: record.name,
+  sheets: [...sheetRecords]
+    .sort((a, b) => Number(a.position) - Number(b.position))
+    .map((sheet): SpreadsheetData => ({
+      id: sheet.id,
+      name: sheet.name,
+      cells: parseJson(sheet.cells, {}),
+      rows: Number(sheet.rows),
+      cols: Number(sheet.cols),
+      color: sheet.color ?? undefined,
+      columnWidths: parseJson<Record<number, number> | undefined>(sheet.columnWidths, undefined),
+      rowHeights: parseJson<Record<number, number> | undefined>(sheet.rowHeights, undefined),
+      createdAt: new Date(sheet.createdAt),
+      updatedAt: new Date(sheet.updatedAt)
+    })),
+  definedNames: parseJson<DefinedName[]>(record.definedNames, []),
+  namedFunctions: parseJson<NamedFunction[]>(record.namedFunctions, []),
+  createdAt: new Date(record.createdAt),
+  updatedAt: new Date(record.updatedAt)
+})
+
+export const toSummary = (record: WorkbookRecord): WorkbookSummary => ({
+  id: record.id,
+  name: record.name,
+  sheetCount: Number(record.sheetCount),
+  updatedAt: new Date(record.updatedAt)
+})
+
+export const byMostRecent = (a: WorkbookSummary, b: WorkbookSummary) => b.updatedAt.getTime() - a.updatedAt.getTime()
+
+export const toVersionRecord = (userId: string, version: WorkbookVersion, workbook: Workbook): VersionRecord => ({
+  id: version.id,
+  workbookId: version.workbookId,
+  userId,
+  kind: version.kind,
+  name: version.name ?? null,
+  author: version.author ?? null,
+  snapshot: JSON.stringify(toRecords(userId, workbook)),
+  createdAt: version.createdAt.toISOString()
+})
+
+export const fromVersionRecord = (record: VersionRecord): WorkbookVersion => ({
+  id: record.id,
+  workbookId: record.workbookId,
+  kind: record.kind,
+  name: record.name ?? undefined,
+  author: record.author ?? undefined,
+  createdAt: new Date(record.createdAt)
+})
+
+export const versionSnapshot = (record: VersionRecord): Workbook | null => {
+  const snapshot = parseJson<ReturnType<typeof toRecords> | null>(record.snapshot, null)
+  return snapshot ? fromRecords(snapshot.workbook, snapshot.sheets) : null
+}
+
+export const byNewestVersion = (a: WorkbookVersion, b: WorkbookVersion) => b.createdAt.getTime() - a.createdAt.getTime()
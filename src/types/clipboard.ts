@@ -0,0 +1,33 @@
+import { CellStyle } from './spreadsheet'
+import { CellRange } from './selection'
+
+// One copied cell: what was typed into it, its computed value, the text it showed, and its look
+export interface ClipboardCell {
+  input: string
+  value: string
+  text: string
+  style?: CellStyle
+}
+
+// A copied block, row by row, with null for empty cells
+export interface ClipboardData {
+  cells: (ClipboardCell | null)[][]
+  // Set when the block was copied from this workbook. Pasted formulas shift by the
+  // distance from here, and a cut block is cleared from here.
+  source?: { sheetId: string; range: CellRange }
+  cut?: boolean
+}
+
+// What goes on the system clipboard, for other spreadsheet apps and for pasting back here
+export interface ClipboardPayload {
+  text: string
+  html?: string
+}
+
+export type PasteMode = 'all' | 'values' | 'formats' | 'formulas'
+
+export interface PasteOptions {
+  mode: PasteMode
+  // Rows become columns and columns rows
+  transpose: boolean
+}
@@ -0,0 +1,226 @@
+export type TokenType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'error'
+  | 'cell'
+  | 'columnRange'
+  | 'rowRange'
+  | 'sheet'
+  | 'identifier'
+  | 'function'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'comma'
+  | 'eof'
+
+export interface Token {
+  type: TokenType
+  value: string
+  position: number
+}
+
+export type UnaryOperator = '+' | '-'
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '^'
+  | '&'
+  | '='
+  | '<>'
+  | '<'
+  | '>'
+  | '<='
+  | '>='
+
+export interface NumberLiteralNode {
+  type: 'number'
+  value: number
+}
+
+export interface StringLiteralNode {
+  type: 'string'
+  value: string
+}
+
+export interface BooleanLiteralNode {
+  type: 'boolean'
+  value: boolean
+}
+
+export interface ErrorLiteralNode {
+  type: 'error'
+  code: ErrorCode
+}
+
+export interface CellAddress {
+  row: number
+  col: number
+}
+
+// $A$1 style anchoring: absolute parts stay put when a formula is copied or filled
+export interface CellReference extends CellAddress {
+  absoluteRow: boolean
+  absoluteCol: boolean
+}
+
+// References can name another sheet, as in Sheet2!B3; without one they mean the formula's own sheet
+export interface CellReferenceNode extends CellReference {
+  type: 'cell'
+  sheet?: string
+}
+
+// Whole columns (A:A) and whole rows (1:1) span the full sheet; evaluation clips them to the used area
+export type RangeKind = 'cells' | 'columns' | 'rows'
+
+export interface RangeReferenceNode {
+  type: 'range'
+  kind: RangeKind
+  start: CellReference
+  end: CellReference
+  sheet?: string
+}
+
+// A1# refers to the whole array that the formula in A1 spills
+export interface SpillReferenceNode extends CellReference {
+  type: 'spill'
+  sheet?: string
+}
+
+export interface NameNode {
+  type: 'name'
+  name: string
+}
+
+export interface UnaryExpressionNode {
+  type: 'unary'
+  operator: UnaryOperator
+  operand: FormulaNode
+}
+
+export interface PercentNode {
+  type: 'percent'
+  operand: FormulaNode
+}
+
+export interface BinaryExpressionNode {
+  type: 'binary'
+  operator: BinaryOperator
+  left: FormulaNode
+  right: FormulaNode
+}
+
+// An argument left out between commas, as in =IF(A1,,0)
+export interface MissingArgumentNode {
+  type: 'missing'
+}
+
+export interface FunctionCallNode {
+  type: 'call'
+  name: string
+  args: FormulaNode[]
+}
+
+// Calls whatever the callee evaluates to, as in =LAMBDA(x, x * 2)(5)
+export interface InvokeNode {
+  type: 'invoke'
+  callee: FormulaNode
+  args: FormulaNode[]
+}
+
+export type FormulaNode =
+  | NumberLiteralNode
+  | StringLiteralNode
+  | BooleanLiteralNode
+  | ErrorLiteralNode
+  | CellReferenceNode
+  | RangeReferenceNode
+  | SpillReferenceNode
+  | NameNode
+  | UnaryExpressionNode
+  | PercentNode
+  | BinaryExpressionNode
+  | FunctionCallNode
+  | InvokeNode
+  | MissingArgumentNode
+
+export type ErrorCode =
+  | '#DIV/0!'
+  | '#REF!'
+  | '#NAME?'
+  | '#VALUE!'
+  | '#N/A'
+  | '#NUM!'
+  | '#CIRC!'
+  | '#SPILL!'
+  | '#CALC!'
+
+export interface ErrorValue {
+  kind: 'error'
+  code: ErrorCode
+  message: string
+}
+
+// null represents an empty cell
+export type ScalarValue = number | string | boolean | null | ErrorValue
+
+export interface RangeValue {
+  kind: 'range'
+  start: CellAddress
+  end: CellAddress
+  values: ScalarValue[][]
+  // Set when the range is on another sheet, so OFFSET and the like read from the same place
+  sheet?: string
+}
+
+// A computed 2-D result, such as SORT's output or A1:A3*2, that has no address of its own
+export interface ArrayValue {
+  kind: 'array'
+  values: ScalarValue[][]
+}
+
+// A LAMBDA closure; call evaluates its body with the parameters bound to the given values
+export interface LambdaValue {
+  kind: 'lambda'
+  params: string[]
+  call: (args: FormulaValue[]) => FormulaValue
+}
+
+export type FormulaValue = ScalarValue | RangeValue | ArrayValue | LambdaValue
+
+export interface EvaluationContext {
+  getCellValue: (row: number, col: number) => ScalarValue
+  // The values in a rectangle of cells, row by row, with null for empty cells
+  getRangeValues: (start: CellAddress, end: CellAddress) => ScalarValue[][]
+  // Number of rows and columns in use, so whole-row and whole-column ranges stay small
+  getUsedBounds: () => { rows: number; cols: number }
+  // The area a dynamic array formula spills into, for A1# references
+  getSpillRange: (row: number, col: number) => { start: CellAddress; end: CellAddress } | null
+  // LET and LAMBDA variables in scope, then workbook names; undefined when nothing matches
+  resolveName: (name: string) => FormulaValue | undefined
+  // The cells of another sheet, for references such as Sheet2!B3; undefined when there is no such sheet
+  resolveSheet: (name: string) => EvaluationContext | undefined
+}
+
+// Display formats that formula results carry; plain numbers need none
+export type NumberFormat = 'date' | 'datetime'
+
+export interface FormulaFunction {
+  minArgs: number
+  maxArgs: number
+  // Recalculated on every change because what it reads cannot be known from the formula text
+  volatile?: boolean
+  // How a cell showing this function's result displays it, e.g. DATE's serial as a date
+  resultFormat?: NumberFormat
+  // Arguments arrive unevaluated so functions like IF can short-circuit; evaluate takes
+  // an optional scope so LET and LAMBDA can evaluate with their own variables bound
+  invoke: (
+    args: FormulaNode[],
+    evaluate: (node: FormulaNode, scope?: EvaluationContext) => FormulaValue,
+    context: EvaluationContext
+  ) => FormulaValue
+}
@@ -0,0 +1,53 @@
+import { CellStyle, DefinedName, NamedFunction, SpreadsheetData } from './spreadsheet'
+
+// What the user put in a cell, as opposed to what it computes
+export interface CellInput {
+  input: string
+  style?: CellStyle
+}
+
+// null on either side means the cell was empty
+export interface CellChange {
+  cellId: string
+  before: CellInput | null
+  after: CellInput | null
+}
+
+// A sheet's settings, apart from its cells
+export type SheetFields = Partial<Pick<SpreadsheetData, 'name' | 'color' | 'rows' | 'cols' | 'columnWidths' | 'rowHeights'>>
+
+export interface Sides<T> {
+  before: T
+  after: T
+}
+
+export type SheetChange =
+  // Added or deleted: the whole sheet on the side it exists on, null on the other
+  | { type: 'sheet'; sheetId: string; before: SpreadsheetData | null; after: SpreadsheetData | null }
+  // Kept: only the settings that changed, and the cells whose input changed
+  | { type: 'fields'; sheetId: string; before: SheetFields; after: SheetFields; cells: CellChange[] }
+
+// Only what a change to sheets and names touched, so undoing it leaves alone whatever
+// else has happened to the workbook since, such as a rename or changes merged from elsewhere
+export interface WorkbookChanges {
+  sheets: SheetChange[]
+  // Sheet ids in tab order, when sheets were added, deleted or moved
+  order?: Sides<string[]>
+  definedNames?: Sides<DefinedName[]>
+  namedFunctions?: Sides<NamedFunction[]>
+}
+
+// One undoable step
+export type Command =
+  // Edits, fills, pastes and the like: undone by putting the old inputs back and recalculating
+  | { type: 'cells'; label: string; sheetId: string; changes: CellChange[] }
+  // Changes to sheets and names
+  | { type: 'workbook'; label: string; changes: WorkbookChanges }
+  // Several commands undone and redone as one step
+  | { type: 'group'; label: string; commands: Command[] }
+
+export interface EditHistory {
+  // Most recent last
+  undo: Command[]
+  redo: Command[]
+}
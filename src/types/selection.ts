@@ -0,0 +1,15 @@
+import { CellAddress } from './formula'
+
+// A rectangle of cells. start is where the selection began, so it may be below or right of end.
+export interface CellRange {
+  start: CellAddress
+  end: CellAddress
+}
+
+export interface Selection {
+  // The cell that takes typing and shows in the formula bar; always inside the last range
+  active: CellAddress
+  // Disjoint ranges picked with Ctrl/Cmd+click, in the order they were added. Shift+click
+  // and Shift+arrows resize the last one.
+  ranges: CellRange[]
+}
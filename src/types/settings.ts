@@ -0,0 +1,7 @@
+// How the grid draws its cells: an element for each cell in view, or one canvas for all of them
+export type GridRenderer = 'dom' | 'canvas'
+
+// Preferences kept in this browser rather than with the workbook
+export interface AppSettings {
+  gridRenderer: GridRenderer
+}
@@ -1,3 +1,6 @@
+import { ErrorCode, NumberFormat } from './formula'
+import { CellRange } from './selection'
+
 export interface Cell {
   id: string
   row: number
@@ -6,6 +9,19 @@ export interface Cell {
   formula?: string
   type: 'text' | 'number' | 'formula' | 'date' | 'boolean'
   style?: CellStyle
+  // Set when a formula evaluates to an error; value then holds the error code
+  error?: CellError
+  // Set when a formula's numeric result is a date serial, such as =DATE(2024, 1, 15)
+  numberFormat?: NumberFormat
+  // Set on a dynamic array formula: the size of the array it spills, even while blocked
+  spill?: { rows: number; cols: number }
+  // Set on cells filled by another cell's spilled array: the id of that formula cell
+  spillAnchor?: string
+}
+
+export interface CellError {
+  code: ErrorCode
+  message: string
 }
 
 export interface CellStyle {
@@ -16,16 +32,88 @@ export interface CellStyle {
   fontSize?: number
 }
 
+// A workbook-level LAMBDA that any cell can call by name, e.g. =MARGIN(B2, C2)
+export interface NamedFunction {
+  name: string
+  // The definition, such as =LAMBDA(cost, price, (price - cost) / price)
+  formula: string
+  description?: string
+}
+
+// A name for a cell, range or constant, e.g. Revenue for =$B$2:$B$13 or TaxRate for =0.2
+export interface DefinedName {
+  name: string
+  formula: string
+  // The id of the sheet the name belongs to; it applies to the whole workbook when absent
+  scope?: string
+  comment?: string
+}
+
 export interface SpreadsheetData {
   id: string
   name: string
   cells: Record<string, Cell>
   rows: number
   cols: number
+  // Colour of the sheet's tab, as a CSS colour
+  color?: string
+  // Sizes in pixels of resized columns and rows, by index; the others keep the default
+  columnWidths?: Record<number, number>
+  rowHeights?: Record<number, number>
   createdAt: Date
   updatedAt: Date
 }
 
+export type LineAxis = 'rows' | 'columns'
+
+// Whole rows or columns inserted, deleted or moved on one sheet, counted from at.
+// A move's to is where the first moved line ends up, once the move is done.
+export type LineChange =
+  | { kind: 'insert'; axis: LineAxis; at: number; count: number }
+  | { kind: 'delete'; axis: LineAxis; at: number; count: number }
+  | { kind: 'move'; axis: LineAxis; at: number; count: number; to: number }
+
+// Rows or columns first to last, such as those a header menu acts on
+export interface LineSpan {
+  axis: LineAxis
+  first: number
+  last: number
+}
+
+// A sheet's cells indexed by position, for reading ranges without visiting every cell.
+// Stores are immutable: updates return a new store that shares what did not change.
+export interface CellStore {
+  // The cells by id, as the formula engine and saved sheets keep them
+  readonly cells: Readonly<Record<string, Cell>>
+  // Cells that hold something, per column sorted by row and per row sorted by column.
+  // Cleared cells with no formula, value or style are left out.
+  readonly columns: ReadonlyMap<number, readonly Cell[]>
+  readonly rows: ReadonlyMap<number, readonly Cell[]>
+  // The smallest range holding every indexed cell; null for an empty sheet
+  readonly usedRange: CellRange | null
+  readonly size: number
+}
+
+// Sheets in tab order, plus the names their formulas share
+export interface Workbook {
+  id: string
+  name: string
+  sheets: SpreadsheetData[]
+  definedNames: DefinedName[]
+  namedFunctions: NamedFunction[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+// What one sheet's formulas can see beyond its own cells: the other sheets by name, and the
+// workbook's names, with the sheet's own defined names taking precedence
+export interface FormulaEnvironment {
+  sheetId: string
+  sheets: SpreadsheetData[]
+  definedNames: DefinedName[]
+  namedFunctions: NamedFunction[]
+}
+
 export interface AIAnalysis {
   insights: string[]
   suggestions: string[]
@@ -0,0 +1,82 @@
+import { Cell, Workbook } from './spreadsheet'
+
+// What the "My workbooks" list shows, without loading any cells
+export interface WorkbookSummary {
+  id: string
+  name: string
+  sheetCount: number
+  updatedAt: Date
+}
+
+// Where workbooks live. Every call is scoped to one user, who only ever sees their own.
+export interface WorkbookStorage {
+  listWorkbooks: (userId: string) => Promise<WorkbookSummary[]>
+  // Resolves to null when the workbook does not exist or belongs to someone else
+  loadWorkbook: (userId: string, workbookId: string) => Promise<Workbook | null>
+  // Creates the workbook or replaces the stored copy, including sheets deleted since
+  saveWorkbook: (userId: string, workbook: Workbook) => Promise<void>
+  renameWorkbook: (userId: string, workbookId: string, name: string) => Promise<void>
+  deleteWorkbook: (userId: string, workbookId: string) => Promise<void>
+}
+
+export type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'error'
+
+// A copy of a whole workbook as it was at one moment: taken every so often while saving,
+// or by the user under a name. The copy itself is loaded separately.
+export interface WorkbookVersion {
+  id: string
+  workbookId: string
+  kind: 'auto' | 'named'
+  // Only named versions have one
+  name?: string
+  // Email of whoever was signed in when it was taken
+  author?: string
+  createdAt: Date
+}
+
+export interface VersionStorage {
+  // Newest first
+  listVersions: (userId: string, workbookId: string) => Promise<WorkbookVersion[]>
+  loadVersion: (userId: string, versionId: string) => Promise<Workbook | null>
+  saveVersion: (userId: string, version: WorkbookVersion, workbook: Workbook) => Promise<void>
+  deleteVersion: (userId: string, versionId: string) => Promise<void>
+}
+
+// A change made locally that the remote store has not seen yet
+export interface PendingOperation {
+  // Assigned by the queue, in the order operations were made
+  seq?: number
+  userId: string
+  workbookId: string
+  kind: 'save' | 'rename' | 'delete'
+  // For renames
+  name?: string
+  createdAt: string
+}
+
+export interface OperationQueue {
+  enqueue: (operation: PendingOperation) => Promise<void>
+  // Oldest first
+  list: (userId: string) => Promise<PendingOperation[]>
+  remove: (seq: number) => Promise<void>
+}
+
+// A cell both this device and another changed since they last agreed.
+// The local cell is kept until the user picks the remote one instead.
+export interface CellConflict {
+  sheetId: string
+  sheetName: string
+  cellId: string
+  local?: Cell
+  remote?: Cell
+}
+
+// A workbook whose queued changes met newer changes from elsewhere and had to be merged
+export interface MergedWorkbook {
+  // The local copy the merge started from
+  local: Workbook
+  workbook: Workbook
+  conflicts: CellConflict[]
+}
+
+export type SyncStatus = 'synced' | 'syncing' | 'pending' | 'offline' | 'error'
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Cell } from '../types/spreadsheet'
+import { CELL_FONT_SIZE, CELL_PADDING, MAX_COLUMN_WIDTH } from './gridLayout'
+import { fitLineSize } from './autoFit'
+import { createCellStore } from './cellStore'
+import { getCellId } from './spreadsheet'
+
+const cell = (row: number, col: number, value: string, style?: Cell['style']): Cell =>
+  ({ id: getCellId(row, col), row, col, value, type: 'text', style })
+
+const store = (...cells: Cell[]) => createCellStore(Object.fromEntries(cells.map(c => [c.id, c])))
+
+describe('fitLineSize', () => {
+  // Without a canvas to measure with, text is taken to be 0.6 of the font size per character
+  afterEach(() => vi.unstubAllGlobals())
+  const withoutCanvas = () => vi.stubGlobal('document', { createElement: () => ({ getContext: () => null }) })
+  const estimatedWidth = (text: string) => Math.ceil(text.length * CELL_FONT_SIZE * 0.6) + 2 * CELL_PADDING + 2
+
+  it('widens a column to its longest text', () => {
+    withoutCanvas()
+    const column = store(cell(0, 1, 'Pens'), cell(1, 1, 'Long product name'), cell(2, 2, 'Elsewhere in C'))
+    expect(fitLineSize(column, 'columns', 1)).toBe(estimatedWidth('Long product name'))
+  })
+
+  it('stops at the widest column allowed', () => {
+    withoutCanvas()
+    expect(fitLineSize(store(cell(0, 0, 'x'.repeat(500))), 'columns', 0)).toBe(MAX_COLUMN_WIDTH)
+  })
+
+  it('makes a row tall enough for its largest text, and no shorter than the default', () => {
+    expect(fitLineSize(store(cell(0, 0, 'Title', { fontSize: 24 }), cell(0, 1, 'small')), 'rows', 0))
+      .toBe(Math.ceil(24 * 1.4) + 12)
+    expect(fitLineSize(store(cell(0, 0, 'small')), 'rows', 0)).toBeNull()
+  })
+
+  it('is null for an empty line, which goes back to the default size', () => {
+    expect(fitLineSize(store(cell(0, 0, '')), 'columns', 0)).toBeNull()
+    expect(fitLineSize(store(), 'rows', 5)).toBeNull()
+  })
+})
@@ -0,0 +1,34 @@
+import { Cell, CellStore, LineAxis } from '../types/spreadsheet'
+import { formatCellValue } from './spreadsheet'
+import { CELL_FONT_SIZE, CELL_PADDING, FONT_FAMILY, ROW_HEIGHT, clampLineSize } from './gridLayout'
+
+// Text height as a share of the font size, and the space kept above and below it
+const LINE_HEIGHT = 1.4
+const ROW_PADDING = 6
+
+let measuringContext: CanvasRenderingContext2D | null = null
+
+const textWidth = (cell: Cell, text: string): number => {
+  if (!measuringContext) measuringContext = document.createElement('canvas').getContext('2d')
+  if (!measuringContext) return text.length * CELL_FONT_SIZE * 0.6
+  const bold = !!cell.error || cell.style?.fontWeight === 'bold'
+  measuringContext.font = `${bold ? 'bold ' : ''}${cell.style?.fontSize ?? CELL_FONT_SIZE}px ${FONT_FAMILY}`
+  return measuringContext.measureText(text).width
+}
+
+// The size that shows all of a column's text, or the height of a row's largest text. Null
+// when the line has nothing that needs more than the default, which it then goes back to.
+export const fitLineSize = (store: CellStore, axis: LineAxis, index: number): number | null => {
+  const cells = (axis === 'rows' ? store.rows : store.columns).get(index) ?? []
+  let needed = 0
+  for (const cell of cells) {
+    const text = formatCellValue(cell)
+    if (!text) continue
+    needed = Math.max(needed, axis === 'rows'
+      ? Math.ceil((cell.style?.fontSize ?? CELL_FONT_SIZE) * LINE_HEIGHT) + 2 * ROW_PADDING
+      // The border on each side as well as the padding
+      : Math.ceil(textWidth(cell, text)) + 2 * CELL_PADDING + 2)
+  }
+  if (needed === 0 || (axis === 'rows' && needed <= ROW_HEIGHT)) return null
+  return clampLineSize(axis, needed)
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../types/spreadsheet'
+import { cellsInRange, createCellStore, getCell, trimToUsedRange, updateCellStore } from './cellStore'
+import { getCellId } from './spreadsheet'
+
+const cell = (row: number, col: number, value = 'x'): Cell => ({ id: getCellId(row, col), row, col, value, type: 'text' })
+
+const byId = (list: Cell[]): Record<string, Cell> => Object.fromEntries(list.map(c => [c.id, c]))
+
+const ids = (list: readonly Cell[]) => list.map(c => c.id)
+
+describe('createCellStore', () => {
+  it('indexes cells that hold something by row and column', () => {
+    const store = createCellStore(byId([cell(4, 2), cell(0, 1), cell(9, 0, ''), cell(2, 1)]))
+    expect(store.size).toBe(3)
+    expect(ids(store.columns.get(1)!)).toEqual(['B1', 'B3'])
+    expect(store.usedRange).toEqual({ start: { row: 0, col: 1 }, end: { row: 4, col: 2 } })
+    expect(getCell(store, 9, 0)?.value).toBe('')
+  })
+
+  it('has no used range when empty', () => {
+    expect(createCellStore({}).usedRange).toBeNull()
+  })
+})
+
+describe('updateCellStore', () => {
+  const cells = byId([cell(0, 0), cell(1, 1), cell(5, 3)])
+  const store = createCellStore(cells)
+
+  it('reindexes only the cells that changed, keeping their order', () => {
+    const next = { ...cells, A3: cell(2, 0), D6: cell(5, 3, '') }
+    const updated = updateCellStore(store, next)
+    expect(updated.size).toBe(3)
+    expect(ids(updated.columns.get(0)!)).toEqual(['A1', 'A3'])
+    expect(updated.columns.has(3)).toBe(false)
+    expect(updated.usedRange).toEqual({ start: { row: 0, col: 0 }, end: { row: 2, col: 1 } })
+    expect(updated.rows.get(1)).toBe(store.rows.get(1))
+  })
+
+  it('drops cells taken out of the sheet', () => {
+    const { D6: _removed, ...rest } = cells
+    expect(updateCellStore(store, rest).size).toBe(2)
+    expect(updateCellStore(store, cells)).toBe(store)
+  })
+
+  it('ends with the same index as building afresh', () => {
+    const many = byId(Array.from({ length: 300 }, (_, i) => cell(i * 7 % 101, i % 13)))
+    const edited = { ...many, A1: cell(0, 0, 'edited'), Z200: cell(199, 25) }
+    const rebuilt = createCellStore(edited)
+    const updated = updateCellStore(createCellStore(many), edited)
+    expect(updated.size).toBe(rebuilt.size)
+    expect(updated.usedRange).toEqual(rebuilt.usedRange)
+    expect(ids(cellsInRange(updated, { start: { row: 0, col: 0 }, end: { row: 999, col: 25 } })))
+      .toEqual(ids(cellsInRange(rebuilt, { start: { row: 0, col: 0 }, end: { row: 999, col: 25 } })))
+  })
+})
+
+describe('cellsInRange and trimToUsedRange', () => {
+  const store = createCellStore(byId([cell(0, 0), cell(3, 2), cell(50000, 2), cell(3, 5)]))
+
+  it('finds the cells in a range row by row, whichever way it is drawn', () => {
+    expect(ids(cellsInRange(store, { start: { row: 4, col: 5 }, end: { row: 0, col: 0 } }))).toEqual(['A1', 'C4', 'F4'])
+    expect(ids(cellsInRange(store, { start: { row: 0, col: 2 }, end: { row: 99999, col: 2 } }))).toEqual(['C4', 'C50001'])
+    expect(cellsInRange(store, { start: { row: 10, col: 10 }, end: { row: 20, col: 20 } })).toEqual([])
+  })
+
+  it('cuts a range back to the used part of the sheet', () => {
+    expect(trimToUsedRange(store, { start: { row: 0, col: 0 }, end: { row: 99999, col: 25 } }))
+      .toEqual({ start: { row: 0, col: 0 }, end: { row: 50000, col: 5 } })
+    expect(trimToUsedRange(createCellStore({}), { start: { row: 2, col: 2 }, end: { row: 9, col: 9 } }))
+      .toEqual({ start: { row: 2, col: 2 }, end: { row: 2, col: 2 } })
+  })
+})
@@ -0,0 +1,187 @@
+import { Cell, CellStore } from '../types/spreadsheet'
+import { CellRange } from '../types/selection'
+import { getCellId } from './spreadsheet'
+import { normalizeRange } from './selection'
+
+type Index = Map<number, Cell[]>
+
+export const EMPTY_CELL_STORE: CellStore = {
+  cells: {},
+  columns: new Map(),
+  rows: new Map(),
+  usedRange: null,
+  size: 0
+}
+
+// Clearing a cell leaves it in the sheet with nothing in it; it does not count as used
+const holdsSomething = (cell: Cell): boolean =>
+  cell.value !== '' || !!cell.formula || !!cell.style || !!cell.spillAnchor
+
+// The first position in a sorted list whose key is at least key
+const lowerBound = (list: readonly Cell[], key: number, keyOf: (cell: Cell) => number): number => {
+  let low = 0
+  let high = list.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (keyOf(list[middle]) < key) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+const byRow = (cell: Cell) => cell.row
+const byCol = (cell: Cell) => cell.col
+
+// Index keys are not kept in order, and a long sheet has too many rows to spread into Math.min
+const keyBounds = (index: ReadonlyMap<number, unknown>): { min: number; max: number } => {
+  let min = Infinity
+  let max = -Infinity
+  index.forEach((_, key) => {
+    min = Math.min(min, key)
+    max = Math.max(max, key)
+  })
+  return { min, max }
+}
+
+const findUsedRange = (columns: ReadonlyMap<number, readonly Cell[]>, rows: ReadonlyMap<number, readonly Cell[]>): CellRange | null => {
+  if (columns.size === 0) return null
+  const colBounds = keyBounds(columns)
+  const rowBounds = keyBounds(rows)
+  return {
+    start: { row: rowBounds.min, col: colBounds.min },
+    end: { row: rowBounds.max, col: colBounds.max }
+  }
+}
+
+export const createCellStore = (cells: Record<string, Cell>): CellStore => {
+  const columns: Index = new Map()
+  const rows: Index = new Map()
+  let size = 0
+  for (const cell of Object.values(cells)) {
+    if (!holdsSomething(cell)) continue
+    if (!columns.has(cell.col)) columns.set(cell.col, [])
+    if (!rows.has(cell.row)) rows.set(cell.row, [])
+    columns.get(cell.col)!.push(cell)
+    rows.get(cell.row)!.push(cell)
+    size++
+  }
+  columns.forEach(list => list.sort((a, b) => a.row - b.row))
+  rows.forEach(list => list.sort((a, b) => a.col - b.col))
+  return { cells, columns, rows, usedRange: findUsedRange(columns, rows), size }
+}
+
+// Replaces cells in the index, copying only the columns and rows they are in. removed are
+// the cells being replaced or taken out; added are their replacements.
+const reindex = (store: CellStore, cells: Record<string, Cell>, removed: Cell[], added: Cell[]): CellStore => {
+  const columns: Index = new Map(store.columns as Index)
+  const rows: Index = new Map(store.rows as Index)
+  const copied = { columns: new Set<number>(), rows: new Set<number>() }
+  const editable = (index: Index, which: Set<number>, key: number): Cell[] => {
+    if (!which.has(key)) {
+      index.set(key, [...(index.get(key) ?? [])])
+      which.add(key)
+    }
+    return index.get(key)!
+  }
+  let size = store.size
+
+  for (const cell of removed) {
+    if (!holdsSomething(cell)) continue
+    const column = editable(columns, copied.columns, cell.col)
+    column.splice(lowerBound(column, cell.row, byRow), 1)
+    const row = editable(rows, copied.rows, cell.row)
+    row.splice(lowerBound(row, cell.col, byCol), 1)
+    size--
+  }
+  for (const cell of added) {
+    if (!holdsSomething(cell)) continue
+    const column = editable(columns, copied.columns, cell.col)
+    column.splice(lowerBound(column, cell.row, byRow), 0, cell)
+    const row = editable(rows, copied.rows, cell.row)
+    row.splice(lowerBound(row, cell.col, byCol), 0, cell)
+    size++
+  }
+
+  copied.columns.forEach(key => { if (columns.get(key)!.length === 0) columns.delete(key) })
+  copied.rows.forEach(key => { if (rows.get(key)!.length === 0) rows.delete(key) })
+  return { cells, columns, rows, usedRange: findUsedRange(columns, rows), size }
+}
+
+// The store for a newer version of the same cells. Cells the engine did not touch keep
+// their identity, so only those that changed are reindexed; when most of them did, as
+// on switching sheets, the index is built afresh.
+export const updateCellStore = (store: CellStore, cells: Record<string, Cell>): CellStore => {
+  if (cells === store.cells) return store
+  const removed: Cell[] = []
+  const added: Cell[] = []
+  for (const [id, cell] of Object.entries(cells)) {
+    const previous = store.cells[id]
+    if (previous === cell) continue
+    if (previous) removed.push(previous)
+    added.push(cell)
+  }
+  for (const [id, previous] of Object.entries(store.cells)) {
+    if (!(id in cells)) removed.push(previous)
+  }
+  if (removed.length + added.length > Math.max(64, store.size / 4)) return createCellStore(cells)
+  return reindex(store, cells, removed, added)
+}
+
+export const getCell = (store: CellStore, row: number, col: number): Cell | undefined =>
+  store.cells[getCellId(row, col)]
+
+// The part of a range inside the used range, or null when they do not meet
+const clipToUsed = (store: CellStore, range: CellRange): CellRange | null => {
+  if (!store.usedRange) return null
+  const { start, end } = normalizeRange(range)
+  const used = store.usedRange
+  const clipped = {
+    start: { row: Math.max(start.row, used.start.row), col: Math.max(start.col, used.start.col) },
+    end: { row: Math.min(end.row, used.end.row), col: Math.min(end.col, used.end.col) }
+  }
+  return clipped.start.row <= clipped.end.row && clipped.start.col <= clipped.end.col ? clipped : null
+}
+
+// The cells in a range that hold something, row by row. Walks whichever of the range's rows
+// or columns are fewer, so a whole column or row costs the cells in it rather than its length.
+export const cellsInRange = (store: CellStore, range: CellRange): Cell[] => {
+  const clipped = clipToUsed(store, range)
+  if (!clipped) return []
+  const { start, end } = clipped
+  const found: Cell[] = []
+
+  if (end.row - start.row <= end.col - start.col) {
+    for (let row = start.row; row <= end.row; row++) {
+      const list = store.rows.get(row)
+      if (!list) continue
+      for (let i = lowerBound(list, start.col, byCol); i < list.length && list[i].col <= end.col; i++) {
+        found.push(list[i])
+      }
+    }
+    return found
+  }
+
+  for (let col = start.col; col <= end.col; col++) {
+    const list = store.columns.get(col)
+    if (!list) continue
+    for (let i = lowerBound(list, start.row, byRow); i < list.length && list[i].row <= end.row; i++) {
+      found.push(list[i])
+    }
+  }
+  return found.sort((a, b) => a.row - b.row || a.col - b.col)
+}
+
+// A range cut back to end where the sheet's content does, keeping at least its first cell.
+// Selecting whole columns then copies or fills only as far down as there is data.
+export const trimToUsedRange = (store: CellStore, range: CellRange): CellRange => {
+  const { start, end } = normalizeRange(range)
+  const used = store.usedRange
+  if (!used) return { start, end: start }
+  return {
+    start,
+    end: {
+      row: Math.max(start.row, Math.min(end.row, used.end.row)),
+      col: Math.max(start.col, Math.min(end.col, used.end.col))
+    }
+  }
+}
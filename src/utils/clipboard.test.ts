@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../types/spreadsheet'
+import { ClipboardData } from '../types/clipboard'
+import { applyCellEdits, buildDependencyGraph } from '../formula/engine'
+import { createCellStore } from './cellStore'
+import { DEFAULT_PASTE, copyCells, parseTsv, pasteEdits, pastedSize, readClipboard, toPayload, toTsv } from './clipboard'
+
+const SHEET = { rows: 100, cols: 26 }
+
+// A calculated sheet from inputs by cell id
+const sheetCells = (inputs: Record<string, string>): Record<string, Cell> => {
+  const edits = Object.entries(inputs).map(([id, input]) => {
+    const col = id.charCodeAt(0) - 65
+    return { row: Number(id.slice(1)) - 1, col, input }
+  })
+  return applyCellEdits({}, buildDependencyGraph({}), edits)
+}
+
+const text = (rows: string[][]): ClipboardData => parseTsv(rows.map(row => row.join('\t')).join('\n'))
+
+describe('copyCells', () => {
+  it('copies inputs, values and shown text, trimmed to the used part of the range', () => {
+    const cells = sheetCells({ A1: 'Item', B1: 'Cost', A2: 'Pens', B2: '4', C2: '=B2*2' })
+    const data = copyCells(createCellStore(cells), { start: { row: 0, col: 0 }, end: { row: 999, col: 25 } }, 's-1')
+    expect(data.source).toEqual({ sheetId: 's-1', range: { start: { row: 0, col: 0 }, end: { row: 1, col: 2 } } })
+    expect(data.cells[1][2]).toMatchObject({ input: '=B2*2', value: '8', text: '8' })
+    expect(data.cells[0][2]).toBeNull()
+  })
+
+  it('leaves out the input of cells filled by a spill', () => {
+    const cells = sheetCells({ A1: '=SEQUENCE(2)' })
+    const data = copyCells(createCellStore(cells), { start: { row: 0, col: 0 }, end: { row: 1, col: 0 } }, 's-1')
+    expect(data.cells.map(row => row[0]?.input)).toEqual(['=SEQUENCE(2)', ''])
+  })
+})
+
+describe('tab-separated text', () => {
+  it('quotes fields holding tabs, line breaks or quotes, and reads them back', () => {
+    const field = (value: string) => ({ input: value, value, text: value })
+    const data: ClipboardData = { cells: [[field('plain'), field('a\tb')], [field('say "hi"'), field('two\nlines')]] }
+    const tsv = toTsv(data)
+    expect(tsv).toBe('plain\t"a\tb"\n"say ""hi"""\t"two\nlines"')
+    expect(parseTsv(`${tsv}\r\n`)).toEqual(data)
+  })
+
+  it('reads empty fields as empty cells', () => {
+    expect(parseTsv('a\t\tc').cells).toEqual([[expect.objectContaining({ text: 'a' }), null, expect.objectContaining({ text: 'c' })]])
+  })
+
+  it('writes an HTML table alongside, escaping its text and keeping styles', () => {
+    const data: ClipboardData = { cells: [[{ input: 'a<b', value: 'a<b', text: 'a<b', style: { fontWeight: 'bold' } }, null]] }
+    expect(toPayload(data).html).toContain('<td style="font-weight:bold">a&lt;b</td><td></td>')
+  })
+})
+
+describe('readClipboard', () => {
+  it('pastes from the copy made here while the clipboard still holds its text', () => {
+    const copied = { data: { ...text([['=A1']]), source: { sheetId: 's-1', range: { start: { row: 0, col: 1 }, end: { row: 0, col: 1 } } } }, text: '5' }
+    expect(readClipboard({ text: '5\r\n' }, copied)).toBe(copied.data)
+    expect(readClipboard({ text: '6' }, copied)?.source).toBeUndefined()
+    expect(readClipboard({ text: '' }, null)).toBeNull()
+  })
+})
+
+describe('pasteEdits', () => {
+  const copied: ClipboardData = {
+    cells: [
+      [{ input: '=A1+1', value: '2', text: '2', style: { textColor: '#f00' } }, { input: 'x', value: 'x', text: 'x' }],
+      [null, { input: '3', value: '3', text: '3' }]
+    ],
+    source: { sheetId: 's-1', range: { start: { row: 0, col: 1 }, end: { row: 1, col: 2 } } }
+  }
+
+  it('shifts formulas by how far each cell moved', () => {
+    expect(pasteEdits(copied, {}, { row: 4, col: 1 }, DEFAULT_PASTE, SHEET)).toEqual([
+      { row: 4, col: 1, input: '=A5+1', style: { textColor: '#f00' } },
+      { row: 4, col: 2, input: 'x', style: undefined },
+      { row: 5, col: 1, input: '', style: undefined },
+      { row: 5, col: 2, input: '3', style: undefined }
+    ])
+  })
+
+  it('pastes values, formats or a transposed block', () => {
+    expect(pasteEdits(copied, {}, { row: 4, col: 1 }, { mode: 'values', transpose: false }, SHEET)[0])
+      .toEqual({ row: 4, col: 1, input: '2', style: undefined })
+
+    const existing = sheetCells({ B5: 'kept' })
+    expect(pasteEdits(copied, existing, { row: 4, col: 1 }, { mode: 'formats', transpose: false }, SHEET))
+      .toEqual([{ row: 4, col: 1, input: 'kept', style: { textColor: '#f00' } }])
+
+    const transposed = pasteEdits(copied, {}, { row: 0, col: 4 }, { mode: 'all', transpose: true }, SHEET)
+    expect(transposed.map(({ row, col, input }) => [row, col, input])).toEqual([
+      [0, 4, '=D1+1'],
+      [1, 4, 'x'],
+      [0, 5, ''],
+      [1, 5, '3']
+    ])
+    expect(pastedSize(copied, true)).toEqual({ rows: 2, cols: 2 })
+  })
+
+  it('drops cells beyond the bounds it is given', () => {
+    const wide = text([Array.from({ length: 30 }, (_, i) => String(i))])
+    expect(pastedSize(wide, false)).toEqual({ rows: 1, cols: 30 })
+    expect(pasteEdits(wide, {}, { row: 0, col: 0 }, DEFAULT_PASTE, SHEET)).toHaveLength(26)
+    expect(pasteEdits(wide, {}, { row: 0, col: 0 }, DEFAULT_PASTE, { rows: 100, cols: 30 })).toHaveLength(30)
+  })
+})
@@ -0,0 +1,195 @@
+import { Cell, CellStore, CellStyle } from '../types/spreadsheet'
+import { CellAddress } from '../types/formula'
+import { CellRange } from '../types/selection'
+import { ClipboardCell, ClipboardData, ClipboardPayload, PasteOptions } from '../types/clipboard'
+import { CellEdit } from '../formula/engine'
+import { shiftFormula } from '../formula/referenceAdjuster'
+import { formatCellValue, getCellId } from './spreadsheet'
+import { getCell, trimToUsedRange } from './cellStore'
+
+export const DEFAULT_PASTE: PasteOptions = { mode: 'all', transpose: false }
+
+// Cells filled by another cell's spilled array hold no input of their own; pasting the
+// formula that spills them fills them again. Copying stops where the sheet's content does,
+// so whole rows and columns copy only their used part.
+export const copyCells = (
+  store: CellStore,
+  range: CellRange,
+  sheetId: string,
+  cut = false
+): ClipboardData => {
+  const { start, end } = trimToUsedRange(store, range)
+  const rows: (ClipboardCell | null)[][] = []
+  for (let row = start.row; row <= end.row; row++) {
+    const copied: (ClipboardCell | null)[] = []
+    for (let col = start.col; col <= end.col; col++) {
+      const cell = getCell(store, row, col)
+      copied.push(cell ? {
+        input: cell.spillAnchor ? '' : cell.formula ?? cell.value,
+        value: cell.value,
+        text: formatCellValue(cell),
+        style: cell.style
+      } : null)
+    }
+    rows.push(copied)
+  }
+  return { cells: rows, source: { sheetId, range: { start, end } }, cut }
+}
+
+// Excel quotes a field that holds a tab, line break or quote, doubling any quotes inside
+const quoteField = (text: string) => (/[\t\n\r"]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text)
+
+export const toTsv = (data: ClipboardData): string =>
+  data.cells.map(row => row.map(cell => quoteField(cell?.text ?? '')).join('\t')).join('\n')
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const styleAttribute = (style: CellStyle | undefined): string => {
+  if (!style) return ''
+  const rules = [
+    style.backgroundColor && `background-color:${style.backgroundColor}`,
+    style.textColor && `color:${style.textColor}`,
+    style.fontWeight && `font-weight:${style.fontWeight}`,
+    style.textAlign && `text-align:${style.textAlign}`,
+    style.fontSize && `font-size:${style.fontSize}px`
+  ].filter(Boolean)
+  return rules.length > 0 ? ` style="${escapeHtml(rules.join(';'))}"` : ''
+}
+
+// A plain table with inline styles, which Excel and Google Sheets both read
+export const toHtml = (data: ClipboardData): string => {
+  const rows = data.cells.map(row =>
+    `<tr>${row.map(cell => `<td${styleAttribute(cell?.style)}>${escapeHtml(cell?.text ?? '').replace(/\n/g, '<br>')}</td>`).join('')}</tr>`
+  )
+  return `<meta charset="utf-8"><table><tbody>${rows.join('')}</tbody></table>`
+}
+
+export const toPayload = (data: ClipboardData): ClipboardPayload => ({ text: toTsv(data), html: toHtml(data) })
+
+const pastedCell = (text: string, style?: CellStyle): ClipboardCell | null =>
+  text || style ? { input: text, value: text, text, style } : null
+
+export const parseTsv = (text: string): ClipboardData => {
+  const rows: string[][] = [[]]
+  let field = ''
+  let quoted = false
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n$/, '')
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === '\t') {
+      rows[rows.length - 1].push(field)
+      field = ''
+    } else if (char === '\n') {
+      rows[rows.length - 1].push(field)
+      rows.push([])
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  rows[rows.length - 1].push(field)
+
+  return { cells: rows.map(row => row.map(cellText => pastedCell(cellText))) }
+}
+
+const readStyle = (element: HTMLElement): CellStyle | undefined => {
+  const { backgroundColor, color, fontWeight, textAlign, fontSize } = element.style
+  const bold = fontWeight === 'bold' || Number(fontWeight) >= 600 || !!element.querySelector('b, strong')
+  const size = parseFloat(fontSize)
+  const style: CellStyle = {
+    ...(backgroundColor && backgroundColor !== 'transparent' && { backgroundColor }),
+    ...(color && { textColor: color }),
+    ...(bold && { fontWeight: 'bold' as const }),
+    ...((textAlign === 'left' || textAlign === 'center' || textAlign === 'right') && { textAlign }),
+    // Sheets apps write points; the grid sizes text in pixels
+    ...(size > 0 && { fontSize: Math.round(fontSize.endsWith('pt') ? size * 4 / 3 : size) })
+  }
+  return Object.keys(style).length > 0 ? style : undefined
+}
+
+// The first table in copied HTML, as Excel, Google Sheets and web pages put it on the
+// clipboard. Null when there is no table, so the plain text can be used instead.
+export const parseHtmlTable = (html: string): ClipboardData | null => {
+  const table = new DOMParser().parseFromString(html, 'text/html').querySelector('table')
+  if (!table) return null
+
+  const rows = Array.from(table.rows).map(row => {
+    const cells: (ClipboardCell | null)[] = []
+    for (const cell of Array.from(row.cells)) {
+      cell.querySelectorAll('br').forEach(br => br.replaceWith('\n'))
+      cells.push(pastedCell((cell.textContent ?? '').replace(/\u00a0/g, ' ').trim(), readStyle(cell)))
+      // Merged cells keep the columns after them in place
+      for (let span = 1; span < cell.colSpan; span++) cells.push(null)
+    }
+    return cells
+  })
+  return rows.length > 0 ? { cells: rows } : null
+}
+
+// Text that matches what was last copied here is pasted from that copy, which still has
+// its formulas; anything else is read from the HTML table or tab-separated text
+export const readClipboard = (
+  payload: ClipboardPayload,
+  copied: { data: ClipboardData; text: string } | null
+): ClipboardData | null => {
+  const text = payload.text.replace(/\r\n?/g, '\n')
+  if (copied && text.replace(/\n$/, '') === copied.text) return copied.data
+  const fromHtml = payload.html ? parseHtmlTable(payload.html) : null
+  if (fromHtml) return fromHtml
+  return text ? parseTsv(text) : null
+}
+
+// Where each copied cell lands, row by row from the target's top-left corner
+export const pastedSize = (data: ClipboardData, transpose: boolean): { rows: number; cols: number } => {
+  const rows = data.cells.length
+  const cols = Math.max(0, ...data.cells.map(row => row.length))
+  return transpose ? { rows: cols, cols: rows } : { rows, cols }
+}
+
+// The edits that paste a block at target. Formulas copied from this workbook shift by how far
+// each cell moved; the parts of a cell the paste mode leaves alone are kept from the target.
+// Cells beyond bounds are dropped.
+export const pasteEdits = (
+  data: ClipboardData,
+  cells: Record<string, Cell>,
+  target: CellAddress,
+  { mode, transpose }: PasteOptions,
+  bounds: { rows: number; cols: number }
+): CellEdit[] => {
+  const edits: CellEdit[] = []
+  const sourceStart = data.source?.range.start
+
+  data.cells.forEach((copiedRow, rowOffset) => copiedRow.forEach((copied, colOffset) => {
+    const row = target.row + (transpose ? colOffset : rowOffset)
+    const col = target.col + (transpose ? rowOffset : colOffset)
+    if (row >= bounds.rows || col >= bounds.cols) return
+
+    const existing = cells[getCellId(row, col)]
+    if (mode === 'formats') {
+      // The target keeps its input; only its look changes
+      if (!copied?.style || existing?.spillAnchor) return
+      edits.push({ row, col, input: existing?.formula ?? existing?.value ?? '', style: copied?.style })
+      return
+    }
+
+    let input = mode === 'values' ? copied?.value ?? '' : copied?.input ?? ''
+    if (mode !== 'values' && sourceStart && input.startsWith('=')) {
+      input = shiftFormula(input, row - (sourceStart.row + rowOffset), col - (sourceStart.col + colOffset))
+    }
+    edits.push({ row, col, input, style: mode === 'all' ? copied?.style : undefined })
+  }))
+  return edits
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import {
+  COLUMN_WIDTH,
+  HEADER_HEIGHT,
+  HEADER_WIDTH,
+  ROW_HEIGHT,
+  cellRect,
+  clampLineSize,
+  contentSize,
+  createGridLayout,
+  hitTest,
+  lineAt,
+  lineSize,
+  lineStart,
+  resizeEdgeAt,
+  spanSize,
+  visibleWindow
+} from './gridLayout'
+
+// A large sheet, with some rows and columns resized along the way
+const ROWS = 100000
+const COLS = 200
+const layout = createGridLayout(ROWS, COLS, { 10: 64, 50000: 16, 99999: 100 }, { 0: 200, 150: 40 })
+const viewport = { width: 1200, height: 800 }
+
+describe('createGridLayout', () => {
+  it('keeps only the resized lines and the room they add or take away', () => {
+    expect(layout.rows.resized).toEqual([10, 50000, 99999])
+    expect(layout.rows.length).toBe(ROWS * ROW_HEIGHT + 32 - 16 + 68)
+    expect(layout.cols.length).toBe(COLS * COLUMN_WIDTH + 120 - 40)
+    expect(contentSize(layout)).toEqual({ width: HEADER_WIDTH + layout.cols.length, height: HEADER_HEIGHT + layout.rows.length })
+  })
+
+  it('ignores sizes for lines past the end', () => {
+    expect(createGridLayout(10, 10, { 20: 100 }).rows.length).toBe(10 * ROW_HEIGHT)
+  })
+})
+
+describe('line positions', () => {
+  it('places lines before, between and after resized ones', () => {
+    expect(lineStart(layout.rows, 10)).toBe(10 * ROW_HEIGHT)
+    expect(lineStart(layout.rows, 11)).toBe(10 * ROW_HEIGHT + 64)
+    expect(lineStart(layout.rows, 60000)).toBe(60000 * ROW_HEIGHT + 32 - 16)
+    expect(lineSize(layout.rows, 50000)).toBe(16)
+    expect(lineSize(layout.rows, 50001)).toBe(ROW_HEIGHT)
+    expect(spanSize(layout.cols, 0, 1)).toBe(200 + COLUMN_WIDTH)
+  })
+
+  it('finds the line at any offset, down to the last one', () => {
+    for (const row of [0, 10, 11, 49999, 50000, 50001, 99998, 99999]) {
+      expect(lineAt(layout.rows, lineStart(layout.rows, row))).toBe(row)
+      expect(lineAt(layout.rows, lineStart(layout.rows, row) + lineSize(layout.rows, row) - 1)).toBe(row)
+    }
+    expect(lineAt(layout.rows, layout.rows.length)).toBe(ROWS)
+    expect(lineAt(layout.rows, -1)).toBe(-1)
+  })
+
+  it('clamps sizes typed or dragged to the allowed range', () => {
+    expect(clampLineSize('rows', 2)).toBe(16)
+    expect(clampLineSize('columns', 5000)).toBe(1000)
+    expect(clampLineSize('rows', 40.4)).toBe(40)
+  })
+})
+
+describe('visibleWindow', () => {
+  it('draws only the rows and columns in view, with overscan', () => {
+    expect(visibleWindow({ top: 0, left: 0 }, viewport, layout)).toEqual({ firstRow: 0, lastRow: 32, firstCol: 0, lastCol: 16 })
+    expect(visibleWindow({ top: 0, left: 0 }, viewport, layout, false)).toEqual({ firstRow: 0, lastRow: 24, firstCol: 0, lastCol: 13 })
+  })
+
+  it('stays small scrolled to the far corner of the sheet', () => {
+    const scroll = { top: layout.rows.length - viewport.height, left: layout.cols.length - viewport.width }
+    const window = visibleWindow(scroll, viewport, layout)
+    expect(window.lastRow).toBe(ROWS - 1)
+    expect(window.lastCol).toBe(COLS - 1)
+    expect(window.lastRow - window.firstRow).toBeLessThan(50)
+    expect(window.lastCol - window.firstCol).toBeLessThan(25)
+  })
+})
+
+describe('hitTest and resizeEdgeAt', () => {
+  it('finds cells and headers under the pointer far down the sheet', () => {
+    const scroll = { top: lineStart(layout.rows, 75000), left: lineStart(layout.cols, 150) }
+    expect(hitTest(HEADER_WIDTH + 1, HEADER_HEIGHT + 1, scroll, layout)).toEqual({ kind: 'cell', row: 75000, col: 150 })
+    expect(hitTest(1, HEADER_HEIGHT + ROW_HEIGHT + 1, scroll, layout)).toEqual({ kind: 'row', row: 75001 })
+    expect(hitTest(HEADER_WIDTH + 41, 1, scroll, layout)).toEqual({ kind: 'column', col: 151 })
+    expect(hitTest(1, 1, scroll, layout)).toEqual({ kind: 'corner' })
+  })
+
+  it('is null past the last row or column', () => {
+    const scroll = { top: layout.rows.length, left: 0 }
+    expect(hitTest(HEADER_WIDTH + 1, HEADER_HEIGHT + 1, scroll, layout)).toBeNull()
+  })
+
+  it('finds the header border a drag resizes', () => {
+    const scroll = { top: 0, left: 0 }
+    expect(resizeEdgeAt(HEADER_WIDTH + 199, 1, scroll, layout)).toEqual({ axis: 'columns', index: 0 })
+    expect(resizeEdgeAt(HEADER_WIDTH + 202, 1, scroll, layout)).toEqual({ axis: 'columns', index: 0 })
+    expect(resizeEdgeAt(HEADER_WIDTH + 240, 1, scroll, layout)).toBeNull()
+    expect(resizeEdgeAt(1, HEADER_HEIGHT + ROW_HEIGHT - 1, scroll, layout)).toEqual({ axis: 'rows', index: 0 })
+  })
+
+  it('gives cell rectangles in content coordinates', () => {
+    expect(cellRect(layout, 11, 1)).toEqual({
+      top: HEADER_HEIGHT + 10 * ROW_HEIGHT + 64,
+      left: HEADER_WIDTH + 200,
+      width: COLUMN_WIDTH,
+      height: ROW_HEIGHT
+    })
+  })
+})
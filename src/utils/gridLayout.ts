@@ -0,0 +1,214 @@
+import { LineAxis } from '../types/spreadsheet'
+
+// Sizes of rows and columns nobody has resized
+export const ROW_HEIGHT = 32
+export const COLUMN_WIDTH = 80
+export const HEADER_HEIGHT = 32
+export const HEADER_WIDTH = 56
+export const MIN_ROW_HEIGHT = 16
+export const MAX_ROW_HEIGHT = 400
+export const MIN_COLUMN_WIDTH = 24
+export const MAX_COLUMN_WIDTH = 1000
+// Cell text, shared by the canvas painter and auto-fit
+export const CELL_FONT_SIZE = 14
+export const CELL_PADDING = 8
+export const FONT_FAMILY = "'JetBrains Mono', monospace"
+// Rows and columns drawn beyond the edges, so fast scrolling does not show blank space
+const OVERSCAN_ROWS = 8
+const OVERSCAN_COLS = 3
+// How close to a header's border the pointer must be to drag it
+const RESIZE_GRIP = 4
+
+// The sizes along one axis. Most lines keep the default size, so only resized ones are
+// listed, in order, each with the space the resized lines before it add or take away.
+// Offsets are then found by binary search however long the sheet is.
+export interface AxisLayout {
+  count: number
+  size: number
+  resized: number[]
+  sizes: number[]
+  extraBefore: number[]
+  length: number
+}
+
+export interface GridLayout {
+  rows: AxisLayout
+  cols: AxisLayout
+}
+
+export interface GridWindow {
+  firstRow: number
+  lastRow: number
+  firstCol: number
+  lastCol: number
+}
+
+export interface ScrollPosition {
+  top: number
+  left: number
+}
+
+export interface ViewportSize {
+  width: number
+  height: number
+}
+
+export const clampLineSize = (axis: LineAxis, size: number): number =>
+  axis === 'rows'
+    ? Math.round(Math.min(MAX_ROW_HEIGHT, Math.max(MIN_ROW_HEIGHT, size)))
+    : Math.round(Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, size)))
+
+const createAxisLayout = (count: number, size: number, custom: Record<number, number> = {}): AxisLayout => {
+  const resized = Object.keys(custom).map(Number).filter(index => index < count).sort((a, b) => a - b)
+  const sizes = resized.map(index => custom[index])
+  const extraBefore: number[] = []
+  let extra = 0
+  sizes.forEach(lineSize => {
+    extraBefore.push(extra)
+    extra += lineSize - size
+  })
+  return { count, size, resized, sizes, extraBefore, length: count * size + extra }
+}
+
+export const createGridLayout = (
+  rows: number,
+  cols: number,
+  rowHeights?: Record<number, number>,
+  columnWidths?: Record<number, number>
+): GridLayout => ({
+  rows: createAxisLayout(rows, ROW_HEIGHT, rowHeights),
+  cols: createAxisLayout(cols, COLUMN_WIDTH, columnWidths)
+})
+
+// How many resized lines come before index
+const resizedBefore = (axis: AxisLayout, index: number): number => {
+  let low = 0
+  let high = axis.resized.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (axis.resized[middle] < index) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+export const lineSize = (axis: AxisLayout, index: number): number => {
+  const k = resizedBefore(axis, index)
+  return axis.resized[k] === index ? axis.sizes[k] : axis.size
+}
+
+// Where a line starts, from the start of the first one
+export const lineStart = (axis: AxisLayout, index: number): number => {
+  const k = resizedBefore(axis, index)
+  const extra = k > 0 ? axis.extraBefore[k - 1] + axis.sizes[k - 1] - axis.size : 0
+  return index * axis.size + extra
+}
+
+// The line an offset falls in; count when it is past the last one
+export const lineAt = (axis: AxisLayout, offset: number): number => {
+  if (offset < 0) return -1
+  let low = 0
+  let high = axis.count
+  while (low < high) {
+    const middle = (low + high + 1) >> 1
+    if (lineStart(axis, middle) <= offset) low = middle
+    else high = middle - 1
+  }
+  return low
+}
+
+// The space taken by lines first to last
+export const spanSize = (axis: AxisLayout, first: number, last: number): number =>
+  lineStart(axis, last + 1) - lineStart(axis, first)
+
+// The rows and columns to draw, overscan included
+export const visibleWindow = (
+  scroll: ScrollPosition,
+  viewport: ViewportSize,
+  layout: GridLayout,
+  overscan = true
+): GridWindow => {
+  const rowPad = overscan ? OVERSCAN_ROWS : 0
+  const colPad = overscan ? OVERSCAN_COLS : 0
+  return {
+    firstRow: Math.max(0, lineAt(layout.rows, scroll.top) - rowPad),
+    lastRow: Math.min(layout.rows.count - 1, lineAt(layout.rows, scroll.top + viewport.height) + rowPad),
+    firstCol: Math.max(0, lineAt(layout.cols, scroll.left) - colPad),
+    lastCol: Math.min(layout.cols.count - 1, lineAt(layout.cols, scroll.left + viewport.width) + colPad)
+  }
+}
+
+// Where a cell sits in the scrolled content, headers included
+export const cellRect = (layout: GridLayout, row: number, col: number) => ({
+  top: HEADER_HEIGHT + lineStart(layout.rows, row),
+  left: HEADER_WIDTH + lineStart(layout.cols, col),
+  width: lineSize(layout.cols, col),
+  height: lineSize(layout.rows, row)
+})
+
+export const contentSize = (layout: GridLayout): ViewportSize => ({
+  width: HEADER_WIDTH + layout.cols.length,
+  height: HEADER_HEIGHT + layout.rows.length
+})
+
+export type GridTarget =
+  | { kind: 'corner' }
+  | { kind: 'column'; col: number }
+  | { kind: 'row'; row: number }
+  | { kind: 'cell'; row: number; col: number }
+
+// What lies under a point in the viewport, with the headers fixed along the top and left.
+// Null past the last row or column.
+export const hitTest = (
+  x: number,
+  y: number,
+  scroll: ScrollPosition,
+  layout: GridLayout
+): GridTarget | null => {
+  const row = lineAt(layout.rows, y - HEADER_HEIGHT + scroll.top)
+  const col = lineAt(layout.cols, x - HEADER_WIDTH + scroll.left)
+  const rows = layout.rows.count
+  const cols = layout.cols.count
+  if (y < HEADER_HEIGHT && x < HEADER_WIDTH) return { kind: 'corner' }
+  if (y < HEADER_HEIGHT) return col < cols ? { kind: 'column', col } : null
+  if (x < HEADER_WIDTH) return row < rows ? { kind: 'row', row } : null
+  return row < rows && col < cols ? { kind: 'cell', row, col } : null
+}
+
+// The header border under a point in the viewport, named by the line it ends
+export const resizeEdgeAt = (
+  x: number,
+  y: number,
+  scroll: ScrollPosition,
+  layout: GridLayout
+): { axis: LineAxis; index: number } | null => {
+  const nearestEnd = (axis: AxisLayout, offset: number) => {
+    const index = lineAt(axis, offset)
+    if (index >= axis.count) return null
+    if (lineStart(axis, index + 1) - offset <= RESIZE_GRIP) return index
+    return index > 0 && offset - lineStart(axis, index) <= RESIZE_GRIP ? index - 1 : null
+  }
+  if (y < HEADER_HEIGHT && x >= HEADER_WIDTH) {
+    const index = nearestEnd(layout.cols, x - HEADER_WIDTH + scroll.left)
+    return index === null ? null : { axis: 'columns', index }
+  }
+  if (x < HEADER_WIDTH && y >= HEADER_HEIGHT) {
+    const index = nearestEnd(layout.rows, y - HEADER_HEIGHT + scroll.top)
+    return index === null ? null : { axis: 'rows', index }
+  }
+  return null
+}
+
+// Scrolls just far enough to bring a cell out from under the headers or past the edge
+export const scrollCellIntoView = (element: HTMLElement, layout: GridLayout, row: number, col: number) => {
+  const top = lineStart(layout.rows, row)
+  const left = lineStart(layout.cols, col)
+  const rowHeight = lineSize(layout.rows, row)
+  const columnWidth = lineSize(layout.cols, col)
+  const height = element.clientHeight - HEADER_HEIGHT
+  const width = element.clientWidth - HEADER_WIDTH
+  if (top < element.scrollTop) element.scrollTop = top
+  else if (top + rowHeight > element.scrollTop + height) element.scrollTop = top + rowHeight - height
+  if (left < element.scrollLeft) element.scrollLeft = left
+  else if (left + columnWidth > element.scrollLeft + width) element.scrollLeft = left + columnWidth - width
+}
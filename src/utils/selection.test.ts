@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import {
+  addToSelection,
+  extendSelection,
+  extendToColumn,
+  extendToRow,
+  fillSteps,
+  formatRange,
+  formatSelection,
+  isCellSelected,
+  isColumnSelected,
+  isRowSelected,
+  isSingleCell,
+  moveSelection,
+  normalizeRange,
+  rangeCells,
+  selectAll,
+  selectCell,
+  selectRange,
+  selectionTouchesColumn,
+  selectionTouchesRow
+} from './selection'
+
+const ROWS = 1000
+const COLS = 26
+
+describe('building a selection', () => {
+  it('stretches the last range on Shift+click and adds a range on Ctrl+click', () => {
+    const dragged = extendSelection(selectCell({ row: 1, col: 1 }), { row: 3, col: 2 })
+    expect(dragged.ranges).toEqual([{ start: { row: 1, col: 1 }, end: { row: 3, col: 2 } }])
+
+    const added = addToSelection(dragged, { start: { row: 5, col: 4 }, end: { row: 5, col: 4 } })
+    expect(added.active).toEqual({ row: 5, col: 4 })
+    expect(formatSelection(added)).toBe('B2:C4,E6')
+    expect(formatSelection(extendSelection(added, { row: 6, col: 5 }))).toBe('B2:C4,E6:F7')
+  })
+
+  it('selects whole rows and columns from where the last range began', () => {
+    const start = selectCell({ row: 2, col: 3 })
+    expect(formatSelection(extendToRow(start, 0, COLS))).toBe('A1:Z3')
+    expect(formatSelection(extendToColumn(start, 5, ROWS))).toBe('D1:F1000')
+    expect(formatSelection(selectAll(ROWS, COLS))).toBe('A1:Z1000')
+  })
+})
+
+describe('reading a selection', () => {
+  const selection = addToSelection(
+    selectRange({ row: 3, col: 2 }, { row: 1, col: 0 }),
+    { start: { row: 0, col: 5 }, end: { row: ROWS - 1, col: 5 } }
+  )
+
+  it('normalizes ranges drawn up or to the left', () => {
+    expect(normalizeRange(selection.ranges[0])).toEqual({ start: { row: 1, col: 0 }, end: { row: 3, col: 2 } })
+    expect(formatRange(selection.ranges[0])).toBe('A2:C4')
+    expect(formatRange(selection.ranges[0], true)).toBe('$A$2:$C$4')
+  })
+
+  it('tells which cells and headers are selected or touched', () => {
+    expect(isCellSelected(selection, 2, 1)).toBe(true)
+    expect(isCellSelected(selection, 500, 5)).toBe(true)
+    expect(isCellSelected(selection, 4, 1)).toBe(false)
+    expect(isColumnSelected(selection, 5, ROWS)).toBe(true)
+    expect(isColumnSelected(selection, 1, ROWS)).toBe(false)
+    expect(isRowSelected(selection, 2, COLS)).toBe(false)
+    expect(isRowSelected(selectAll(ROWS, COLS), 2, COLS)).toBe(true)
+    expect(selectionTouchesRow(selection, 999)).toBe(true)
+    expect(selectionTouchesColumn(selection, 3)).toBe(false)
+  })
+
+  it('knows a single cell from a range', () => {
+    expect(isSingleCell(selectCell({ row: 0, col: 0 }))).toBe(true)
+    expect(isSingleCell(selection)).toBe(false)
+    expect(rangeCells(selection.ranges[0])).toHaveLength(9)
+  })
+})
+
+describe('moveSelection', () => {
+  it('moves the active cell, stopping at the edges', () => {
+    expect(moveSelection(selectCell({ row: 0, col: 0 }), -1, 1, ROWS, COLS, false)).toEqual(selectCell({ row: 0, col: 1 }))
+    expect(moveSelection(selectCell({ row: 999, col: 25 }), 1, 1, ROWS, COLS, false).active).toEqual({ row: 999, col: 25 })
+  })
+
+  it('with Shift moves the far corner and keeps the active cell', () => {
+    const moved = moveSelection(selectRange({ row: 1, col: 1 }, { row: 2, col: 2 }), 1, 0, ROWS, COLS, true)
+    expect(moved.active).toEqual({ row: 1, col: 1 })
+    expect(formatSelection(moved)).toBe('B2:C4')
+  })
+})
+
+describe('fillSteps', () => {
+  it('copies the top row of a range down and its left column across', () => {
+    const range = { start: { row: 0, col: 0 }, end: { row: 2, col: 1 } }
+    expect(fillSteps(range, 'down')).toEqual([
+      { source: { row: 0, col: 0 }, targets: [{ row: 1, col: 0 }, { row: 2, col: 0 }] },
+      { source: { row: 0, col: 1 }, targets: [{ row: 1, col: 1 }, { row: 2, col: 1 }] }
+    ])
+    expect(fillSteps(range, 'right').map(step => step.targets)).toEqual([
+      [{ row: 0, col: 1 }],
+      [{ row: 1, col: 1 }],
+      [{ row: 2, col: 1 }]
+    ])
+  })
+
+  it('fills a single row or column from the cells just before it', () => {
+    expect(fillSteps({ start: { row: 4, col: 2 }, end: { row: 4, col: 2 } }, 'down'))
+      .toEqual([{ source: { row: 3, col: 2 }, targets: [{ row: 4, col: 2 }] }])
+    expect(fillSteps({ start: { row: 0, col: 2 }, end: { row: 0, col: 3 } }, 'down')).toEqual([])
+  })
+})
@@ -0,0 +1,159 @@
+import { CellAddress } from '../types/formula'
+import { CellRange, Selection } from '../types/selection'
+import { formatCellReference } from './spreadsheet'
+
+export const selectCell = (cell: CellAddress): Selection => ({
+  active: cell,
+  ranges: [{ start: cell, end: cell }]
+})
+
+export const selectRange = (start: CellAddress, end: CellAddress): Selection => ({
+  active: start,
+  ranges: [{ start, end }]
+})
+
+export const selectAll = (rows: number, cols: number): Selection =>
+  selectRange({ row: 0, col: 0 }, { row: rows - 1, col: cols - 1 })
+
+// Whole rows or columns, from the header of one to the header of another
+export const rowRange = (fromRow: number, toRow: number, cols: number): CellRange =>
+  ({ start: { row: fromRow, col: 0 }, end: { row: toRow, col: cols - 1 } })
+
+export const columnRange = (fromCol: number, toCol: number, rows: number): CellRange =>
+  ({ start: { row: 0, col: fromCol }, end: { row: rows - 1, col: toCol } })
+
+export const lastRange = (selection: Selection): CellRange =>
+  selection.ranges[selection.ranges.length - 1]
+
+// Shift+click: the last range stretches from where it began to the cell
+export const extendSelection = (selection: Selection, to: CellAddress): Selection => ({
+  ...selection,
+  ranges: [...selection.ranges.slice(0, -1), { start: lastRange(selection).start, end: to }]
+})
+
+// Shift+click or a drag across headers: whole rows or columns from where the last range began
+export const extendToRow = (selection: Selection, row: number, cols: number): Selection => ({
+  ...selection,
+  ranges: [...selection.ranges.slice(0, -1), rowRange(lastRange(selection).start.row, row, cols)]
+})
+
+export const extendToColumn = (selection: Selection, col: number, rows: number): Selection => ({
+  ...selection,
+  ranges: [...selection.ranges.slice(0, -1), columnRange(lastRange(selection).start.col, col, rows)]
+})
+
+// Ctrl/Cmd+click: another range alongside the ones already selected
+export const addToSelection = (selection: Selection, range: CellRange): Selection => ({
+  active: range.start,
+  ranges: [...selection.ranges, range]
+})
+
+// Top-left and bottom-right corners, whichever way the range was drawn
+export const normalizeRange = ({ start, end }: CellRange): CellRange => ({
+  start: { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+  end: { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) }
+})
+
+export const rangeContains = (range: CellRange, row: number, col: number): boolean => {
+  const { start, end } = normalizeRange(range)
+  return row >= start.row && row <= end.row && col >= start.col && col <= end.col
+}
+
+export const isCellSelected = (selection: Selection, row: number, col: number): boolean =>
+  selection.ranges.some(range => rangeContains(range, row, col))
+
+// A row or column is highlighted in its header when a selected range covers the whole of it
+export const isRowSelected = (selection: Selection, row: number, cols: number): boolean =>
+  selection.ranges.some(range => {
+    const { start, end } = normalizeRange(range)
+    return row >= start.row && row <= end.row && start.col === 0 && end.col >= cols - 1
+  })
+
+export const isColumnSelected = (selection: Selection, col: number, rows: number): boolean =>
+  selection.ranges.some(range => {
+    const { start, end } = normalizeRange(range)
+    return col >= start.col && col <= end.col && start.row === 0 && end.row >= rows - 1
+  })
+
+// Headers of rows and columns with any selected cell are shaded
+export const selectionTouchesRow = (selection: Selection, row: number): boolean =>
+  selection.ranges.some(range => {
+    const { start, end } = normalizeRange(range)
+    return row >= start.row && row <= end.row
+  })
+
+export const selectionTouchesColumn = (selection: Selection, col: number): boolean =>
+  selection.ranges.some(range => {
+    const { start, end } = normalizeRange(range)
+    return col >= start.col && col <= end.col
+  })
+
+export const isSingleCell = (selection: Selection): boolean => {
+  if (selection.ranges.length !== 1) return false
+  const { start, end } = selection.ranges[0]
+  return start.row === end.row && start.col === end.col
+}
+
+// Every cell of the range, row by row
+export const rangeCells = (range: CellRange): CellAddress[] => {
+  const { start, end } = normalizeRange(range)
+  const addresses: CellAddress[] = []
+  for (let row = start.row; row <= end.row; row++) {
+    for (let col = start.col; col <= end.col; col++) addresses.push({ row, col })
+  }
+  return addresses
+}
+
+// A1:B3, or $A$1:$B$3 for use in a formula that should not shift
+export const formatRange = (range: CellRange, absolute = false): string => {
+  const { start, end } = normalizeRange(range)
+  const format = (cell: CellAddress) => formatCellReference({ ...cell, absoluteRow: absolute, absoluteCol: absolute })
+  return start.row === end.row && start.col === end.col ? format(start) : `${format(start)}:${format(end)}`
+}
+
+// A1:B3,D5 - the way Excel writes a multi-range selection
+export const formatSelection = (selection: Selection): string =>
+  selection.ranges.map(range => formatRange(range)).join(',')
+
+const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max)
+
+// Arrow keys move the active cell; with Shift they move the far corner of the last range instead
+export const moveSelection = (
+  selection: Selection,
+  rowDelta: number,
+  colDelta: number,
+  rows: number,
+  cols: number,
+  extend: boolean
+): Selection => {
+  if (extend) {
+    const { end } = lastRange(selection)
+    return extendSelection(selection, { row: clamp(end.row + rowDelta, rows - 1), col: clamp(end.col + colDelta, cols - 1) })
+  }
+  const { active } = selection
+  return selectCell({ row: clamp(active.row + rowDelta, rows - 1), col: clamp(active.col + colDelta, cols - 1) })
+}
+
+// Ctrl+D and Ctrl+R: a range copies its top row down or its left column across; a single
+// row or column copies the cells just above or to the left of it
+export const fillSteps = (
+  range: CellRange,
+  direction: 'down' | 'right'
+): { source: CellAddress; targets: CellAddress[] }[] => {
+  const { start, end } = normalizeRange(range)
+  const steps: { source: CellAddress; targets: CellAddress[] }[] = []
+  if (direction === 'down') {
+    const sourceRow = start.row === end.row ? start.row - 1 : start.row
+    if (sourceRow < 0) return steps
+    for (let col = start.col; col <= end.col; col++) {
+      steps.push({ source: { row: sourceRow, col }, targets: rangeCells({ start: { row: sourceRow + 1, col }, end: { row: end.row, col } }) })
+    }
+  } else {
+    const sourceCol = start.col === end.col ? start.col - 1 : start.col
+    if (sourceCol < 0) return steps
+    for (let row = start.row; row <= end.row; row++) {
+      steps.push({ source: { row, col: sourceCol }, targets: rangeCells({ start: { row, col: sourceCol + 1 }, end: { row, col: end.col } }) })
+    }
+  }
+  return steps
+}
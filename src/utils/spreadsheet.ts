@@ -1,4 +1,7 @@
 import { Cell } from '../types/spreadsheet'
+import { CellReference } from '../types/formula'
+import { parseDateText } from '../formula/dates'
+import { DISPLAY_PATTERNS, formatWithPattern } from '../formula/numberFormat'
 
 export const columnToLetter = (col: number): string => {
   let result = ''
@@ -31,6 +34,35 @@ export const parseCellId = (cellId: string): { row: number; col: number } => {
   return { row, col }
 }
 
+// Parses A1, $A1, A$1 and $A$1 notation
+export const parseCellReference = (text: string): CellReference => {
+  const match = text.toUpperCase().match(/^(\$?)([A-Z]+)(\$?)(\d+)$/)
+  if (!match) throw new Error(`Invalid cell reference: ${text}`)
+
+  return {
+    row: parseInt(match[4]) - 1,
+    col: letterToColumn(match[2]),
+    absoluteCol: match[1] === '$',
+    absoluteRow: match[3] === '$'
+  }
+}
+
+export const formatCellReference = (ref: CellReference): string => {
+  return `${ref.absoluteCol ? '$' : ''}${columnToLetter(ref.col)}${ref.absoluteRow ? '$' : ''}${ref.row + 1}`
+}
+
+// Reads the sheet prefix of Sheet2!B3 or 'Q1 Sales'!A1, without the !
+export const parseSheetPrefix = (text: string): string => {
+  const name = text.endsWith('!') ? text.slice(0, -1) : text
+  return name.startsWith("'") ? name.slice(1, -1).replace(/''/g, "'") : name
+}
+
+// Writes a sheet prefix, quoting names a formula could not otherwise read back
+export const formatSheetPrefix = (name: string): string =>
+  /^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !/^[A-Za-z]{1,3}\d+$/.test(name)
+    ? `${name}!`
+    : `'${name.replace(/'/g, "''")}'!`
+
 export const detectCellType = (value: string): Cell['type'] => {
   if (!value || value.trim() === '') return 'text'
   
@@ -51,6 +83,7 @@ export const detectCellType = (value: string): Cell['type'] => {
 }
 
 export const formatCellValue = (cell: Cell): string => {
+  if (cell.error) return cell.error.code
   if (!cell.value) return ''
   
   switch (cell.type) {
@@ -59,43 +92,19 @@ export const formatCellValue = (cell: Cell): string => {
       return isNaN(num) ? cell.value : num.toLocaleString()
     }
     case 'date': {
-      try {
-        const date = new Date(cell.value)
-        return date.toLocaleDateString()
-      } catch {
-        return cell.value
-      }
+      // Parsed as a serial rather than with new Date(), which reads ISO dates as UTC
+      const serial = parseDateText(cell.value)
+      return serial === null ? cell.value : formatWithPattern(serial, DISPLAY_PATTERNS.date)
     }
     case 'boolean':
       return cell.value.toLowerCase() === 'true' ? 'TRUE' : 'FALSE'
     case 'formula':
-      return cell.value // Show the calculated result, not the formula
+      // Show the calculated result, not the formula; date serials show as dates
+      if (cell.numberFormat && cell.value !== '' && Number(cell.value) >= 0) {
+        return formatWithPattern(Number(cell.value), DISPLAY_PATTERNS[cell.numberFormat])
+      }
+      return cell.value
     default:
       return cell.value
   }
 }
-
-export const evaluateFormula = (formula: string, cells: Record<string, Cell>): string => {
-  // Simple formula evaluation - in a real app, you'd use a proper formula engine
-  if (!formula.startsWith('=')) return formula
-  
-  let expression = formula.substring(1)
-  
-  // Replace cell references with values
-  const cellRefRegex = /[A-Z]+\d+/g
-  expression = expression.replace(cellRefRegex, (match) => {
-    const cell = cells[match]
-    if (!cell || !cell.value) return '0'
-    
-    const numValue = parseFloat(cell.value)
-    return isNaN(numValue) ? '0' : numValue.toString()
-  })
-  
-  try {
-    // Basic math evaluation (unsafe in production - use a proper parser)
-    const result = Function(`"use strict"; return (${expression})`)()
-    return result.toString()
-  } catch {
-    return '#ERROR'
-  }
-}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { Cell } from '../types/spreadsheet'
+import { MAX_COLS, MAX_ROWS } from '../formula/parser'
+import { applyCellEdits, buildDependencyGraph } from '../formula/engine'
+import { DEFAULT_COLS, DEFAULT_ROWS, cellsReach, changeLines, createSheet, createWorkbook, grownSize } from './workbook'
+
+describe('grownSize', () => {
+  const sheet = { rows: DEFAULT_ROWS, cols: DEFAULT_COLS }
+
+  it('leaves a sheet alone while cells stay clear of its edge', () => {
+    expect(grownSize(sheet, 10, 10)).toEqual(sheet)
+    expect(grownSize(sheet, 980, 24)).toEqual(sheet)
+  })
+
+  it('adds a block of rows or columns once cells land near the edge', () => {
+    expect(grownSize(sheet, 990, 1)).toEqual({ rows: 990 + DEFAULT_ROWS, cols: DEFAULT_COLS })
+    expect(grownSize(sheet, 1, 30)).toEqual({ rows: DEFAULT_ROWS, cols: 30 + DEFAULT_COLS })
+  })
+
+  it('reaches 100,000 rows by 200 columns as a sheet fills', () => {
+    let size = sheet
+    for (let reach = { rows: 0, cols: 0 }; reach.rows < 100000 || reach.cols < 200; ) {
+      reach = { rows: Math.min(100000, size.rows), cols: Math.min(200, size.cols) }
+      size = grownSize(size, reach.rows, reach.cols)
+    }
+    expect(size.rows).toBeGreaterThanOrEqual(100000)
+    expect(size.cols).toBeGreaterThanOrEqual(200)
+  })
+
+  it('never shrinks a sheet, nor grows it past the largest sheet references reach', () => {
+    expect(grownSize({ rows: 5000, cols: 60 }, 10, 10)).toEqual({ rows: 5000, cols: 60 })
+    expect(grownSize(sheet, MAX_ROWS, MAX_COLS)).toEqual({ rows: MAX_ROWS, cols: MAX_COLS })
+  })
+})
+
+describe('cellsReach', () => {
+  it('is one past the last row and column used', () => {
+    expect(cellsReach([{ row: 4, col: 0 }, { row: 0, col: 7 }])).toEqual({ rows: 5, cols: 8 })
+    expect(cellsReach([])).toEqual({ rows: 0, cols: 0 })
+  })
+})
+
+describe('changeLines', () => {
+  const setup = () => {
+    const data = createSheet('Data', applyCellEdits({}, buildDependencyGraph({}), [
+      { row: 0, col: 0, input: 'a' },
+      { row: 1, col: 0, input: 'b' },
+      { row: 2, col: 0, input: 'c' },
+      { row: 3, col: 0, input: '=COUNTA(A1:A3)' }
+    ]))
+    const summary = createSheet('Summary', applyCellEdits({}, buildDependencyGraph({}), [{ row: 0, col: 0, input: '=Data!A3' }]))
+    const workbook = createWorkbook('Book', [{ ...data, rowHeights: { 2: 40 } }, summary])
+    return { ...workbook, definedNames: [{ name: 'Items', formula: '=Data!$A$1:$A$3' }] }
+  }
+  const inputs = (cells: Record<string, Cell>) =>
+    Object.fromEntries(Object.values(cells).map(cell => [cell.id, cell.formula ?? cell.value]))
+
+  it('deletes rows, shifting cells, sizes and every reference to them', () => {
+    const before = setup()
+    const after = changeLines(before, before.sheets[0].id, { kind: 'delete', axis: 'rows', at: 1, count: 1 })
+    const [data, summary] = after.sheets
+    expect(inputs(data.cells)).toEqual({ A1: 'a', A2: 'c', A3: '=COUNTA(A1:A2)' })
+    expect(data.rows).toBe(DEFAULT_ROWS - 1)
+    expect(data.rowHeights).toEqual({ 1: 40 })
+    expect(summary.cells.A1.formula).toBe('=Data!A2')
+    expect(after.definedNames[0].formula).toBe('=Data!$A$1:$A$2')
+  })
+
+  it('moves rows, with references following the cells', () => {
+    const before = setup()
+    const after = changeLines(before, before.sheets[0].id, { kind: 'move', axis: 'rows', at: 2, count: 1, to: 0 })
+    expect(inputs(after.sheets[0].cells)).toMatchObject({ A1: 'c', A2: 'a', A3: 'b' })
+    expect(after.sheets[1].cells.A1.formula).toBe('=Data!A1')
+  })
+
+  it('leaves unprefixed references on other sheets alone', () => {
+    const before = setup()
+    const after = changeLines(before, before.sheets[1].id, { kind: 'insert', axis: 'columns', at: 0, count: 1 })
+    expect(after.sheets[1].cells.B1.formula).toBe('=Data!A3')
+    expect(after.sheets[0].cells.A4.formula).toBe('=COUNTA(A1:A3)')
+  })
+})
@@ -0,0 +1,220 @@
+import { Cell, LineChange, SpreadsheetData, Workbook } from '../types/spreadsheet'
+import { adjustLineReferences, mapLineIndex, renameSheetReferences } from '../formula/referenceAdjuster'
+import { MAX_COLS, MAX_ROWS } from '../formula/parser'
+import { getCellId } from './spreadsheet'
+
+export const DEFAULT_ROWS = 1000
+export const DEFAULT_COLS = 26
+
+export const SHEET_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899']
+
+const MAX_SHEET_NAME_LENGTH = 31
+
+export const createId = (prefix: string): string =>
+  `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+
+export const createSheet = (name: string, cells: SpreadsheetData['cells'] = {}): SpreadsheetData => {
+  const now = new Date()
+  return { id: createId('sheet'), name, cells, rows: DEFAULT_ROWS, cols: DEFAULT_COLS, createdAt: now, updatedAt: now }
+}
+
+export const createWorkbook = (name: string, sheets: SpreadsheetData[] = [createSheet('Sheet1')]): Workbook => {
+  const now = new Date()
+  return { id: createId('workbook'), name, sheets, definedNames: [], namedFunctions: [], createdAt: now, updatedAt: now }
+}
+
+export const getSheet = (workbook: Workbook, sheetId: string): SpreadsheetData | undefined =>
+  workbook.sheets.find(sheet => sheet.id === sheetId)
+
+export const findSheetByName = (workbook: Workbook, name: string): SpreadsheetData | undefined =>
+  workbook.sheets.find(sheet => sheet.name.toUpperCase() === name.toUpperCase())
+
+// Excel's rules, so names survive a round trip through references such as 'Q1 Sales'!A1
+export const validateSheetName = (workbook: Workbook, name: string, sheetId?: string): string | null => {
+  const trimmed = name.trim()
+  if (!trimmed) return 'A sheet name cannot be empty'
+  if (trimmed.length > MAX_SHEET_NAME_LENGTH) return `Sheet names can be at most ${MAX_SHEET_NAME_LENGTH} characters`
+  if (/[:\\/?*[\]]/.test(trimmed)) return 'Sheet names cannot contain : \\ / ? * [ or ]'
+  if (trimmed.startsWith("'") || trimmed.endsWith("'")) return "Sheet names cannot start or end with '"
+  const existing = findSheetByName(workbook, trimmed)
+  if (existing && existing.id !== sheetId) return `There is already a sheet named "${existing.name}"`
+  return null
+}
+
+// Sheet1, Sheet2, ... skipping names already taken
+export const nextSheetName = (workbook: Workbook, base = 'Sheet'): string => {
+  let n = workbook.sheets.length + 1
+  while (findSheetByName(workbook, `${base}${n}`)) n++
+  return `${base}${n}`
+}
+
+const touch = (workbook: Workbook, sheets: SpreadsheetData[]): Workbook => ({
+  ...workbook,
+  sheets,
+  updatedAt: new Date()
+})
+
+export const updateSheet = (
+  workbook: Workbook,
+  sheetId: string,
+  changes: Partial<Omit<SpreadsheetData, 'id'>>
+): Workbook =>
+  touch(workbook, workbook.sheets.map(sheet =>
+    sheet.id === sheetId ? { ...sheet, ...changes, updatedAt: new Date() } : sheet
+  ))
+
+// Once cells land this close to a sheet's last row or column, it grows by another block
+// of rows or columns, so there is always room to keep typing, filling or pasting past them
+const EDGE_MARGIN = { rows: 20, cols: 2 }
+
+const growAxis = (size: number, reach: number, margin: number, block: number, max: number) =>
+  reach + margin <= size ? size : Math.min(max, Math.max(size, reach + block))
+
+// The size a sheet needs once cells reach the given number of rows and columns. Sheets
+// grow as they fill, never shrink, and stop where references do.
+export const grownSize = (sheet: Pick<SpreadsheetData, 'rows' | 'cols'>, rows: number, cols: number) => ({
+  rows: growAxis(sheet.rows, rows, EDGE_MARGIN.rows, DEFAULT_ROWS, MAX_ROWS),
+  cols: growAxis(sheet.cols, cols, EDGE_MARGIN.cols, DEFAULT_COLS, MAX_COLS)
+})
+
+// One past the last row and column any of the cells is in
+export const cellsReach = (cells: Pick<Cell, 'row' | 'col'>[]): { rows: number; cols: number } =>
+  cells.reduce(
+    (reach, cell) => ({ rows: Math.max(reach.rows, cell.row + 1), cols: Math.max(reach.cols, cell.col + 1) }),
+    { rows: 0, cols: 0 }
+  )
+
+export const addSheet = (workbook: Workbook, sheet: SpreadsheetData): Workbook =>
+  touch(workbook, [...workbook.sheets, sheet])
+
+// Renames a sheet and every formula and defined name that refers to it by name
+export const renameSheet = (workbook: Workbook, sheetId: string, name: string): Workbook => {
+  const sheet = getSheet(workbook, sheetId)
+  if (!sheet) return workbook
+  const rename = (formula: string) => renameSheetReferences(formula, sheet.name, name)
+
+  const sheets = workbook.sheets.map(current => {
+    const cells = Object.fromEntries(Object.entries(current.cells).map(([id, cell]) => [
+      id,
+      cell.formula ? { ...cell, formula: rename(cell.formula) } : cell
+    ]))
+    return current.id === sheetId ? { ...current, name, cells, updatedAt: new Date() } : { ...current, cells }
+  })
+
+  return {
+    ...touch(workbook, sheets),
+    definedNames: workbook.definedNames.map(definedName => ({ ...definedName, formula: rename(definedName.formula) })),
+    namedFunctions: workbook.namedFunctions.map(fn => ({ ...fn, formula: rename(fn.formula) }))
+  }
+}
+
+// Inserts, deletes or moves whole rows or columns of a sheet. Its cells shift with them, and
+// every formula and defined name that refers to them follows; formulas still need recalculating.
+export const changeLines = (workbook: Workbook, sheetId: string, change: LineChange): Workbook => {
+  const sheet = getSheet(workbook, sheetId)
+  if (!sheet) return workbook
+  const sheetName = sheet.name.toUpperCase()
+  // Unprefixed references point into the changed sheet only from its own cells and names
+  const adjust = (formula: string, local: boolean) =>
+    adjustLineReferences(formula, change, name => (name ? name.toUpperCase() === sheetName : local))
+  const adjustCell = (cell: Cell, local: boolean): Cell => {
+    const formula = cell.formula && adjust(cell.formula, local)
+    return formula === cell.formula ? cell : { ...cell, formula }
+  }
+
+  const shifted: Record<string, Cell> = {}
+  for (const cell of Object.values(sheet.cells)) {
+    // Spilled values are left behind, keeping only their formatting; their formulas spill again
+    if (cell.spillAnchor && !cell.style) continue
+    const row = change.axis === 'rows' ? mapLineIndex(change, cell.row) : cell.row
+    const col = change.axis === 'columns' ? mapLineIndex(change, cell.col) : cell.col
+    if (row === null || col === null || row >= MAX_ROWS || col >= MAX_COLS) continue
+
+    const id = getCellId(row, col)
+    const kept: Cell = cell.spillAnchor ? { id, row, col, value: '', type: 'text', style: cell.style } : { ...cell, id, row, col }
+    shifted[id] = adjustCell(kept, true)
+  }
+
+  // Resized lines keep their size wherever they move to
+  const shiftSizes = (sizes: Record<number, number> | undefined) => {
+    if (!sizes) return sizes
+    const shiftedSizes: Record<number, number> = {}
+    for (const [index, size] of Object.entries(sizes)) {
+      const moved = mapLineIndex(change, Number(index))
+      if (moved !== null) shiftedSizes[moved] = size
+    }
+    return shiftedSizes
+  }
+
+  const growth = change.kind === 'insert' ? change.count : change.kind === 'delete' ? -change.count : 0
+  const sheets = workbook.sheets.map(current => {
+    if (current.id !== sheetId) {
+      const cells = Object.fromEntries(Object.entries(current.cells).map(([id, cell]) => [id, adjustCell(cell, false)]))
+      return { ...current, cells }
+    }
+    return {
+      ...current,
+      cells: shifted,
+      rows: change.axis === 'rows' ? Math.min(MAX_ROWS, Math.max(1, current.rows + growth)) : current.rows,
+      cols: change.axis === 'columns' ? Math.min(MAX_COLS, Math.max(1, current.cols + growth)) : current.cols,
+      rowHeights: change.axis === 'rows' ? shiftSizes(current.rowHeights) : current.rowHeights,
+      columnWidths: change.axis === 'columns' ? shiftSizes(current.columnWidths) : current.columnWidths,
+      updatedAt: new Date()
+    }
+  })
+
+  return {
+    ...touch(workbook, sheets),
+    definedNames: workbook.definedNames.map(definedName => ({
+      ...definedName,
+      formula: adjust(definedName.formula, definedName.scope === sheetId)
+    })),
+    namedFunctions: workbook.namedFunctions.map(fn => ({ ...fn, formula: adjust(fn.formula, false) }))
+  }
+}
+
+// Copies a sheet's cells, colour and local names into a new sheet placed after it
+export const duplicateSheet = (workbook: Workbook, sheetId: string): { workbook: Workbook; sheet: SpreadsheetData } | null => {
+  const index = workbook.sheets.findIndex(sheet => sheet.id === sheetId)
+  if (index === -1) return null
+  const source = workbook.sheets[index]
+
+  let n = 2
+  while (findSheetByName(workbook, `${source.name} (${n})`)) n++
+  const copy = {
+    ...createSheet(`${source.name} (${n})`, { ...source.cells }),
+    rows: source.rows,
+    cols: source.cols,
+    columnWidths: source.columnWidths,
+    rowHeights: source.rowHeights,
+    color: source.color
+  }
+
+  const sheets = [...workbook.sheets]
+  sheets.splice(index + 1, 0, copy)
+  const localNames = workbook.definedNames
+    .filter(definedName => definedName.scope === sheetId)
+    .map(definedName => ({ ...definedName, scope: copy.id }))
+
+  return {
+    workbook: { ...touch(workbook, sheets), definedNames: [...workbook.definedNames, ...localNames] },
+    sheet: copy
+  }
+}
+
+// The last sheet cannot be deleted; the sheet's local names go with it
+export const deleteSheet = (workbook: Workbook, sheetId: string): Workbook => {
+  if (workbook.sheets.length <= 1) return workbook
+  return {
+    ...touch(workbook, workbook.sheets.filter(sheet => sheet.id !== sheetId)),
+    definedNames: workbook.definedNames.filter(definedName => definedName.scope !== sheetId)
+  }
+}
+
+export const moveSheet = (workbook: Workbook, sheetId: string, toIndex: number): Workbook => {
+  const sheet = getSheet(workbook, sheetId)
+  if (!sheet) return workbook
+  const sheets = workbook.sheets.filter(current => current.id !== sheetId)
+  sheets.splice(Math.max(0, Math.min(toIndex, sheets.length)), 0, sheet)
+  return touch(workbook, sheets)
+}